@@ -66,6 +66,11 @@ const nextConfig = {
         protocol: 'https',
         hostname: '**.botb.com',
       },
+      {
+        protocol: 'https',
+        hostname: '**.supabase.co',
+        pathname: '/storage/v1/object/public/**',
+      },
     ],
   },
 };
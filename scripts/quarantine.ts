@@ -0,0 +1,53 @@
+/**
+ * Review scraped records held back by the quarantine rules.
+ * Run:
+ *   npm run quarantine                   # list pending records
+ *   npm run quarantine -- release <id>   # persist the scraped values
+ *   npm run quarantine -- reject <id>    # discard them
+ */
+import dotenv from 'dotenv';
+import path from 'path';
+
+dotenv.config({ path: path.resolve(process.cwd(), '.env.local') });
+dotenv.config({ path: path.resolve(process.cwd(), '.env') });
+
+import { createServiceClient } from '../src/lib/supabase';
+import { listQuarantine, rejectQuarantined, releaseQuarantined } from '../src/scrapers/quarantine';
+
+async function main() {
+  const [command = 'list', id] = process.argv.slice(2);
+  const supabase = createServiceClient();
+
+  if (command === 'list') {
+    const records = await listQuarantine(supabase);
+    if (records.length === 0) {
+      console.log('No records in quarantine');
+      return;
+    }
+    for (const r of records) {
+      console.log(`${r.id}  ${r.created_at.slice(0, 16)}  ${r.source}  ${r.raffle_id ? 'update' : 'new'}  ${r.external_id}`);
+      console.log(`    ${String(r.payload.title ?? '')}`);
+      console.log(`    ${r.reasons.join('; ')}`);
+    }
+    console.log(`\n${records.length} pending`);
+    return;
+  }
+
+  if ((command !== 'release' && command !== 'reject') || !id) {
+    console.error('Usage: npm run quarantine -- [list | release <id> | reject <id>]');
+    process.exit(1);
+  }
+
+  if (command === 'release') {
+    await releaseQuarantined(supabase, id);
+    console.log(`Released ${id}`);
+  } else {
+    await rejectQuarantined(supabase, id);
+    console.log(`Rejected ${id}`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,66 @@
+/**
+ * Record / Replay Scraper Fixtures
+ *
+ * Records every listing/detail response a scraper loads into
+ * src/scrapers/__tests__/fixtures/{site-slug}/ so the same run can be
+ * replayed offline in vitest. Does NOT persist to Supabase.
+ *
+ * Usage:
+ *   npm run fixtures:record -- --site=rev-comps            # record full scrape
+ *   npm run fixtures:record -- --site=rev-comps --quick    # record quick update
+ *   npm run fixtures:record -- --site=rev-comps --replay   # replay + print summary
+ */
+import { getAllScrapers, createBrowser, createContext } from '../src/scrapers/run-all';
+import { FixtureStore, fixtureDir, useFixtures } from '../src/scrapers/fixtures';
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const siteArg = args.find(a => a.startsWith('--site='));
+  const siteSlug = siteArg?.split('=')[1];
+  const quick = args.includes('--quick');
+  const mode = args.includes('--replay') ? 'replay' : 'record';
+
+  const scraper = getAllScrapers().find(s => s.siteSlug === siteSlug);
+  if (!scraper) {
+    console.error(`No scraper found for slug "${siteSlug ?? ''}"`);
+    console.error(`Available: ${getAllScrapers().map(s => s.siteSlug).join(', ')}`);
+    process.exit(1);
+  }
+
+  const store = new FixtureStore(fixtureDir(scraper.siteSlug));
+  const browser = await createBrowser();
+
+  try {
+    const context = await createContext(browser);
+    await useFixtures(scraper, context, store, mode);
+
+    console.log(`[Fixtures] ${mode === 'record' ? 'Recording' : 'Replaying'} ${quick ? 'quick update' : 'full scrape'} for ${scraper.name}...`);
+
+    if (quick) {
+      const result = await scraper.quickUpdate(context);
+      console.log(`[Fixtures] ${result.updates.length} updates, ${result.errors.length} errors`);
+    } else {
+      const result = await scraper.scrape(context);
+      console.log(`[Fixtures] ${result.raffles.length} raffles, ${result.errors.length} errors`);
+      for (const raffle of result.raffles.slice(0, 5)) {
+        console.log(`  ${raffle.externalId}: ${raffle.title}`);
+      }
+    }
+
+    await context.close();
+  } finally {
+    await browser.close();
+  }
+
+  if (mode === 'record') {
+    store.save();
+    console.log(`[Fixtures] Saved ${store.size} responses to ${store.dir}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Fatal:', error);
+    process.exit(1);
+  });
@@ -2,7 +2,9 @@
  * Persistent Scraper Service
  *
  * Runs as a long-lived process on the DigitalOcean droplet.
- * Keeps a Chromium browser instance alive and runs scrapes on schedule.
+ * Keeps a Chromium browser instance alive and works the scrape job queue
+ * (src/scrapers/job-queue.ts): per-site full / quick schedules, one job per
+ * site at a time, retries with backoff.
  *
  * Managed by PM2:
  *   pm2 start ecosystem.config.js
@@ -16,13 +18,32 @@ import path from 'path';
 dotenv.config({ path: path.resolve(process.cwd(), '.env.local') });
 dotenv.config({ path: path.resolve(process.cwd(), '.env') });
 import cron from 'node-cron';
+import type { Server } from 'http';
 import { chromium, Browser } from 'playwright';
-import { runAllScrapers, cleanupExpiredRaffles } from '../src/scrapers/run-all';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { runAllScrapers, runEndingSoonLane, cleanupExpiredRaffles, getAllScrapers } from '../src/scrapers/run-all';
+import {
+  MANUAL_PRIORITY,
+  ScrapeJob,
+  ScrapeMode,
+  claimJob,
+  countDoneJobs,
+  enqueueDueJobs,
+  enqueueJob,
+  failInterruptedJobs,
+  finishJob,
+  jobError,
+  pruneJobs,
+  requeueJob,
+} from '../src/scrapers/job-queue';
+import { endingLaneConfig } from '../src/scrapers/ending-soon';
+import { ServiceStats } from '../src/scrapers/service-status';
+import { DEFAULT_CONTROL_PORT, createControlServer } from '../src/scrapers/control-server';
 import * as Sentry from '@sentry/node';
 import { initSentry } from '../src/lib/sentry';
+import { createServiceClient } from '../src/lib/supabase';
 
 let browser: Browser | null = null;
-let isRunning = false;
 
 // ============================================
 // Browser lifecycle
@@ -58,84 +79,201 @@ async function ensureBrowser(): Promise<Browser> {
 }
 
 // ============================================
-// Job runners with lock to prevent overlap
+// Job queue worker
 // ============================================
 
-const JOB_TIMEOUT_MS: Record<string, number> = {
-  'Full Scrape': 45 * 60 * 1000,   // 45 minutes max (supports 9 scrapers at concurrency 3)
-  'Quick Update': 20 * 60 * 1000,  // 20 minutes max (supports 9 scrapers at concurrency 2)
-  'Cleanup': 5 * 60 * 1000,        // 5 minutes max
+/** Jobs run at once, each on a different site — bounded by the droplet's memory */
+const MAX_CONCURRENT_JOBS = 3;
+
+/** How often to look for due jobs when nothing has just finished */
+const POLL_INTERVAL_MS = 15_000;
+
+const JOB_TIMEOUT_MS: Record<ScrapeMode, number> = {
+  full: 15 * 60 * 1000,   // run-all gives each scraper 10m, plus images / verification / results
+  quick: 5 * 60 * 1000,
+  ending: 3 * 60 * 1000,
 };
 
-async function runWithLock(jobName: string, fn: () => Promise<void>): Promise<void> {
-  if (isRunning) {
-    console.log(`[Service] Skipping ${jobName} — another job is still running`);
-    return;
-  }
+const JOB_LABELS: Record<ScrapeMode, string> = {
+  full: 'Full scrape',
+  quick: 'Quick update',
+  ending: 'Ending-soon refresh',
+};
+
+/**
+ * After a timeout the job's contexts are closed and we wait for it to stop.
+ * If it still hasn't after this long, the shared browser is restarted —
+ * and the other jobs running on it are re-queued without losing an attempt.
+ */
+const ABORT_GRACE_MS = 2 * 60 * 1000;
+
+const CLEANUP_TIMEOUT_MS = 5 * 60 * 1000;
 
-  isRunning = true;
-  console.log(`[Service] Starting ${jobName}...`);
+/** Finished jobs are kept this long */
+const JOB_RETENTION_DAYS = 7;
 
-  const timeoutMs = JOB_TIMEOUT_MS[jobName] ?? 20 * 60 * 1000;
+let supabase: SupabaseClient;
+const stats = new ServiceStats();
+const running = stats.running;
+let polling = false;
+let stopping = false;
 
+/** Running jobs whose browser was restarted under them by another job's timeout */
+const browserRestartedUnder = new Set<string>();
+
+async function withTimeout<T>(label: string, timeoutMs: number, fn: () => Promise<T>): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
   try {
-    await Promise.race([
+    return await Promise.race([
       fn(),
-      new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error(`${jobName} timed out after ${Math.round(timeoutMs / 60000)}m`)), timeoutMs)
-      ),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`${label} timed out after ${Math.round(timeoutMs / 60000)}m`)), timeoutMs);
+      }),
     ]);
-    console.log(`[Service] ${jobName} complete`);
-  } catch (error) {
-    const msg = error instanceof Error ? error.message : String(error);
-    console.error(`[Service] ${jobName} failed: ${msg}`);
-
-    // If timed out, kill the browser to clean up hung pages
-    if (msg.includes('timed out')) {
-      console.warn('[Service] Killing browser to recover from timeout...');
-      if (browser) {
-        await browser.close().catch(() => {});
-        browser = null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run a job with a deadline. On timeout the run is aborted — its browser
+ * contexts close, so in-flight pages fail — but the job keeps its site lock
+ * until the run has actually returned, so a retry can't overlap it. A run
+ * still going ABORT_GRACE_MS later is stopped by restarting the browser,
+ * which takes the other running jobs' pages with it; they're marked so
+ * runJob re-queues them rather than counting the failure.
+ */
+async function runWithDeadline<T>(job: ScrapeJob, label: string, timeoutMs: number, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  let grace: NodeJS.Timeout | undefined;
+  const timer = setTimeout(() => {
+    console.warn(`[Service] ${label} timed out — aborting`);
+    controller.abort();
+    grace = setTimeout(() => {
+      console.warn(`[Service] ${label} still running — restarting the browser`);
+      for (const id of Array.from(running.keys())) {
+        if (id !== job.id) browserRestartedUnder.add(id);
       }
-    }
+      browser?.close().catch(() => {});
+      browser = null;
+    }, ABORT_GRACE_MS);
+  }, timeoutMs);
+
+  const timedOut = () => new Error(`${label} timed out after ${Math.round(timeoutMs / 60000)}m`);
+  let result: T;
+  try {
+    result = await fn(controller.signal);
+  } catch (err) {
+    throw controller.signal.aborted ? timedOut() : err;
   } finally {
-    isRunning = false;
+    clearTimeout(timer);
+    clearTimeout(grace);
   }
+  if (controller.signal.aborted) throw timedOut();
+  return result;
 }
 
-async function fullScrape(): Promise<void> {
-  const checkInId = Sentry.captureCheckIn(
-    { monitorSlug: 'scraper-full-run', status: 'in_progress' },
-    {
-      schedule: { type: 'crontab', value: '0 */3 * * *' },
-      checkinMargin: 30,
-      maxRuntime: 45,
-      timezone: 'Europe/London',
-    }
-  );
+async function runJob(job: ScrapeJob): Promise<void> {
+  const label = `${JOB_LABELS[job.mode]} ${job.siteSlug}`;
+  console.log(`[Service] Starting ${label} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  const start = Date.now();
+  let error: string | null;
   try {
-    await runWithLock('Full Scrape', async () => {
+    const runs = await runWithDeadline(job, label, JOB_TIMEOUT_MS[job.mode], async (signal) => {
       const b = await ensureBrowser();
-      await runAllScrapers({ browser: b, concurrency: 3 });
-      await cleanupExpiredRaffles();
+      return job.mode === 'ending'
+        ? runEndingSoonLane({ browser: b, siteSlug: job.siteSlug, signal })
+        : runAllScrapers({ browser: b, siteSlug: job.siteSlug, quick: job.mode === 'quick', signal });
     });
-    Sentry.captureCheckIn({ monitorSlug: 'scraper-full-run', status: 'ok', checkInId });
-  } catch {
-    Sentry.captureCheckIn({ monitorSlug: 'scraper-full-run', status: 'error', checkInId });
+    stats.recordRuns(job.mode, runs);
+    error = jobError(runs);
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+    // Timed out or crashed before returning runs — still count it against the site
+    stats.recordRuns(job.mode, [{
+      siteSlug: job.siteSlug,
+      status: 'failed',
+      itemsFound: 0,
+      itemsNew: 0,
+      itemsUpdated: 0,
+      errorMessage: error,
+      durationMs: Date.now() - start,
+    }]);
+  }
+
+  // Failed because another job's timeout restarted the browser: run it again
+  const interrupted = browserRestartedUnder.delete(job.id);
+  if (error && interrupted) {
+    const status = await requeueJob(job, `Browser restarted: ${error}`, supabase);
+    console.warn(`[Service] ${label} interrupted by a browser restart (${status ?? 'unknown'}): ${error}`);
+    return;
+  }
+
+  const status = await finishJob(job, error, supabase);
+  if (error) {
+    console.error(`[Service] ${label} failed (${status ?? 'unknown'}): ${error}`);
+  } else {
+    console.log(`[Service] ${label} complete`);
   }
 }
 
-async function quickUpdate(): Promise<void> {
-  await runWithLock('Quick Update', async () => {
-    const b = await ensureBrowser();
-    await runAllScrapers({ quick: true, browser: b, concurrency: 2 });
-  });
+/** Claim due jobs until MAX_CONCURRENT_JOBS are running. The queue enforces one job per site. */
+async function pollQueue(): Promise<void> {
+  if (polling || stopping) return;
+  polling = true;
+  try {
+    while (running.size < MAX_CONCURRENT_JOBS) {
+      const job = await claimJob(supabase);
+      if (!job) break;
+      stats.jobStarted(job);
+      runJob(job).finally(() => {
+        stats.jobFinished(job);
+        pollQueue();
+      });
+    }
+  } finally {
+    polling = false;
+  }
 }
 
+/** Queue whatever is due for every site we have a scraper for */
+async function scheduleJobs(): Promise<void> {
+  const queued = await enqueueDueJobs(getAllScrapers().map((s) => s.siteSlug), supabase);
+  if (queued > 0) console.log(`[Service] Queued ${queued} job(s)`);
+  await pollQueue();
+}
+
+let cleaning = false;
+
 async function cleanup(): Promise<void> {
-  await runWithLock('Cleanup', async () => {
-    await cleanupExpiredRaffles();
-  });
+  if (cleaning) return;
+  cleaning = true;
+  try {
+    await withTimeout('Cleanup', CLEANUP_TIMEOUT_MS, cleanupExpiredRaffles);
+    const pruned = await pruneJobs(JOB_RETENTION_DAYS, supabase);
+    if (pruned > 0) console.log(`[Service] Pruned ${pruned} old jobs`);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error(`[Service] Cleanup failed: ${msg}`);
+  } finally {
+    cleaning = false;
+  }
+}
+
+/** Sentry heartbeat — ok when at least one full scrape job finished since the previous tick */
+async function heartbeat(): Promise<void> {
+  const since = new Date(Date.now() - (3 * 60 + 30) * 60 * 1000);
+  const fullRuns = await countDoneJobs('full', since, supabase);
+  Sentry.captureCheckIn(
+    { monitorSlug: 'scraper-full-run', status: fullRuns > 0 ? 'ok' : 'error' },
+    {
+      schedule: { type: 'crontab', value: '0 */3 * * *' },
+      checkinMargin: 30,
+      maxRuntime: 45,
+      timezone: 'Europe/London',
+    }
+  );
 }
 
 // ============================================
@@ -143,21 +281,61 @@ async function cleanup(): Promise<void> {
 // ============================================
 
 function startSchedule(): void {
-  console.log('[Service] Setting up cron schedules...');
+  console.log('[Service] Setting up schedules...');
 
-  // Full scrape every 3 hours — cleanup runs at the end of each full scrape
-  cron.schedule('0 */3 * * *', () => {
-    fullScrape();
+  // Queue due jobs every minute; each site has its own full / quick interval
+  cron.schedule('* * * * *', () => {
+    scheduleJobs();
   }, { timezone: 'Europe/London' });
 
-  // Quick update every 20 minutes
-  cron.schedule('*/20 * * * *', () => {
-    quickUpdate();
+  // Cleanup and heartbeat every 3 hours
+  cron.schedule('0 */3 * * *', async () => {
+    await cleanup();
+    await heartbeat();
   }, { timezone: 'Europe/London' });
 
+  // Pick up retries whose backoff has passed
+  setInterval(() => {
+    pollQueue();
+  }, POLL_INTERVAL_MS);
+
   console.log('[Service] Schedules active:');
-  console.log('  - Full scrape:   every 3 hours (concurrency 3, timeout 45m; cleanup runs after each)');
-  console.log('  - Quick update:  every 20 minutes (concurrency 2, timeout 20m)');
+  console.log('  - Job queue:     due jobs queued every minute (sites.full_interval_minutes / quick_interval_minutes)');
+  const lane = endingLaneConfig();
+  console.log(`  - Ending soon:   every ${lane.intervalMinutes}m for sites with raffles closing within ${lane.windowMinutes}m`);
+  console.log(`  - Workers:       ${MAX_CONCURRENT_JOBS} jobs at once, one per site; retries with backoff`);
+  console.log('  - Cleanup:       every 3 hours');
+}
+
+// ============================================
+// Control server (/health, /metrics, POST /run)
+// ============================================
+
+let controlServer: Server | null = null;
+
+function startControlServer(): void {
+  const port = Number(process.env.SERVICE_HTTP_PORT) || DEFAULT_CONTROL_PORT;
+  const host = process.env.SERVICE_HTTP_HOST || '127.0.0.1';
+  const token = process.env.SERVICE_CONTROL_TOKEN || undefined;
+
+  controlServer = createControlServer({
+    stats,
+    isBrowserConnected: () => browser?.isConnected() ?? false,
+    siteSlugs: getAllScrapers().map((s) => s.siteSlug),
+    token,
+    enqueue: async (siteSlug, mode) => {
+      const jobId = await enqueueJob(siteSlug, mode, MANUAL_PRIORITY, supabase);
+      if (jobId) pollQueue();
+      return jobId;
+    },
+  });
+
+  controlServer.on('error', (error) => {
+    console.error(`[Service] Control server error: ${error.message}`);
+  });
+  controlServer.listen(port, host, () => {
+    console.log(`[Service] Control server on http://${host}:${port} (POST /run ${token ? 'enabled' : 'disabled — no SERVICE_CONTROL_TOKEN'})`);
+  });
 }
 
 // ============================================
@@ -166,6 +344,8 @@ function startSchedule(): void {
 
 async function shutdown(signal: string): Promise<void> {
   console.log(`[Service] Received ${signal}, shutting down...`);
+  stopping = true;
+  controlServer?.close();
 
   if (browser) {
     await browser.close().catch(() => {});
@@ -213,19 +393,23 @@ async function main(): Promise<void> {
   }
 
   initSentry(process.env.SENTRY_DSN);
+  supabase = createServiceClient();
 
   // Launch browser
   await ensureBrowser();
+  startControlServer();
+
+  // Jobs still marked running belong to the previous process
+  const interrupted = await failInterruptedJobs(supabase);
+  if (interrupted > 0) console.log(`[Service] Released ${interrupted} interrupted job(s)`);
 
-  // Clean up stale raffles immediately on startup, before waiting for the first full scrape
+  // Clean up stale raffles immediately on startup
   console.log('[Service] Running startup cleanup...');
   await cleanup();
 
-  // Run initial full scrape on startup (cleanup will also run at the end of this)
-  console.log('[Service] Running initial full scrape...');
-  await fullScrape();
+  // Queue whatever is due — after a restart, only sites whose interval has passed
+  await scheduleJobs();
 
-  // Start cron schedule
   startSchedule();
 
   console.log('\n[Service] Service is running. Press Ctrl+C to stop.\n');
@@ -11,6 +11,7 @@
 import { chromium, Browser, BrowserContext } from 'playwright';
 import { getAllScrapers } from '../src/scrapers/run-all';
 import { classifyPrizeType, classifyCarCategory, parseCashFromTitle } from '../src/lib/utils';
+import { computeCoverage, computeSanityChecks, FieldCoverage } from '../src/scrapers/quality-metrics';
 import type { ScrapedRaffle, ScraperResult } from '../src/scrapers/base';
 
 // ============================================
@@ -33,7 +34,7 @@ interface ValidationReport {
   errorCount: number;
   criticalChecks: CheckResult[];
   qualityChecks: CheckResult[];
-  coverage: Record<string, { count: number; total: number; percent: number }>;
+  coverage: Record<string, FieldCoverage>;
   classification: Record<string, number>;
   valueScoreCount: number;
   overallResult: 'PASS' | 'FAIL';
@@ -195,38 +196,15 @@ function runQualityChecks(raffles: ScrapedRaffle[]): CheckResult[] {
   );
   checkField('percentSold', r => r.percentSold != null && r.percentSold >= 0 && r.percentSold <= 100);
 
-  return checks;
-}
-
-function computeCoverage(raffles: ScrapedRaffle[]): Record<string, { count: number; total: number; percent: number }> {
-  const total = raffles.length;
-  if (total === 0) return {};
-
-  const fields: Record<string, (r: ScrapedRaffle) => boolean> = {
-    ticketPrice: r => r.ticketPrice != null && r.ticketPrice > 0,
-    totalTickets: r => r.totalTickets != null && r.totalTickets > 0,
-    imageUrl: r => !!r.imageUrl,
-    endDate: r => r.endDate != null,
-    cashAlternative: r => r.cashAlternative != null && r.cashAlternative > 0,
-    prizeValue: r => r.prizeValue != null && r.prizeValue > 0,
-    percentSold: r => r.percentSold != null,
-    ticketsSold: r => r.ticketsSold != null,
-  };
-
-  const coverage: Record<string, { count: number; total: number; percent: number }> = {};
-  for (const [field, pred] of Object.entries(fields)) {
-    const count = raffles.filter(pred).length;
-    coverage[field] = { count, total, percent: Math.round((count / total) * 100) };
+  // Same sanity checks the production pipeline records in scrape_quality
+  for (const [name, { count, examples }] of Object.entries(computeSanityChecks(raffles))) {
+    if (name === 'totalTicketsChanged') continue;   // needs stored data
+    checks.push(count === 0
+      ? { level: 'PASS', message: `${name}: none` }
+      : { level: 'WARN', message: `${name}: ${count}`, details: examples.map(id => `  on: "${id}"`) });
   }
 
-  // Value Score calculability
-  const valueScoreCount = raffles.filter(r => {
-    const value = r.prizeValue || r.cashAlternative;
-    return value && value > 0 && r.totalTickets && r.totalTickets > 0 && r.ticketPrice && r.ticketPrice > 0;
-  }).length;
-  coverage['Value Score'] = { count: valueScoreCount, total, percent: Math.round((valueScoreCount / total) * 100) };
-
-  return coverage;
+  return checks;
 }
 
 function computeClassification(raffles: ScrapedRaffle[]): Record<string, number> {
@@ -364,7 +342,7 @@ async function validateScraper(
   const criticalFailures = criticalChecks.filter(c => c.level === 'FAIL').length;
   const warnings = qualityChecks.filter(c => c.level === 'WARN').length;
 
-  const valueScoreCount = coverage['Value Score']?.count ?? 0;
+  const valueScoreCount = coverage.valueScore?.count ?? 0;
 
   const report: ValidationReport = {
     scraperName: scraper.name,
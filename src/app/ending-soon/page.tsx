@@ -19,8 +19,8 @@ export const metadata: Metadata = {
   },
 };
 
-// Revalidate every 5 minutes
-export const revalidate = 300;
+// Revalidate every minute — the ending-soon lane refreshes closing raffles every few minutes
+export const revalidate = 60;
 
 async function fetchEndingSoonRaffles() {
   const supabase = createBrowserClient();
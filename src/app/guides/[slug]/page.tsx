@@ -7,6 +7,7 @@ import { getReview } from '@/lib/reviews';
 import { BreadcrumbJsonLd, ArticleJsonLd, FaqJsonLd } from '@/components/json-ld';
 import { AuthorByline } from '@/components/AuthorByline';
 import { FreeEntrySitesTable } from '@/components/free-entry-sites-table';
+import { WinnerStatsTable } from '@/components/winner-stats-table';
 
 export const revalidate = 86400;
 
@@ -74,7 +75,7 @@ export default function GuidePage({ params }: PageProps) {
       <article className="prose-custom space-y-4">
         <h1 className="text-3xl font-bold text-slate-900 tracking-tight">{meta.title}</h1>
         <AuthorByline lastUpdated={meta.lastUpdated} />
-        <MDXRemote source={content} components={{ FreeEntrySitesTable }} />
+        <MDXRemote source={content} components={{ FreeEntrySitesTable, WinnerStatsTable }} />
       </article>
 
       {/* FAQ — visible on page, mirrors FaqJsonLd */}
@@ -83,6 +83,11 @@ export default async function InsightsHubPage() {
               {meta.active_competition_count.toLocaleString()}
             </p>
             <p className="text-sm text-slate-500 mt-1">Live competitions</p>
+            {meta.distinct_prize_count < meta.active_competition_count && (
+              <p className="text-xs text-slate-400">
+                {meta.distinct_prize_count.toLocaleString()} distinct prizes
+              </p>
+            )}
           </div>
           <div className="rounded-xl border border-slate-200 p-4 text-center">
             <p className="text-sm font-semibold text-slate-900 leading-tight">
@@ -75,6 +75,14 @@ export default function MethodologyPage() {
             depend on how many entries are submitted, which varies. We don&apos;t show a &quot;1 in X&quot;
             figure for those.
           </p>
+          <p className="text-slate-700 leading-relaxed mt-3">
+            Every site also caps how many tickets one person can buy. Where we know the cap, we
+            show the best odds you could get by buying the maximum, and the &ldquo;Best Odds&rdquo;
+            sort uses that figure:
+          </p>
+          <div className="bg-slate-50 border border-slate-200 rounded-xl p-5 text-sm font-mono text-slate-700 mt-3">
+            best odds = 1 in (total_tickets ÷ max_per_person)
+          </div>
         </section>
 
         {/* Value score */}
@@ -93,6 +101,18 @@ export default function MethodologyPage() {
             revenue if every ticket sells — perfect value, in theory. In practice, most draws
             sit below 1.0 (the operator needs margin). Higher is better.
           </p>
+          <p className="text-slate-700 leading-relaxed mb-3">
+            prize_value is normally the value the site claims. For cars, we also estimate a
+            realistic retail value from the make, model, year and mileage using our own
+            price reference table. When a site doesn&apos;t state a value, or claims more than
+            25% above our estimate, the score uses our estimate instead, and the card flags the
+            difference.
+          </p>
+          <p className="text-slate-700 leading-relaxed mb-3">
+            Where a site sells bundles (&ldquo;5 for £4&rdquo;), ticket_price is what you&apos;d
+            actually pay per ticket when buying 10 — the cheapest mix of bundles and single
+            tickets. The same effective price drives the &ldquo;Lowest Price&rdquo; sort.
+          </p>
           <p className="text-slate-700 leading-relaxed mb-3">
             We display this on a 0–100 scale using a square-root curve, which spreads scores
             more evenly and stops outliers dominating:
@@ -6,6 +6,7 @@ import { ExternalLink, Star, Shield, Building2 } from 'lucide-react';
 import { MDXRemote } from 'next-mdx-remote/rsc';
 import { getReview, getAllSlugs } from '@/lib/reviews';
 import { RaffleWidget } from '@/components/sites/RaffleWidget';
+import { DrawResultsWidget } from '@/components/sites/DrawResultsWidget';
 import { BreadcrumbJsonLd, ReviewJsonLd } from '@/components/json-ld';
 import { AuthorByline } from '@/components/AuthorByline';
 import { FreeEntryCard } from '@/components/free-entry-card';
@@ -120,6 +121,9 @@ export default function SiteReviewPage({ params }: PageProps) {
       {/* Raffle widget */}
       <RaffleWidget siteSlug={meta.slug} />
 
+      {/* Draw results */}
+      <DrawResultsWidget siteSlug={meta.slug} />
+
       {/* Free entry details */}
       <FreeEntryCard siteSlug={meta.slug} />
 
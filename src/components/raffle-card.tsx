@@ -8,12 +8,14 @@ import { Button } from '@/components/ui/button';
 import { SiteBadge } from './site-badge';
 import { ProgressBar } from './progress-bar';
 import { CountdownTimer } from './countdown-timer';
-import { formatPence, formatOdds, getValueScore100, formatValueScore, getValueScoreLabel } from '@/lib/utils';
+import { formatPence, formatOdds, getValueScore100, formatValueScore, getValueScoreLabel, isInflatedClaim } from '@/lib/utils';
 import type { Raffle } from '@/lib/types';
 
 interface RaffleCardProps {
   raffle: Raffle;
   priority?: boolean;
+  /** Same prize on another site with better odds (findBetterOddsListing) */
+  betterOdds?: Raffle | null;
 }
 
 function getCategoryLabel(category: string | null): string | null {
@@ -32,7 +34,7 @@ function isNew(createdAt: string): boolean {
   return diff < 24 * 60 * 60 * 1000;
 }
 
-export function RaffleCard({ raffle, priority = false }: RaffleCardProps) {
+export function RaffleCard({ raffle, priority = false, betterOdds }: RaffleCardProps) {
   const siteName = raffle.site?.name ?? 'Unknown Site';
   const categoryLabel = getCategoryLabel(raffle.car_category ?? raffle.prize_type);
   const endingSoon = isEndingSoon(raffle.end_date);
@@ -40,6 +42,9 @@ export function RaffleCard({ raffle, priority = false }: RaffleCardProps) {
   const [imgState, setImgState] = useState<'optimized' | 'unoptimized' | 'failed'>('optimized');
   const valueScore = getValueScore100(raffle);
   const vsLabel = getValueScoreLabel(valueScore);
+  const bundlePrice = raffle.price_tiers?.length
+    ? Math.min(...raffle.price_tiers.map((t) => Math.round(t.price / t.quantity)))
+    : null;
 
   return (
     <div className="bg-white border border-slate-200 rounded-xl shadow-sm hover:shadow-md hover:-translate-y-0.5 transition-all duration-200 overflow-hidden flex flex-col">
@@ -91,6 +96,11 @@ export function RaffleCard({ raffle, priority = false }: RaffleCardProps) {
               New
             </Badge>
           )}
+          {raffle.instant_wins_remaining != null && raffle.instant_wins_remaining > 0 && (
+            <Badge className="text-[10px] px-1.5 py-0 h-5 bg-violet-100 text-violet-700 border-0 hover:bg-violet-100">
+              {raffle.instant_wins_remaining} Instant {raffle.instant_wins_remaining === 1 ? 'Win' : 'Wins'} Left
+            </Badge>
+          )}
         </div>
 
         {/* Title */}
@@ -106,6 +116,11 @@ export function RaffleCard({ raffle, priority = false }: RaffleCardProps) {
             <p className="text-sm font-bold text-slate-800 tabular-nums">
               {formatPence(raffle.ticket_price)}
             </p>
+            {bundlePrice != null && (
+              <p className="text-[10px] text-emerald-600">
+                from {formatPence(bundlePrice)} in bundles
+              </p>
+            )}
           </div>
 
           {/* Odds */}
@@ -117,6 +132,11 @@ export function RaffleCard({ raffle, priority = false }: RaffleCardProps) {
                 : <span className="text-slate-400">N/A</span>
               }
             </p>
+            {raffle.best_odds_ratio != null && raffle.max_per_person != null && (
+              <p className="text-[10px] text-slate-500" title={`Best odds buying the ${raffle.max_per_person}-ticket maximum`}>
+                Best {formatOdds(raffle.best_odds_ratio)} (max {raffle.max_per_person})
+              </p>
+            )}
           </div>
 
           {/* Ends in */}
@@ -159,6 +179,32 @@ export function RaffleCard({ raffle, priority = false }: RaffleCardProps) {
           </p>
         )}
 
+        {/* Claimed value well above our estimate */}
+        {isInflatedClaim(raffle.prize_value, raffle.estimated_value) && (
+          <p className="text-xs text-amber-600 mb-3">
+            Claimed {formatPence(raffle.prize_value)} — we estimate{' '}
+            <span className="font-medium">{formatPence(raffle.estimated_value)}</span>
+          </p>
+        )}
+
+        {/* Same prize elsewhere with better odds */}
+        {betterOdds && (
+          <p className="text-xs text-emerald-700 mb-3">
+            Same prize at{' '}
+            <a href={betterOdds.source_url} target="_blank" rel="noopener noreferrer" className="font-medium underline">
+              {betterOdds.site?.name ?? 'another site'}
+            </a>{' '}
+            with better odds ({formatOdds(betterOdds.total_tickets)})
+          </p>
+        )}
+
+        {/* Runner-up tiers */}
+        {raffle.runner_up_value != null && raffle.runner_up_value > 0 && (
+          <p className="text-xs text-slate-500 mb-3">
+            Plus <span className="font-medium text-slate-700">{formatPence(raffle.runner_up_value)}</span> in runner-up prizes
+          </p>
+        )}
+
         {/* CTA — pushed to bottom */}
         <div className="mt-auto">
           <a
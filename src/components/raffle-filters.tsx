@@ -13,7 +13,7 @@ import {
 } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { CategoryPills } from './category-pills';
-import { getValueScore } from '@/lib/utils';
+import { getValueScore, effectiveTicketPrice } from '@/lib/utils';
 import { RaffleGrid } from './raffle-grid';
 import { RaffleEmptyState } from './raffle-empty-state';
 import { cn, formatPence } from '@/lib/utils';
@@ -159,15 +159,19 @@ export function RaffleFilters({ raffles, initialCategory, sites }: RaffleFilters
           return scoreB - scoreA;
         }
         case 'best-odds': {
-          // Lowest odds first, nulls last
-          if (a.total_tickets == null && b.total_tickets == null) return 0;
-          if (a.total_tickets == null) return 1;
-          if (b.total_tickets == null) return -1;
-          return a.total_tickets - b.total_tickets;
+          // Lowest odds first, nulls last — best odds one person can get
+          // (at the per-person cap) where known, else per-ticket odds
+          const oddsA = a.best_odds_ratio ?? a.total_tickets;
+          const oddsB = b.best_odds_ratio ?? b.total_tickets;
+          if (oddsA == null && oddsB == null) return 0;
+          if (oddsA == null) return 1;
+          if (oddsB == null) return -1;
+          return oddsA - oddsB;
         }
         case 'lowest-price': {
-          const priceA = a.ticket_price ?? Infinity;
-          const priceB = b.ticket_price ?? Infinity;
+          // Per-ticket price after bundle discounts
+          const priceA = effectiveTicketPrice(a.ticket_price, a.price_tiers) ?? Infinity;
+          const priceB = effectiveTicketPrice(b.ticket_price, b.price_tiers) ?? Infinity;
           return priceA - priceB;
         }
         case 'newest': {
@@ -334,7 +338,7 @@ export function RaffleFilters({ raffles, initialCategory, sites }: RaffleFilters
       {filteredRaffles.length === 0 ? (
         <RaffleEmptyState onClearFilters={clearAllFilters} />
       ) : (
-        <RaffleGrid raffles={filteredRaffles} />
+        <RaffleGrid raffles={filteredRaffles} siblingPool={raffles} />
       )}
     </div>
   );
@@ -1,11 +1,14 @@
 import { RaffleCard } from './raffle-card';
+import { findBetterOddsListing } from '@/lib/utils';
 import type { Raffle } from '@/lib/types';
 
 interface RaffleGridProps {
   raffles: Raffle[];
+  /** Raffles to look for better-odds listings of the same prize in (defaults to `raffles`) */
+  siblingPool?: Raffle[];
 }
 
-export function RaffleGrid({ raffles }: RaffleGridProps) {
+export function RaffleGrid({ raffles, siblingPool = raffles }: RaffleGridProps) {
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
       {raffles.map((raffle, index) => (
@@ -14,7 +17,11 @@ export function RaffleGrid({ raffles }: RaffleGridProps) {
           className={index < 9 ? 'animate-fade-in-up' : undefined}
           style={index < 9 ? { animationDelay: `${Math.min(index, 8) * 60}ms` } : undefined}
         >
-          <RaffleCard raffle={raffle} priority={index < 3} />
+          <RaffleCard
+            raffle={raffle}
+            priority={index < 3}
+            betterOdds={findBetterOddsListing(raffle, siblingPool)}
+          />
         </div>
       ))}
     </div>
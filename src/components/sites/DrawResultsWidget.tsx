@@ -0,0 +1,74 @@
+// src/components/sites/DrawResultsWidget.tsx
+import Link from 'next/link';
+import { PlayCircle } from 'lucide-react';
+import { createBrowserClient } from '@/lib/supabase';
+import type { DrawResult } from '@/lib/types';
+
+interface DrawResultsWidgetProps {
+  siteSlug: string;
+}
+
+async function getRecentResults(siteSlug: string): Promise<DrawResult[]> {
+  const supabase = createBrowserClient();
+
+  const { data: siteRow } = await supabase
+    .from('sites')
+    .select('id')
+    .eq('slug', siteSlug)
+    .single();
+
+  if (!siteRow) return [];
+
+  const { data: results } = await supabase
+    .from('draw_results')
+    .select('*, raffle:raffles!inner(id, title, end_date, site_id)')
+    .eq('raffle.site_id', siteRow.id)
+    .order('scraped_at', { ascending: false })
+    .limit(8);
+
+  return (results ?? []) as DrawResult[];
+}
+
+export async function DrawResultsWidget({ siteSlug }: DrawResultsWidgetProps) {
+  const results = await getRecentResults(siteSlug);
+  if (results.length === 0) return null;
+
+  return (
+    <section className="mt-10">
+      <h2 className="text-xl font-bold text-slate-900 mb-4">Recent Winners</h2>
+      <ul className="divide-y divide-slate-100 rounded-xl border border-slate-200 text-sm">
+        {results.map((result) => (
+          <li key={result.id} className="flex items-start justify-between gap-4 p-4">
+            <div className="min-w-0">
+              <p className="font-medium text-slate-800 truncate">{result.raffle?.title}</p>
+              <p className="text-slate-500">
+                {result.winner_name ?? 'Winner'}
+                {result.winner_location && ` from ${result.winner_location}`}
+                {result.winning_ticket && ` · ticket #${result.winning_ticket}`}
+                {result.claim_type === 'cash' && ' · took the cash alternative'}
+                {result.claim_type === 'prize' && ' · took the prize'}
+              </p>
+            </div>
+            {result.draw_video_url && (
+              <a
+                href={result.draw_video_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="shrink-0 flex items-center gap-1 text-blue-600 hover:text-blue-700"
+              >
+                <PlayCircle className="h-4 w-4" />
+                Draw
+              </a>
+            )}
+          </li>
+        ))}
+      </ul>
+      <p className="mt-3 text-xs text-slate-400">
+        From the site&apos;s own winners page.{' '}
+        <Link href="/guides/do-people-actually-win" className="hover:underline">
+          How to verify a winner →
+        </Link>
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,47 @@
+import Link from 'next/link';
+import { getWinnerStats } from '@/lib/insights';
+
+const pct = (part: number, whole: number) => (whole > 0 ? `${Math.round((part / whole) * 100)}%` : '—');
+
+export async function WinnerStatsTable() {
+  const stats = await getWinnerStats();
+
+  if (stats.length === 0) {
+    return (
+      <p className="not-prose mt-4 text-sm text-slate-500 border border-slate-200 rounded-xl p-4">
+        We&apos;re still collecting draw results from the sites we track — check back soon.
+      </p>
+    );
+  }
+
+  return (
+    <div className="not-prose mt-4 overflow-x-auto rounded-xl border border-slate-200">
+      <table className="w-full text-sm">
+        <thead className="bg-slate-50 text-xs text-slate-500 uppercase tracking-wide">
+          <tr>
+            <th className="px-4 py-2 text-left font-medium">Site</th>
+            <th className="px-4 py-2 text-right font-medium">Draw results</th>
+            <th className="px-4 py-2 text-right font-medium">Ticket named</th>
+            <th className="px-4 py-2 text-right font-medium">Draw video</th>
+            <th className="px-4 py-2 text-right font-medium">Took the cash</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {stats.map(site => (
+            <tr key={site.slug}>
+              <td className="px-4 py-2">
+                <Link href={`/sites/${site.slug}`} className="font-medium text-slate-900 hover:text-blue-600">
+                  {site.name}
+                </Link>
+              </td>
+              <td className="px-4 py-2 text-right text-slate-700">{site.results}</td>
+              <td className="px-4 py-2 text-right text-slate-700">{pct(site.with_ticket, site.results)}</td>
+              <td className="px-4 py-2 text-right text-slate-700">{pct(site.with_video, site.results)}</td>
+              <td className="px-4 py-2 text-right text-slate-700">{pct(site.cash_taken, site.claim_known)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
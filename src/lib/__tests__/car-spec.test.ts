@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { parseCarSpec, parseCarYear } from '../car-spec';
+
+const NOW = new Date('2026-03-02T12:00:00Z');
+const parse = (title: string, description?: string) => parseCarSpec(title, description, { now: NOW });
+
+describe('parseCarSpec — make and model named', () => {
+  it('splits make / model / year / variant', () => {
+    expect(parse('Win this 2024 BMW M2 Competition & £2,000')).toEqual({
+      make: 'BMW', model: 'M2', year: 2024, variant: 'Competition', confidence: 'high',
+    });
+  });
+
+  it('prefers the longest model and stops the variant at cash add-ons', () => {
+    expect(parse('Porsche 911 GT3 RS Weissach + £5,000 Cash')).toMatchObject({
+      make: 'Porsche', model: '911 GT3 RS', variant: 'Weissach',
+    });
+    expect(parse('Audi RS6 Avant Performance – 2023')).toMatchObject({
+      make: 'Audi', model: 'RS6', year: 2023, variant: 'Avant Performance',
+    });
+    expect(parse('BMW M4 Competition xDrive 2023 or £65,000')).toMatchObject({
+      model: 'M4', year: 2023, variant: 'Competition xDrive',
+    });
+  });
+
+  it('normalises make spellings and model punctuation', () => {
+    expect(parse('Mercedes AMG C63 S E Performance')).toMatchObject({ make: 'Mercedes-Benz', model: 'C63' });
+    expect(parse('VW Golf GTI Clubsport')).toMatchObject({ make: 'Volkswagen', model: 'Golf GTI Clubsport' });
+    expect(parse('Nissan GTR R35 Nismo')).toMatchObject({ make: 'Nissan', model: 'GT-R', variant: 'R35 Nismo' });
+    expect(parse('Mazda MX5 RF')).toMatchObject({ make: 'Mazda', model: 'MX-5', variant: 'RF' });
+  });
+
+  it('keeps a hyphenated trim whole', () => {
+    expect(parse('Win a Ford Focus ST-3 2021')).toMatchObject({ make: 'Ford', model: 'Focus ST', year: 2021, variant: 'ST-3' });
+    expect(parse('Fiesta ST-2 + £500')).toMatchObject({ model: 'Fiesta ST', variant: 'ST-2' });
+    expect(parse('Ford Focus-ST 2019')).toMatchObject({ model: 'Focus ST', variant: undefined });
+  });
+
+  it('leaves mileage and cash amounts out of the variant', () => {
+    expect(parse('Win an Audi RS3 2000 Miles')).toMatchObject({ model: 'RS3', variant: undefined });
+    expect(parse('Audi RS3 Sportback 12,000 miles')).toMatchObject({ model: 'RS3', variant: 'Sportback' });
+    expect(parse('BMW M3 Competition Low Mileage 20,000')).toMatchObject({ model: 'M3', variant: 'Competition' });
+    expect(parse('VW Golf GTI 2.0 TSI 5k mi')).toMatchObject({ model: 'Golf GTI', variant: '2.0 TSI' });
+  });
+
+  it('does not treat a longer model as a shorter one', () => {
+    expect(parse('BMW M240i xDrive')).toMatchObject({ model: 'M240i' });
+    expect(parse('BMW X3 M40i')).toMatchObject({ model: 'X3' });
+  });
+});
+
+describe('parseCarSpec — inference', () => {
+  it('infers the make from a distinctive model (medium confidence)', () => {
+    expect(parse('Golf R Mk8 or £30,000 Tax Free')).toEqual({
+      make: 'Volkswagen', model: 'Golf R', year: undefined, variant: 'Mk8', confidence: 'medium',
+    });
+    expect(parse('74 Plate Range Rover Sport Autobiography')).toEqual({
+      make: 'Land Rover', model: 'Range Rover Sport', year: 2024, variant: 'Autobiography', confidence: 'medium',
+    });
+  });
+
+  it('does not infer makes from ambiguous model names', () => {
+    expect(parse('Golf clubs & £500')).toBeUndefined();
+    expect(parse('Superb Rolex Submariner')).toBeUndefined();
+    expect(parse('£10,000 Tax Free Cash')).toBeUndefined();
+  });
+
+  it('returns make only (low confidence) for unknown models', () => {
+    expect(parse('Ferrari 12Cilindri')).toEqual({
+      make: 'Ferrari', model: undefined, year: undefined, variant: undefined, confidence: 'low',
+    });
+  });
+
+  it('falls back to the description when the title has no model', () => {
+    expect(parse('Dream Car Giveaway #42', 'This 2022 Audi RS3 Saloon comes in Kyalami Green')).toMatchObject({
+      make: 'Audi', model: 'RS3', year: 2022, confidence: 'medium',
+    });
+    expect(parse('Win a Ferrari', 'A Ferrari Roma in Rosso Corsa')).toMatchObject({
+      make: 'Ferrari', model: 'Roma', confidence: 'medium',
+    });
+    // Description for a different make doesn't override the title
+    expect(parse('Win a Ferrari', 'Runner-up wins a BMW M2')).toMatchObject({ make: 'Ferrari', confidence: 'low' });
+  });
+});
+
+describe('parseCarYear', () => {
+  it('reads four-digit years and UK plates', () => {
+    expect(parseCarYear('2019 Toyota Supra', NOW)).toBe(2019);
+    expect(parseCarYear('Ford Escort RS Cosworth (1996)', NOW)).toBe(1996);
+    expect(parseCarYear('24 Plate Audi RS3', NOW)).toBe(2024);
+    expect(parseCarYear('73 reg BMW M3', NOW)).toBe(2023);
+  });
+
+  it('ignores prices, ticket counts and future years', () => {
+    expect(parseCarYear('BMW M3 + £2000', NOW)).toBeUndefined();
+    expect(parseCarYear('Only 1999 tickets', NOW)).toBeUndefined();
+    expect(parseCarYear('Audi RS3 2040', NOW)).toBeUndefined();
+  });
+});
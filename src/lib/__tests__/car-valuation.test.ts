@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { estimateCarValue, parseMileage } from '../car-valuation';
+import { PRICE_TABLE, PRICE_TABLE_VERSION } from '../car-price-table';
+import { parseCarSpec } from '../car-spec';
+
+const NOW = new Date('2026-03-02T12:00:00Z');
+
+describe('estimateCarValue', () => {
+  it('values a new car at its reference price', () => {
+    expect(estimateCarValue({ make: 'BMW', model: 'M2', year: 2026 }, NOW)).toEqual({
+      value: 7_200_000,
+      version: PRICE_TABLE_VERSION,
+    });
+    expect(estimateCarValue({ make: 'bmw', model: 'm2', year: 2026 }, NOW)?.value).toBe(7_200_000);
+  });
+
+  it('depreciates by age', () => {
+    // £72,000 × 0.88² = £55,756.80 → nearest £100
+    expect(estimateCarValue({ make: 'BMW', model: 'M2', year: 2024 }, NOW)?.value).toBe(5_580_000);
+  });
+
+  it('adjusts for mileage against the yearly average, within limits', () => {
+    const base = estimateCarValue({ make: 'BMW', model: 'M2', year: 2024 }, NOW)!.value;
+    const low = estimateCarValue({ make: 'BMW', model: 'M2', year: 2024, mileage: 6_000 }, NOW)!.value;
+    const high = estimateCarValue({ make: 'BMW', model: 'M2', year: 2024, mileage: 36_000 }, NOW)!.value;
+    const extreme = estimateCarValue({ make: 'BMW', model: 'M2', year: 2024, mileage: 500_000 }, NOW)!.value;
+    expect(low).toBeGreaterThan(base);
+    expect(high).toBeLessThan(base);
+    expect(extreme).toBe(Math.round((base * 0.85) / 10_000) * 10_000);
+  });
+
+  it('returns undefined without a year, for unknown models and for classics', () => {
+    expect(estimateCarValue({ make: 'BMW', model: 'M2' }, NOW)).toBeUndefined();
+    expect(estimateCarValue({ make: 'BMW', model: 'Isetta', year: 2024 }, NOW)).toBeUndefined();
+    expect(estimateCarValue({ make: 'BMW', year: 2024 }, NOW)).toBeUndefined();
+    expect(estimateCarValue({ make: 'Porsche', model: '911', year: 1995 }, NOW)).toBeUndefined();
+  });
+
+  it('only lists makes and models the car-spec parser can produce', () => {
+    for (const ref of PRICE_TABLE) {
+      const spec = parseCarSpec(`${ref.make} ${ref.model}`);
+      expect(spec, `${ref.make} ${ref.model}`).toMatchObject({ make: ref.make, model: ref.model });
+    }
+  });
+});
+
+describe('parseMileage', () => {
+  it('reads miles with separators and k suffixes', () => {
+    expect(parseMileage('2022 Audi RS3 – 12,500 miles')).toBe(12_500);
+    expect(parseMileage('Only 850 Miles')).toBe(850);
+    expect(parseMileage('Low 12k miles')).toBe(12_000);
+    expect(parseMileage('Win a BMW M3')).toBeUndefined();
+  });
+});
@@ -3,6 +3,7 @@ import {
   groupSiteComparisonRows,
   groupReleasePatternRows,
   groupMarketBreakdownRows,
+  groupDrawResultRows,
 } from '../insights';
 
 describe('groupSiteComparisonRows', () => {
@@ -64,3 +65,17 @@ describe('groupMarketBreakdownRows', () => {
     expect(result[0].total).toBe(13);
   });
 });
+
+describe('groupDrawResultRows', () => {
+  it('counts evidence per site, cash share over results that say', () => {
+    const rows = [
+      { name: 'Rev Comps', slug: 'rev-comps', winning_ticket: '12', draw_video_url: 'https://youtu.be/a', claim_type: 'cash' },
+      { name: 'Rev Comps', slug: 'rev-comps', winning_ticket: null, draw_video_url: null, claim_type: null },
+      { name: 'Lucky Day', slug: 'lucky-day', winning_ticket: '7', draw_video_url: null, claim_type: 'prize' },
+    ];
+    expect(groupDrawResultRows(rows)).toEqual([
+      { name: 'Rev Comps', slug: 'rev-comps', results: 2, with_ticket: 1, with_video: 1, cash_taken: 1, claim_known: 1 },
+      { name: 'Lucky Day', slug: 'lucky-day', results: 1, with_ticket: 1, with_video: 0, cash_taken: 0, claim_known: 1 },
+    ]);
+  });
+});
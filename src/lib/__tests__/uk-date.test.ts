@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { parseUkDate, mostConfidentUkDate, londonTime, londonParts, isBritishSummerTime } from '../uk-date';
+
+// Monday 2 March 2026, 12:00 GMT
+const MARCH_NOW = new Date('2026-03-02T12:00:00Z');
+// Monday 1 June 2026, 12:00 BST
+const JUNE_NOW = new Date('2026-06-01T11:00:00Z');
+
+describe('Europe/London helpers', () => {
+  it('switches to BST at 01:00 UTC on the last Sunday of March and back in October', () => {
+    expect(isBritishSummerTime(new Date('2026-03-29T00:59:00Z'))).toBe(false);
+    expect(isBritishSummerTime(new Date('2026-03-29T01:00:00Z'))).toBe(true);
+    expect(isBritishSummerTime(new Date('2026-10-25T00:59:00Z'))).toBe(true);
+    expect(isBritishSummerTime(new Date('2026-10-25T01:00:00Z'))).toBe(false);
+  });
+
+  it('converts London wall-clock times to instants', () => {
+    expect(londonTime(2026, 0, 15, 21, 0).toISOString()).toBe('2026-01-15T21:00:00.000Z');
+    expect(londonTime(2026, 5, 28, 21, 0).toISOString()).toBe('2026-06-28T20:00:00.000Z');
+    // Autumn overlap resolves to the first (BST) 01:30
+    expect(londonTime(2026, 9, 25, 1, 30).toISOString()).toBe('2026-10-25T00:30:00.000Z');
+  });
+
+  it('reads London wall-clock parts from an instant', () => {
+    // 23:30 UTC in July is already tomorrow in London
+    const parts = londonParts(new Date('2026-07-10T23:30:00Z'));
+    expect(parts).toMatchObject({ year: 2026, month: 6, day: 11, hour: 0, minute: 30 });
+  });
+});
+
+describe('parseUkDate', () => {
+  it('returns undefined for empty or unrecognised text', () => {
+    expect(parseUkDate(undefined)).toBeUndefined();
+    expect(parseUkDate('')).toBeUndefined();
+    expect(parseUkDate('TBD')).toBeUndefined();
+  });
+
+  it('parses full dates with year and time as high confidence', () => {
+    const r = parseUkDate('Wednesday 11th February 2026 at 9pm', { now: MARCH_NOW });
+    expect(r?.date.toISOString()).toBe('2026-02-11T21:00:00.000Z');
+    expect(r?.confidence).toBe('high');
+  });
+
+  it('applies BST to summer wall-clock times', () => {
+    const r = parseUkDate('28/6/2026 - 2:00PM', { now: JUNE_NOW });
+    expect(r?.date.toISOString()).toBe('2026-06-28T13:00:00.000Z');
+    expect(r?.confidence).toBe('high');
+  });
+
+  it('keeps a just-passed weekday date in the current year instead of rolling it forward', () => {
+    // The old scrapers turned this into Feb 2027
+    const r = parseUkDate('Draw Fri 27th Feb 8pm', { now: MARCH_NOW });
+    expect(r?.date.toISOString()).toBe('2026-02-27T20:00:00.000Z');
+    expect(r?.confidence).toBe('high');
+  });
+
+  it('rolls January dates seen in December into next year', () => {
+    const r = parseUkDate('Ends Fri 1st Jan', { now: new Date('2026-12-20T12:00:00Z') });
+    expect(r?.date.toISOString()).toBe('2027-01-01T21:00:00.000Z');
+    expect(r?.confidence).toBe('medium'); // time defaulted
+  });
+
+  it('reads a yearless date months ahead as this coming one, not last year\'s', () => {
+    // Nearest-year would pick 1 Oct 2025 (five months back) over 1 Oct 2026 (seven ahead)
+    expect(parseUkDate('Ends 1st October 9pm', { now: MARCH_NOW })?.date.toISOString())
+      .toBe('2026-10-01T20:00:00.000Z');
+    // A recently ended competition stays in the past
+    expect(parseUkDate('Ended 14th January 9pm', { now: MARCH_NOW })?.date.toISOString())
+      .toBe('2026-01-14T21:00:00.000Z');
+  });
+
+  it('parses dotted numeric dates instead of reading them as a time', () => {
+    expect(parseUkDate('23.12.2025', { now: MARCH_NOW })).toEqual({
+      date: new Date('2025-12-23T21:00:00.000Z'),
+      confidence: 'medium',
+    });
+    expect(parseUkDate('Draw 23.12.2025 at 8.30pm', { now: MARCH_NOW })?.date.toISOString())
+      .toBe('2025-12-23T20:30:00.000Z');
+  });
+
+  it('lowers confidence when the year is guessed or the weekday disagrees', () => {
+    expect(parseUkDate('27 Feb 8pm', { now: MARCH_NOW })?.confidence).toBe('medium');
+    expect(parseUkDate('Draw Sun 27th Feb 8pm', { now: MARCH_NOW })?.confidence).toBe('low');
+  });
+
+  it('honours the defaultTime option', () => {
+    const r = parseUkDate('27 December 2026', { now: MARCH_NOW, defaultTime: { hour: 23, minute: 0 } });
+    expect(r?.date.toISOString()).toBe('2026-12-27T23:00:00.000Z');
+    expect(r?.confidence).toBe('medium');
+  });
+
+  it('parses today / tonight / tomorrow against the London calendar day', () => {
+    const now = new Date('2026-07-10T10:00:00Z');
+    expect(parseUkDate('ENDS TODAY 23:00', { now })?.date.toISOString()).toBe('2026-07-10T22:00:00.000Z');
+    expect(parseUkDate('Ends Tonight', { now })).toEqual({
+      date: new Date('2026-07-10T20:00:00.000Z'),
+      confidence: 'medium',
+    });
+
+    // 00:30 BST on the 11th — "tomorrow" is the 12th
+    const lateNight = new Date('2026-07-10T23:30:00Z');
+    expect(parseUkDate('Draw Tomorrow 10pm', { now: lateNight })?.date.toISOString())
+      .toBe('2026-07-12T21:00:00.000Z');
+  });
+
+  it('parses countdowns relative to now', () => {
+    expect(parseUkDate('Ends in 2d 4h', { now: MARCH_NOW })).toEqual({
+      date: new Date('2026-03-04T16:00:00.000Z'),
+      confidence: 'high',
+    });
+    expect(parseUkDate('02:04:10:05', { now: MARCH_NOW })?.date.toISOString())
+      .toBe('2026-03-04T16:10:05.000Z');
+    expect(parseUkDate('Ends in 3 days', { now: MARCH_NOW })).toEqual({
+      date: new Date('2026-03-05T21:00:00.000Z'),
+      confidence: 'medium',
+    });
+  });
+
+  it('parses ISO strings and epoch timestamps', () => {
+    expect(parseUkDate('2026-06-28T14:00:00Z')?.date.toISOString()).toBe('2026-06-28T14:00:00.000Z');
+    expect(parseUkDate('2026-06-28T14:00')?.date.toISOString()).toBe('2026-06-28T13:00:00.000Z');
+    expect(parseUkDate('2026-06-28')?.confidence).toBe('medium');
+    expect(parseUkDate('1782651600')?.date.toISOString()).toBe('2026-06-28T13:00:00.000Z');
+    expect(parseUkDate('1782651600000')?.date.toISOString()).toBe('2026-06-28T13:00:00.000Z');
+  });
+
+  it('resolves a bare weekday to its next occurrence', () => {
+    const r = parseUkDate('ENDS SUNDAY', { now: MARCH_NOW, defaultTime: { hour: 23, minute: 59 } });
+    expect(r?.date.toISOString()).toBe('2026-03-08T23:59:00.000Z');
+    expect(r?.confidence).toBe('low');
+  });
+});
+
+describe('mostConfidentUkDate', () => {
+  it('keeps the most confident parse, earlier texts winning ties', () => {
+    // The weekday contradicts the first text; the second is exact
+    expect(mostConfidentUkDate(['Draw Sun 27th Feb 8pm', '27/02/2026 - 8:00PM'], { now: MARCH_NOW })).toEqual({
+      date: new Date('2026-02-27T20:00:00.000Z'),
+      confidence: 'high',
+    });
+    expect(mostConfidentUkDate(['28/6/2026', '29/6/2026', null], { now: MARCH_NOW })?.date.toISOString())
+      .toBe('2026-06-28T20:00:00.000Z');
+    expect(mostConfidentUkDate([undefined, 'TBD'])).toBeUndefined();
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateBestOddsRatio,
+  calculateExpectedValue,
+  calculateRaffleMetrics,
+  cheapestBasketPrice,
+  classifyPrizeType,
+  countDistinctPrizes,
+  effectivePrizeValue,
+  effectiveTicketPrice,
+  findBetterOddsListing,
+  getValueScore,
+  isInflatedClaim,
+  parseMoney,
+  sumPrizeTiers,
+  summarizeInstantWins,
+} from '../utils';
+
+describe('summarizeInstantWins', () => {
+  it('counts unclaimed prizes and their known value', () => {
+    expect(summarizeInstantWins([
+      { value: 50_000, quantity: 2, quantityWon: 1 },
+      { value: 5_000, quantity: 10, quantityWon: 4 },
+      { value: null, quantity: 3, quantityWon: 0 },
+    ])).toEqual({ remaining: 10, value: 80_000 });
+  });
+});
+
+describe('sumPrizeTiers', () => {
+  it('multiplies each tier by its winners and falls back to cash', () => {
+    expect(sumPrizeTiers([
+      { value: 100_000, quantity: 1 },
+      { value: null, cashAlternative: 50_000, quantity: 2 },
+      { value: 10_000, quantity: 5 },
+    ])).toBe(250_000);
+  });
+});
+
+describe('runner-up tiers', () => {
+  it('adds runner-up value to expected value', () => {
+    // (5,000,000 + 1,000,000) / 10,000 / 100 = 6.0
+    expect(calculateExpectedValue(5_000_000, null, 10_000, 100, { runnerUpValue: 1_000_000 })).toBe(6);
+  });
+
+  it('adds runner-up value to the value score', () => {
+    const raffle = { prize_value: 5_000_000, cash_alternative: null, total_tickets: 10_000, ticket_price: 100 };
+    expect(getValueScore(raffle)).toBe(5);
+    expect(getValueScore({ ...raffle, runner_up_value: 1_000_000 })).toBe(6);
+  });
+});
+
+describe('bundle pricing', () => {
+  const tiers = [{ quantity: 5, price: 400 }, { quantity: 10, price: 700 }];
+
+  it('mixes bundles and singles for the cheapest basket', () => {
+    expect(cheapestBasketPrice(100, tiers, 7)).toBe(600);   // 5 for £4 + 2 singles
+    expect(cheapestBasketPrice(100, tiers, 15)).toBe(1_100); // 10 for £7 + 5 for £4
+    expect(cheapestBasketPrice(null, tiers, 7)).toBeNull();
+  });
+
+  it('gives the effective per-ticket price, falling back to the single price', () => {
+    expect(effectiveTicketPrice(100, tiers)).toBe(70);
+    expect(effectiveTicketPrice(100, tiers, 1)).toBe(100);
+    expect(effectiveTicketPrice(100, null)).toBe(100);
+  });
+
+  it('prices the value score at the bundle rate', () => {
+    const raffle = { prize_value: 700_000, cash_alternative: null, total_tickets: 10_000, ticket_price: 100 };
+    expect(getValueScore(raffle)).toBe(0.7);
+    expect(getValueScore({ ...raffle, price_tiers: tiers })).toBe(1);
+  });
+});
+
+describe('estimated prize values', () => {
+  it('flags claims more than 25% above our estimate', () => {
+    expect(isInflatedClaim(6_500_000, 5_000_000)).toBe(true);
+    expect(isInflatedClaim(6_000_000, 5_000_000)).toBe(false);
+    expect(isInflatedClaim(6_500_000, null)).toBe(false);
+  });
+
+  it('uses the estimate when the claim is missing or inflated', () => {
+    expect(effectivePrizeValue(null, 5_000_000)).toBe(5_000_000);
+    expect(effectivePrizeValue(8_000_000, 5_000_000)).toBe(5_000_000);
+    expect(effectivePrizeValue(5_500_000, 5_000_000)).toBe(5_500_000);
+    expect(effectivePrizeValue(null, null)).toBeNull();
+  });
+
+  it('scores on the estimate ahead of the cash alternative', () => {
+    const raffle = { prize_value: null, cash_alternative: 300_000, total_tickets: 10_000, ticket_price: 100 };
+    expect(getValueScore(raffle)).toBe(0.3);
+    expect(getValueScore({ ...raffle, estimated_value: 500_000 })).toBe(0.5);
+    expect(getValueScore({ ...raffle, prize_value: 900_000, estimated_value: 500_000 })).toBe(0.5);
+  });
+});
+
+describe('prize groups', () => {
+  const golf = { id: 'a', site_id: 'site-1', prize_group_id: 'g1', total_tickets: 20_000 };
+
+  it('finds the same prize elsewhere with the best odds', () => {
+    const pool = [
+      golf,
+      { id: 'b', site_id: 'site-2', prize_group_id: 'g1', total_tickets: 15_000 },
+      { id: 'c', site_id: 'site-3', prize_group_id: 'g1', total_tickets: 9_000 },
+      { id: 'd', site_id: 'site-1', prize_group_id: 'g1', total_tickets: 5_000 },   // same site
+      { id: 'e', site_id: 'site-4', prize_group_id: 'g2', total_tickets: 1_000 },   // other prize
+    ];
+    expect(findBetterOddsListing(golf, pool)?.id).toBe('c');
+  });
+
+  it('returns null without a group or a better listing', () => {
+    expect(findBetterOddsListing({ ...golf, prize_group_id: null }, [])).toBeNull();
+    expect(findBetterOddsListing(golf, [{ id: 'b', site_id: 'site-2', prize_group_id: 'g1', total_tickets: 25_000 }])).toBeNull();
+  });
+
+  it('counts grouped listings once', () => {
+    expect(countDistinctPrizes([
+      { id: 'a', prize_group_id: 'g1' },
+      { id: 'b', prize_group_id: 'g1' },
+      { id: 'c', prize_group_id: null },
+    ])).toBe(2);
+  });
+});
+
+describe('calculateExpectedValue with instant wins', () => {
+  it('matches the plain formula when there are no instant wins', () => {
+    // £50,000 prize, 10,000 tickets at £1 → 5.0
+    expect(calculateExpectedValue(5_000_000, null, 10_000, 100)).toBe(5);
+  });
+
+  it('spreads unclaimed instant-win value over the remaining tickets', () => {
+    // Main: 5,000,000 / 10,000 / 100 = 5.0
+    // IW:   1,000,000 / 5,000 / 100   = 2.0
+    expect(calculateExpectedValue(5_000_000, null, 10_000, 100, {
+      instantWinValueRemaining: 1_000_000,
+      ticketsRemaining: 5_000,
+    })).toBe(7);
+  });
+
+  it('uses total tickets when remaining is unknown, and works without a main prize value', () => {
+    expect(calculateExpectedValue(null, null, 10_000, 100, { instantWinValueRemaining: 1_000_000 })).toBe(1);
+  });
+});
+
+describe('calculateBestOddsRatio', () => {
+  it('divides total tickets by the per-person cap', () => {
+    expect(calculateBestOddsRatio(5_000, 50)).toBe(100);
+    expect(calculateBestOddsRatio(597, 50)).toBe(11.94);
+  });
+
+  it('caps at even odds and needs both numbers', () => {
+    expect(calculateBestOddsRatio(100, 500)).toBe(1);
+    expect(calculateBestOddsRatio(5_000, null)).toBeNull();
+    expect(calculateBestOddsRatio(null, 50)).toBeNull();
+  });
+});
+
+describe('calculateRaffleMetrics', () => {
+  it('folds remaining instant-win value into expected_value only', () => {
+    const metrics = calculateRaffleMetrics({
+      prizeValue: 5_000_000,
+      cashAlternative: null,
+      totalTickets: 10_000,
+      ticketPrice: 100,
+      ticketsSold: 5_000,
+      endDate: null,
+      instantWinValueRemaining: 1_000_000,
+    });
+    expect(metrics.expected_value).toBe(7);
+    expect(metrics.value_per_pound).toBe(50_000);
+  });
+});
+
+describe('parseMoney', () => {
+  it('handles commas, k and million suffixes', () => {
+    expect(parseMoney('£52,000')).toBe(5_200_000);
+    expect(parseMoney('£40k')).toBe(4_000_000);
+    expect(parseMoney('£1 million')).toBe(100_000_000);
+    expect(parseMoney('£2m Tax Free')).toBe(200_000_000);
+  });
+
+  it('reads pence and the first amount in a prize line', () => {
+    expect(parseMoney('80p')).toBe(80);
+    expect(parseMoney('£500 Tax Free Cash or £450')).toBe(50_000);
+    expect(parseMoney('£50 Massage Voucher')).toBe(5_000);
+  });
+
+  it('returns undefined when there is no amount', () => {
+    expect(parseMoney('TBC')).toBeUndefined();
+    expect(parseMoney('iPhone 15 Pro')).toBeUndefined();
+  });
+});
+
+describe('classifyPrizeType', () => {
+  it('keeps vehicle raffles with bolted-on instant wins as vehicles', () => {
+    expect(classifyPrizeType('Win a BMW M3 + 50 Instant Wins')).toBe('car');
+  });
+
+  it('still treats instant-win games as other', () => {
+    expect(classifyPrizeType('Cash Spin Instant Win £10,000')).toBe('other');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Car price reference table
+ *
+ * Hand-maintained UK retail reference prices used by estimateCarValue().
+ * `newPrice` is the typical on-the-road price (pence) for a well-specced
+ * current example; `depreciation` is the average yearly loss used to age it.
+ *
+ * Make / model names must match parseCarSpec()'s canonical names.
+ * Bump PRICE_TABLE_VERSION whenever prices change — it's stored next to each
+ * estimate so old estimates can be told apart from new ones.
+ */
+
+export const PRICE_TABLE_VERSION = '2026-10';
+
+export interface PriceReference {
+  make: string;
+  model: string;
+  newPrice: number;       // pence
+  depreciation: number;   // yearly, 0–1
+}
+
+export const PRICE_TABLE: PriceReference[] = [
+  // Audi
+  { make: 'Audi', model: 'A3', newPrice: 3_200_000, depreciation: 0.15 },
+  { make: 'Audi', model: 'S3', newPrice: 4_600_000, depreciation: 0.15 },
+  { make: 'Audi', model: 'RS3', newPrice: 6_000_000, depreciation: 0.12 },
+  { make: 'Audi', model: 'RS4', newPrice: 7_600_000, depreciation: 0.15 },
+  { make: 'Audi', model: 'RS6', newPrice: 11_000_000, depreciation: 0.14 },
+  { make: 'Audi', model: 'R8', newPrice: 15_500_000, depreciation: 0.10 },
+  { make: 'Audi', model: 'Q8', newPrice: 7_800_000, depreciation: 0.16 },
+  { make: 'Audi', model: 'e-tron GT', newPrice: 8_800_000, depreciation: 0.20 },
+
+  // Bentley / Rolls-Royce
+  { make: 'Bentley', model: 'Continental GT', newPrice: 21_000_000, depreciation: 0.13 },
+  { make: 'Bentley', model: 'Bentayga', newPrice: 17_500_000, depreciation: 0.14 },
+  { make: 'Rolls-Royce', model: 'Cullinan', newPrice: 32_000_000, depreciation: 0.10 },
+
+  // BMW
+  { make: 'BMW', model: 'M135i', newPrice: 4_200_000, depreciation: 0.15 },
+  { make: 'BMW', model: 'M240i', newPrice: 5_200_000, depreciation: 0.14 },
+  { make: 'BMW', model: 'M2', newPrice: 7_200_000, depreciation: 0.12 },
+  { make: 'BMW', model: 'M3', newPrice: 8_500_000, depreciation: 0.14 },
+  { make: 'BMW', model: 'M4', newPrice: 8_700_000, depreciation: 0.14 },
+  { make: 'BMW', model: 'M5', newPrice: 11_500_000, depreciation: 0.16 },
+  { make: 'BMW', model: 'X5', newPrice: 7_800_000, depreciation: 0.15 },
+  { make: 'BMW', model: 'X5 M', newPrice: 13_500_000, depreciation: 0.17 },
+  { make: 'BMW', model: 'S 1000 RR', newPrice: 2_100_000, depreciation: 0.10 },
+
+  // Ferrari / Lamborghini / McLaren
+  { make: 'Ferrari', model: '296 GTB', newPrice: 25_000_000, depreciation: 0.09 },
+  { make: 'Ferrari', model: 'Roma', newPrice: 19_000_000, depreciation: 0.11 },
+  { make: 'Ferrari', model: 'F8 Tributo', newPrice: 21_000_000, depreciation: 0.07 },
+  { make: 'Ferrari', model: 'SF90', newPrice: 40_000_000, depreciation: 0.08 },
+  { make: 'Lamborghini', model: 'Huracan', newPrice: 21_500_000, depreciation: 0.08 },
+  { make: 'Lamborghini', model: 'Urus', newPrice: 20_500_000, depreciation: 0.10 },
+  { make: 'McLaren', model: '720S', newPrice: 22_500_000, depreciation: 0.12 },
+  { make: 'McLaren', model: 'Artura', newPrice: 19_500_000, depreciation: 0.15 },
+
+  // Ford
+  { make: 'Ford', model: 'Mustang', newPrice: 5_600_000, depreciation: 0.13 },
+  { make: 'Ford', model: 'Ranger Raptor', newPrice: 6_200_000, depreciation: 0.10 },
+  { make: 'Ford', model: 'Transit Custom', newPrice: 4_000_000, depreciation: 0.12 },
+
+  // Honda / Nissan / Toyota
+  { make: 'Honda', model: 'Civic Type R', newPrice: 5_000_000, depreciation: 0.08 },
+  { make: 'Nissan', model: 'GT-R', newPrice: 10_500_000, depreciation: 0.08 },
+  { make: 'Toyota', model: 'GR Yaris', newPrice: 4_600_000, depreciation: 0.06 },
+  { make: 'Toyota', model: 'GR Supra', newPrice: 5_700_000, depreciation: 0.10 },
+  { make: 'Toyota', model: 'Supra', newPrice: 5_700_000, depreciation: 0.10 },
+  { make: 'Toyota', model: 'Hilux', newPrice: 4_000_000, depreciation: 0.08 },
+
+  // Land Rover
+  { make: 'Land Rover', model: 'Range Rover', newPrice: 11_500_000, depreciation: 0.14 },
+  { make: 'Land Rover', model: 'Range Rover Sport', newPrice: 8_800_000, depreciation: 0.14 },
+  { make: 'Land Rover', model: 'Range Rover Evoque', newPrice: 4_700_000, depreciation: 0.15 },
+  { make: 'Land Rover', model: 'Defender', newPrice: 6_800_000, depreciation: 0.10 },
+  { make: 'Land Rover', model: 'Defender 90', newPrice: 6_200_000, depreciation: 0.10 },
+  { make: 'Land Rover', model: 'Defender 110', newPrice: 7_000_000, depreciation: 0.10 },
+
+  // Mercedes-Benz
+  { make: 'Mercedes-Benz', model: 'A45', newPrice: 6_300_000, depreciation: 0.15 },
+  { make: 'Mercedes-Benz', model: 'C63', newPrice: 9_000_000, depreciation: 0.17 },
+  { make: 'Mercedes-Benz', model: 'G63', newPrice: 18_500_000, depreciation: 0.10 },
+  { make: 'Mercedes-Benz', model: 'AMG GT', newPrice: 13_500_000, depreciation: 0.15 },
+
+  // MINI / Volkswagen
+  { make: 'MINI', model: 'Cooper S', newPrice: 3_200_000, depreciation: 0.13 },
+  { make: 'MINI', model: 'John Cooper Works', newPrice: 3_800_000, depreciation: 0.13 },
+  { make: 'Volkswagen', model: 'Golf GTI', newPrice: 4_200_000, depreciation: 0.13 },
+  { make: 'Volkswagen', model: 'Golf R', newPrice: 4_900_000, depreciation: 0.13 },
+  { make: 'Volkswagen', model: 'T-Roc R', newPrice: 4_700_000, depreciation: 0.15 },
+  { make: 'Volkswagen', model: 'Transporter', newPrice: 4_800_000, depreciation: 0.10 },
+
+  // Porsche
+  { make: 'Porsche', model: '911', newPrice: 11_000_000, depreciation: 0.08 },
+  { make: 'Porsche', model: '911 Carrera', newPrice: 11_000_000, depreciation: 0.08 },
+  { make: 'Porsche', model: '911 Turbo S', newPrice: 19_000_000, depreciation: 0.09 },
+  { make: 'Porsche', model: '911 GT3', newPrice: 16_000_000, depreciation: 0.04 },
+  { make: 'Porsche', model: '911 GT3 RS', newPrice: 20_500_000, depreciation: 0.03 },
+  { make: 'Porsche', model: 'Cayman', newPrice: 6_300_000, depreciation: 0.09 },
+  { make: 'Porsche', model: '718 Cayman', newPrice: 6_300_000, depreciation: 0.09 },
+  { make: 'Porsche', model: 'Cayman GT4', newPrice: 10_000_000, depreciation: 0.05 },
+  { make: 'Porsche', model: 'Macan', newPrice: 6_500_000, depreciation: 0.14 },
+  { make: 'Porsche', model: 'Cayenne', newPrice: 9_000_000, depreciation: 0.14 },
+  { make: 'Porsche', model: 'Taycan', newPrice: 9_000_000, depreciation: 0.20 },
+
+  // Tesla
+  { make: 'Tesla', model: 'Model 3', newPrice: 4_200_000, depreciation: 0.20 },
+  { make: 'Tesla', model: 'Model Y', newPrice: 4_700_000, depreciation: 0.20 },
+  { make: 'Tesla', model: 'Model S', newPrice: 9_500_000, depreciation: 0.22 },
+
+  // Motorcycles
+  { make: 'Ducati', model: 'Panigale V4', newPrice: 2_700_000, depreciation: 0.10 },
+];
@@ -0,0 +1,371 @@
+/**
+ * Car spec parsing — make / model / year / variant from raffle titles
+ *
+ * One parser for every site's titles, so make/model filters and per-model
+ * analytics don't depend on each scraper's markup:
+ *   "Win this 2024 BMW M2 Competition & £2,000" → BMW / M2 / 2024 / Competition
+ *   "Golf R Mk8 or £30,000 Tax Free"            → Volkswagen / Golf R / – / Mk8
+ *   "74 Plate Range Rover Sport Autobiography"   → Land Rover / Range Rover Sport / 2024 / Autobiography
+ *
+ * Makes and models come from a dictionary rather than guessing the word after
+ * the make, so an unknown model leaves `model` empty instead of storing junk.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * How much of the result came from the text vs. inference.
+ * - high:   make and model both named in the title
+ * - medium: model named, make inferred from it ("Golf R" → Volkswagen),
+ *           or make + model found only in the description
+ * - low:    make only, no known model
+ */
+export type CarSpecConfidence = 'high' | 'medium' | 'low';
+
+export interface ParsedCarSpec {
+  make: string;
+  model?: string;
+  year?: number;
+  variant?: string;
+  confidence: CarSpecConfidence;
+}
+
+interface MakeEntry {
+  make: string;
+  /** Lowercase spellings in titles (the make itself is always included) */
+  aliases?: string[];
+  /** Display names; matched case-insensitively with optional hyphens/spaces */
+  models: string[];
+}
+
+// ============================================
+// Dictionary
+// ============================================
+
+const MAKES: MakeEntry[] = [
+  { make: 'Abarth', models: ['595', '695', '500e', '124 Spider'] },
+  { make: 'Alfa Romeo', models: ['Giulia', 'Stelvio', 'Tonale', '4C', 'Giulietta'] },
+  { make: 'Aston Martin', models: ['DB11', 'DB12', 'DBS', 'DBX', 'Vantage', 'Vanquish', 'DB9', 'Rapide'] },
+  {
+    make: 'Audi',
+    models: [
+      'RS3', 'RS4', 'RS5', 'RS6', 'RS7', 'RS Q3', 'RSQ8', 'RS e-tron GT', 'R8', 'TT RS', 'TTS', 'TT',
+      'S3', 'S4', 'S5', 'SQ5', 'SQ7', 'SQ8', 'A1', 'A3', 'A4', 'A5', 'A6', 'A7', 'A8',
+      'Q2', 'Q3', 'Q4 e-tron', 'Q5', 'Q7', 'Q8', 'e-tron GT', 'e-tron',
+    ],
+  },
+  { make: 'Bentley', models: ['Continental GT', 'Continental GTC', 'Flying Spur', 'Bentayga', 'Mulsanne'] },
+  {
+    make: 'BMW',
+    models: [
+      'M2', 'M3', 'M4', 'M5', 'M8', 'X3 M', 'X4 M', 'X5 M', 'X6 M', 'XM',
+      'M135i', 'M140i', 'M235i', 'M240i', 'M340i', 'M340d', 'M440i', 'M550i', 'M850i',
+      '1 Series', '2 Series', '3 Series', '4 Series', '5 Series', '7 Series', '8 Series',
+      'X1', 'X2', 'X3', 'X4', 'X5', 'X6', 'X7', 'Z4', 'i4', 'i5', 'i7', 'iX', 'i8',
+      'R 1250 GS', 'R 1300 GS', 'S 1000 RR', 'M 1000 RR',
+    ],
+  },
+  { make: 'Cupra', models: ['Formentor', 'Born', 'Leon', 'Ateca'] },
+  { make: 'Ducati', models: ['Panigale V4', 'Panigale V2', 'Monster', 'Multistrada', 'Streetfighter', 'Scrambler', 'Diavel'] },
+  { make: 'Ferrari', models: ['296 GTB', '296 GTS', 'SF90', 'F8 Tributo', 'F8 Spider', 'Roma', 'Portofino', 'Purosangue', '812', '488', '458', 'California', 'F430'] },
+  {
+    make: 'Ford',
+    models: [
+      'Focus RS', 'Focus ST', 'Fiesta ST', 'Puma ST', 'Mustang Mach-E', 'Mustang', 'Ranger Raptor', 'Ranger',
+      'Transit Custom', 'Transit Connect', 'Transit', 'Escort RS Cosworth', 'Escort', 'Sierra Cosworth',
+      'Focus', 'Fiesta', 'Puma', 'Kuga', 'Bronco', 'GT',
+    ],
+  },
+  { make: 'Harley-Davidson', aliases: ['harley davidson', 'harley'], models: ['Fat Boy', 'Street Glide', 'Road Glide', 'Sportster', 'Pan America'] },
+  { make: 'Honda', models: ['Civic Type R', 'Civic', 'NSX', 'S2000', 'Jazz', 'CR-V', 'HR-V', 'Fireblade', 'CBR1000RR', 'Africa Twin', 'CRF'] },
+  { make: 'Hyundai', models: ['i20 N', 'i30 N', 'Ioniq 5 N', 'Ioniq 5', 'Ioniq 6', 'Kona', 'Tucson', 'Santa Fe'] },
+  { make: 'Jaguar', models: ['F-Type', 'F-Pace', 'E-Pace', 'I-Pace', 'XF', 'XE', 'E-Type'] },
+  { make: 'Jeep', models: ['Wrangler', 'Grand Cherokee', 'Renegade', 'Compass', 'Avenger'] },
+  { make: 'Kawasaki', models: ['Ninja ZX-10R', 'Ninja ZX-6R', 'Ninja H2', 'Ninja', 'Z900', 'Z650'] },
+  { make: 'Kia', models: ['EV6 GT', 'EV6', 'EV9', 'Sportage', 'Sorento', 'Niro', 'Ceed', 'Stinger'] },
+  { make: 'KTM', models: ['1290 Super Duke', '890 Duke', '390 Duke', 'Duke', 'EXC', 'SX'] },
+  {
+    make: 'Lamborghini',
+    models: ['Huracan STO', 'Huracan Sterrato', 'Huracan Evo', 'Huracan', 'Urus', 'Aventador', 'Revuelto', 'Gallardo'],
+  },
+  {
+    make: 'Land Rover',
+    aliases: ['landrover'],
+    models: [
+      'Range Rover Sport', 'Range Rover Velar', 'Range Rover Evoque', 'Range Rover',
+      'Defender 90', 'Defender 110', 'Defender 130', 'Defender', 'Discovery Sport', 'Discovery',
+    ],
+  },
+  { make: 'Lexus', models: ['LC 500', 'RC F', 'IS', 'NX', 'RX', 'UX'] },
+  { make: 'Lotus', models: ['Emira', 'Evora', 'Exige', 'Elise', 'Eletre'] },
+  { make: 'Maserati', models: ['MC20', 'Grecale', 'Levante', 'Ghibli', 'GranTurismo', 'Quattroporte'] },
+  { make: 'Mazda', models: ['MX-5', 'RX-7', 'RX-8', 'CX-5', 'CX-60', 'Mazda3'] },
+  { make: 'McLaren', models: ['720S', '750S', '765LT', '600LT', '570S', '540C', 'Artura', 'GT'] },
+  {
+    make: 'Mercedes-Benz',
+    aliases: ['mercedes benz', 'mercedes', 'merc'],
+    models: [
+      'AMG GT', 'A45', 'A35', 'C63', 'C43', 'E63', 'E53', 'S63', 'G63', 'SL63', 'CLA45', 'GLA45', 'GLE63',
+      'A-Class', 'B-Class', 'C-Class', 'E-Class', 'S-Class', 'G-Class', 'CLA', 'CLS', 'SL',
+      'GLA', 'GLB', 'GLC', 'GLE', 'GLS', 'EQA', 'EQC', 'EQE', 'EQS', 'V-Class', 'Sprinter', 'Vito',
+    ],
+  },
+  { make: 'MINI', aliases: ['mini'], models: ['John Cooper Works', 'Cooper S', 'Cooper', 'Countryman', 'Clubman'] },
+  { make: 'Mitsubishi', models: ['Lancer Evolution', 'Lancer Evo', 'Evo', 'L200', 'Outlander'] },
+  { make: 'Nissan', models: ['GT-R', 'Skyline', '370Z', '350Z', 'Z', 'Qashqai', 'Juke', 'Navara', 'Patrol'] },
+  { make: 'Peugeot', models: ['106 Rallye', '205 GTi', '208', '308', '2008', '3008', '5008'] },
+  { make: 'Polestar', models: ['Polestar 2', 'Polestar 3', 'Polestar 4'] },
+  {
+    make: 'Porsche',
+    models: [
+      '911 GT3 RS', '911 GT3', '911 GT2 RS', '911 Turbo S', '911 Turbo', '911 Carrera', '911',
+      '718 Cayman GT4 RS', 'Cayman GT4', '718 Cayman', 'Cayman', '718 Boxster', 'Boxster',
+      'Taycan', 'Macan', 'Cayenne', 'Panamera',
+    ],
+  },
+  { make: 'Renault', models: ['Clio RS', 'Megane RS', 'Clio', 'Megane', 'Captur', 'Alpine A110'] },
+  { make: 'Rolls-Royce', aliases: ['rolls royce'], models: ['Cullinan', 'Ghost', 'Wraith', 'Dawn', 'Phantom', 'Spectre'] },
+  { make: 'SEAT', aliases: ['seat'], models: ['Leon Cupra', 'Leon', 'Ibiza', 'Ateca', 'Arona'] },
+  { make: 'Skoda', models: ['Octavia vRS', 'Octavia', 'Fabia', 'Kodiaq', 'Karoq', 'Enyaq', 'Superb'] },
+  { make: 'Subaru', models: ['Impreza WRX STI', 'WRX STI', 'Impreza', 'WRX', 'BRZ', 'Forester'] },
+  { make: 'Suzuki', models: ['Swift Sport', 'Swift', 'Jimny', 'Vitara', 'Hayabusa', 'GSX-R1000', 'GSX-R750'] },
+  { make: 'Tesla', models: ['Model S', 'Model 3', 'Model X', 'Model Y', 'Cybertruck', 'Roadster'] },
+  { make: 'Toyota', models: ['GR Yaris', 'GR86', 'GR Supra', 'Supra', 'Land Cruiser', 'Hilux', 'Yaris', 'Corolla', 'RAV4', 'Celica', 'MR2', 'AE86'] },
+  { make: 'Triumph', models: ['Speed Triple', 'Street Triple', 'Tiger 900', 'Tiger 1200', 'Tiger', 'Bonneville', 'Rocket 3', 'Trident'] },
+  { make: 'Vauxhall', models: ['Corsa VXR', 'Astra VXR', 'Insignia VXR', 'Nova GSI', 'Corsa', 'Astra', 'Mokka', 'Vivaro', 'Movano'] },
+  { make: 'Volvo', models: ['XC40', 'XC60', 'XC90', 'EX30', 'EX90', 'V60', 'V90', 'S60', 'S90'] },
+  {
+    make: 'Volkswagen',
+    aliases: ['vw'],
+    models: [
+      'Golf GTI Clubsport', 'Golf GTI', 'Golf GTD', 'Golf R', 'Golf', 'Polo GTI', 'Polo', 'Scirocco',
+      'T-Roc R', 'T-Roc', 'Tiguan R', 'Tiguan', 'Touareg', 'Arteon', 'ID.3', 'ID.4', 'ID. Buzz',
+      'Amarok', 'Transporter', 'Caddy', 'Crafter', 'California', 'Up GTI',
+    ],
+  },
+  { make: 'Yamaha', models: ['YZF-R1', 'R1', 'YZF-R6', 'R6', 'MT-09', 'MT-07', 'MT-10', 'Tenere 700'] },
+];
+
+/**
+ * Models that are also everyday words or other makes' names — only matched
+ * when the make is named too.
+ */
+const MAKE_REQUIRED_MODELS = new Set([
+  'gt', 'z', 'is', 'nx', 'rx', 'ux', 'evo', 'sx', 'exc', 'crf', 'duke', 'ninja', 'tiger', 'monster',
+  'california', 'ghost', 'dawn', 'phantom', 'spectre', 'wraith', 'cooper', 'sl', 'cla', 'cls', 'tt',
+  'focus', 'fiesta', 'puma', 'escort', 'transit', 'ranger', 'civic', 'jazz', 'golf', 'polo', 'caddy',
+  'up gti', 'leon', 'ibiza', 'clio', 'megane', 'corsa', 'astra', 'swift', 'tiguan', 'a1', 'a3', 'a4',
+  'a5', 'a6', 'a7', 'a8', 'q2', 'q3', 'q5', 'q7', 'q8', 'x1', 'x2', 'x3', 'x4', 'x5', 'x6', 'x7',
+  'z4', 'i4', 'i5', 'i7', 'ix', 'i8', 'r1', 'r6', '208', '308', '2008', '3008', '5008', '595', '695',
+  '812', '488', '458', 'roma', 'born', 'niro', 'ceed', 'kona', 'mokka', 'evora', 'elise', 'emira',
+  'brz', 'wrx', 'impreza', 'vitara', 'trident', 'discovery', 'defender 90', 'defender 110',
+  'roadster', 'scrambler', 'compass', 'avenger', 'renegade', 'patrol', 'superb', 'xm', 'xf', 'xe', '4c',
+]);
+
+// ============================================
+// Matching helpers
+// ============================================
+
+const WORD_START = '(?<![a-z0-9])';
+const WORD_END = '(?![a-z0-9])';
+
+/** Case-insensitive whole-word pattern where hyphens, dots and spaces are optional */
+function termPattern(term: string): RegExp {
+  const body = term
+    .toLowerCase()
+    .split(/[-\s.]+/)
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[-\\s.]{0,2}');
+  return new RegExp(`${WORD_START}${body}${WORD_END}`, 'i');
+}
+
+interface CompiledMake {
+  entry: MakeEntry;
+  makeRes: RegExp[];
+  models: { name: string; re: RegExp; makeRequired: boolean }[];
+}
+
+const COMPILED: CompiledMake[] = MAKES.map((entry) => ({
+  entry,
+  makeRes: [entry.make, ...(entry.aliases ?? [])].map(termPattern),
+  models: [...entry.models]
+    .sort((a, b) => b.length - a.length)
+    .map((name) => ({
+      name,
+      re: termPattern(name),
+      makeRequired: MAKE_REQUIRED_MODELS.has(name.toLowerCase()),
+    })),
+}));
+
+interface Hit {
+  index: number;
+  end: number;
+}
+
+function firstHit(res: RegExp[], text: string): Hit | undefined {
+  let best: Hit | undefined;
+  for (const re of res) {
+    const m = re.exec(text);
+    if (m && (!best || m.index < best.index)) best = { index: m.index, end: m.index + m[0].length };
+  }
+  return best;
+}
+
+/** Longest dictionary model in the text (ties go to the earliest) */
+function findModel(
+  make: CompiledMake,
+  text: string,
+  from: number,
+  allowMakeRequired: boolean
+): (Hit & { name: string }) | undefined {
+  const rest = text.slice(from);
+  let best: (Hit & { name: string }) | undefined;
+  for (const model of make.models) {
+    if (model.makeRequired && !allowMakeRequired) continue;
+    const m = model.re.exec(rest);
+    if (!m) continue;
+    const hit = { name: model.name, index: from + m.index, end: from + m.index + m[0].length };
+    if (!best || hit.end - hit.index > best.end - best.index
+      || (hit.end - hit.index === best.end - best.index && hit.index < best.index)) {
+      best = hit;
+    }
+  }
+  return best;
+}
+
+// ============================================
+// Year / variant
+// ============================================
+
+/**
+ * Model year from a four-digit year ("2024 BMW M2", "(2019)") or a UK
+ * registration plate ("24 Plate", "74 reg" — the Sept plate adds 50).
+ */
+export function parseCarYear(text: string, now: Date = new Date()): number | undefined {
+  const maxYear = now.getUTCFullYear() + 1;
+
+  const plate = text.match(/\b(\d{2})\s*(?:plate|reg)\b/i);
+  if (plate) {
+    const n = parseInt(plate[1], 10);
+    const year = 2000 + (n >= 50 ? n - 50 : n);
+    if (year >= 2001 && year <= maxYear) return year;
+  }
+
+  for (const m of Array.from(text.matchAll(/(?<![\d£$,.])(19[5-9]\d|20\d{2})(?![\d,]|\s*(?:tickets?|entries|miles|mi\b|cc\b|bhp|hp\b))/gi))) {
+    const year = parseInt(m[1], 10);
+    if (year <= maxYear) return year;
+  }
+  return undefined;
+}
+
+/** Where a variant ends: cash add-ons, alternatives, separators, parentheses */
+const VARIANT_STOP = /\s*(?:[&+|(,/:;!]|\s[-–—]\s|\bor\b|\bplus\b|\band\b|\bwith\b|\bwin\b|£|\$|\b\d+k\b|\btax[-\s]free\b|\bcash\b|\bbonus\b|\binstant\b)/i;
+
+/** Leftover words that aren't part of a variant */
+const VARIANT_NOISE = /\b(?:\d{2}\s*(?:plate|reg)|(?:19|20)\d{2}|the|new|brand|this|car|giveaway|competition\s+(?:winner|draw))\b/gi;
+
+/** Mileage and bare cash amounts ("2000 Miles", "low mileage", "20,000") that aren't trims */
+const VARIANT_AMOUNTS = /\b(?:low\s+|only\s+)?\d[\d,.]*\s*k?\s*(?:miles?|mi)\b|\b(?:low\s+)?(?:mileage|miles?)\b|\b\d{1,3}(?:,\d{3})+\b|\b\d{4,}\b/gi;
+
+const MAX_VARIANT_WORDS = 5;
+
+/**
+ * Where the variant starts. A hyphenated trim built on the model's last
+ * word ("Focus ST-3", "Golf R-Line") is kept whole as the variant rather
+ * than split at the hyphen into "-3".
+ */
+function variantStart(text: string, model: Hit): number {
+  if (!/^-[a-z0-9]/i.test(text.slice(model.end))) return model.end;
+  const lastWord = text.slice(model.index, model.end).search(/[a-z0-9]+$/i);
+  return lastWord > 0 ? model.index + lastWord : model.end;
+}
+
+function parseVariant(afterModel: string): string | undefined {
+  // Amounts first: "12,000 miles" would otherwise stop the variant at its comma
+  const text = afterModel.replace(VARIANT_AMOUNTS, ' ');
+  const cut = text.search(VARIANT_STOP);
+  const raw = (cut >= 0 ? text.slice(0, cut) : text)
+    .replace(VARIANT_NOISE, ' ')
+    .replace(/[^\w\s.-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^[-.]+/, '');
+  if (!raw) return undefined;
+  return raw.split(' ').slice(0, MAX_VARIANT_WORDS).join(' ');
+}
+
+// ============================================
+// Main parser
+// ============================================
+
+function parseText(text: string, now: Date): ParsedCarSpec | undefined {
+  // 1. An explicit make, earliest in the text
+  let bestMake: { make: CompiledMake; hit: Hit } | undefined;
+  for (const make of COMPILED) {
+    const hit = firstHit(make.makeRes, text);
+    if (hit && (!bestMake || hit.index < bestMake.hit.index
+      || (hit.index === bestMake.hit.index && hit.end > bestMake.hit.end))) {
+      bestMake = { make, hit };
+    }
+  }
+
+  if (bestMake) {
+    const { make, hit } = bestMake;
+    // Model names that start with the make ("Polestar 2") overlap it
+    const model = findModel(make, text, hit.index, true);
+    const modelAfterMake = model && model.index >= hit.index ? model : undefined;
+    return {
+      make: make.entry.make,
+      model: modelAfterMake?.name,
+      year: parseCarYear(text, now),
+      variant: modelAfterMake ? parseVariant(text.slice(variantStart(text, modelAfterMake))) : undefined,
+      confidence: modelAfterMake ? 'high' : 'low',
+    };
+  }
+
+  // 2. A distinctive model on its own ("Golf R", "Range Rover Sport")
+  let bestModel: { make: CompiledMake; model: Hit & { name: string } } | undefined;
+  for (const make of COMPILED) {
+    const model = findModel(make, text, 0, false);
+    if (!model) continue;
+    if (!bestModel || model.end - model.index > bestModel.model.end - bestModel.model.index) {
+      bestModel = { make, model };
+    }
+  }
+  if (!bestModel) return undefined;
+
+  return {
+    make: bestModel.make.entry.make,
+    model: bestModel.model.name,
+    year: parseCarYear(text, now),
+    variant: parseVariant(text.slice(variantStart(text, bestModel.model))),
+    confidence: 'medium',
+  };
+}
+
+/**
+ * Parse make / model / year / variant from a raffle title, falling back to
+ * the description when the title has no make or model. Returns undefined
+ * when neither names a known make or model.
+ */
+export function parseCarSpec(
+  title: string,
+  description?: string,
+  options: { now?: Date } = {}
+): ParsedCarSpec | undefined {
+  const now = options.now ?? new Date();
+  const fromTitle = parseText(title, now);
+  if (fromTitle?.model || !description) return fromTitle;
+
+  const fromDescription = parseText(description, now);
+  if (!fromDescription?.model) return fromTitle ?? fromDescription;
+  if (fromTitle && fromTitle.make !== fromDescription.make) return fromTitle;
+
+  return {
+    ...fromDescription,
+    year: parseCarYear(title, now) ?? fromDescription.year,
+    confidence: fromDescription.confidence === 'high' ? 'medium' : 'low',
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Car valuation — our own estimate of what a prize car is worth
+ *
+ * Sites' "RRP" / "worth £X" claims are often missing or generous. This
+ * estimates a realistic retail value from make / model / year / mileage
+ * using the local reference table in car-price-table.ts — no live pricing
+ * API. persistScrapeResult stores the estimate next to the site's claim so
+ * the value score can fall back to it, or override an inflated claim
+ * (effectivePrizeValue in utils.ts).
+ */
+import { PRICE_TABLE, PRICE_TABLE_VERSION, PriceReference } from './car-price-table';
+
+// ============================================
+// Types
+// ============================================
+
+export interface CarValuationInput {
+  make?: string | null;
+  model?: string | null;
+  year?: number | null;
+  mileage?: number | null;
+}
+
+export interface CarValuation {
+  value: number;      // pence
+  version: string;    // PRICE_TABLE_VERSION used
+}
+
+/** Average UK miles per year — the mileage adjustment is relative to this */
+const AVERAGE_MILES_PER_YEAR = 8_000;
+
+/** Value change per 10,000 miles above / below average */
+const MILEAGE_ADJUSTMENT_PER_10K = 0.03;
+
+/** Mileage can move the estimate by at most this much either way */
+const MAX_MILEAGE_ADJUSTMENT = 0.15;
+
+/** Older than this, prices follow the classic market — don't guess */
+const MAX_AGE_YEARS = 20;
+
+// ============================================
+// Parsing
+// ============================================
+
+/** "12,500 miles", "12k miles", "Only 850 Miles" → miles */
+export function parseMileage(text: string | null | undefined): number | undefined {
+  if (!text) return undefined;
+  const match = text.match(/\b(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(k)?\s*(?:miles?|mi)\b/i);
+  if (!match) return undefined;
+  const miles = parseFloat(match[1].replace(/,/g, '')) * (match[2] ? 1000 : 1);
+  return Number.isFinite(miles) ? Math.round(miles) : undefined;
+}
+
+// ============================================
+// Estimation
+// ============================================
+
+function findReference(make: string, model: string): PriceReference | undefined {
+  const m = make.toLowerCase();
+  const mo = model.toLowerCase();
+  return PRICE_TABLE.find((r) => r.make.toLowerCase() === m && r.model.toLowerCase() === mo);
+}
+
+/**
+ * Estimated retail value (pence) for a car, or undefined when the model
+ * isn't in the reference table, the year is unknown, or the car is too old
+ * to value this way. Without a year the age — and so the value — is a
+ * guess, so the value score falls back to the site's claim or the cash
+ * alternative instead. No mileage = average.
+ */
+export function estimateCarValue(
+  car: CarValuationInput,
+  now: Date = new Date()
+): CarValuation | undefined {
+  if (!car.make || !car.model || car.year == null) return undefined;
+  const ref = findReference(car.make, car.model);
+  if (!ref) return undefined;
+
+  const age = Math.max(0, now.getUTCFullYear() - car.year);
+  if (age > MAX_AGE_YEARS) return undefined;
+
+  let value = ref.newPrice * (1 - ref.depreciation) ** age;
+
+  if (car.mileage != null) {
+    const expected = AVERAGE_MILES_PER_YEAR * Math.max(age, 1);
+    const adjustment = -((car.mileage - expected) / 10_000) * MILEAGE_ADJUSTMENT_PER_10K;
+    value *= 1 + Math.max(-MAX_MILEAGE_ADJUSTMENT, Math.min(MAX_MILEAGE_ADJUSTMENT, adjustment));
+  }
+
+  // Nearest £100
+  return { value: Math.round(value / 10_000) * 10_000, version: PRICE_TABLE_VERSION };
+}
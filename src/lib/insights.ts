@@ -1,5 +1,6 @@
 // src/lib/insights.ts
 import { createBrowserClient } from './supabase';
+import { countDistinctPrizes } from './utils';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -37,9 +38,20 @@ export interface MarketBreakdownSiteData {
   counts: Record<string, number>;  // prize_type → count
 }
 
+export interface WinnerStatsRow {
+  name: string;
+  slug: string;
+  results: number;        // draws with a published winner
+  with_ticket: number;    // ...naming the winning ticket
+  with_video: number;     // ...linking a draw recording
+  cash_taken: number;     // winners who took the cash alternative
+  claim_known: number;    // results saying either way
+}
+
 export interface InsightsMetadata {
   last_snapshot_at: string | null;
   active_competition_count: number;
+  distinct_prize_count: number;   // grouped listings of the same prize count once
   site_count: number;
 }
 
@@ -117,6 +129,24 @@ export function groupMarketBreakdownRows(
   }));
 }
 
+export function groupDrawResultRows(
+  rows: { name: string; slug: string; winning_ticket: string | null; draw_video_url: string | null; claim_type: string | null }[]
+): WinnerStatsRow[] {
+  const map = new Map<string, WinnerStatsRow>();
+  for (const row of rows) {
+    const entry = map.get(row.slug) ?? {
+      name: row.name, slug: row.slug, results: 0, with_ticket: 0, with_video: 0, cash_taken: 0, claim_known: 0,
+    };
+    entry.results++;
+    if (row.winning_ticket) entry.with_ticket++;
+    if (row.draw_video_url) entry.with_video++;
+    if (row.claim_type) entry.claim_known++;
+    if (row.claim_type === 'cash') entry.cash_taken++;
+    map.set(row.slug, entry);
+  }
+  return Array.from(map.values()).sort((a, b) => b.results - a.results);
+}
+
 // ─── Data fetching functions ──────────────────────────────────────────────────
 
 export async function getSiteComparisonData(): Promise<SiteComparisonRow[]> {
@@ -214,7 +244,7 @@ export async function getInsightsMetadata(): Promise<InsightsMetadata> {
       .limit(1),
     supabase
       .from('raffles')
-      .select('id', { count: 'exact', head: true })
+      .select('id, prize_group_id', { count: 'exact' })
       .in('status', ['active', 'ending_soon']),
     supabase
       .from('sites')
@@ -224,6 +254,30 @@ export async function getInsightsMetadata(): Promise<InsightsMetadata> {
   return {
     last_snapshot_at: (snapshotRes.data?.[0]?.snapshot_at as string) ?? null,
     active_competition_count: activeRes.count ?? 0,
+    distinct_prize_count: countDistinctPrizes(activeRes.data ?? []),
     site_count: sitesRes.count ?? 0,
   };
 }
+
+export async function getWinnerStats(): Promise<WinnerStatsRow[]> {
+  const supabase = createBrowserClient();
+  const { data, error } = await supabase
+    .from('draw_results')
+    .select('winning_ticket, draw_video_url, claim_type, raffle:raffles!inner(site:sites!inner(name, slug))');
+  if (error || !data) return [];
+  const rows = data as unknown as {
+    winning_ticket: string | null;
+    draw_video_url: string | null;
+    claim_type: string | null;
+    raffle: { site: { name: string; slug: string } };
+  }[];
+  return groupDrawResultRows(
+    rows.map(r => ({
+      name: r.raffle.site.name,
+      slug: r.raffle.site.slug,
+      winning_ticket: r.winning_ticket,
+      draw_video_url: r.draw_video_url,
+      claim_type: r.claim_type,
+    }))
+  );
+}
@@ -17,6 +17,8 @@ export interface Site {
   competition_model: 'fixed_odds' | 'spot_the_ball' | 'unlimited';
   has_affiliate: boolean;
   active: boolean;
+  full_interval_minutes: number;   // scrape job cadence (scraper service)
+  quick_interval_minutes: number;
   created_at: string;
   updated_at: string;
 }
@@ -36,6 +38,8 @@ export type CarCategory =
 
 export type RaffleStatus = 'active' | 'ending_soon' | 'sold_out' | 'drawn' | 'cancelled';
 
+export type CloseOutcome = 'drawn' | 'extended' | 'rolled_over' | 'cancelled';
+
 export interface Raffle {
   id: string;
   site_id: string;
@@ -49,26 +53,45 @@ export interface Raffle {
   car_model: string | null;
   car_year: number | null;
   car_variant: string | null;
+  car_spec_confidence: 'high' | 'medium' | 'low' | null;
   car_category: CarCategory | null;
+  prize_group_id: string | null;    // shared by listings of the same prize (prize-groups.ts)
 
   // Prize details
-  prize_value: number | null;       // pence
+  prize_value: number | null;       // pence, as claimed by the site
+  estimated_value: number | null;   // pence, our estimate (car-valuation.ts)
+  valuation_version: string | null; // price table version behind estimated_value
   cash_alternative: number | null;  // pence
   additional_cash: number | null;   // pence
-  image_url: string | null;
+  image_url: string | null;         // our mirrored copy once mirrored (image-mirror.ts)
+  image_source_url: string | null;  // the site's original image URL
+  image_hash: string | null;        // perceptual hash of the image
+  image_variants: { thumb: string; card: string; full: string } | null;
+  image_mirror_attempts: number;    // failed mirrors since the image last changed
+  image_mirror_failed_at: string | null;
   source_url: string;
 
   // Ticket/odds data
   ticket_price: number | null;      // pence
+  price_tiers: PriceTier[] | null;  // bundle offers, e.g. 5 for £4
   total_tickets: number | null;
   tickets_sold: number | null;
   tickets_remaining: number | null;
   percent_sold: number | null;
+  max_per_person: number | null;     // per-entrant ticket cap
 
   // Calculated fields
   odds_ratio: number | null;
+  best_odds_ratio: number | null;    // total_tickets / max_per_person
   value_per_pound: number | null;
-  expected_value: number | null;
+  expected_value: number | null;     // includes runner-up tiers and unclaimed instant-win value
+
+  // Prize tiers after the first (rolled up from raffle_prizes)
+  runner_up_value: number | null;    // pence
+
+  // Instant wins (rolled up from instant_wins)
+  instant_wins_remaining: number | null;
+  instant_win_value_remaining: number | null;  // pence
 
   // Timing
   end_date: string | null;
@@ -76,10 +99,14 @@ export interface Raffle {
 
   // Status
   status: RaffleStatus;
+  close_outcome: CloseOutcome | null;   // set by post-close verification
+  close_verified_at: string | null;
+  close_checked_at: string | null;     // last verification visit, classified or not
   is_featured: boolean;
 
   // Metadata
   last_scraped_at: string | null;
+  detail_scraped_at: string | null;
   created_at: string;
   updated_at: string;
 
@@ -87,6 +114,12 @@ export interface Raffle {
   site?: Site;
 }
 
+/** A bundle offer: `quantity` tickets for `price` pence in total */
+export interface PriceTier {
+  quantity: number;
+  price: number;
+}
+
 export interface ScrapeLog {
   id: string;
   site_id: string;
@@ -108,3 +141,50 @@ export interface RaffleSnapshot {
   ticket_price: number | null;
   snapshot_at: string;
 }
+
+/** A tracked field a site changed on a live raffle (src/scrapers/raffle-changes.ts) */
+export interface RaffleChange {
+  id: string;
+  raffle_id: string;
+  field: 'title' | 'end_date' | 'ticket_price' | 'total_tickets' | 'cash_alternative' | 'prize_value' | 'max_per_person';
+  old_value: string | number;       // pence for money fields, ISO timestamp for end_date
+  new_value: string | number;
+  changed_at: string;
+}
+
+/** A raffle's draw result, from the site's winners page (src/scrapers/draw-results.ts) */
+export interface DrawResult {
+  id: string;
+  raffle_id: string;
+  winning_ticket: string | null;
+  winner_name: string | null;       // first name only
+  winner_location: string | null;
+  draw_video_url: string | null;
+  claim_type: 'prize' | 'cash' | null;
+  result_url: string | null;
+  scraped_at: string;
+  raffle?: Raffle;
+}
+
+export interface InstantWin {
+  id: string;
+  raffle_id: string;
+  prize: string;
+  value: number | null;             // pence, per prize
+  quantity: number;
+  quantity_won: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RafflePrize {
+  id: string;
+  raffle_id: string;
+  position: number;                 // 1 = main prize
+  prize: string;
+  value: number | null;             // pence, per winner
+  cash_alternative: number | null;  // pence, per winner
+  quantity: number;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,397 @@
+/**
+ * UK competition date parsing
+ *
+ * One parser for the end/draw date text every scraper sees:
+ *   "Ends Tonight", "ENDS TODAY 23:00", "Draw Tomorrow 10pm"
+ *   "Draw Sun 27th Feb 8pm", "Wednesday 11th February 2026 at 9pm"
+ *   "28/6/2026 - 2:00PM", "23.12.2025 8pm", "27 December 2025"
+ *   "Ends in 2d 4h", "Ends in 3 days", "02:04:10:05"
+ *   ISO strings and epoch countdown timestamps (seconds or ms)
+ *
+ * All wall-clock times are Europe/London. BST/GMT is computed explicitly
+ * (last Sunday of March / October at 01:00 UTC) so results don't depend on
+ * the server's TZ or ICU data.
+ *
+ * Dates without a year are end dates, so they're taken as the next
+ * occurrence — or a recent one, up to RECENT_PAST_DAYS back, since sites
+ * keep just-ended competitions listed. A weekday ("Sun 27th Feb") picks the
+ * year it fits when present.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * How much of the result came from the text vs. inference.
+ * - high:   exact instant (full date + time, ISO, timestamp, h/m countdown)
+ * - medium: one component inferred (year or time of day)
+ * - low:    several components inferred, or the text contradicts itself
+ */
+export type DateConfidence = 'high' | 'medium' | 'low';
+
+export interface ParsedUkDate {
+  date: Date;
+  confidence: DateConfidence;
+}
+
+export interface UkDateOptions {
+  /** Reference time for relative text and year inference (default: new Date()) */
+  now?: Date;
+  /** Time of day when the text has none (default 21:00 — the usual draw time) */
+  defaultTime?: { hour: number; minute: number };
+}
+
+export interface LondonParts {
+  year: number;
+  month: number;    // 0-11
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;  // 0=Sun
+}
+
+// ============================================
+// Europe/London helpers
+// ============================================
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** How far back a yearless date may land before it's read as next year's */
+const RECENT_PAST_DAYS = 90;
+
+/** Day of month of the last Sunday in a month */
+function lastSunday(year: number, month: number): number {
+  const last = new Date(Date.UTC(year, month + 1, 0));
+  return last.getUTCDate() - last.getUTCDay();
+}
+
+/** BST runs from 01:00 UTC on the last Sunday of March to 01:00 UTC on the last Sunday of October */
+export function isBritishSummerTime(date: Date): boolean {
+  const year = date.getUTCFullYear();
+  const start = Date.UTC(year, 2, lastSunday(year, 2), 1);
+  const end = Date.UTC(year, 9, lastSunday(year, 9), 1);
+  const t = date.getTime();
+  return t >= start && t < end;
+}
+
+/**
+ * Build the instant for a Europe/London wall-clock time.
+ * Out-of-range days roll over like Date.UTC (day 32 → next month).
+ * Times in the spring-forward gap resolve to the hour after; times in the
+ * autumn overlap resolve to the first (BST) occurrence.
+ */
+export function londonTime(
+  year: number,
+  month: number,
+  day: number,
+  hour: number = 0,
+  minute: number = 0
+): Date {
+  const asUtc = Date.UTC(year, month, day, hour, minute);
+  const asBst = new Date(asUtc - HOUR_MS);
+  return isBritishSummerTime(asBst) ? asBst : new Date(asUtc);
+}
+
+/** Europe/London wall-clock components of an instant */
+export function londonParts(date: Date): LondonParts {
+  const shifted = new Date(date.getTime() + (isBritishSummerTime(date) ? HOUR_MS : 0));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth(),
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+    weekday: shifted.getUTCDay(),
+  };
+}
+
+// ============================================
+// Token tables
+// ============================================
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
+  jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+};
+
+const MONTH_PATTERN =
+  'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6,
+};
+
+const WEEKDAY_PATTERN =
+  'sunday|sun|monday|mon|tuesday|tues|tue|wednesday|wed|thursday|thurs|thur|thu|friday|fri|saturday|sat';
+
+const DAY_MONTH_RE = new RegExp(
+  `\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_PATTERN})\\b\\.?(?:,?\\s+(\\d{4}))?`,
+  'i'
+);
+const MONTH_DAY_RE = new RegExp(
+  `\\b(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4}))?`,
+  'i'
+);
+const WEEKDAY_RE = new RegExp(`\\b(${WEEKDAY_PATTERN})\\b`, 'i');
+
+const CONFIDENCE_LEVELS: DateConfidence[] = ['high', 'medium', 'low'];
+
+function downgrade(confidence: DateConfidence, steps: number = 1): DateConfidence {
+  const index = Math.min(CONFIDENCE_LEVELS.indexOf(confidence) + steps, CONFIDENCE_LEVELS.length - 1);
+  return CONFIDENCE_LEVELS[index];
+}
+
+// ============================================
+// Component parsers
+// ============================================
+
+/**
+ * Pull a time of day out of the text. Returns the remaining text so that
+ * "23:00" or "8pm" can't be mistaken for a day of the month.
+ */
+function extractTime(text: string): { time?: { hour: number; minute: number }; rest: string } {
+  const withMinutes = text.match(/\b(\d{1,2})[:.](\d{2})\s*(am|pm)?\b/i);
+  const hourOnly = text.match(/\b(\d{1,2})\s*(am|pm)\b/i);
+  const match = withMinutes ?? hourOnly;
+
+  if (match) {
+    let hour = parseInt(match[1], 10);
+    const minute = withMinutes ? parseInt(match[2], 10) : 0;
+    const ampm = (withMinutes ? match[3] : match[2])?.toLowerCase();
+    if (ampm === 'pm' && hour < 12) hour += 12;
+    if (ampm === 'am' && hour === 12) hour = 0;
+    if (hour > 23 || minute > 59) return { rest: text };
+    return { time: { hour, minute }, rest: text.replace(match[0], ' ') };
+  }
+
+  if (/\bmidday\b|\bnoon\b/i.test(text)) return { time: { hour: 12, minute: 0 }, rest: text };
+  if (/\bmidnight\b/i.test(text)) return { time: { hour: 23, minute: 59 }, rest: text };
+
+  return { rest: text };
+}
+
+/** Epoch timestamps from countdown widgets — 10 digits = seconds, 13 = ms */
+function parseTimestamp(text: string): ParsedUkDate | undefined {
+  const match = text.match(/^(\d{10}|\d{13})(?:\.\d+)?$/);
+  if (!match) return undefined;
+  const value = parseInt(match[1], 10);
+  const ms = match[1].length === 10 ? value * 1000 : value;
+  return { date: new Date(ms), confidence: 'high' };
+}
+
+function parseIso(text: string, options: Required<UkDateOptions>): ParsedUkDate | undefined {
+  const match = text.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?)?$/i
+  );
+  if (!match) return undefined;
+
+  const [, y, mo, d, h, mi, zone] = match;
+  if (zone) {
+    const date = new Date(text.replace(' ', 'T').replace(/\s+/, ''));
+    return isNaN(date.getTime()) ? undefined : { date, confidence: 'high' };
+  }
+  if (h != null) {
+    return {
+      date: londonTime(+y, +mo - 1, +d, +h, +mi),
+      confidence: 'high',
+    };
+  }
+  return {
+    date: londonTime(+y, +mo - 1, +d, options.defaultTime.hour, options.defaultTime.minute),
+    confidence: 'medium',
+  };
+}
+
+/**
+ * Pick the year for a day/month with no year: the first candidate no more
+ * than RECENT_PAST_DAYS ago, preferring years where the weekday matches.
+ */
+function inferYear(
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  weekday: number | undefined,
+  now: Date
+): { date: Date; weekdayMatched: boolean } {
+  const thisYear = londonParts(now).year;
+  const candidates = [thisYear - 1, thisYear, thisYear + 1].map((year) =>
+    londonTime(year, month, day, hour, minute)
+  );
+  const earliest = now.getTime() - RECENT_PAST_DAYS * DAY_MS;
+  const pick = (dates: Date[]) => dates.find((d) => d.getTime() >= earliest) ?? dates[dates.length - 1];
+
+  if (weekday != null) {
+    const matching = candidates.filter((d) => londonParts(d).weekday === weekday);
+    if (matching.length > 0) return { date: pick(matching), weekdayMatched: true };
+  }
+  return { date: pick(candidates), weekdayMatched: false };
+}
+
+/** Countdown clocks rendered as "02:04:10:05" (d:h:m:s) */
+function parseClockCountdown(text: string, now: Date): ParsedUkDate | undefined {
+  const match = text.match(/^(\d+):(\d{2}):(\d{2}):(\d{2})$/);
+  if (!match) return undefined;
+  const [d, h, m, s] = match.slice(1).map((v) => parseInt(v, 10));
+  const ms = d * DAY_MS + h * HOUR_MS + m * 60_000 + s * 1000;
+  return { date: new Date(now.getTime() + ms), confidence: 'high' };
+}
+
+/** "2d 4h", "3 days", "4 hours 30 mins" */
+function parseCountdown(text: string, options: Required<UkDateOptions>): ParsedUkDate | undefined {
+  const { now, defaultTime } = options;
+  const unitRe = /(\d+)\s*(days?|d|hours?|hrs?|h|minutes?|mins?|m|seconds?|secs?|s)\b/gi;
+  let days = 0;
+  let ms = 0;
+  let found = false;
+  let precise = false;
+
+  for (const match of Array.from(text.matchAll(unitRe))) {
+    const value = parseInt(match[1], 10);
+    const unit = match[2].toLowerCase();
+    found = true;
+    if (unit.startsWith('d')) {
+      days += value;
+    } else {
+      precise = true;
+      if (unit.startsWith('h')) ms += value * HOUR_MS;
+      else if (unit.startsWith('m')) ms += value * 60_000;
+      else ms += value * 1000;
+    }
+  }
+
+  if (!found) return undefined;
+
+  if (precise) {
+    return { date: new Date(now.getTime() + days * DAY_MS + ms), confidence: 'high' };
+  }
+
+  // Whole days only — land on the usual draw time that day
+  const today = londonParts(now);
+  return {
+    date: londonTime(today.year, today.month, today.day + days, defaultTime.hour, defaultTime.minute),
+    confidence: 'medium',
+  };
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Parse UK competition end/draw date text. Returns undefined when the
+ * text has no recognisable date.
+ */
+export function parseUkDate(
+  text: string | null | undefined,
+  options: UkDateOptions = {}
+): ParsedUkDate | undefined {
+  if (!text) return undefined;
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+
+  const opts: Required<UkDateOptions> = {
+    now: options.now ?? new Date(),
+    defaultTime: options.defaultTime ?? { hour: 21, minute: 0 },
+  };
+  const { now, defaultTime } = opts;
+
+  const timestamp = parseTimestamp(trimmed);
+  if (timestamp) return timestamp;
+
+  const iso = parseIso(trimmed, opts);
+  if (iso) return iso;
+
+  const clock = parseClockCountdown(trimmed, now);
+  if (clock) return clock;
+
+  // "28/6/2026", "28/06/26" or "23.12.2025" — matched before the time so
+  // a dotted date isn't read as 23:12
+  const numeric = trimmed.match(/\b(\d{1,2})([/.])(\d{1,2})\2(\d{4}|\d{2})\b/);
+  const { time, rest } = extractTime((numeric ? trimmed.replace(numeric[0], ' ') : trimmed).replace(/@/g, ' at '));
+  const hour = time?.hour ?? defaultTime.hour;
+  const minute = time?.minute ?? defaultTime.minute;
+  const timeConfidence: DateConfidence = time ? 'high' : 'medium';
+
+  if (numeric) {
+    const day = parseInt(numeric[1], 10);
+    const month = parseInt(numeric[3], 10) - 1;
+    let year = parseInt(numeric[4], 10);
+    if (year < 100) year += 2000;
+    if (month < 0 || month > 11 || day < 1 || day > 31) return undefined;
+    return { date: londonTime(year, month, day, hour, minute), confidence: timeConfidence };
+  }
+
+  // "Sun 27th Feb", "11 February 2026", "February 11th"
+  const dayMonth = rest.match(DAY_MONTH_RE);
+  const monthDay = dayMonth ? null : rest.match(MONTH_DAY_RE);
+  if (dayMonth || monthDay) {
+    const day = parseInt(dayMonth ? dayMonth[1] : monthDay![2], 10);
+    const month = MONTHS[(dayMonth ? dayMonth[2] : monthDay![1]).slice(0, 3).toLowerCase()];
+    const yearText = dayMonth ? dayMonth[3] : monthDay![3];
+    if (month === undefined || day < 1 || day > 31) return undefined;
+
+    const weekdayMatch = rest.match(WEEKDAY_RE);
+    const weekday = weekdayMatch ? WEEKDAYS[weekdayMatch[1].slice(0, 3).toLowerCase()] : undefined;
+
+    if (yearText) {
+      return {
+        date: londonTime(parseInt(yearText, 10), month, day, hour, minute),
+        confidence: timeConfidence,
+      };
+    }
+
+    const inferred = inferYear(month, day, hour, minute, weekday, now);
+    let confidence: DateConfidence = timeConfidence;
+    if (weekday != null && !inferred.weekdayMatched) confidence = 'low';
+    else if (!inferred.weekdayMatched) confidence = downgrade(confidence);
+    return { date: inferred.date, confidence };
+  }
+
+  // "Ends Tonight", "TODAY 23:00", "Draw Tomorrow 10pm"
+  const lower = rest.toLowerCase();
+  const today = londonParts(now);
+  if (/\b(today|tonight)\b/.test(lower)) {
+    return { date: londonTime(today.year, today.month, today.day, hour, minute), confidence: timeConfidence };
+  }
+  if (/\btomorrow\b/.test(lower)) {
+    return { date: londonTime(today.year, today.month, today.day + 1, hour, minute), confidence: timeConfidence };
+  }
+
+  const countdown = parseCountdown(rest, opts);
+  if (countdown) return countdown;
+
+  // "ENDS SUNDAY" — next occurrence (today only if that time is still ahead)
+  const weekdayOnly = rest.match(WEEKDAY_RE);
+  if (weekdayOnly) {
+    const target = WEEKDAYS[weekdayOnly[1].slice(0, 3).toLowerCase()];
+    let daysUntil = (target - today.weekday + 7) % 7;
+    let date = londonTime(today.year, today.month, today.day + daysUntil, hour, minute);
+    if (date <= now) {
+      daysUntil += 7;
+      date = londonTime(today.year, today.month, today.day + daysUntil, hour, minute);
+    }
+    return { date, confidence: downgrade(timeConfidence) };
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse several texts for the same date (say a detail page's and a card's)
+ * and keep the most confident result; earlier texts win ties.
+ */
+export function mostConfidentUkDate(
+  texts: Array<string | null | undefined>,
+  options: UkDateOptions = {}
+): ParsedUkDate | undefined {
+  let best: ParsedUkDate | undefined;
+  for (const text of texts) {
+    const parsed = parseUkDate(text, options);
+    if (!parsed) continue;
+    if (!best || CONFIDENCE_LEVELS.indexOf(parsed.confidence) < CONFIDENCE_LEVELS.indexOf(best.confidence)) best = parsed;
+  }
+  return best;
+}
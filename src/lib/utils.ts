@@ -1,6 +1,6 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
-import type { PrizeType, CarCategory } from './types';
+import type { PrizeType, CarCategory, PriceTier } from './types';
 
 // ============================================
 // shadcn/ui Utility
@@ -22,6 +22,18 @@ export function calculateOddsRatio(totalTickets: number | null): number | null {
   return totalTickets;
 }
 
+/**
+ * Best possible odds for one person — "1 in X" when buying the per-person
+ * maximum. Null when there's no known cap.
+ */
+export function calculateBestOddsRatio(
+  totalTickets: number | null,
+  maxPerPerson: number | null
+): number | null {
+  if (!totalTickets || totalTickets <= 0 || !maxPerPerson || maxPerPerson <= 0) return null;
+  return Number((totalTickets / Math.min(maxPerPerson, totalTickets)).toFixed(2));
+}
+
 /**
  * Value per pound — how much prize value per £1 spent.
  * Uses cashAlternative as fallback when prizeValue isn't available.
@@ -36,13 +48,43 @@ export function calculateValuePerPound(
   return value / ticketPrice;
 }
 
+/**
+ * A site-claimed prize value this far above our own estimate
+ * (estimateCarValue) is treated as inflated.
+ */
+export const INFLATED_CLAIM_RATIO = 1.25;
+
+/** Is the site's claimed prize value well above our estimate? */
+export function isInflatedClaim(
+  claimedValue: number | null | undefined,
+  estimatedValue: number | null | undefined
+): boolean {
+  return !!claimedValue && !!estimatedValue && claimedValue > estimatedValue * INFLATED_CLAIM_RATIO;
+}
+
+/**
+ * Prize value (pence) the value metrics use: the site's claim, or our
+ * estimate when the claim is missing or inflated.
+ */
+export function effectivePrizeValue(
+  claimedValue: number | null | undefined,
+  estimatedValue: number | null | undefined
+): number | null {
+  if (!claimedValue) return estimatedValue || null;
+  return isInflatedClaim(claimedValue, estimatedValue) ? estimatedValue! : claimedValue;
+}
+
 /**
  * Expected value (Value Score) — return per £1 spent.
  *
- *   Value Score = Prize Value / (Ticket Price × Total Tickets)
+ *   Value Score = (Prize Value + Runner-up Value) / (Ticket Price × Total Tickets)
+ *               + Unclaimed Instant-Win Value / (Ticket Price × Tickets Remaining)
  *
  * A score of 0.75 means for every £1 you spend, you're "buying"
- * 75p of prize value on average. Higher is better.
+ * 75p of prize value on average. Higher is better. Runner-up value is
+ * every prize tier after the first (see sumPrizeTiers). Unclaimed instant
+ * wins can only land on tickets still for sale, so they're spread over
+ * the remaining tickets (total tickets if that's unknown).
  *
  * Uses cashAlternative as fallback when prizeValue isn't available.
  */
@@ -50,30 +92,130 @@ export function calculateExpectedValue(
   prizeValue: number | null,
   cashAlternative: number | null,
   totalTickets: number | null,
-  ticketPrice: number | null
+  ticketPrice: number | null,
+  extras: {
+    runnerUpValue?: number | null;
+    instantWinValueRemaining?: number | null;
+    ticketsRemaining?: number | null;
+  } = {}
 ): number | null {
-  const value = prizeValue || cashAlternative;
-  if (!value || !totalTickets || !ticketPrice || totalTickets <= 0 || ticketPrice <= 0) {
+  const { runnerUpValue, instantWinValueRemaining, ticketsRemaining } = extras;
+  const value = (prizeValue || cashAlternative || 0) + (runnerUpValue || 0);
+  if (!totalTickets || !ticketPrice || totalTickets <= 0 || ticketPrice <= 0) {
     return null;
   }
-  return (value / totalTickets) / ticketPrice;
+  if (!value && !instantWinValueRemaining) return null;
+
+  const drawEv = (value / totalTickets) / ticketPrice;
+  const iwTickets = ticketsRemaining != null && ticketsRemaining > 0 ? ticketsRemaining : totalTickets;
+  const instantWinEv = instantWinValueRemaining
+    ? (instantWinValueRemaining / iwTickets) / ticketPrice
+    : 0;
+  return drawEv + instantWinEv;
 }
 
 /**
- * Compute raw value ratio from a Raffle object (client-side).
- * Returns the expected return per £1 spent (0–1+), or null.
- * Used internally for sorting and for computing the 0-100 score.
+ * Total value (pence) of a list of prize tiers — value × quantity per tier,
+ * falling back to the cash alternative when a tier has no value.
+ */
+export function sumPrizeTiers(
+  tiers: Array<{ value?: number | null; cashAlternative?: number | null; quantity?: number | null }>
+): number {
+  return tiers.reduce(
+    (sum, tier) => sum + (tier.value || tier.cashAlternative || 0) * (tier.quantity ?? 1),
+    0
+  );
+}
+
+/**
+ * Roll up an instant-win prize list into unclaimed count and value (pence).
+ * Prizes with no known value count towards `remaining` but not `value`.
+ */
+export function summarizeInstantWins(
+  instantWins: Array<{ value?: number | null; quantity: number; quantityWon: number }>
+): { remaining: number; value: number } {
+  let remaining = 0;
+  let value = 0;
+  for (const win of instantWins) {
+    const left = Math.max(win.quantity - win.quantityWon, 0);
+    remaining += left;
+    if (win.value) value += left * win.value;
+  }
+  return { remaining, value };
+}
+
+/**
+ * Basket size the value score and price sort assume when a raffle sells
+ * bundles — roughly what a typical entrant buys.
+ */
+export const TYPICAL_BASKET_SIZE = 10;
+
+/**
+ * Cheapest total (pence) for exactly `count` tickets, mixing single tickets
+ * and bundle offers. Returns null if `count` can't be made up (no single
+ * price and no bundle combination fits).
+ */
+export function cheapestBasketPrice(
+  ticketPrice: number | null,
+  priceTiers: PriceTier[] | null | undefined,
+  count: number
+): number | null {
+  if (count <= 0) return null;
+  const tiers = (priceTiers ?? []).filter((t) => t.quantity > 0 && t.price > 0);
+  const single = ticketPrice && ticketPrice > 0 ? ticketPrice : null;
+  if (!single && tiers.length === 0) return null;
+
+  // best[n] = cheapest way to buy exactly n tickets
+  const best: number[] = [0];
+  for (let n = 1; n <= count; n++) {
+    let cost = single != null ? best[n - 1] + single : Infinity;
+    for (const tier of tiers) {
+      if (tier.quantity <= n) cost = Math.min(cost, best[n - tier.quantity] + tier.price);
+    }
+    best.push(cost);
+  }
+  return Number.isFinite(best[count]) ? best[count] : null;
+}
+
+/**
+ * Effective price per ticket (pence) when buying `count` tickets, taking
+ * bundle offers into account. Falls back to the single-ticket price.
  */
-export function getValueScore(raffle: {
+export function effectiveTicketPrice(
+  ticketPrice: number | null,
+  priceTiers: PriceTier[] | null | undefined,
+  count: number = TYPICAL_BASKET_SIZE
+): number | null {
+  if (!priceTiers || priceTiers.length === 0) return ticketPrice;
+  const total = cheapestBasketPrice(ticketPrice, priceTiers, count);
+  return total != null ? total / count : ticketPrice;
+}
+
+/** Raffle fields the client-side value score reads */
+type ValueScoreInput = {
   prize_value: number | null;
+  estimated_value?: number | null;
   cash_alternative: number | null;
+  runner_up_value?: number | null;
   total_tickets: number | null;
   ticket_price: number | null;
-}): number | null {
-  const value = raffle.prize_value || raffle.cash_alternative;
-  if (!value || !raffle.total_tickets || !raffle.ticket_price) return null;
-  if (raffle.total_tickets <= 0 || raffle.ticket_price <= 0) return null;
-  return value / (raffle.total_tickets * raffle.ticket_price);
+  price_tiers?: PriceTier[] | null;
+};
+
+/**
+ * Compute raw value ratio from a Raffle object (client-side).
+ * Returns the expected return per £1 spent (0–1+), or null.
+ * Used internally for sorting and for computing the 0-100 score.
+ * Bundle offers are priced at TYPICAL_BASKET_SIZE tickets. Missing or
+ * inflated prize values fall back to our estimate (effectivePrizeValue).
+ */
+export function getValueScore(raffle: ValueScoreInput): number | null {
+  const prizeValue = effectivePrizeValue(raffle.prize_value, raffle.estimated_value);
+  const value = (prizeValue || raffle.cash_alternative || 0) + (raffle.runner_up_value || 0);
+  const ticketPrice = effectiveTicketPrice(raffle.ticket_price, raffle.price_tiers);
+  if (!value || !raffle.total_tickets || !ticketPrice) return null;
+  if (raffle.total_tickets <= 0 || ticketPrice <= 0) return null;
+  return value / (raffle.total_tickets * ticketPrice);
 }
 
 /**
@@ -81,12 +223,7 @@ export function getValueScore(raffle: {
  * Uses a square-root curve so scores spread nicely across the range:
  *   raw 1.00 → 100,  0.50 → 71,  0.25 → 50,  0.10 → 32,  0.01 → 10
  */
-export function getValueScore100(raffle: {
-  prize_value: number | null;
-  cash_alternative: number | null;
-  total_tickets: number | null;
-  ticket_price: number | null;
-}): number | null {
+export function getValueScore100(raffle: ValueScoreInput): number | null {
   const raw = getValueScore(raffle);
   if (raw == null) return null;
   return Math.min(Math.round(Math.sqrt(raw) * 100), 100);
@@ -127,6 +264,9 @@ export function calculateRaffleMetrics(data: {
   ticketPrice: number | null;
   ticketsSold: number | null;
   endDate: Date | null;
+  maxPerPerson?: number | null;
+  runnerUpValue?: number | null;
+  instantWinValueRemaining?: number | null;
 }) {
   const { prizeValue, cashAlternative, totalTickets, ticketPrice, ticketsSold, endDate } = data;
 
@@ -141,8 +281,13 @@ export function calculateRaffleMetrics(data: {
       : null;
 
   const oddsRatio = calculateOddsRatio(totalTickets);
+  const bestOddsRatio = calculateBestOddsRatio(totalTickets, data.maxPerPerson ?? null);
   const valuePerPound = calculateValuePerPound(prizeValue, cashAlternative, ticketPrice);
-  const expectedValue = calculateExpectedValue(prizeValue, cashAlternative, totalTickets, ticketPrice);
+  const expectedValue = calculateExpectedValue(prizeValue, cashAlternative, totalTickets, ticketPrice, {
+    runnerUpValue: data.runnerUpValue,
+    instantWinValueRemaining: data.instantWinValueRemaining,
+    ticketsRemaining,
+  });
 
   // Determine status
   let status: 'active' | 'ending_soon' | 'sold_out' = 'active';
@@ -159,12 +304,48 @@ export function calculateRaffleMetrics(data: {
     tickets_remaining: ticketsRemaining,
     percent_sold: percentSold,
     odds_ratio: oddsRatio,
+    best_odds_ratio: bestOddsRatio,
     value_per_pound: valuePerPound,
     expected_value: expectedValue,
     status,
   };
 }
 
+// ============================================
+// Prize Groups
+// ============================================
+
+/** Raffle fields the prize-group helpers read */
+type PrizeGroupMember = {
+  id: string;
+  site_id: string;
+  prize_group_id?: string | null;
+  total_tickets: number | null;
+};
+
+/**
+ * Another site's listing of the same prize (same prize_group_id) with
+ * better odds — the one with the fewest tickets — or null.
+ */
+export function findBetterOddsListing<T extends PrizeGroupMember>(raffle: PrizeGroupMember, pool: T[]): T | null {
+  if (!raffle.prize_group_id || !raffle.total_tickets) return null;
+  let best: T | null = null;
+  for (const other of pool) {
+    if (other.prize_group_id !== raffle.prize_group_id || other.site_id === raffle.site_id) continue;
+    if (!other.total_tickets || other.total_tickets >= (best?.total_tickets ?? raffle.total_tickets)) continue;
+    best = other;
+  }
+  return best;
+}
+
+/**
+ * Number of distinct prizes — listings sharing a prize_group_id (the same
+ * car on several sites, or relisted) count once.
+ */
+export function countDistinctPrizes(raffles: Pick<PrizeGroupMember, 'id' | 'prize_group_id'>[]): number {
+  return new Set(raffles.map((r) => r.prize_group_id ?? r.id)).size;
+}
+
 // ============================================
 // Car Classification
 // ============================================
@@ -321,13 +502,18 @@ const INSTANT_WIN_PATTERNS = [
 export function classifyPrizeType(title: string): PrizeType {
   const lowerTitle = title.toLowerCase();
 
-  // Check if it's an instant-win game (classify as 'other', not cash)
-  for (const pattern of INSTANT_WIN_PATTERNS) {
-    if (lowerTitle.includes(pattern)) return 'other';
-  }
-
   // Check if title contains NOT-a-real-vehicle patterns
   const isNotRealVehicle = NOT_REAL_VEHICLE_PATTERNS.some(p => lowerTitle.includes(p));
+  const isInstantWinGame = INSTANT_WIN_PATTERNS.some(p => lowerTitle.includes(p));
+
+  // Pure instant-win games are 'other', not cash. A vehicle raffle with
+  // instant wins bolted on ("BMW M3 + 50 Instant Wins") is still a vehicle —
+  // its instant wins are tracked separately in instant_wins.
+  if (isInstantWinGame) {
+    const isVehicle = !isNotRealVehicle && [...PRIZE_TYPE_RULES.motorcycle, ...PRIZE_TYPE_RULES.car]
+      .some(keyword => lowerTitle.includes(keyword));
+    if (!isVehicle) return 'other';
+  }
 
   // Check motorcycle FIRST — specific patterns like 'bmw r1250' must match
   // before generic car patterns like 'bmw'
@@ -394,7 +580,7 @@ export function formatPence(pence: number | null): string {
  */
 export function formatOdds(oddsRatio: number | null): string {
   if (oddsRatio == null) return 'N/A';
-  return `1 in ${oddsRatio.toLocaleString()}`;
+  return `1 in ${Math.max(1, Math.round(oddsRatio)).toLocaleString()}`;
 }
 
 /**
@@ -408,6 +594,24 @@ export function parsePriceToPence(priceStr: string): number | null {
   return Math.round(pounds * 100);
 }
 
+/** "£500", "£1.5k", "£2m", "£1 million" or "80p" — the first amount in a string */
+const MONEY_RE = /£\s*([\d,]+(?:\.\d+)?)\s*(k|m|million)?\b|\b(\d+(?:\.\d+)?)\s*p\b/i;
+
+/**
+ * Parse the first money amount in a string to pence.
+ * "£500 Tax Free Cash" → 50000, "£1.5k" → 150000, "80p" → 80
+ */
+export function parseMoney(text: string | null | undefined): number | undefined {
+  const match = text?.match(MONEY_RE);
+  if (!match) return undefined;
+  if (match[3]) return Math.round(parseFloat(match[3])) || undefined;
+
+  const unit = match[2]?.toLowerCase();
+  const multiplier = unit === 'k' ? 1_000 : unit ? 1_000_000 : 1;
+  const pounds = parseFloat(match[1].replace(/,/g, '')) * multiplier;
+  return isNaN(pounds) || pounds <= 0 ? undefined : Math.round(pounds * 100);
+}
+
 /**
  * Parse a cash value from a title string.
  */
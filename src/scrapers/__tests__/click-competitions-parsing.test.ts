@@ -19,22 +19,16 @@ describe('deriveCompetitionUrl', () => {
 });
 
 describe('parseAutoDrawDate', () => {
-  it('parses a PM draw date', () => {
+  it('parses a PM draw date as London time (BST in June)', () => {
     const d = parseAutoDrawDate('28/6/2026 - 2:00PM');
     expect(d).toBeInstanceOf(Date);
-    expect(d!.getDate()).toBe(28);
-    expect(d!.getMonth()).toBe(5); // June = 5 (0-indexed)
-    expect(d!.getFullYear()).toBe(2026);
-    expect(d!.getHours()).toBe(14); // 2pm
-    expect(d!.getMinutes()).toBe(0);
+    expect(d!.toISOString()).toBe('2026-06-28T13:00:00.000Z'); // 14:00 BST
   });
 
   it('parses a zero-padded date', () => {
     const d = parseAutoDrawDate('01/07/2026 - 9:00PM');
     expect(d).toBeInstanceOf(Date);
-    expect(d!.getDate()).toBe(1);
-    expect(d!.getMonth()).toBe(6); // July
-    expect(d!.getHours()).toBe(21);
+    expect(d!.toISOString()).toBe('2026-07-01T20:00:00.000Z'); // 21:00 BST
   });
 
   it('returns undefined for unrecognised format', () => {
@@ -43,12 +37,12 @@ describe('parseAutoDrawDate', () => {
   });
 
   it('handles 12:00PM correctly (noon)', () => {
-    const d = parseAutoDrawDate('15/8/2026 - 12:00PM');
-    expect(d!.getHours()).toBe(12);
+    const d = parseAutoDrawDate('15/12/2026 - 12:00PM');
+    expect(d!.getUTCHours()).toBe(12);
   });
 
   it('handles 12:00AM correctly (midnight)', () => {
-    const d = parseAutoDrawDate('15/8/2026 - 12:00AM');
-    expect(d!.getHours()).toBe(0);
+    const d = parseAutoDrawDate('15/12/2026 - 12:00AM');
+    expect(d!.getUTCHours()).toBe(0);
   });
 });
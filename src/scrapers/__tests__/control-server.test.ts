@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { AddressInfo } from 'net';
+import http, { type Server } from 'http';
+import { createControlServer, isAuthorized } from '../control-server';
+import { ServiceStats } from '../service-status';
+
+describe('isAuthorized', () => {
+  it('accepts only the configured bearer token', () => {
+    expect(isAuthorized('Bearer s3cret', 's3cret')).toBe(true);
+    expect(isAuthorized('Bearer wrong', 's3cret')).toBe(false);
+    expect(isAuthorized('s3cret', 's3cret')).toBe(false);
+    expect(isAuthorized(undefined, 's3cret')).toBe(false);
+    expect(isAuthorized('Bearer ', undefined)).toBe(false);
+  });
+});
+
+describe('createControlServer', () => {
+  const queued: string[] = [];
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    server = createControlServer({
+      stats: new ServiceStats(),
+      isBrowserConnected: () => true,
+      siteSlugs: ['rev-comps'],
+      token: 's3cret',
+      enqueue: async (site, mode) => {
+        queued.push(`${site}:${mode}`);
+        return 'job-1';
+      },
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('serves /health and /metrics', async () => {
+    const health = await fetch(`${base}/health`);
+    expect(health.status).toBe(200);
+    expect(await health.json()).toMatchObject({ status: 'ok', browserConnected: true });
+
+    const metrics = await fetch(`${base}/metrics`);
+    expect(metrics.headers.get('content-type')).toContain('text/plain');
+    expect(await metrics.text()).toContain('scraper_jobs_running 0');
+  });
+
+  it('queues a run only with the token and a known site and mode', async () => {
+    const post = (query: string, token?: string) =>
+      fetch(`${base}/run?${query}`, { method: 'POST', headers: token ? { Authorization: `Bearer ${token}` } : {} });
+
+    expect((await post('site=rev-comps')).status).toBe(401);
+    expect((await post('site=rev-comps', 'wrong')).status).toBe(401);
+    expect((await post('site=nope', 's3cret')).status).toBe(400);
+    expect((await post('site=rev-comps&mode=deep', 's3cret')).status).toBe(400);
+
+    const ok = await post('site=rev-comps&mode=quick', 's3cret');
+    expect(ok.status).toBe(202);
+    expect(await ok.json()).toEqual({ jobId: 'job-1', site: 'rev-comps', mode: 'quick' });
+    expect(queued).toEqual(['rev-comps:quick']);
+  });
+
+  it('returns 404 for anything else', async () => {
+    expect((await fetch(`${base}/run`)).status).toBe(404);
+  });
+
+  it('rejects a request target that is not a valid URL', async () => {
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      http.get(`${base}/`, { path: '//' }, (res) => {
+        res.resume();
+        resolve(res.statusCode);
+      }).on('error', reject);
+    });
+    expect(status).toBe(400);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import * as cheerio from 'cheerio';
+import { findVideoUrl, matchDrawResult, parseResultsPage, parseWinnerText } from '../draw-results';
+
+describe('parseWinnerText', () => {
+  it('reads ticket, first name, location and claim', () => {
+    expect(parseWinnerText([
+      'Winner: Sarah T from Milton Keynes',
+      'Winning ticket number: 00421',
+      'Sarah opted for the £38,000 cash alternative',
+    ])).toEqual({ winningTicket: '00421', winnerName: 'Sarah', winnerLocation: 'Milton Keynes', claimType: 'cash' });
+  });
+
+  it('handles "congratulations" phrasing with a comma-separated town', () => {
+    expect(parseWinnerText(['Congratulations to James Smith, Leeds! Ticket #88', 'Car delivered last week']))
+      .toEqual({ winningTicket: '88', winnerName: 'James', winnerLocation: 'Leeds', claimType: 'prize' });
+  });
+
+  it("doesn't take a ticket count for the winning ticket", () => {
+    expect(parseWinnerText(['Only 5000 tickets', 'Winner: Dave'])).toEqual({ winnerName: 'Dave' });
+  });
+});
+
+describe('findVideoUrl', () => {
+  it('finds YouTube and Facebook draw recordings', () => {
+    expect(findVideoUrl(['/winners', 'https://youtu.be/abc123'])).toBe('https://youtu.be/abc123');
+    expect(findVideoUrl(['https://www.facebook.com/site/videos/123'])).toBe('https://www.facebook.com/site/videos/123');
+    expect(findVideoUrl(['https://www.facebook.com/site'])).toBeUndefined();
+  });
+});
+
+describe('parseResultsPage', () => {
+  it('builds one result per card', () => {
+    const $ = cheerio.load(`
+      <div class="winner">
+        <h3>BMW M3 Competition</h3>
+        <a href="/competition/win-bmw-m3/">View competition</a>
+        <p>Winner: Amy from Bristol</p>
+        <p>Ticket: 1234</p>
+        <iframe src="https://www.youtube.com/embed/xyz"></iframe>
+      </div>
+      <div class="winner"><p>No heading here</p></div>
+    `);
+    expect(parseResultsPage($, { url: 'https://example.com/winners', cardSelector: '.winner' }, 'https://example.com'))
+      .toEqual([{
+        title: 'BMW M3 Competition',
+        link: 'https://example.com/competition/win-bmw-m3/',
+        winningTicket: '1234',
+        winnerName: 'Amy',
+        winnerLocation: 'Bristol',
+        drawVideoUrl: 'https://www.youtube.com/embed/xyz',
+      }]);
+  });
+});
+
+describe('matchDrawResult', () => {
+  const awaiting = [
+    { id: 'r2', externalId: 'win-bmw-m3-2', title: 'Win a BMW M3', sourceUrl: 'https://example.com/competition/win-bmw-m3-2/', endDate: '2026-10-10T20:00:00Z' },
+    { id: 'r1', externalId: 'win-bmw-m3', title: 'Win a BMW M3', sourceUrl: 'https://example.com/competition/win-bmw-m3/', endDate: '2026-10-01T20:00:00Z' },
+  ];
+
+  it('matches by competition link first', () => {
+    expect(matchDrawResult({ title: 'BMW M3', link: 'https://example.com/competition/win-bmw-m3?ref=winners' }, awaiting)?.id).toBe('r1');
+  });
+
+  it('falls back to the title, preferring the latest run', () => {
+    expect(matchDrawResult({ title: 'BMW M3 Winner', link: 'https://example.com/blog/amy-wins' }, awaiting)?.id).toBe('r2');
+    expect(matchDrawResult({ title: 'Audi RS3' }, awaiting)).toBeUndefined();
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import * as cheerio from 'cheerio';
+import { classifyClosedPage, closeOutcomeUpdate, findNewEndDate } from '../draw-verification';
+import { mainLines } from '../html';
+
+const endDate = new Date('2026-10-15T20:00:00Z');
+const now = new Date('2026-10-17T12:00:00Z');
+
+describe('findNewEndDate', () => {
+  it('finds a later draw date on the page', () => {
+    const found = findNewEndDate(['BMW M3 Competition', 'Draw extended until 24th October 2026 at 8pm'], endDate, now);
+    expect(found?.toISOString()).toBe('2026-10-24T19:00:00.000Z');
+  });
+
+  it('ignores the original draw date and dates far in the future', () => {
+    expect(findNewEndDate(['Draw date: 15th October 2026 at 9pm'], endDate, now)).toBeUndefined();
+    expect(findNewEndDate(['Draw date: 15th October 2027'], endDate, now)).toBeUndefined();
+  });
+
+  it('only reads dates from draw / closing lines', () => {
+    expect(findNewEndDate(['Posted 24th October 2026'], endDate, now)).toBeUndefined();
+  });
+});
+
+describe('classifyClosedPage', () => {
+  it('classifies a drawn competition', () => {
+    expect(classifyClosedPage(['Audi RS3', 'This competition has ended', 'Winner: Sarah T from Leeds'], endDate, now))
+      .toEqual({ outcome: 'drawn' });
+  });
+
+  it('classifies an extension with the new date', () => {
+    expect(classifyClosedPage(['Audi RS3', 'The draw has been extended', 'Draw: 24th October 2026 at 8pm'], endDate, now))
+      .toEqual({ outcome: 'extended', newEndDate: new Date('2026-10-24T19:00:00Z') });
+  });
+
+  it('treats a still-open page with a later draw date as extended', () => {
+    expect(classifyClosedPage(['Audi RS3', 'Draw date: 20th October 2026 at 9pm', 'Enter now'], endDate, now))
+      .toEqual({ outcome: 'extended', newEndDate: new Date('2026-10-20T20:00:00Z') });
+  });
+
+  it('classifies a rollover, with or without a new date', () => {
+    expect(classifyClosedPage(['Prize rolled over to the next draw'], endDate, now)).toEqual({ outcome: 'rolled_over' });
+    expect(classifyClosedPage(['Prize rolled over', 'Next draw: 22nd October 2026 at 9pm'], endDate, now))
+      .toEqual({ outcome: 'rolled_over', newEndDate: new Date('2026-10-22T20:00:00Z') });
+  });
+
+  it('classifies a cancellation ahead of other wording', () => {
+    expect(classifyClosedPage(['Competition cancelled due to low ticket sales', 'Refunds have been issued'], endDate, now))
+      .toEqual({ outcome: 'cancelled' });
+  });
+
+  it('ignores conditional refund and rollover policy wording', () => {
+    expect(classifyClosedPage(['Winning ticket: 1234', 'FAQ: If minimum sales are not met, refunds will be issued to all entrants'], endDate, now))
+      .toEqual({ outcome: 'drawn' });
+    expect(classifyClosedPage(['This competition has ended', 'Should the draw not sell out, the prize will be rolled over'], endDate, now))
+      .toEqual({ outcome: 'drawn' });
+  });
+
+  it('lets a named winner beat cancellation wording', () => {
+    expect(classifyClosedPage(['The winner is Dan P', 'Refunds have been issued for duplicate orders'], endDate, now))
+      .toEqual({ outcome: 'drawn' });
+  });
+
+  it('reads only the main content of a real page', () => {
+    const $ = cheerio.load(`
+      <header><nav><a>Competitions</a><a>Winners</a></nav></header>
+      <main>
+        <div class="product">
+          <h1>Audi RS3 Sportback</h1>
+          <p>This competition has ended</p>
+          <p>Winning ticket: 0417</p>
+          <div class="woocommerce-tabs"><p>Refunds will be issued if the competition is cancelled.</p></div>
+        </div>
+      </main>
+      <footer>
+        <p>Competitions are cancelled and refunds have been issued where minimum sales aren't met.</p>
+        <p>Prizes may be rolled over to the next draw.</p>
+      </footer>`);
+    expect(mainLines($)).toEqual(['Audi RS3 Sportback', 'This competition has ended', 'Winning ticket: 0417']);
+    expect(classifyClosedPage(mainLines($), endDate, now)).toEqual({ outcome: 'drawn' });
+  });
+
+  it('returns null when the page says nothing useful', () => {
+    expect(classifyClosedPage(['Audi RS3', 'Draw date: 15th October 2026'], endDate, now)).toBeNull();
+    expect(classifyClosedPage([], endDate, now)).toBeNull();
+  });
+});
+
+describe('closeOutcomeUpdate', () => {
+  it('sets the status for drawn and cancelled raffles', () => {
+    expect(closeOutcomeUpdate({ outcome: 'drawn' }, now))
+      .toEqual({ close_outcome: 'drawn', close_verified_at: now.toISOString(), close_checked_at: now.toISOString(), status: 'drawn' });
+    expect(closeOutcomeUpdate({ outcome: 'cancelled' }, now).status).toBe('cancelled');
+  });
+
+  it('closes a rollover without a new date with no winner', () => {
+    expect(closeOutcomeUpdate({ outcome: 'rolled_over' }, now).status).toBe('cancelled');
+  });
+
+  it('reopens extended raffles with the new end date', () => {
+    expect(closeOutcomeUpdate({ outcome: 'extended', newEndDate: new Date('2026-10-24T19:00:00Z') }, now))
+      .toMatchObject({ close_outcome: 'extended', end_date: '2026-10-24T19:00:00.000Z', status: 'active' });
+    expect(closeOutcomeUpdate({ outcome: 'extended', newEndDate: new Date('2026-10-18T19:00:00Z') }, now).status)
+      .toBe('ending_soon');
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { endingLaneConfig, selectEndingUpdates } from '../ending-soon';
+import type { QuickUpdateResult } from '../base';
+
+describe('endingLaneConfig', () => {
+  it('defaults to a 60-minute window refreshed every 5 minutes', () => {
+    expect(endingLaneConfig({})).toEqual({ windowMinutes: 60, intervalMinutes: 5 });
+  });
+
+  it('reads the window and cadence from the environment', () => {
+    expect(endingLaneConfig({ ENDING_SOON_WINDOW_MINUTES: '120', ENDING_SOON_INTERVAL_MINUTES: '3' }))
+      .toEqual({ windowMinutes: 120, intervalMinutes: 3 });
+  });
+
+  it('ignores values that are not positive numbers', () => {
+    expect(endingLaneConfig({ ENDING_SOON_WINDOW_MINUTES: 'soon', ENDING_SOON_INTERVAL_MINUTES: '0' }))
+      .toEqual({ windowMinutes: 60, intervalMinutes: 5 });
+  });
+});
+
+describe('selectEndingUpdates', () => {
+  it('keeps only the listing entries for the given raffles', () => {
+    const result: QuickUpdateResult = {
+      siteName: 'Rev Comps',
+      siteSlug: 'rev-comps',
+      updates: [
+        { externalId: 'bmw-m3', percentSold: 91 },
+        { externalId: 'audi-rs3', percentSold: 40 },
+        { externalId: 'golf-r', percentSold: 77 },
+      ],
+      errors: [],
+      duration: 1200,
+    };
+
+    const selected = selectEndingUpdates(result, new Set(['bmw-m3', 'golf-r', 'sold-out-van']));
+    expect(selected.updates.map((u) => u.externalId)).toEqual(['bmw-m3', 'golf-r']);
+    expect(selected.siteSlug).toBe('rev-comps');
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { findMaxPerPerson, parseMaxPerPerson } from '../entry-cap';
+
+describe('parseMaxPerPerson', () => {
+  it('parses caps stated before the "per person" phrase', () => {
+    expect(parseMaxPerPerson('Max 50 tickets per person')).toBe(50);
+    expect(parseMaxPerPerson('Limited to 25 per household')).toBe(25);
+    expect(parseMaxPerPerson('1,000 entries max per user')).toBe(1_000);
+  });
+
+  it('parses caps stated after the label', () => {
+    expect(parseMaxPerPerson('Maximum entries per user: 100')).toBe(100);
+    expect(parseMaxPerPerson('Tickets per person | 75')).toBe(75);
+  });
+
+  it('ignores totals and unrelated numbers', () => {
+    expect(parseMaxPerPerson('Max entries: 597')).toBeUndefined();
+    expect(parseMaxPerPerson('Total tickets 4,999')).toBeUndefined();
+    expect(parseMaxPerPerson('£2.97 per ticket')).toBeUndefined();
+    expect(parseMaxPerPerson(undefined)).toBeUndefined();
+  });
+});
+
+describe('findMaxPerPerson', () => {
+  it('returns the first cap in the text', () => {
+    expect(findMaxPerPerson(['Win a BMW M3', '597 tickets', 'Max 20 tickets per person'])).toBe(20);
+    expect(findMaxPerPerson(['Win a BMW M3', '50'])).toBeUndefined();
+  });
+});
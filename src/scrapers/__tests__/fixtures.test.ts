@@ -0,0 +1,542 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { chromium, type BrowserContext } from 'playwright';
+import { FixtureStore, createFixtureFetch, attachFixtures, fixtureDir } from '../fixtures';
+import type { BaseScraper } from '../base';
+import { LuckyDayCompetitionsScraper } from '../lucky-day-competitions';
+import { RevCompsScraper } from '../rev-comps';
+import { BotbScraper } from '../botb';
+import { DreamCarGiveawaysScraper } from '../dream-car-giveaways';
+import { EliteCompetitionsScraper } from '../elite-competitions';
+import { LlfGamesScraper } from '../llf-games';
+import { SevenDaysPerformanceScraper } from '../seven-days-performance';
+import { ClickCompetitionsScraper } from '../click-competitions';
+
+const tmpDirs: string[] = [];
+
+function makeTmpStore(): FixtureStore {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fixtures-'));
+  tmpDirs.push(dir);
+  return new FixtureStore(dir);
+}
+
+afterEach(() => {
+  for (const dir of tmpDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe('FixtureStore', () => {
+  it('round-trips a response through disk', () => {
+    const store = makeTmpStore();
+    store.put('https://example.com/product/a/', { status: 200, contentType: 'text/html', body: '<h1>A</h1>' });
+    store.save();
+
+    const reloaded = new FixtureStore(store.dir);
+    expect(reloaded.size).toBe(1);
+    expect(reloaded.get('https://example.com/product/a/')).toEqual({
+      status: 200,
+      contentType: 'text/html',
+      body: '<h1>A</h1>',
+    });
+  });
+
+  it('ignores URL fragments when matching', () => {
+    const store = makeTmpStore();
+    store.put('https://example.com/page', { status: 200, contentType: 'text/html', body: 'x' });
+    expect(store.has('https://example.com/page#reviews')).toBe(true);
+  });
+});
+
+describe('createFixtureFetch', () => {
+  it('replays stored responses and 404s anything unrecorded', async () => {
+    const store = makeTmpStore();
+    store.put('https://example.com/api', { status: 200, contentType: 'application/json', body: '[1,2]' });
+    const replayFetch = createFixtureFetch(store, 'replay');
+
+    const hit = await replayFetch('https://example.com/api');
+    expect(hit.status).toBe(200);
+    expect(await hit.json()).toEqual([1, 2]);
+
+    const miss = await replayFetch('https://example.com/other');
+    expect(miss.status).toBe(404);
+  });
+
+  it('records GET responses from the real fetch', async () => {
+    const store = makeTmpStore();
+    const fakeFetch = (async () =>
+      new Response('<p>live</p>', { status: 200, headers: { 'content-type': 'text/html' } })) as typeof fetch;
+    const recordFetch = createFixtureFetch(store, 'record', fakeFetch);
+
+    const res = await recordFetch('https://example.com/live');
+    expect(await res.text()).toBe('<p>live</p>');
+    expect(store.get('https://example.com/live')?.body).toBe('<p>live</p>');
+  });
+});
+
+describe('LuckyDayCompetitionsScraper replay', () => {
+  it('produces a stable ScraperResult from saved listing + detail HTML', async () => {
+    const scraper = new LuckyDayCompetitionsScraper();
+    const store = new FixtureStore(fixtureDir(scraper.siteSlug));
+    scraper.httpFetch = createFixtureFetch(store, 'replay');
+
+    // Lucky Day is fetch + cheerio only, so no browser context is needed
+    const result = await scraper.scrape({} as BrowserContext);
+
+    expect(result.errors).toEqual([]);
+    expect(result.raffles.map(r => r.externalId).sort()).toEqual([
+      '500-tax-free-cash',
+      'win-bmw-m3-competition',
+    ]);
+
+    const bmw = result.raffles.find(r => r.externalId === 'win-bmw-m3-competition')!;
+    expect(bmw.title).toBe('Win a BMW M3 Competition');
+    expect(bmw.ticketPrice).toBe(297);
+    expect(bmw.priceTiers).toEqual([
+      { quantity: 5, price: 1_250 },
+      { quantity: 10, price: 2_200 },
+    ]);
+    expect(bmw.totalTickets).toBe(597);
+    expect(bmw.ticketsSold).toBe(9);
+    expect(bmw.maxPerPerson).toBe(50);
+    expect(bmw.cashAlternative).toBe(6_500_000);
+    expect(bmw.prizeValue).toBe(7_800_000);
+    expect(bmw.imageUrl).toBe('https://www.luckydaycompetitions.com/wp-content/uploads/bmw-m3-large.jpg');
+    expect(bmw.instantWins).toEqual([
+      { prize: '£500 Tax Free Cash', value: 50_000, quantity: 2, quantityWon: 1 },
+      { prize: '£50 Site Credit', value: 5_000, quantity: 2, quantityWon: 0 },
+    ]);
+    expect(bmw.prizes?.map(p => [p.position, p.prize, p.value, p.quantity])).toEqual([
+      [1, 'BMW M3 Competition', undefined, 1],
+      [2, '£1,000 Tax Free Cash', 100_000, 1],
+      [3, '£100', 10_000, 5],
+    ]);
+
+    const cash = result.raffles.find(r => r.externalId === '500-tax-free-cash')!;
+    expect(cash.ticketPrice).toBe(49);
+    expect(cash.percentSold).toBe(50);
+    expect(cash.imageUrl).toBe('https://www.luckydaycompetitions.com/wp-content/uploads/cash.jpg');
+    expect(cash.instantWins).toBeUndefined();
+    expect(cash.prizes).toBeUndefined();
+    expect(cash.priceTiers).toBeUndefined();
+  });
+
+  it('quickUpdate replays listing-only data', async () => {
+    const scraper = new LuckyDayCompetitionsScraper();
+    scraper.httpFetch = createFixtureFetch(new FixtureStore(fixtureDir(scraper.siteSlug)), 'replay');
+
+    const result = await scraper.quickUpdate({} as BrowserContext);
+    expect(result.updates).toEqual([
+      { externalId: 'win-bmw-m3-competition', percentSold: 2, ticketPrice: 297 },
+      { externalId: '500-tax-free-cash', percentSold: 50, ticketPrice: 49 },
+    ]);
+  });
+});
+
+describe('RevCompsScraper replay', () => {
+  it('reads the listing and vehicle detail page over HTTP', async () => {
+    const scraper = new RevCompsScraper();
+    scraper.httpFetch = createFixtureFetch(new FixtureStore(fixtureDir(scraper.siteSlug)), 'replay');
+
+    // Both pages are server-rendered, so loadDocument never opens a browser page
+    const result = await scraper.scrape({} as BrowserContext);
+
+    expect(result.errors).toEqual([]);
+    expect(result.raffles.map(r => r.externalId).sort()).toEqual([
+      '1000-tax-free-cash',
+      'win-audi-rs3-2000-cash',
+    ]);
+
+    const audi = result.raffles.find(r => r.externalId === 'win-audi-rs3-2000-cash')!;
+    expect(audi.fromDetailPage).toBe(true);
+    expect(audi.title).toBe('Win an Audi RS3 + £2,000');
+    expect(audi.ticketPrice).toBe(497);
+    expect(audi.totalTickets).toBe(24_999);
+    expect(audi.percentSold).toBe(87);
+    expect(audi.ticketsSold).toBe(21_749);
+    expect(audi.maxPerPerson).toBe(100);
+    expect(audi.prizeValue).toBe(5_200_000);
+    expect(audi.cashAlternative).toBe(4_500_000);
+    expect(audi.additionalCash).toBe(200_000);
+    expect(audi.drawType).toBe('automated');
+    expect(audi.endDate?.toISOString()).toBe('2026-11-01T23:00:00.000Z');
+    expect(audi.imageUrl).toBe('https://www.revcomps.com/wp-content/uploads/2026/10/audi-rs3.jpg');
+    expect(audi.priceTiers).toEqual([
+      { quantity: 10, price: 4_400 },
+      { quantity: 25, price: 9_900 },
+    ]);
+    expect(audi.instantWins).toEqual([
+      { prize: '£100 Site Credit', value: 10_000, quantity: 2, quantityWon: 1 },
+      { prize: '£500 Tax Free Cash', value: 50_000, quantity: 1, quantityWon: 0 },
+    ]);
+    expect(audi.prizes?.map(p => [p.position, p.prize, p.value, p.quantity])).toEqual([
+      [1, 'Audi RS3 Sportback', undefined, 1],
+      [2, '£1,000 Tax Free Cash', 100_000, 1],
+      [3, '£100', 10_000, 5],
+    ]);
+
+    const cash = result.raffles.find(r => r.externalId === '1000-tax-free-cash')!;
+    expect(cash.fromDetailPage).toBeUndefined();
+    expect(cash.title).toBe('£1,000 TAX FREE CASH');
+    expect(cash.ticketPrice).toBe(25);
+    expect(cash.totalTickets).toBe(3_999);
+    expect(cash.drawType).toBe('live');
+    expect(cash.imageUrl).toBe('https://www.revcomps.com/wp-content/uploads/2026/10/cash.jpg');
+  });
+
+  it('quickUpdate skips free entries', async () => {
+    const scraper = new RevCompsScraper();
+    scraper.httpFetch = createFixtureFetch(new FixtureStore(fixtureDir(scraper.siteSlug)), 'replay');
+
+    const result = await scraper.quickUpdate({} as BrowserContext);
+    expect(result.updates).toEqual([
+      { externalId: 'win-audi-rs3-2000-cash', percentSold: 87, ticketPrice: 497 },
+      { externalId: '1000-tax-free-cash', percentSold: 42, ticketPrice: 25 },
+    ]);
+  });
+});
+
+describe('DreamCarGiveawaysScraper replay', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads listing cards and the countdown on a vehicle detail page', async () => {
+    vi.useFakeTimers({ now: new Date('2026-11-02T12:00:00Z'), toFake: ['Date'] });
+    const scraper = new DreamCarGiveawaysScraper();
+    scraper.httpFetch = createFixtureFetch(new FixtureStore(fixtureDir(scraper.siteSlug)), 'replay');
+
+    const result = await scraper.scrape({} as BrowserContext);
+
+    expect(result.errors).toEqual([]);
+    expect(result.raffles.map(r => r.externalId).sort()).toEqual([
+      'win-10000-tax-free-cash',
+      'win-porsche-911-gt3-rs',
+    ]);
+
+    const porsche = result.raffles.find(r => r.externalId === 'win-porsche-911-gt3-rs')!;
+    expect(porsche).toMatchObject({
+      title: 'Porsche 911 GT3 RS + £5,000 or £180,000 Tax Free',
+      sourceUrl: 'https://dreamcargiveaways.co.uk/competitions/win-porsche-911-gt3-rs',
+      imageUrl: 'https://media.dreamcargiveaways.co.uk/competitions/porsche-gt3-rs-hero.jpg',
+      ticketPrice: 99,
+      totalTickets: 12_000,
+      percentSold: 45,
+      ticketsSold: 5_400,
+      cashAlternative: 18_000_000,
+      additionalCash: 500_000,
+      prizeValue: 24_500_000,
+      drawType: 'live',
+      fromDetailPage: true,
+    });
+    // "Competition closes in 5 Days 12 Hours", counted from now
+    expect(porsche.endDate?.toISOString()).toBe('2026-11-08T00:00:00.000Z');
+
+    const cash = result.raffles.find(r => r.externalId === 'win-10000-tax-free-cash')!;
+    expect(cash).toEqual({
+      externalId: 'win-10000-tax-free-cash',
+      title: 'Win £10,000 Tax Free Cash',
+      sourceUrl: 'https://dreamcargiveaways.co.uk/competitions/win-10000-tax-free-cash',
+      imageUrl: 'https://media.dreamcargiveaways.co.uk/competitions/cash-card.jpg',
+      ticketPrice: 25,
+      percentSold: 80,
+    });
+  });
+
+  it('quickUpdate reads the card price, not a cash amount in the title', async () => {
+    const scraper = new DreamCarGiveawaysScraper();
+    scraper.httpFetch = createFixtureFetch(new FixtureStore(fixtureDir(scraper.siteSlug)), 'replay');
+
+    const result = await scraper.quickUpdate({} as BrowserContext);
+    expect(result.updates).toEqual([
+      { externalId: 'win-porsche-911-gt3-rs', percentSold: 45, ticketPrice: 99 },
+      { externalId: 'win-10000-tax-free-cash', percentSold: 80, ticketPrice: 25 },
+    ]);
+  });
+});
+
+describe('EliteCompetitionsScraper replay', () => {
+  it('reads every card and its detail page, skipping daily draws and club comps', async () => {
+    const scraper = new EliteCompetitionsScraper();
+    scraper.httpFetch = createFixtureFetch(new FixtureStore(fixtureDir(scraper.siteSlug)), 'replay');
+
+    const result = await scraper.scrape({} as BrowserContext);
+
+    expect(result.errors).toEqual([]);
+    expect(result.raffles.map(r => r.externalId)).toEqual([
+      'bmw-m4-competition-7421',
+      'win-5000-tax-free-cash-7433',
+    ]);
+
+    const bmw = result.raffles[0];
+    expect(bmw).toMatchObject({
+      title: 'BMW M4 Competition xDrive',
+      sourceUrl: 'https://elitecompetitions.co.uk/competitions/bmw-m4-competition-7421',
+      imageUrl: 'https://images.elitecompetitions.co.uk/competitions/bmw-m4-hero.jpg',
+      ticketPrice: 79,
+      totalTickets: 24_999,
+      ticketsSold: 15_499,
+      percentSold: 62,
+      maxPerPerson: 250,
+      cashAlternative: 6_500_000,
+      prizeValue: 8_200_000,
+      drawType: 'live_draw',
+    });
+    expect(bmw.endDate?.toISOString()).toBe('2026-11-29T20:00:00.000Z');
+    expect(bmw.priceTiers).toEqual([
+      { quantity: 10, price: 700 },
+      { quantity: 25, price: 1_500 },
+    ]);
+
+    const cash = result.raffles[1];
+    expect(cash.title).toBe('Win £5,000 Tax Free Cash');
+    expect(cash.ticketPrice).toBe(19);
+    expect(cash.totalTickets).toBe(39_999);
+    expect(cash.endDate?.toISOString()).toBe('2026-12-04T21:00:00.000Z');
+  });
+
+  it('quickUpdate reads price and % sold from the cards', async () => {
+    const scraper = new EliteCompetitionsScraper();
+    scraper.httpFetch = createFixtureFetch(new FixtureStore(fixtureDir(scraper.siteSlug)), 'replay');
+
+    const result = await scraper.quickUpdate({} as BrowserContext);
+    expect(result.updates).toEqual([
+      { externalId: 'bmw-m4-competition-7421', percentSold: 62, ticketPrice: 79 },
+      { externalId: 'win-5000-tax-free-cash-7433', percentSold: 8, ticketPrice: 19 },
+    ]);
+  });
+});
+
+describe('LlfGamesScraper replay', () => {
+  it('finds titles in the card or beside its link and reads each detail page', async () => {
+    const scraper = new LlfGamesScraper();
+    scraper.httpFetch = createFixtureFetch(new FixtureStore(fixtureDir(scraper.siteSlug)), 'replay');
+
+    const result = await scraper.scrape({} as BrowserContext);
+
+    expect(result.errors).toEqual([]);
+    expect(result.raffles.map(r => r.externalId)).toEqual([
+      'win-ford-focus-st-3',
+      '1000-tax-free-cash',
+    ]);
+
+    const focus = result.raffles[0];
+    expect(focus).toMatchObject({
+      title: 'Win a Ford Focus ST-3 or £25,000 Cash',
+      sourceUrl: 'https://llfgames.com/competition/win-ford-focus-st-3/',
+      imageUrl: 'https://llfgames.com/wp-content/uploads/2026/10/focus-st.jpg',
+      ticketPrice: 99,
+      totalTickets: 2_450,
+      ticketsSold: 1_715,
+      percentSold: 70,
+      cashAlternative: 2_500_000,
+      prizeValue: 2_900_000,
+      drawType: 'live_draw',
+    });
+    expect(focus.endDate?.toISOString()).toBe('2026-11-27T22:00:00.000Z');
+    expect(focus.prizes?.map(p => [p.position, p.prize, p.value])).toEqual([
+      [1, 'Ford Focus ST-3', undefined],
+      [2, '£500 Tax Free Cash', 50_000],
+    ]);
+
+    const cash = result.raffles[1];
+    expect(cash).toMatchObject({
+      title: '£1,000 Tax Free Cash',
+      ticketPrice: 5,
+      totalTickets: 3_000,
+      drawType: 'auto_draw',
+    });
+    expect(cash.endDate).toBeUndefined();
+  });
+
+  it('quickUpdate has no price or % sold to offer from the shop page', async () => {
+    const scraper = new LlfGamesScraper();
+    scraper.httpFetch = createFixtureFetch(new FixtureStore(fixtureDir(scraper.siteSlug)), 'replay');
+
+    const result = await scraper.quickUpdate({} as BrowserContext);
+    expect(result.updates).toEqual([
+      { externalId: 'win-ford-focus-st-3', percentSold: undefined, ticketPrice: undefined },
+      { externalId: '1000-tax-free-cash', percentSold: undefined, ticketPrice: undefined },
+    ]);
+  });
+});
+
+describe('SevenDaysPerformanceScraper replay', () => {
+  it('strips the draw timing and card data from titles and reads the vehicle detail page', async () => {
+    const scraper = new SevenDaysPerformanceScraper();
+    scraper.httpFetch = createFixtureFetch(new FixtureStore(fixtureDir(scraper.siteSlug)), 'replay');
+
+    const result = await scraper.scrape({} as BrowserContext);
+
+    expect(result.errors).toEqual([]);
+    expect(result.raffles.map(r => r.externalId).sort()).toEqual([
+      '500-tax-free-cash',
+      'win-vw-golf-gti-2000-cash',
+    ]);
+
+    const golf = result.raffles.find(r => r.externalId === 'win-vw-golf-gti-2000-cash')!;
+    expect(golf).toMatchObject({
+      title: 'Win This VW Golf GTI + £2,000 Cash!',
+      sourceUrl: 'https://7daysperformance.co.uk/product/win-vw-golf-gti-2000-cash/',
+      imageUrl: 'https://7days-production.s3.eu-west-2.amazonaws.com/products/golf-gti-card.jpg',
+      ticketPrice: 1_999,
+      totalTickets: 2_499,
+      ticketsSold: 525,
+      percentSold: 21,
+      cashAlternative: 2_250_000,
+      additionalCash: 200_000,
+      prizeValue: 2_800_000,
+      drawType: 'automated',
+    });
+    expect(golf.endDate?.toISOString()).toBe('2026-11-30T22:00:00.000Z');
+
+    const cash = result.raffles.find(r => r.externalId === '500-tax-free-cash')!;
+    expect(cash).toEqual({
+      externalId: '500-tax-free-cash',
+      title: '£500 Tax Free Cash',
+      sourceUrl: 'https://7daysperformance.co.uk/product/500-tax-free-cash/',
+      imageUrl: 'https://7days-production.s3.eu-west-2.amazonaws.com/products/cash-card.jpg',
+      ticketPrice: 49,
+      percentSold: 60,
+      cashAlternative: undefined,
+    });
+  });
+
+  it('quickUpdate skips free entries', async () => {
+    const scraper = new SevenDaysPerformanceScraper();
+    scraper.httpFetch = createFixtureFetch(new FixtureStore(fixtureDir(scraper.siteSlug)), 'replay');
+
+    const result = await scraper.quickUpdate({} as BrowserContext);
+    expect(result.updates).toEqual([
+      { externalId: 'win-vw-golf-gti-2000-cash', percentSold: 21, ticketPrice: 1_999 },
+      { externalId: '500-tax-free-cash', percentSold: 60, ticketPrice: 49 },
+    ]);
+  });
+});
+
+describe('ClickCompetitionsScraper replay', () => {
+  it('quickUpdate reads % sold for live competitions from the listing API', async () => {
+    const scraper = new ClickCompetitionsScraper();
+    scraper.httpFetch = createFixtureFetch(new FixtureStore(fixtureDir(scraper.siteSlug)), 'replay');
+
+    // The listing is a JSON API, so quick updates never open a browser page
+    const result = await scraper.quickUpdate({} as BrowserContext);
+
+    expect(result.errors).toEqual([]);
+    expect(result.updates).toEqual([
+      { externalId: '0b6f3c2e-4a1d-4c8e-9f57-3d2a1e6b7c90', percentSold: 36 },
+      { externalId: '5d9e2a71-8c3b-4f06-a1e4-6b7c2d9f0e13', percentSold: 72 },
+    ]);
+  });
+});
+
+// Playwright routing needs a Chromium binary (`npx playwright install chromium`)
+const hasChromium = fs.existsSync(chromium.executablePath());
+
+/** Replay a browser-rendered scraper's fixtures through a real Chromium context */
+async function withReplayContext<T>(scraper: BaseScraper, run: (context: BrowserContext) => Promise<T>): Promise<T> {
+  const browser = await chromium.launch({ headless: true });
+  try {
+    const context = await browser.newContext();
+    const store = new FixtureStore(fixtureDir(scraper.siteSlug));
+    await attachFixtures(context, store, 'replay');
+    scraper.httpFetch = createFixtureFetch(store, 'replay');
+    return await run(context);
+  } finally {
+    await browser.close();
+  }
+}
+
+describe.skipIf(!hasChromium)('BotbScraper replay (Playwright)', () => {
+  it('reads priced cards from the homepage and skips free comps', async () => {
+    const scraper = new BotbScraper();
+    const result = await withReplayContext(scraper, (context) => scraper.scrape(context));
+
+    expect(result.errors).toEqual([]);
+    expect(result.raffles.map(r => r.externalId)).toEqual([
+      'competitions-dream-car',
+      'lifestyle-rolex-submariner',
+    ]);
+
+    const car = result.raffles[0];
+    expect(car.title).toBe('Dream Car Competition');
+    expect(car.description).toBe('Win a Porsche 911 Carrera T or take £120,000 cash alternative');
+    expect(car.ticketPrice).toBe(90);
+    expect(car.cashAlternative).toBe(12_000_000);
+    expect(car.imageUrl).toBe('https://cdn.botb.com/competitions/dream-car-porsche-911.jpg');
+    expect(car.endDate?.getUTCDay()).toBe(0);
+    expect(car.totalTickets).toBeUndefined();
+
+    const watch = result.raffles[1];
+    expect(watch.ticketPrice).toBe(45);
+    expect(watch.percentSold).toBe(64);
+    expect(watch.cashAlternative).toBeUndefined();
+  }, 60_000);
+
+  it('quickUpdate refreshes price and % sold for every card', async () => {
+    const scraper = new BotbScraper();
+    const result = await withReplayContext(scraper, (context) => scraper.quickUpdate(context));
+
+    expect(result.updates).toEqual([
+      { externalId: 'competitions-dream-car', percentSold: undefined, ticketPrice: 90 },
+      { externalId: 'lifestyle-rolex-submariner', percentSold: 64, ticketPrice: 45 },
+      { externalId: 'competitions-free-tech-in-app', percentSold: undefined, ticketPrice: 0 },
+    ]);
+  }, 60_000);
+});
+
+describe.skipIf(!hasChromium)('ClickCompetitionsScraper replay (Playwright)', () => {
+  it('combines the listing and detail APIs with the rendered competition page', async () => {
+    const scraper = new ClickCompetitionsScraper();
+    const result = await withReplayContext(scraper, (context) => scraper.scrape(context));
+
+    expect(result.errors).toEqual([]);
+    // Site credit is skipped by title; the drawn competition isn't live
+    expect(result.raffles).toHaveLength(1);
+
+    const cupra = result.raffles[0];
+    expect(cupra).toMatchObject({
+      externalId: '0b6f3c2e-4a1d-4c8e-9f57-3d2a1e6b7c90',
+      title: 'Cupra Leon VZ2',
+      sourceUrl: 'https://www.clickcompetitions.co.uk/prizes/CupraLeon011226',
+      imageUrl: 'https://images.prismic.skywind360.com/click/cupra-leon-vz2.jpg',
+      ticketPrice: 149,
+      totalTickets: 8_999,
+      ticketsSold: 3_239,
+      percentSold: 36,
+      maxPerPerson: 150,
+      cashAlternative: 2_600_000,
+      prizeValue: 3_850_000,
+      drawType: 'auto_draw',
+    });
+    expect(cupra.endDate?.toISOString()).toBe('2026-12-01T20:00:00.000Z');
+  }, 60_000);
+});
+
+describe.skipIf(!hasChromium)('attachFixtures (Playwright)', () => {
+  it('serves recorded documents and 404s unrecorded ones', async () => {
+    const store = makeTmpStore();
+    store.put('https://example.com/listing', {
+      status: 200,
+      contentType: 'text/html',
+      body: '<html><body><h1>Fixture listing</h1></body></html>',
+    });
+
+    const browser = await chromium.launch({ headless: true });
+    try {
+      const context = await browser.newContext();
+      await attachFixtures(context, store, 'replay');
+      const page = await context.newPage();
+
+      await page.goto('https://example.com/listing');
+      expect(await page.textContent('h1')).toBe('Fixture listing');
+
+      const missing = await page.goto('https://example.com/missing');
+      expect(missing?.status()).toBe(404);
+    } finally {
+      await browser.close();
+    }
+  }, 30_000);
+});
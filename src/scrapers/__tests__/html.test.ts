@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import * as cheerio from 'cheerio';
+import { needsBrowser, readDetailExtras, rowTexts, textLines } from '../html';
+
+const filler = '<p>' + 'Win a brand new car with Lucky Day. '.repeat(10) + '</p>';
+
+describe('needsBrowser', () => {
+  it('accepts server-rendered pages that contain the ready selector', () => {
+    const $ = cheerio.load(`<html><body><h1>Win a BMW M3</h1>${filler}</body></html>`);
+    expect(needsBrowser($, 'h1')).toBe(false);
+  });
+
+  it('flags empty SPA shells and missing ready selectors', () => {
+    expect(needsBrowser(cheerio.load('<body><div id="__next"></div><script>boot()</script></body>'))).toBe(true);
+    expect(needsBrowser(cheerio.load(`<body>${filler}</body>`), '.competition-card')).toBe(true);
+  });
+
+  it('flags bot challenges', () => {
+    const $ = cheerio.load(`<title>Just a moment...</title><body>${filler}</body>`);
+    expect(needsBrowser($)).toBe(true);
+  });
+});
+
+describe('textLines', () => {
+  it('splits block elements into lines like innerText', () => {
+    const $ = cheerio.load(`
+      <div class="product">
+        <h1>Win a BMW M3</h1>
+        <p>1st Prize: BMW M3</p>
+        <ul><li>2nd Prize: £1,000</li></ul>
+        <table><tr><td>5 Tickets</td><td>£4</td></tr></table>
+        <script>var x = 1;</script>
+      </div>`);
+    expect(textLines($, '.product')).toEqual([
+      'Win a BMW M3',
+      '1st Prize: BMW M3',
+      '2nd Prize: £1,000',
+      '5 Tickets £4',
+    ]);
+  });
+
+  it('reads one element, including text outside paragraph tags', () => {
+    const $ = cheerio.load(`
+      <a class="card" href="/product/bmw/"><div>24999 TKTS</div><div><span>87%</span> SOLD</div>
+        <h3>Win a
+          BMW M3</h3></a>
+      <a class="card" href="/product/audi/"><div>Audi RS6</div></a>`);
+    expect(textLines($, $('a.card').get(0)!)).toEqual(['24999 TKTS', '87% SOLD', 'Win a BMW M3']);
+  });
+});
+
+describe('rowTexts', () => {
+  it('joins table cells with spaces', () => {
+    const $ = cheerio.load('<table><tr class="r"><td>£500 Cash</td><td>Won</td></tr></table>');
+    expect(rowTexts($, 'tr.r')).toEqual(['£500 Cash Won']);
+  });
+});
+
+describe('readDetailExtras', () => {
+  const page = cheerio.load(`
+    <h1>Win a Porsche 911</h1>
+    <p>1st Prize: Porsche 911 or £90,000 cash</p>
+    <p>2nd Prize: £1,000 Tax Free Cash</p>
+    <p>Max 50 tickets per person</p>
+    <button>5 Tickets - £4</button>
+    <table class="instant-wins"><tr><td>£100 Cash</td><td>1/5 won</td></tr></table>
+  `);
+
+  it('reads instant wins, tiers, bundles and the entry cap in one pass', () => {
+    const extras = readDetailExtras(page, 100);
+    expect(extras.instantWins).toEqual([{ prize: '£100 Cash', value: 10_000, quantity: 5, quantityWon: 1 }]);
+    expect(extras.prizes?.map((p) => p.position)).toEqual([1, 2]);
+    expect(extras.priceTiers).toEqual([{ quantity: 5, price: 400 }]);
+    expect(extras.maxPerPerson).toBe(50);
+  });
+
+  it('skips extras whose selector is false', () => {
+    const extras = readDetailExtras(page, 100, { instantWins: false, prizeTiers: false, priceTiers: false });
+    expect(extras).toEqual({ maxPerPerson: 50 });
+  });
+});
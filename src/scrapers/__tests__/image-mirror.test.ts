@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import {
+  ImageStore,
+  findReusedImages,
+  hammingDistance,
+  isMirrorDue,
+  isSimilarImage,
+  mirrorImage,
+  perceptualHash,
+} from '../image-mirror';
+
+/** Horizontal gradient (left → right, or reversed) as a PNG */
+async function gradient(width: number, height: number, reverse = false): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const v = Math.round(((reverse ? width - 1 - x : x) / (width - 1)) * 255);
+      pixels.fill(v, (y * width + x) * 3, (y * width + x) * 3 + 3);
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer();
+}
+
+function memoryStore(): ImageStore & { objects: Map<string, Buffer> } {
+  const objects = new Map<string, Buffer>();
+  return {
+    objects,
+    async put(key, data) {
+      objects.set(key, data);
+      return `https://img.test/${key}`;
+    },
+  };
+}
+
+describe('perceptualHash', () => {
+  it('gives resized copies the same hash and different images distant ones', async () => {
+    const original = await perceptualHash(await gradient(320, 180));
+    const resized = await perceptualHash(await gradient(64, 36));
+    const reversed = await perceptualHash(await gradient(320, 180, true));
+
+    expect(original).toMatch(/^[0-9a-f]{16}$/);
+    expect(isSimilarImage(original, resized)).toBe(true);
+    expect(isSimilarImage(original, reversed)).toBe(false);
+  });
+
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('000000000000000f', '0000000000000000')).toBe(4);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+  });
+});
+
+describe('findReusedImages', () => {
+  it('flags one image on three or more raffles', () => {
+    expect(findReusedImages([
+      { id: 'a', hash: 'f0f0f0f0f0f0f0f0' },
+      { id: 'b', hash: 'f0f0f0f0f0f0f0f1' },
+      { id: 'c', hash: 'f0f0f0f0f0f0f0f0' },
+      { id: 'd', hash: '0123456789abcdef' },
+      { id: 'e', hash: null },
+    ])).toEqual([{ hash: 'f0f0f0f0f0f0f0f0', raffleIds: ['a', 'b', 'c'] }]);
+  });
+});
+
+describe('isMirrorDue', () => {
+  const now = new Date('2026-03-02T12:00:00Z');
+  const failed = (attempts: number, hoursAgo: number) => ({
+    image_mirror_attempts: attempts,
+    image_mirror_failed_at: new Date(now.getTime() - hoursAgo * 60 * 60 * 1000).toISOString(),
+  });
+
+  it('tries untried images straight away', () => {
+    expect(isMirrorDue({ image_mirror_attempts: 0, image_mirror_failed_at: null }, now)).toBe(true);
+    expect(isMirrorDue({ image_mirror_attempts: null, image_mirror_failed_at: null }, now)).toBe(true);
+  });
+
+  it('backs off exponentially after failures, up to a week', () => {
+    expect(isMirrorDue(failed(1, 5), now)).toBe(false);
+    expect(isMirrorDue(failed(1, 6), now)).toBe(true);
+    expect(isMirrorDue(failed(3, 23), now)).toBe(false);
+    expect(isMirrorDue(failed(3, 24), now)).toBe(true);
+    expect(isMirrorDue(failed(20, 7 * 24 - 1), now)).toBe(false);
+    expect(isMirrorDue(failed(20, 7 * 24), now)).toBe(true);
+  });
+});
+
+describe('mirrorImage', () => {
+  it('stores WebP variants and returns the card copy with a hash', async () => {
+    const png = await gradient(1200, 675);
+    const store = memoryStore();
+    const fetchImpl = (async () => new Response(new Uint8Array(png))) as unknown as typeof fetch;
+
+    const image = await mirrorImage('https://comps.test/m3.jpg', store, fetchImpl);
+
+    expect(image.url).toMatch(/^https:\/\/img\.test\/[0-9a-f]{16}\/card\.webp$/);
+    expect(Object.keys(image.variants)).toEqual(['thumb', 'card', 'full']);
+    expect(image.hash).toBe(await perceptualHash(png));
+
+    const thumb = await sharp(store.objects.get(image.variants.thumb.replace('https://img.test/', ''))).metadata();
+    const full = await sharp(store.objects.get(image.variants.full.replace('https://img.test/', ''))).metadata();
+    expect(thumb).toMatchObject({ format: 'webp', width: 400 });
+    expect(full.width).toBe(1200);   // never enlarged
+  });
+
+  it('throws on a failed download', async () => {
+    const fetchImpl = (async () => new Response('gone', { status: 404 })) as unknown as typeof fetch;
+    await expect(mirrorImage('https://comps.test/gone.jpg', memoryStore(), fetchImpl)).rejects.toThrow('HTTP 404');
+  });
+});
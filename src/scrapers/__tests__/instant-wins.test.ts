@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { parseInstantWinRow, parseInstantWinRows } from '../instant-wins';
+
+describe('parseInstantWinRow', () => {
+  it('parses aggregated "x/y won" rows', () => {
+    expect(parseInstantWinRow('£500 Tax Free Cash   3/10 won')).toEqual({
+      prize: '£500 Tax Free Cash',
+      value: 50_000,
+      quantity: 10,
+      quantityWon: 3,
+    });
+  });
+
+  it('parses "N x prize — M remaining" rows', () => {
+    expect(parseInstantWinRow('10 x £50 Site Credit — 7 remaining')).toEqual({
+      prize: '£50 Site Credit',
+      value: 5_000,
+      quantity: 10,
+      quantityWon: 3,
+    });
+  });
+
+  it('parses per-ticket rows using the status text', () => {
+    expect(parseInstantWinRow('Ticket #01234 £1k Cash Won by J. Smith')).toEqual({
+      prize: '£1k Cash',
+      value: 100_000,
+      quantity: 1,
+      quantityWon: 1,
+    });
+    expect(parseInstantWinRow('#04321 PlayStation 5 Still to be won')).toEqual({
+      prize: 'PlayStation 5',
+      value: undefined,
+      quantity: 1,
+      quantityWon: 0,
+    });
+  });
+
+  it('ignores header and empty rows', () => {
+    expect(parseInstantWinRow('Prize Status')).toBeNull();
+    expect(parseInstantWinRow('   ')).toBeNull();
+  });
+});
+
+describe('parseInstantWinRows', () => {
+  it('merges per-ticket rows into one entry per prize', () => {
+    const wins = parseInstantWinRows([
+      '#1 £100 Cash Won',
+      '#2 £100 cash Available',
+      '#3 £100 Cash Available',
+      '#4 AirPods Pro Claimed',
+    ]);
+    expect(wins).toEqual([
+      { prize: '£100 Cash', value: 10_000, quantity: 3, quantityWon: 1 },
+      { prize: 'AirPods Pro', value: undefined, quantity: 1, quantityWon: 1 },
+    ]);
+  });
+});
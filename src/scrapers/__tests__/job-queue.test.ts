@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { jobError, retryDelay } from '../job-queue';
+import type { SiteRun } from '../run-all';
+
+const run = (status: SiteRun['status'], errorMessage?: string): SiteRun => ({
+  siteSlug: 'rev-comps',
+  status,
+  itemsFound: 0,
+  itemsNew: 0,
+  itemsUpdated: 0,
+  errorMessage,
+  durationMs: 1000,
+});
+
+describe('retryDelay', () => {
+  it('doubles per attempt up to a cap', () => {
+    expect(retryDelay(1)).toBe(2 * 60 * 1000);
+    expect(retryDelay(2)).toBe(4 * 60 * 1000);
+    expect(retryDelay(3)).toBe(8 * 60 * 1000);
+    expect(retryDelay(10)).toBe(30 * 60 * 1000);
+  });
+});
+
+describe('jobError', () => {
+  it('treats success and partial runs as done', () => {
+    expect(jobError([run('success')])).toBeNull();
+    expect(jobError([run('partial', 'Persist abc: timeout')])).toBeNull();
+  });
+
+  it('treats a site skipped for quiet hours as done', () => {
+    expect(jobError([])).toBeNull();
+  });
+
+  it('reports failed runs', () => {
+    expect(jobError([run('failed', 'Scraper timed out after 10m')])).toBe('Scraper timed out after 10m');
+    expect(jobError([run('failed')])).toBe('failed');
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { compareLayouts, mergeLayouts } from '../layout-fingerprint';
+
+const baseline = { cards: 40, probes: { links: 80, images: 40, badges: 6 } };
+
+describe('mergeLayouts', () => {
+  it('sums cards and probe hits across listing pages', () => {
+    const merged = mergeLayouts(mergeLayouts(null, { cards: 20, probes: { links: 40 } }), { cards: 5, probes: { links: 10, images: 5 } });
+    expect(merged).toEqual({ cards: 25, probes: { links: 50, images: 5 } });
+  });
+});
+
+describe('compareLayouts', () => {
+  it('accepts the same structure with fewer competitions listed', () => {
+    expect(compareLayouts(baseline, { cards: 25, probes: { links: 50, images: 25, badges: 0 } })).toEqual([]);
+  });
+
+  it('flags a card count collapse', () => {
+    expect(compareLayouts(baseline, { cards: 12, probes: { links: 24, images: 12 } })).toEqual(['cards 40 → 12']);
+  });
+
+  it('flags a key element disappearing, but not an occasional one', () => {
+    expect(compareLayouts(baseline, { cards: 38, probes: { links: 76, images: 2 } })).toEqual(['images 40 → 2']);
+  });
+
+  it('needs a usable baseline', () => {
+    expect(compareLayouts(null, { cards: 0, probes: {} })).toEqual([]);
+    expect(compareLayouts({ cards: 3, probes: { links: 6 } }, { cards: 0, probes: {} })).toEqual([]);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Browser } from 'playwright';
+import { createLazyContext } from '../run-all';
+
+describe('createLazyContext', () => {
+  it('never launches the browser when unused', async () => {
+    const getBrowser = vi.fn<() => Promise<Browser>>();
+    await createLazyContext(getBrowser).close();
+    expect(getBrowser).not.toHaveBeenCalled();
+  });
+
+  it('stays closed once closed, so an aborted run cannot reopen it', async () => {
+    const close = vi.fn(async () => {});
+    const newPage = vi.fn(async () => ({}));
+    const browser = { newContext: async () => ({ close, newPage }) } as unknown as Browser;
+    const context = createLazyContext(async () => browser);
+
+    await context.newPage();
+    await context.close();
+    await context.close();
+
+    expect(close).toHaveBeenCalledTimes(1);
+    await expect(context.newPage()).rejects.toThrow('Browser context closed');
+    expect(newPage).toHaveBeenCalledTimes(1);
+  });
+});
@@ -43,32 +43,39 @@ describe('parseCardText', () => {
 });
 
 describe('parseRelativeDate', () => {
+  // Wednesday 1 October 2025 — the weekdays below are for late 2025
+  const now = new Date('2025-10-01T12:00:00Z');
+
   it('returns undefined for undefined input', () => {
-    expect(parseRelativeDate(undefined)).toBeUndefined();
+    expect(parseRelativeDate(undefined, now)).toBeUndefined();
   });
 
   it('returns undefined for unrecognised format', () => {
-    expect(parseRelativeDate('TBD')).toBeUndefined();
+    expect(parseRelativeDate('TBD', now)).toBeUndefined();
   });
 
   it('parses a future date correctly', () => {
-    const d = parseRelativeDate('Ends Wed 31st Dec');
+    const d = parseRelativeDate('Ends Wed 31st Dec', now);
     expect(d).toBeInstanceOf(Date);
-    expect(d!.getDate()).toBe(31);
-    expect(d!.getMonth()).toBe(11); // December = 11 (0-indexed)
-    expect(d!.getHours()).toBe(21); // always set to 21:00
+    // 21:00 London time; December is GMT so this is also 21:00 UTC
+    expect(d!.toISOString()).toBe('2025-12-31T21:00:00.000Z');
   });
 
   it('parses ordinal "15th" correctly', () => {
-    const d = parseRelativeDate('Ends Sat 15th Nov');
+    const d = parseRelativeDate('Ends Sat 15th Nov', now);
     expect(d).toBeInstanceOf(Date);
-    expect(d!.getDate()).toBe(15);
-    expect(d!.getMonth()).toBe(10); // November = 10
+    expect(d!.getUTCDate()).toBe(15);
+    expect(d!.getUTCMonth()).toBe(10); // November = 10
   });
 
   it('returns undefined when the date has already passed this year', () => {
-    // Jan 1st is always in the past by the time any CI runs.
-    const d = parseRelativeDate('Ends Wed 1st Jan');
+    // Wed 1st Jan is 2025, already behind the reference date
+    const d = parseRelativeDate('Ends Wed 1st Jan', now);
     expect(d).toBeUndefined();
   });
+
+  it('rolls into next year when the weekday says so', () => {
+    const d = parseRelativeDate('Ends Thu 1st Jan', new Date('2025-12-20T12:00:00Z'));
+    expect(d!.toISOString()).toBe('2026-01-01T21:00:00.000Z');
+  });
 });
@@ -0,0 +1,259 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { persistScrapeResult, persistQuickUpdate, ScrapedRaffle, ScraperResult, QuickUpdateResult } from '../base';
+
+type Result = { data: unknown; error: { message: string } | null };
+
+/**
+ * Just enough of the Supabase query builder for the persist path: every
+ * chain method returns the builder, and awaiting it answers by table and
+ * operation. Raffle upserts and the quick-update RPC go through the given
+ * handlers; everything else succeeds with no data. RPCs are recorded by name.
+ */
+function fakeSupabase(options: {
+  existing?: Record<string, unknown>[];
+  upsert?: (rows: Record<string, unknown>[]) => Result;
+  rpc?: (args: Record<string, unknown>) => Result;
+}) {
+  const upserts: Record<string, unknown>[][] = [];
+  const inserts: { table: string; rows: unknown }[] = [];
+  const rpcs: { name: string; args: Record<string, unknown> }[] = [];
+
+  const from = (table: string) => {
+    let op: 'select' | 'upsert' | 'insert' | 'update' | undefined;
+    let rows: Record<string, unknown>[] = [];
+
+    const resolve = (): Result => {
+      if (table === 'sites') return { data: { id: 'site-1' }, error: null };
+      if (table === 'raffles' && op === 'upsert') {
+        upserts.push(rows);
+        return options.upsert?.(rows) ?? { data: rows.map((r) => ({ id: `id-${r.external_id}`, external_id: r.external_id })), error: null };
+      }
+      if (table === 'raffles' && op === 'select') return { data: options.existing ?? [], error: null };
+      return { data: null, error: null };
+    };
+
+    const builder = {
+      select: () => { op ??= 'select'; return builder; },
+      eq: () => builder,
+      in: () => builder,
+      single: () => builder,
+      maybeSingle: () => builder,
+      upsert: (batch: Record<string, unknown>[]) => { op = 'upsert'; rows = batch; return builder; },
+      insert: (batch: unknown) => { op = 'insert'; inserts.push({ table, rows: batch }); return builder; },
+      update: () => { op = 'update'; return builder; },
+      then: (onFulfilled: (value: Result) => unknown, onRejected?: (reason: unknown) => unknown) =>
+        Promise.resolve(resolve()).then(onFulfilled, onRejected),
+    };
+    return builder;
+  };
+
+  const rpc = async (name: string, args: Record<string, unknown>) => {
+    rpcs.push({ name, args });
+    if (name !== 'apply_quick_updates') return { data: null, error: null };
+    return options.rpc?.(args) ?? { data: [], error: null };
+  };
+
+  return { client: { from, rpc } as unknown as SupabaseClient, upserts, inserts, rpcs };
+}
+
+const raffle = (externalId: string, overrides: Partial<ScrapedRaffle> = {}): ScrapedRaffle => ({
+  externalId,
+  title: 'Win £5,000 Tax Free Cash',
+  sourceUrl: `https://example.com/product/${externalId}/`,
+  imageUrl: `https://example.com/${externalId}.jpg`,
+  ticketPrice: 199,
+  totalTickets: 5000,
+  percentSold: 40,
+  endDate: new Date('2030-01-01T20:00:00Z'),
+  ...overrides,
+});
+
+const scrapeResult = (raffles: ScrapedRaffle[]): ScraperResult => ({
+  siteName: 'Example Comps',
+  siteSlug: 'example-comps',
+  raffles,
+  errors: [],
+  duration: 0,
+});
+
+const stored = (externalId: string, overrides: Record<string, unknown> = {}) => ({
+  id: `id-${externalId}`,
+  external_id: externalId,
+  status: 'active',
+  end_date: '2030-01-01T20:00:00Z',
+  image_source_url: null,
+  image_hash: null,
+  total_tickets: 5000,
+  percent_sold: 38,
+  title: 'Win £5,000 Tax Free Cash',
+  ticket_price: 199,
+  cash_alternative: null,
+  prize_value: 500_000,
+  max_per_person: null,
+  ...overrides,
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('persistScrapeResult guards', () => {
+  it('keeps terminal statuses, past end dates and the mirrored image', async () => {
+    const { client, upserts } = fakeSupabase({
+      existing: [stored('drawn-comp', {
+        status: 'drawn',
+        end_date: '2020-01-01T20:00:00Z',
+        image_source_url: 'https://example.com/drawn-comp.jpg',
+        image_hash: 'abc123',
+      })],
+    });
+
+    const result = await persistScrapeResult(scrapeResult([raffle('drawn-comp')]), client);
+
+    expect(result).toMatchObject({ itemsNew: 0, itemsUpdated: 1, failures: [] });
+    const [row] = upserts.flat();
+    expect(row).not.toHaveProperty('status');
+    expect(row).not.toHaveProperty('end_date');
+    expect(row).not.toHaveProperty('image_url');
+    expect(row).not.toHaveProperty('image_hash');
+  });
+
+  it('writes every column for a new raffle and clears the mirror for a new image', async () => {
+    const { client, upserts } = fakeSupabase({
+      existing: [stored('moved-image', { image_source_url: 'https://example.com/old.jpg', image_hash: 'abc123' })],
+    });
+
+    await persistScrapeResult(scrapeResult([raffle('new-comp'), raffle('moved-image')]), client);
+
+    const rows = upserts.flat();
+    const fresh = rows.find((r) => r.external_id === 'new-comp')!;
+    expect(fresh.status).toBe('active');
+    expect(fresh.end_date).toBe('2030-01-01T20:00:00.000Z');
+    expect(fresh.image_url).toBe('https://example.com/new-comp.jpg');
+
+    const moved = rows.find((r) => r.external_id === 'moved-image')!;
+    expect(moved.image_url).toBe('https://example.com/moved-image.jpg');
+    expect(moved).toMatchObject({ image_hash: null, image_variants: null, image_mirror_attempts: 0, image_mirror_failed_at: null });
+  });
+});
+
+describe('persistScrapeResult upserts', () => {
+  it('quarantines every held-back record in one write', async () => {
+    const { client, upserts, inserts, rpcs } = fakeSupabase({
+      existing: [stored('price-a'), stored('price-b'), stored('fine')],
+    });
+
+    const result = await persistScrapeResult(scrapeResult([
+      raffle('price-a', { ticketPrice: 19_900 }),
+      raffle('price-b', { ticketPrice: 25_000 }),
+      raffle('fine'),
+    ]), client);
+
+    expect(result.itemsQuarantined).toBe(2);
+    expect(inserts).toEqual([]);
+    expect(rpcs.map((c) => c.name)).toEqual(['quarantine_records']);
+    expect((rpcs[0].args.p_records as { external_id: string }[]).map((r) => r.external_id)).toEqual(['price-a', 'price-b']);
+    expect(upserts.flat().map((r) => r.external_id)).toEqual(['fine']);
+  });
+
+  it('batches rows by column shape so a guarded column is never nulled', async () => {
+    const { client, upserts } = fakeSupabase({
+      existing: [stored('drawn-comp', { status: 'drawn' })],
+    });
+
+    await persistScrapeResult(scrapeResult([raffle('new-a'), raffle('drawn-comp'), raffle('new-b')]), client);
+
+    expect(upserts).toHaveLength(2);
+    for (const batch of upserts) {
+      const shapes = new Set(batch.map((r) => Object.keys(r).sort().join(',')));
+      expect(shapes.size).toBe(1);
+    }
+    expect(upserts.map((batch) => batch.map((r) => r.external_id))).toEqual([['new-a', 'new-b'], ['drawn-comp']]);
+  });
+
+  it('retries a failed batch row by row and reports only the bad rows', async () => {
+    const { client, upserts } = fakeSupabase({
+      upsert: (rows) => rows.some((r) => r.external_id === 'bad')
+        ? { data: null, error: { message: 'value too long' } }
+        : { data: rows.map((r) => ({ id: `id-${r.external_id}`, external_id: r.external_id })), error: null },
+    });
+
+    const result = await persistScrapeResult(scrapeResult([raffle('good-a'), raffle('bad'), raffle('good-b')]), client);
+
+    expect(upserts.map((batch) => batch.length)).toEqual([3, 1, 1, 1]);
+    expect(result.itemsNew).toBe(2);
+    expect(result.failures).toEqual([{ externalId: 'bad', error: 'value too long' }]);
+  });
+});
+
+describe('persistQuickUpdate', () => {
+  const quickResult = (updates: QuickUpdateResult['updates']): QuickUpdateResult => ({
+    siteName: 'Example Comps',
+    siteSlug: 'example-comps',
+    updates,
+    errors: [],
+    duration: 0,
+  });
+
+  it('reports updates the RPC did not apply as not found', async () => {
+    const rpc = vi.fn((args: Record<string, unknown>) => ({
+      data: (args.p_updates as { external_id: string }[]).map((u) => u.external_id).filter((id) => id !== 'gone'),
+      error: null,
+    }));
+    const { client } = fakeSupabase({ existing: [stored('live')], rpc });
+
+    const result = await persistQuickUpdate(quickResult([
+      { externalId: 'live', percentSold: 41, ticketPrice: 199 },
+      { externalId: 'gone', percentSold: 10 },
+    ]), client);
+
+    expect(rpc).toHaveBeenCalledWith(expect.objectContaining({
+      p_site_id: 'site-1',
+      p_snapshot_all: false,
+      p_updates: [
+        { external_id: 'live', percent_sold: 41, ticket_price: 199, status: null },
+        { external_id: 'gone', percent_sold: 10, ticket_price: null, status: null },
+      ],
+    }));
+    expect(result).toEqual({
+      itemsUpdated: 1,
+      itemsQuarantined: 0,
+      failures: [{ externalId: 'gone', error: 'Raffle not found' }],
+    });
+  });
+
+  it('sends one update per raffle, the last listed', async () => {
+    const rpc = vi.fn((args: Record<string, unknown>) => ({
+      data: (args.p_updates as { external_id: string }[]).map((u) => u.external_id),
+      error: null,
+    }));
+    const { client } = fakeSupabase({ existing: [stored('live')], rpc });
+
+    const result = await persistQuickUpdate(quickResult([
+      { externalId: 'live', percentSold: 40 },
+      { externalId: 'live', percentSold: 41 },
+    ]), client);
+
+    expect(rpc.mock.calls[0][0].p_updates).toEqual([
+      { external_id: 'live', percent_sold: 41, ticket_price: null, status: null },
+    ]);
+    expect(result).toEqual({ itemsUpdated: 1, itemsQuarantined: 0, failures: [] });
+  });
+
+  it('fails the whole batch on an RPC error and holds back quarantined updates', async () => {
+    const rpc = vi.fn(() => ({ data: null, error: { message: 'timeout' } }));
+    const { client, inserts, rpcs } = fakeSupabase({ existing: [stored('live')], rpc });
+
+    const result = await persistQuickUpdate(quickResult([
+      { externalId: 'live', percentSold: 41 },
+      { externalId: 'live', percentSold: 5 },
+    ]), client);
+
+    expect(result.itemsQuarantined).toBe(1);
+    expect(inserts).toEqual([]);
+    expect(rpcs.map((c) => c.name)).toEqual(['quarantine_records', 'apply_quick_updates']);
+    expect(rpcs[0].args.p_records).toMatchObject([{ external_id: 'live', source: 'quick', payload: { percentSold: 5 } }]);
+    expect(result.failures).toEqual([{ externalId: 'live', error: 'timeout' }]);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_POLITENESS,
+  GateClock,
+  PolitenessPolicy,
+  SiteGate,
+  backoffDelay,
+  inQuietHours,
+  isAllowedByRobots,
+  parseRetryAfter,
+  parseRobotsTxt,
+} from '../politeness';
+
+const ROBOTS = `
+# Everyone
+User-agent: *
+Disallow: /my-account/
+Disallow: /*?add-to-cart=
+Allow: /my-account/lost-password$
+
+User-agent: AhrefsBot
+User-agent: CarRaffleOdds-Bot
+Disallow: /cart
+Crawl-delay: 5
+`;
+
+describe('parseRobotsTxt / isAllowedByRobots', () => {
+  it('uses the group naming our agent over the * group', () => {
+    const rules = parseRobotsTxt(ROBOTS);
+    expect(rules.disallow).toEqual(['/cart']);
+    expect(rules.crawlDelayMs).toBe(5000);
+    expect(isAllowedByRobots(rules, '/my-account/')).toBe(true);
+    expect(isAllowedByRobots(rules, '/cart/')).toBe(false);
+  });
+
+  it('falls back to the * group for other agents', () => {
+    const rules = parseRobotsTxt(ROBOTS, 'SomeOtherBot');
+    expect(isAllowedByRobots(rules, '/competitions/win-bmw-m3/')).toBe(true);
+    expect(isAllowedByRobots(rules, '/my-account/orders')).toBe(false);
+    expect(isAllowedByRobots(rules, '/shop/?add-to-cart=123')).toBe(false);
+  });
+
+  it('lets the longest matching rule win, Allow on ties', () => {
+    const rules = parseRobotsTxt(ROBOTS, 'SomeOtherBot');
+    expect(isAllowedByRobots(rules, '/my-account/lost-password')).toBe(true);
+    expect(isAllowedByRobots(rules, '/my-account/lost-password/reset')).toBe(false);
+    expect(isAllowedByRobots({ allow: ['/a'], disallow: ['/a'] }, '/a/b')).toBe(true);
+  });
+
+  it('allows everything for an empty robots.txt or empty Disallow', () => {
+    expect(isAllowedByRobots(parseRobotsTxt(''), '/anything')).toBe(true);
+    expect(isAllowedByRobots(parseRobotsTxt('User-agent: *\nDisallow:'), '/anything')).toBe(true);
+  });
+});
+
+describe('inQuietHours', () => {
+  const policy = (start: number, end: number): PolitenessPolicy => ({ ...DEFAULT_POLITENESS, quietHours: { start, end } });
+
+  it('uses Europe/London hours, including across BST', () => {
+    // 01:30 BST = 00:30 UTC
+    expect(inQuietHours(policy(1, 6), new Date('2026-07-01T00:30:00Z'))).toBe(true);
+    expect(inQuietHours(policy(1, 6), new Date('2026-01-01T00:30:00Z'))).toBe(false);
+    expect(inQuietHours(policy(1, 6), new Date('2026-01-01T06:00:00Z'))).toBe(false);
+  });
+
+  it('handles windows that wrap midnight', () => {
+    expect(inQuietHours(policy(23, 5), new Date('2026-01-01T23:30:00Z'))).toBe(true);
+    expect(inQuietHours(policy(23, 5), new Date('2026-01-01T04:59:00Z'))).toBe(true);
+    expect(inQuietHours(policy(23, 5), new Date('2026-01-01T12:00:00Z'))).toBe(false);
+  });
+
+  it('is never quiet without quiet hours', () => {
+    expect(inQuietHours(DEFAULT_POLITENESS, new Date('2026-01-01T03:00:00Z'))).toBe(false);
+  });
+});
+
+describe('parseRetryAfter / backoffDelay', () => {
+  it('parses seconds and HTTP dates', () => {
+    const now = new Date('2026-01-01T12:00:00Z');
+    expect(parseRetryAfter('120', now)).toBe(120_000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 12:00:30 GMT', now)).toBe(30_000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+
+  it('doubles per attempt up to the cap', () => {
+    expect([1, 2, 3].map((n) => backoffDelay(DEFAULT_POLITENESS, n))).toEqual([2000, 4000, 8000]);
+    expect(backoffDelay(DEFAULT_POLITENESS, 10)).toBe(DEFAULT_POLITENESS.maxBackoffMs);
+  });
+});
+
+// ============================================
+// SiteGate
+// ============================================
+
+/** A clock that advances instantly when slept on */
+function fakeClock(): GateClock & { sleeps: number[] } {
+  let now = 0;
+  const sleeps: number[] = [];
+  return {
+    sleeps,
+    now: () => now,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      now += ms;
+    },
+  };
+}
+
+function fakeFetch(responses: Record<string, (() => Response)[]>): typeof fetch & { calls: string[] } {
+  const calls: string[] = [];
+  const impl = (async (input: RequestInfo | URL) => {
+    const url = String(input);
+    calls.push(url);
+    const next = responses[url]?.shift();
+    return next ? next() : new Response('Not found', { status: 404 });
+  }) as typeof fetch & { calls: string[] };
+  impl.calls = calls;
+  return impl;
+}
+
+describe('SiteGate', () => {
+  it('spaces requests to the policy rate', async () => {
+    const clock = fakeClock();
+    const gate = new SiteGate('test', { ...DEFAULT_POLITENESS, requestsPerMinute: 20 }, clock);
+
+    await gate.run(async () => null);
+    await gate.run(async () => null);
+    await gate.run(async () => null);
+
+    expect(clock.sleeps).toEqual([3000, 3000]);
+  });
+
+  it('refuses URLs disallowed by robots.txt', async () => {
+    const gate = new SiteGate('test', { ...DEFAULT_POLITENESS, requestsPerMinute: 600 }, fakeClock());
+    const fetchImpl = fakeFetch({
+      'https://comps.test/robots.txt': [() => new Response('User-agent: *\nDisallow: /basket')],
+      'https://comps.test/competitions/': [() => new Response('ok')],
+    });
+
+    await expect(gate.fetch('https://comps.test/basket', undefined, fetchImpl)).rejects.toThrow(/robots\.txt/);
+    const ok = await gate.fetch('https://comps.test/competitions/', undefined, fetchImpl);
+
+    expect(ok.status).toBe(200);
+    expect(fetchImpl.calls).toEqual(['https://comps.test/robots.txt', 'https://comps.test/competitions/']);
+  });
+
+  it('retries 429s after Retry-After', async () => {
+    const clock = fakeClock();
+    const gate = new SiteGate('test', { ...DEFAULT_POLITENESS, requestsPerMinute: 600, respectRobotsTxt: false }, clock);
+    const fetchImpl = fakeFetch({
+      'https://comps.test/api': [
+        () => new Response('slow down', { status: 429, headers: { 'retry-after': '7' } }),
+        () => new Response('[]'),
+      ],
+    });
+
+    const response = await gate.fetch('https://comps.test/api', undefined, fetchImpl);
+
+    expect(response.status).toBe(200);
+    expect(fetchImpl.calls).toHaveLength(2);
+    expect(clock.sleeps).toEqual([7000]);
+  });
+
+  it('returns the 503 once attempts run out', async () => {
+    const gate = new SiteGate('test', { ...DEFAULT_POLITENESS, requestsPerMinute: 600, respectRobotsTxt: false }, fakeClock());
+    const unavailable = () => new Response('down', { status: 503 });
+    const fetchImpl = fakeFetch({ 'https://comps.test/api': [unavailable, unavailable, unavailable, unavailable] });
+
+    const response = await gate.fetch('https://comps.test/api', undefined, fetchImpl);
+
+    expect(response.status).toBe(503);
+    expect(fetchImpl.calls).toHaveLength(3);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { parsePriceTierLine, parsePriceTiers } from '../price-tiers';
+
+describe('parsePriceTierLine', () => {
+  it('parses "N for £X" bundles', () => {
+    expect(parsePriceTierLine('5 for £4')).toEqual({ quantity: 5, price: 400 });
+    expect(parsePriceTierLine('Buy 10 tickets for only £8.00!')).toEqual({ quantity: 10, price: 800 });
+  });
+
+  it('parses bundle buttons', () => {
+    expect(parsePriceTierLine('20 Tickets - £15')).toEqual({ quantity: 20, price: 1_500 });
+    expect(parsePriceTierLine('50 entries | £35')).toEqual({ quantity: 50, price: 3_500 });
+  });
+
+  it('parses per-ticket volume pricing', () => {
+    expect(parsePriceTierLine('10+ tickets 80p each')).toEqual({ quantity: 10, price: 800 });
+  });
+
+  it('parses percentage discounts when the single price is known', () => {
+    expect(parsePriceTierLine('Buy 10+ tickets and get 20% off', 100)).toEqual({ quantity: 10, price: 800 });
+    expect(parsePriceTierLine('Buy 10+ tickets and get 20% off')).toBeNull();
+  });
+
+  it('parses discounts with the quantity before or after the percentage', () => {
+    expect(parsePriceTierLine('Buy 10+ tickets and save 20%', 100)).toEqual({ quantity: 10, price: 800 });
+    expect(parsePriceTierLine('20% off when you buy 10 or more', 100)).toEqual({ quantity: 10, price: 800 });
+    expect(parsePriceTierLine('Save 25% on 4+ entries', 200)).toEqual({ quantity: 4, price: 600 });
+  });
+
+  it('ignores percentages that are not discounts', () => {
+    expect(parsePriceTierLine('5000 tickets - 20% sold', 100)).toBeNull();
+  });
+
+  it('rejects offers that are no cheaper than singles', () => {
+    expect(parsePriceTierLine('5 for £5', 100)).toBeNull();
+  });
+
+  it('ignores ticket totals and limits', () => {
+    expect(parsePriceTierLine('5000 tickets at £2.97 each')).toBeNull();
+    expect(parsePriceTierLine('Max 50 tickets per person')).toBeNull();
+    expect(parsePriceTierLine('Total Tickets: 4,999')).toBeNull();
+  });
+});
+
+describe('parsePriceTiers', () => {
+  it('keeps the cheapest offer per bundle size, ordered by quantity', () => {
+    expect(parsePriceTiers(['10 for £8', '5 for £4.50', '5 Tickets - £4', 'Win a BMW'], 99)).toEqual([
+      { quantity: 5, price: 400 },
+      { quantity: 10, price: 800 },
+    ]);
+  });
+
+  it('returns undefined when there are no offers', () => {
+    expect(parsePriceTiers(['Ticket price: £1.99', 'Ends Sunday 9pm'], 199)).toBeUndefined();
+  });
+});
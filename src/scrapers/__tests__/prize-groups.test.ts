@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { assignPrizeGroups, isSamePrize, updatePrizeGroups, GroupableRaffle } from '../prize-groups';
+
+function raffle(id: string, overrides: Partial<GroupableRaffle> = {}): GroupableRaffle {
+  return {
+    id,
+    siteId: `site-${id}`,
+    make: 'Volkswagen',
+    model: 'Golf R',
+    year: 2024,
+    variant: null,
+    imageHash: null,
+    prizeValue: 4_500_000,
+    prizeGroupId: null,
+    ...overrides,
+  };
+}
+
+const ids = () => {
+  let n = 0;
+  return () => `group-${++n}`;
+};
+
+describe('isSamePrize', () => {
+  it('matches the same make / model / year across sites', () => {
+    expect(isSamePrize(raffle('a'), raffle('b', { make: 'volkswagen', model: 'golf r' }))).toBe(true);
+    expect(isSamePrize(raffle('a'), raffle('b', { year: null, prizeValue: null }))).toBe(true);
+  });
+
+  it('rejects different years, models and far-apart values', () => {
+    expect(isSamePrize(raffle('a'), raffle('b', { year: 2022 }))).toBe(false);
+    expect(isSamePrize(raffle('a'), raffle('b', { model: 'Golf GTI' }))).toBe(false);
+    expect(isSamePrize(raffle('a'), raffle('b', { prizeValue: 6_000_000 }))).toBe(false);
+    expect(isSamePrize(raffle('a', { make: null }), raffle('b', { make: null }))).toBe(false);
+  });
+
+  it('allows a variant that extends the other, not a conflicting one', () => {
+    const m4 = { make: 'BMW', model: 'M4', prizeValue: 8_000_000 };
+    expect(isSamePrize(raffle('a', { ...m4, variant: 'Competition' }), raffle('b', { ...m4, variant: 'Competition xDrive' }))).toBe(true);
+    expect(isSamePrize(raffle('a', { ...m4, variant: 'Competition' }), raffle('b', { ...m4, variant: 'CSL' }))).toBe(false);
+    // Same image settles it
+    expect(isSamePrize(
+      raffle('a', { ...m4, variant: 'Competition', imageHash: 'f0e1d2c3b4a59687' }),
+      raffle('b', { ...m4, variant: 'CSL', imageHash: 'f0e1d2c3b4a59686' })
+    )).toBe(true);
+  });
+});
+
+describe('assignPrizeGroups', () => {
+  it('groups matching raffles and leaves singletons ungrouped', () => {
+    const groups = assignPrizeGroups([
+      raffle('a'),
+      raffle('b'),
+      raffle('c', { siteId: 'site-a' }),   // relisting on the same site
+      raffle('d', { model: 'Golf GTI' }),
+    ], ids());
+    expect(groups.get('a')).toBe('group-1');
+    expect(groups.get('b')).toBe('group-1');
+    expect(groups.get('c')).toBe('group-1');
+    expect(groups.get('d')).toBeNull();
+  });
+
+  it('keeps the existing group id when new listings join', () => {
+    const groups = assignPrizeGroups([
+      raffle('a', { prizeGroupId: 'existing' }),
+      raffle('b', { prizeGroupId: 'existing' }),
+      raffle('c'),
+    ], ids());
+    expect(new Set(groups.values())).toEqual(new Set(['existing']));
+  });
+
+  it('clears the group of a raffle that no longer matches anything', () => {
+    const groups = assignPrizeGroups([raffle('a', { prizeGroupId: 'stale' })], ids());
+    expect(groups.get('a')).toBeNull();
+  });
+
+  it('lets a raffle with no year join one group instead of bridging two', () => {
+    const groups = assignPrizeGroups([
+      raffle('any-year', { year: null }),
+      raffle('old-a', { year: 2022 }),
+      raffle('old-b', { year: 2022 }),
+      raffle('new-a', { year: 2024 }),
+      raffle('new-b', { year: 2024 }),
+    ], ids());
+    expect(groups.get('old-a')).toBe(groups.get('old-b'));
+    expect(groups.get('new-a')).toBe(groups.get('new-b'));
+    expect(groups.get('old-a')).not.toBe(groups.get('new-a'));
+    expect([groups.get('old-a'), groups.get('new-a')]).toContain(groups.get('any-year'));
+  });
+
+  it('keeps a bridged group id for one half when it splits', () => {
+    const groups = assignPrizeGroups([
+      raffle('any-year', { year: null, prizeGroupId: 'bridged' }),
+      raffle('old', { year: 2022, prizeGroupId: 'bridged' }),
+      raffle('old-b', { year: 2022 }),
+      raffle('new', { year: 2024, prizeGroupId: 'bridged' }),
+      raffle('new-b', { year: 2024 }),
+    ], ids());
+    expect(groups.get('any-year')).toBe('bridged');
+    expect(new Set(groups.values()).size).toBe(2);
+    expect(Array.from(groups.values()).filter((g) => g === 'bridged')).toHaveLength(3);
+  });
+});
+
+describe('updatePrizeGroups', () => {
+  it('pages through every matching raffle', async () => {
+    const rows = Array.from({ length: 1500 }, (_, i) => ({
+      id: `r${String(i).padStart(4, '0')}`,
+      site_id: 's',
+      car_make: 'Volkswagen',
+      car_model: 'Golf R',
+      car_year: 2024,
+      car_variant: null,
+      image_hash: null,
+      prize_value: 4_500_000,
+      prize_group_id: 'golf',
+    }));
+    const ranges: Array<[number, number]> = [];
+    const query = {
+      select: () => query,
+      in: () => query,
+      not: () => query,
+      or: () => query,
+      order: () => query,
+      range: async (from: number, to: number) => {
+        ranges.push([from, to]);
+        return { data: rows.slice(from, to + 1), error: null };
+      },
+    };
+    const supabase = { from: () => query } as unknown as SupabaseClient;
+
+    // Every row already shares the group, so nothing needs writing
+    expect(await updatePrizeGroups(supabase)).toBe(0);
+    expect(ranges).toEqual([[0, 999], [1000, 1999]]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { parsePrizeTierLine, parsePrizeTiers } from '../prize-tiers';
+
+describe('parsePrizeTierLine', () => {
+  it('parses numbered tiers with a cash alternative', () => {
+    expect(parsePrizeTierLine('1st Prize: Porsche 911 GT3 or £120,000 cash')).toEqual({
+      position: 1,
+      prize: 'Porsche 911 GT3',
+      value: undefined,
+      cashAlternative: 12_000_000,
+      quantity: 1,
+    });
+  });
+
+  it('parses worded ordinals and cash prizes', () => {
+    expect(parsePrizeTierLine('Second Prize - £5,000 Tax Free Cash')).toEqual({
+      position: 2,
+      prize: '£5,000 Tax Free Cash',
+      value: 500_000,
+      cashAlternative: undefined,
+      quantity: 1,
+    });
+  });
+
+  it('parses ranged tiers as several winners', () => {
+    expect(parsePrizeTierLine('3rd - 5th Prize: £500 each')).toMatchObject({
+      position: 3,
+      prize: '£500',
+      value: 50_000,
+      quantity: 3,
+    });
+  });
+
+  it('parses runner-up groups without a position', () => {
+    expect(parsePrizeTierLine('10 x £100 Runner-up Prizes')).toEqual({
+      position: 0,
+      prize: '£100',
+      value: 10_000,
+      quantity: 10,
+    });
+  });
+
+  it('ignores unrelated text', () => {
+    expect(parsePrizeTierLine('Prize draw takes place live on Facebook')).toBeNull();
+    expect(parsePrizeTierLine('Max 50 tickets per person')).toBeNull();
+  });
+
+  it('ignores draw schedule wording that starts like a tier', () => {
+    expect(parsePrizeTierLine('1st prize draw happens at 9pm')).toBeNull();
+    expect(parsePrizeTierLine('2nd Prize will be drawn on Facebook Live')).toBeNull();
+    expect(parsePrizeTierLine('3rd Prize: £50 Site Credit')).toMatchObject({ position: 3, value: 5_000 });
+    expect(parsePrizeTierLine('2nd Prize: Amazon Voucher')).toMatchObject({ position: 2, prize: 'Amazon Voucher' });
+  });
+});
+
+describe('parsePrizeTiers', () => {
+  it('orders tiers and numbers runner-up groups after them', () => {
+    const tiers = parsePrizeTiers([
+      'Win this amazing car!',
+      '2nd Prize: £1,000',
+      '1st Prize: BMW M3 Competition',
+      '5 x £50 runners-up',
+    ]);
+    expect(tiers?.map((t) => [t.position, t.prize, t.value, t.quantity])).toEqual([
+      [1, 'BMW M3 Competition', undefined, 1],
+      [2, '£1,000', 100_000, 1],
+      [3, '£50', 5_000, 5],
+    ]);
+  });
+
+  it('returns undefined for single-prize competitions', () => {
+    expect(parsePrizeTiers(['1st Prize: Audi RS3', 'Ends Sunday 9pm'])).toBeUndefined();
+  });
+});
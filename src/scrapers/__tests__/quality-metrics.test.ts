@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { computeQualityMetrics } from '../quality-metrics';
+import { computeCoverage, computeQualityMetrics, computeSanityChecks } from '../quality-metrics';
 import type { ScrapedRaffle } from '../base';
+import type { StoredRaffle } from '../stored-raffles';
 
 function makeRaffle(overrides: Partial<ScrapedRaffle> = {}): ScrapedRaffle {
   return {
@@ -55,3 +56,49 @@ describe('computeQualityMetrics', () => {
     expect(computeQualityMetrics(raffles).otherTypeRate).toBe(0.5);
   });
 });
+
+describe('computeCoverage', () => {
+  it('reports per-field coverage, make/model over vehicles only', () => {
+    const coverage = computeCoverage([
+      makeRaffle({ title: 'Win a BMW M3 Competition', ticketPrice: 199, endDate: new Date() }),
+      makeRaffle({ title: 'Win a Ferrari', ticketPrice: 299 }),
+      makeRaffle({ title: '£5,000 Tax Free Cash', ticketPrice: 49 }),
+    ]);
+    expect(coverage.ticketPrice).toEqual({ count: 3, total: 3, percent: 100 });
+    expect(coverage.endDate).toEqual({ count: 1, total: 3, percent: 33 });
+    expect(coverage.makeModel).toEqual({ count: 1, total: 2, percent: 50 });
+  });
+
+  it('leaves out fields that apply to no raffle', () => {
+    expect(computeCoverage([makeRaffle({ title: '£500 Cash' })]).makeModel).toBeUndefined();
+  });
+});
+
+describe('computeSanityChecks', () => {
+  const now = new Date('2026-03-02T12:00:00Z');
+
+  it('flags impossible sold counts, past end dates and price outliers', () => {
+    const checks = computeSanityChecks([
+      makeRaffle({ externalId: 'a', percentSold: 104, ticketPrice: 199 }),
+      makeRaffle({ externalId: 'b', ticketsSold: 5_001, totalTickets: 5_000, ticketPrice: 99 }),
+      makeRaffle({ externalId: 'c', endDate: new Date('2026-03-01T20:00:00Z'), ticketPrice: 149 }),
+      makeRaffle({ externalId: 'd', ticketPrice: 19_900 }),   // £199 — pounds read as pence × 100
+    ], undefined, now);
+    expect(checks.percentSoldOver100).toEqual({ count: 2, examples: ['a', 'b'] });
+    expect(checks.endDateInPast).toEqual({ count: 1, examples: ['c'] });
+    expect(checks.ticketPriceOutlier).toEqual({ count: 1, examples: ['d'] });
+  });
+
+  it('flags total tickets that changed since the stored run', () => {
+    const stored = new Map([
+      ['a', { externalId: 'a', totalTickets: 5_000 } as StoredRaffle],
+      ['b', { externalId: 'b', totalTickets: 9_999 } as StoredRaffle],
+    ]);
+    const checks = computeSanityChecks([
+      makeRaffle({ externalId: 'a', totalTickets: 5_000 }),
+      makeRaffle({ externalId: 'b', totalTickets: 99_999 }),
+      makeRaffle({ externalId: 'c', totalTickets: 1_000 }),
+    ], stored, now);
+    expect(checks.totalTicketsChanged).toEqual({ count: 1, examples: ['b'] });
+  });
+});
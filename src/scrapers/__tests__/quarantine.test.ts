@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { quarantineReasons, releasedRaffle } from '../quarantine';
+import type { ScrapedRaffle } from '../base';
+
+const raffle = (overrides: Partial<ScrapedRaffle> = {}): ScrapedRaffle => ({
+  externalId: 'bmw-m3',
+  title: 'Win a BMW M3 Competition',
+  sourceUrl: 'https://example.com/bmw-m3',
+  ticketPrice: 199,
+  totalTickets: 5000,
+  percentSold: 40,
+  ...overrides,
+});
+
+const stored = { total_tickets: 5000, percent_sold: 38 };
+
+describe('quarantineReasons', () => {
+  it('passes an ordinary update and a new raffle', () => {
+    expect(quarantineReasons(raffle(), stored, 'Dream Car Giveaways')).toEqual([]);
+    expect(quarantineReasons(raffle(), null, 'Dream Car Giveaways')).toEqual([]);
+  });
+
+  it('holds back an absurd ticket price', () => {
+    expect(quarantineReasons(raffle({ ticketPrice: 19_900 }), stored, 'DCG')).toEqual(['ticket price 19900p']);
+  });
+
+  it('holds back a title that is just the site name', () => {
+    expect(quarantineReasons(raffle({ title: 'Dream Car Giveaways' }), null, 'Dream-Car Giveaways')).toEqual(['title is the site name']);
+  });
+
+  it('holds back total tickets jumping 10x either way', () => {
+    expect(quarantineReasons(raffle({ totalTickets: 50_000 }), stored, 'DCG')).toEqual(['total tickets 5000 → 50000']);
+    expect(quarantineReasons(raffle({ totalTickets: 500 }), stored, 'DCG')).toEqual(['total tickets 5000 → 500']);
+    expect(quarantineReasons(raffle({ totalTickets: 6000 }), stored, 'DCG')).toEqual([]);
+  });
+
+  it('holds back percent sold going backwards, allowing a small dip', () => {
+    expect(quarantineReasons(raffle({ percentSold: 12 }), stored, 'DCG')).toEqual(['percent sold 38% → 12%']);
+    expect(quarantineReasons(raffle({ percentSold: 37 }), stored, 'DCG')).toEqual([]);
+  });
+});
+
+describe('quarantineReasons on quick updates', () => {
+  it('checks price and percent sold without a title or total', () => {
+    expect(quarantineReasons({ percentSold: 41, ticketPrice: 199 }, stored, 'DCG')).toEqual([]);
+    expect(quarantineReasons({ percentSold: 10, ticketPrice: 19_900 }, stored, 'DCG'))
+      .toEqual(['ticket price 19900p', 'percent sold 38% → 10%']);
+  });
+});
+
+describe('releasedRaffle', () => {
+  const payload = {
+    ...raffle({ percentSold: 12 }),
+    endDate: '2026-03-10T20:00:00.000Z',
+  } as unknown as Record<string, unknown>;
+  const quarantinedAt = '2026-03-01T12:00:00.000Z';
+  const live = {
+    percent_sold: 45,
+    tickets_sold: 2250,
+    ticket_price: 249,
+    end_date: '2026-03-12T20:00:00.000Z',
+    last_scraped_at: '2026-03-01T12:20:00.000Z',
+  };
+
+  it('releases the scraped values when the live raffle is older', () => {
+    const released = releasedRaffle(payload, { ...live, last_scraped_at: '2026-03-01T09:00:00.000Z' }, quarantinedAt);
+    expect(released.percentSold).toBe(12);
+    expect(released.endDate).toEqual(new Date('2026-03-10T20:00:00.000Z'));
+  });
+
+  it('keeps listing values the live raffle refreshed since', () => {
+    const released = releasedRaffle(payload, live, quarantinedAt);
+    expect(released).toMatchObject({ percentSold: 45, ticketsSold: 2250, ticketPrice: 249, totalTickets: 5000 });
+    expect(released.endDate).toEqual(new Date('2026-03-12T20:00:00.000Z'));
+  });
+
+  it('releases a new raffle as scraped', () => {
+    expect(releasedRaffle(payload, null, quarantinedAt).percentSold).toBe(12);
+  });
+});
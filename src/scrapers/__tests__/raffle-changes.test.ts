@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { diffRaffle } from '../raffle-changes';
+
+const stored = {
+  title: 'Win a BMW M3',
+  end_date: '2026-11-01T20:00:00+00:00',
+  ticket_price: 199,
+  total_tickets: 5000,
+  cash_alternative: 4_000_000,
+  prize_value: 5_500_000,
+  max_per_person: null,
+};
+
+describe('diffRaffle', () => {
+  it('ignores unchanged values in PostgREST formatting', () => {
+    expect(diffRaffle('r1', stored, { ...stored, end_date: '2026-11-01T20:00:00.000Z', percent_sold: 50 })).toEqual([]);
+  });
+
+  it('logs a draw extension, price drop and ticket inflation', () => {
+    const next = { ...stored, end_date: '2026-11-08T20:00:00.000Z', ticket_price: 149, total_tickets: 9000 };
+    expect(diffRaffle('r1', stored, next)).toEqual([
+      { raffle_id: 'r1', field: 'end_date', old_value: stored.end_date, new_value: '2026-11-08T20:00:00.000Z' },
+      { raffle_id: 'r1', field: 'ticket_price', old_value: 199, new_value: 149 },
+      { raffle_id: 'r1', field: 'total_tickets', old_value: 5000, new_value: 9000 },
+    ]);
+  });
+
+  it('skips fields kept by a persist guard, first parsed, or missed this run', () => {
+    const guarded = Object.fromEntries(Object.entries(stored).filter(([k]) => k !== 'end_date'));
+    expect(diffRaffle('r1', stored, { ...guarded, max_per_person: 100, cash_alternative: null })).toEqual([]);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import type { BrowserContext } from 'playwright';
+import {
+  SelectorScraper,
+  SelectorScraperConfig,
+  applyPattern,
+  parseTicketPrice,
+  parseCount,
+  parsePercent,
+  parseDrawType,
+} from '../selector-scraper';
+
+describe('applyPattern', () => {
+  it('returns trimmed text when there is no pattern', () => {
+    expect(applyPattern('  Win a Porsche  ')).toBe('Win a Porsche');
+  });
+
+  it('returns the first capture group when the pattern matches', () => {
+    expect(applyPattern('Cash Alternative: £52,000', /cash alternative[:\s]*£([\d,]+)/i)).toBe('52,000');
+  });
+
+  it('returns null when the pattern does not match or the value is missing', () => {
+    expect(applyPattern('No cash here', /£([\d,]+)/)).toBeNull();
+    expect(applyPattern(null, /x/)).toBeNull();
+    expect(applyPattern('   ')).toBeNull();
+  });
+});
+
+describe('parseTicketPrice', () => {
+  it('parses pounds, pence-only and FREE', () => {
+    expect(parseTicketPrice('£2.99')).toBe(299);
+    expect(parseTicketPrice('25p')).toBe(25);
+    expect(parseTicketPrice('FREE')).toBe(0);
+  });
+
+  it('returns undefined for empty input', () => {
+    expect(parseTicketPrice(null)).toBeUndefined();
+    expect(parseTicketPrice('')).toBeUndefined();
+  });
+});
+
+describe('parseCount / parsePercent / parseDrawType', () => {
+  it('parses ticket counts with separators and suffixes', () => {
+    expect(parseCount('24,999 TKTS')).toBe(24999);
+    expect(parseCount('none')).toBeUndefined();
+  });
+
+  it('parses percentages', () => {
+    expect(parsePercent('87% SOLD')).toBe(87);
+    expect(parsePercent('12.5%')).toBe(12.5);
+  });
+
+  it('normalises draw types', () => {
+    expect(parseDrawType('Live Draw on Facebook')).toBe('live');
+    expect(parseDrawType('AUTO DRAW')).toBe('automated');
+    expect(parseDrawType('Draw Tomorrow')).toBeUndefined();
+  });
+});
+
+// ============================================
+// HTTP-first loading
+// ============================================
+
+const LISTING_HTML = `<html><body>
+  <h1>All competitions</h1>
+  <p>${'Enter our competitions for the chance to win. '.repeat(6)}</p>
+  <div class="card">
+    <a href="/product/win-audi-rs3/"><h3>Win an Audi RS3</h3></a>
+    <span class="price">£1.99</span><span class="sold">40% sold</span>
+  </div>
+  <div class="card">
+    <a href="/product/500-cash/"><h3>£500 Cash</h3></a>
+    <span class="price">49p</span>
+  </div>
+</body></html>`;
+
+const DETAIL_HTML = `<html><body>
+  <h1>Win an Audi RS3</h1>
+  <p>${'A stunning hot hatch with 400bhp. '.repeat(8)}</p>
+  <p class="tickets">4,999 tickets</p>
+  <p>5 for £8</p>
+</body></html>`;
+
+class TestSelectorScraper extends SelectorScraper {
+  config: SelectorScraperConfig = {
+    name: 'Test Comps',
+    siteSlug: 'test-comps',
+    baseUrl: 'https://comps.test',
+    listingUrl: 'https://comps.test/competitions/',
+    listing: {
+      cardSelector: '.card',
+      maxScrolls: 0,
+      fields: {
+        title: { selector: 'h3' },
+        ticketPrice: { selector: '.price' },
+        percentSold: { selector: '.sold' },
+      },
+    },
+    detail: {
+      visit: 'vehicles',
+      fields: { totalTickets: { selector: '.tickets' } },
+    },
+  };
+}
+
+function stubFetch(pages: Record<string, string>): typeof fetch {
+  return async (input) => {
+    const body = pages[String(input)];
+    return new Response(body ?? 'Not found', { status: body ? 200 : 404 });
+  };
+}
+
+/** A browser context that records use instead of launching Chromium */
+function trackingContext(): { context: BrowserContext; opened: () => number } {
+  let count = 0;
+  const context = {
+    newPage: async () => {
+      count++;
+      throw new Error('browser used');
+    },
+  } as unknown as BrowserContext;
+  return { context, opened: () => count };
+}
+
+describe('SelectorScraper HTTP path', () => {
+  it('scrapes server-rendered pages without opening the browser', async () => {
+    const scraper = new TestSelectorScraper();
+    scraper.httpFetch = stubFetch({
+      'https://comps.test/competitions/': LISTING_HTML,
+      'https://comps.test/product/win-audi-rs3/': DETAIL_HTML,
+    });
+    const { context, opened } = trackingContext();
+
+    const result = await scraper.scrape(context);
+
+    expect(opened()).toBe(0);
+    expect(result.errors).toEqual([]);
+    const audi = result.raffles.find((r) => r.externalId === 'win-audi-rs3')!;
+    expect(audi.sourceUrl).toBe('https://comps.test/product/win-audi-rs3/');
+    expect(audi.ticketPrice).toBe(199);
+    expect(audi.percentSold).toBe(40);
+    expect(audi.totalTickets).toBe(4_999);
+    expect(audi.priceTiers).toEqual([{ quantity: 5, price: 800 }]);
+    expect(result.raffles.find((r) => r.externalId === '500-cash')?.ticketPrice).toBe(49);
+    expect(scraper.listingLayout).toEqual({
+      cards: 2,
+      probes: { cards: 2, title: 2, ticketPrice: 2, percentSold: 1 },
+    });
+  });
+
+  it('falls back to the browser when the HTML lacks the cards', async () => {
+    const scraper = new TestSelectorScraper();
+    scraper.httpFetch = stubFetch({
+      'https://comps.test/competitions/': '<html><body><div id="app"></div></body></html>',
+    });
+    const { context, opened } = trackingContext();
+
+    const result = await scraper.quickUpdate(context);
+
+    expect(opened()).toBe(1);
+    expect(result.errors).toEqual(['browser used']);
+  });
+  it('skips the detail page when the stored detail data is fresh', async () => {
+    const scraper = new TestSelectorScraper();
+    scraper.httpFetch = stubFetch({ 'https://comps.test/competitions/': LISTING_HTML });
+    scraper.storedRaffles.set('win-audi-rs3', {
+      externalId: 'win-audi-rs3',
+      prizeValue: 5_000_000,
+      cashAlternative: null,
+      additionalCash: null,
+      imageUrl: null,
+      totalTickets: 4_999,
+      maxPerPerson: null,
+      endDate: '2099-01-01T20:00:00.000Z',
+      drawType: null,
+      runnerUpValue: null,
+      instantWinValueRemaining: null,
+      detailScrapedAt: new Date().toISOString(),
+    });
+    const { context, opened } = trackingContext();
+
+    const result = await scraper.scrape(context);
+
+    expect(opened()).toBe(0);
+    expect(result.errors).toEqual([]);
+    const audi = result.raffles.find((r) => r.externalId === 'win-audi-rs3')!;
+    expect(audi.fromDetailPage).toBeUndefined();
+    expect(audi.totalTickets).toBe(4_999);
+    expect(audi.ticketsSold).toBe(2_000);
+    expect(audi.prizeValue).toBe(5_000_000);
+  });
+});
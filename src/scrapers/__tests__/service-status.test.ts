@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { ServiceStats } from '../service-status';
+import type { SiteRun } from '../run-all';
+
+const started = new Date('2026-10-19T09:00:00Z');
+const now = new Date('2026-10-19T10:00:00Z');
+
+const run = (overrides: Partial<SiteRun> = {}): SiteRun => ({
+  siteSlug: 'rev-comps',
+  status: 'success',
+  itemsFound: 42,
+  itemsNew: 2,
+  itemsUpdated: 40,
+  durationMs: 90_500,
+  ...overrides,
+});
+
+describe('ServiceStats.health', () => {
+  it('reports running jobs and the last run per site and mode', () => {
+    const stats = new ServiceStats(started);
+    stats.jobStarted({ id: 'job-1', siteSlug: 'botb', mode: 'quick', attempts: 1, maxAttempts: 3 }, now);
+    stats.recordRuns('full', [run()], now);
+
+    const health = stats.health(true, now);
+    expect(health.status).toBe('ok');
+    expect(health.uptimeSeconds).toBe(3600);
+    expect(health.runningJobs).toEqual([
+      { id: 'job-1', siteSlug: 'botb', mode: 'quick', attempts: 1, maxAttempts: 3, startedAt: now.toISOString() },
+    ]);
+    expect(health.lastRuns['rev-comps'].full).toMatchObject({ status: 'success', itemsFound: 42, finishedAt: now.toISOString() });
+  });
+
+  it('is degraded without a browser', () => {
+    expect(new ServiceStats(started).health(false, now).status).toBe('degraded');
+  });
+});
+
+describe('ServiceStats.metrics', () => {
+  it('renders counters, gauges and quality rates in Prometheus format', () => {
+    const stats = new ServiceStats(started);
+    stats.recordRuns('full', [run({
+      quality: {
+        imageNullRate: 0.1,
+        priceNullRate: 0,
+        otherTypeRate: 0.25,
+        coverage: {
+          endDate: { count: 40, total: 42, percent: 95 },
+          cashAlternative: { count: 21, total: 42, percent: 50 },
+          makeModel: { count: 3, total: 4, percent: 75 },
+        },
+      },
+    })], now);
+    stats.recordRuns('full', [run({ status: 'partial', itemsFound: 40, errorMessage: 'Persist a: x; Persist b: y', errorCount: 2 })], now);
+
+    const text = stats.metrics(true, now);
+    expect(text).toContain('# TYPE scraper_runs_total counter');
+    expect(text).toContain('scraper_runs_total{site="rev-comps",mode="full",status="success"} 1');
+    expect(text).toContain('scraper_runs_total{site="rev-comps",mode="full",status="partial"} 1');
+    expect(text).toContain('scraper_run_errors_total{site="rev-comps",mode="full"} 2');
+    expect(text).toContain('# TYPE scraper_run_duration_seconds histogram');
+    expect(text).toContain('scraper_run_duration_seconds_bucket{site="rev-comps",mode="full",le="60"} 0');
+    expect(text).toContain('scraper_run_duration_seconds_bucket{site="rev-comps",mode="full",le="120"} 2');
+    expect(text).toContain('scraper_run_duration_seconds_bucket{site="rev-comps",mode="full",le="+Inf"} 2');
+    expect(text).toContain('scraper_run_duration_seconds_sum{site="rev-comps",mode="full"} 181');
+    expect(text).toContain('scraper_run_duration_seconds_count{site="rev-comps",mode="full"} 2');
+    expect(text).toContain('scraper_items_found{site="rev-comps",mode="full"} 40');
+    expect(text).toContain('scraper_quality_rate{site="rev-comps",metric="other_type"} 0.250');
+    expect(text).toContain('scraper_field_coverage{site="rev-comps",field="end_date"} 0.952');
+    expect(text).toContain('scraper_field_coverage{site="rev-comps",field="cash_alternative"} 0.500');
+    expect(text).toContain('scraper_field_coverage{site="rev-comps",field="make_model"} 0.750');
+    expect(text).toContain('scraper_browser_connected 1');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+
+  it('counts an uncounted error message once, whatever it contains', () => {
+    const stats = new ServiceStats(started);
+    stats.recordRuns('quick', [run({ status: 'failed', errorMessage: 'Layout changed: cards 40 → 3; title 40 → 0' })], now);
+
+    expect(stats.metrics(true, now)).toContain('scraper_run_errors_total{site="rev-comps",mode="quick"} 1');
+  });
+});
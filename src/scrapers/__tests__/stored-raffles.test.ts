@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { needsDetailRefresh, withStoredDetail, StoredRaffle, DETAIL_REFRESH_MS } from '../stored-raffles';
+import { buildRaffleRow, ScrapedRaffle } from '../base';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+function stored(overrides: Partial<StoredRaffle> = {}): StoredRaffle {
+  return {
+    externalId: 'win-bmw-m3',
+    prizeValue: 7_500_000,
+    cashAlternative: 6_500_000,
+    additionalCash: null,
+    imageUrl: 'https://comps.test/m3.jpg',
+    totalTickets: 9_999,
+    maxPerPerson: 50,
+    endDate: '2026-03-10T20:00:00.000Z',
+    drawType: 'live_draw',
+    runnerUpValue: null,
+    instantWinValueRemaining: null,
+    detailScrapedAt: '2026-03-01T06:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('needsDetailRefresh', () => {
+  it('visits new and never-detail-scraped raffles', () => {
+    expect(needsDetailRefresh(undefined, DETAIL_REFRESH_MS, NOW)).toBe(true);
+    expect(needsDetailRefresh(stored({ detailScrapedAt: null }), DETAIL_REFRESH_MS, NOW)).toBe(true);
+  });
+
+  it('visits raffles missing detail-only fields', () => {
+    expect(needsDetailRefresh(stored({ totalTickets: null }), DETAIL_REFRESH_MS, NOW)).toBe(true);
+    expect(needsDetailRefresh(stored({ endDate: null }), DETAIL_REFRESH_MS, NOW)).toBe(true);
+    expect(needsDetailRefresh(stored({ prizeValue: null, cashAlternative: null }), DETAIL_REFRESH_MS, NOW)).toBe(true);
+    expect(needsDetailRefresh(stored({ prizeValue: null }), DETAIL_REFRESH_MS, NOW)).toBe(false);
+  });
+
+  it('revisits once the stored detail is older than the window', () => {
+    expect(needsDetailRefresh(stored(), DETAIL_REFRESH_MS, NOW)).toBe(false);
+    expect(needsDetailRefresh(stored(), 3 * 60 * 60 * 1000, NOW)).toBe(true);
+  });
+});
+
+describe('withStoredDetail', () => {
+  const card: ScrapedRaffle = {
+    externalId: 'win-bmw-m3',
+    title: 'Win a BMW M3',
+    sourceUrl: 'https://comps.test/win-bmw-m3',
+    ticketPrice: 299,
+    percentSold: 40,
+  };
+
+  it('fills fields the listing card lacks and re-derives tickets sold', () => {
+    const raffle = withStoredDetail(card, stored());
+    expect(raffle.prizeValue).toBe(7_500_000);
+    expect(raffle.cashAlternative).toBe(6_500_000);
+    expect(raffle.totalTickets).toBe(9_999);
+    expect(raffle.ticketsSold).toBe(4_000);
+    expect(raffle.maxPerPerson).toBe(50);
+    expect(raffle.endDate?.toISOString()).toBe('2026-03-10T20:00:00.000Z');
+    expect(raffle.additionalCash).toBeUndefined();
+  });
+
+  it('keeps freshly scraped values', () => {
+    const raffle = withStoredDetail({ ...card, ticketPrice: 199, imageUrl: 'https://comps.test/new.jpg' }, stored());
+    expect(raffle.ticketPrice).toBe(199);
+    expect(raffle.imageUrl).toBe('https://comps.test/new.jpg');
+  });
+
+  it('returns the raffle unchanged when nothing is stored', () => {
+    expect(withStoredDetail(card, undefined)).toBe(card);
+  });
+
+  it('keeps stored runner-up and instant-win value in expected value', () => {
+    const withTiers = stored({ runnerUpValue: 1_000_000, instantWinValueRemaining: 500_000 });
+    const skipped = buildRaffleRow(withStoredDetail(card, withTiers), 'site-1');
+    const bare = buildRaffleRow(withStoredDetail(card, stored()), 'site-1');
+
+    expect(skipped.expected_value).toBeGreaterThan(bare.expected_value as number);
+    // Only a detail visit rewrites the stored tier and instant-win columns
+    expect(skipped).not.toHaveProperty('runner_up_value');
+    expect(skipped).not.toHaveProperty('instant_win_value_remaining');
+  });
+
+  it('prefers freshly scraped prize tiers over the stored total', () => {
+    const raffle = withStoredDetail({
+      ...card,
+      prizes: [
+        { position: 1, prize: 'BMW M3', value: 7_500_000, quantity: 1 },
+        { position: 2, prize: '£2,000 cash', value: 200_000, quantity: 1 },
+      ],
+    }, stored({ runnerUpValue: 1_000_000 }));
+    expect(buildRaffleRow(raffle, 'site-1').runner_up_value).toBe(200_000);
+  });
+});
@@ -1,6 +1,20 @@
 import { Browser, BrowserContext, Page } from 'playwright';
-import { classifyPrizeType, classifyCarCategory, parseCashFromTitle, calculateRaffleMetrics, extractSlugFromUrl } from '../lib/utils';
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import { classifyPrizeType, classifyCarCategory, parseCashFromTitle, calculateRaffleMetrics, extractSlugFromUrl, summarizeInstantWins, sumPrizeTiers, effectivePrizeValue } from '../lib/utils';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PriceTier } from '../lib/types';
+import type { ScrapedInstantWin } from './instant-wins';
+import type { ScrapedPrize } from './prize-tiers';
+import { mainLines, needsBrowser } from './html';
+import { parseCarSpec } from '../lib/car-spec';
+import { estimateCarValue, parseMileage } from '../lib/car-valuation';
+import { DETAIL_REFRESH_MS, needsDetailRefresh, withStoredDetail, StoredRaffle } from './stored-raffles';
+import { LayoutFingerprint, mergeLayouts } from './layout-fingerprint';
+import { BACKOFF_STATUSES, ROBOTS_USER_AGENT, PolitenessPolicy, SiteGate, backoffDelay, inQuietHours, siteGate } from './politeness';
+import { QuarantineEntry, quarantineReasons, quarantineRecords } from './quarantine';
+import { FieldChange, diffRaffle, recordRaffleChanges } from './raffle-changes';
+import { ResultsPageConfig, ScrapedDrawResult, parseResultsPage } from './draw-results';
 
 // ============================================
 // Base Scraper Types & Interface
@@ -13,17 +27,26 @@ export interface ScrapedRaffle {
   carModel?: string;
   carYear?: number;
   carVariant?: string;
+  description?: string;       // prize blurb; used to fill car spec when the title is vague
+  mileage?: number;           // miles, for the value estimate
   prizeValue?: number;        // pence
   cashAlternative?: number;   // pence
   additionalCash?: number;    // pence
   imageUrl?: string;
   sourceUrl: string;
   ticketPrice?: number;       // pence
+  priceTiers?: PriceTier[];   // bundle offers; undefined = not checked / none listed
   totalTickets?: number;
   ticketsSold?: number;
   percentSold?: number;
+  maxPerPerson?: number;      // per-entrant ticket cap
   endDate?: Date;
   drawType?: string;
+  instantWins?: ScrapedInstantWin[];  // undefined = not checked / none listed
+  prizes?: ScrapedPrize[];            // tiered draws only (2+ tiers), position 1 = main prize
+  runnerUpValue?: number;             // pence; stored tier total when prizes weren't scraped
+  instantWinValueRemaining?: number;  // pence; stored total when instantWins weren't scraped
+  fromDetailPage?: boolean;           // built from a fresh detail-page visit (stamps detail_scraped_at)
 }
 
 export interface ScraperResult {
@@ -34,27 +57,68 @@ export interface ScraperResult {
   duration: number;           // ms
 }
 
+/** One raffle's listing values from a quick update */
+export interface QuickUpdate {
+  externalId: string;
+  percentSold?: number;
+  ticketPrice?: number;
+  status?: string;
+}
+
 export interface QuickUpdateResult {
   siteName: string;
   siteSlug: string;
-  updates: Array<{
-    externalId: string;
-    percentSold?: number;
-    ticketPrice?: number;
-    status?: string;
-  }>;
+  updates: QuickUpdate[];
   errors: string[];
   duration: number;
 }
 
+const HTTP_TIMEOUT_MS = 30_000;
+
+const HTTP_HEADERS = {
+  'User-Agent': `Mozilla/5.0 (compatible; ${ROBOTS_USER_AGENT}/1.0; +https://carraffleodds.com)`,
+  Accept: 'text/html,application/xhtml+xml',
+};
+
 export abstract class BaseScraper {
   abstract name: string;
   abstract siteSlug: string;
   abstract baseUrl: string;
 
+  /** Crawl policy for this site — rate, concurrency, backoff, robots.txt, quiet hours */
+  abstract politeness: PolitenessPolicy;
+
+  /**
+   * Listing-page selectors counted into the layout fingerprint (name →
+   * selector) — the elements this scraper's listing parsing relies on.
+   */
+  protected abstract layoutProbes: Record<string, string>;
+
   protected browser: Browser | null = null;
   protected context: BrowserContext | null = null;
 
+  /**
+   * HTTP client for direct (non-browser) requests — API calls and SSR HTML.
+   * Goes through the site's politeness gate; swapped by useFixtures() so
+   * these requests can be recorded and replayed.
+   */
+  httpFetch: typeof fetch = (input, init) => this.gate.fetch(input, init, fetch);
+
+  /** Ready selectors whose pages needed the browser — skip HTTP for them this run */
+  private browserOnly = new Set<string>();
+
+  /**
+   * Stored detail fields for this site, keyed by external_id. Loaded by
+   * run-all before a full scrape; empty means every raffle is treated as new.
+   */
+  storedRaffles = new Map<string, StoredRaffle>();
+
+  /** Revisit a detail page once its stored data is older than this */
+  detailRefreshMs = DETAIL_REFRESH_MS;
+
+  /** Listing-page structure seen this run; run-all compares it with the last good run */
+  listingLayout: LayoutFingerprint | null = null;
+
   /**
    * Full deep scrape — visits listing + detail pages.
    */
@@ -65,8 +129,91 @@ export abstract class BaseScraper {
    */
   abstract quickUpdate(context: BrowserContext): Promise<QuickUpdateResult>;
 
+  /** The site's winners / results page, for the post-draw results stage — null if not configured */
+  get resultsPage(): ResultsPageConfig | null {
+    return null;
+  }
+
   /**
-   * Rate limiting — wait between requests.
+   * Scrape the winners / results page (HTTP first, browser if it needs
+   * JavaScript). Empty when the site has no resultsPage.
+   */
+  async scrapeResults(context: BrowserContext): Promise<ScrapedDrawResult[]> {
+    const config = this.resultsPage;
+    if (!config) return [];
+
+    const $ = await this.loadDocument(context, config.url, { readySelector: config.cardSelector });
+    return $ ? parseResultsPage($, config, this.baseUrl) : [];
+  }
+
+  /**
+   * Text lines of a closed raffle's page, for post-close verification —
+   * the main content only (mainLines), so footer FAQs and T&Cs about
+   * refunds or rollovers aren't read as this raffle's outcome. Null when the page is gone (404/410) or couldn't be loaded. Doesn't go
+   * through fetchDocument, so a removed page can't switch the detail
+   * scrapes to browser-only.
+   */
+  async fetchClosedPage(context: BrowserContext, url: string): Promise<string[] | null> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
+    try {
+      const res = await this.httpFetch(url, { headers: HTTP_HEADERS, signal: controller.signal });
+      if (res.status === 404 || res.status === 410) return null;
+      if (res.ok) {
+        const $ = cheerio.load(await res.text());
+        if (!needsBrowser($)) return mainLines($);
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.warn(`[${this.name}] HTTP fetch failed for ${url}: ${msg} — falling back to browser`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const page = await context.newPage();
+    try {
+      if (!(await this.navigateWithRetry(page, url))) return null;
+      return mainLines(cheerio.load(await page.content()));
+    } finally {
+      await page.close();
+    }
+  }
+
+  /**
+   * Shared rate limiter for this site. Navigations and httpFetch go through
+   * it, so scrapers don't need their own delays between requests.
+   */
+  protected get gate(): SiteGate {
+    return siteGate(this.siteSlug, this.politeness, this.name);
+  }
+
+  /** Is the site in its quiet hours? run-all skips it if so. */
+  inQuietHours(now: Date = new Date()): boolean {
+    return inQuietHours(this.politeness, now);
+  }
+
+  /**
+   * Count the layout probes on a loaded listing page (Playwright page or
+   * cheerio document) and add them, with the cards parsed from it, to this
+   * run's listingLayout.
+   */
+  protected async recordListingLayout(source: Page | CheerioAPI, cards: number): Promise<void> {
+    const probes: Record<string, number> = {};
+    for (const [name, selector] of Object.entries(this.layoutProbes)) {
+      probes[name] = typeof source === 'function'
+        ? source(selector).length
+        : await source.locator(selector).count().catch(() => 0);
+    }
+    this.recordLayout({ cards, probes });
+  }
+
+  /** Add a fingerprint built by the scraper itself (e.g. API field counts) */
+  protected recordLayout(fingerprint: LayoutFingerprint): void {
+    this.listingLayout = mergeLayouts(this.listingLayout, fingerprint);
+  }
+
+  /**
+   * Wait for the page to settle (cookie banners, lazy loads).
    */
   protected async delay(ms: number = 1500): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
@@ -99,7 +246,97 @@ export abstract class BaseScraper {
   }
 
   /**
-   * Navigate to a page with retries.
+   * Does this raffle's detail page need a visit this run? False when the
+   * stored row is complete and was refreshed within detailRefreshMs.
+   */
+  protected needsDetailVisit(externalId: string): boolean {
+    return needsDetailRefresh(this.storedRaffles.get(externalId), this.detailRefreshMs);
+  }
+
+  /**
+   * Top up a listing-only raffle with the stored detail fields, so skipping
+   * (or failing) a detail visit doesn't null them out on persist.
+   */
+  protected withStoredDetail(raffle: ScrapedRaffle): ScrapedRaffle {
+    return withStoredDetail(raffle, this.storedRaffles.get(raffle.externalId));
+  }
+
+  /**
+   * Fetch a page's HTML over plain HTTP (no browser). Throws on non-2xx.
+   */
+  protected async fetchHtml(url: string): Promise<string> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
+    try {
+      const res = await this.httpFetch(url, { headers: HTTP_HEADERS, signal: controller.signal });
+      if (!res.ok) throw new Error(`HTTP ${res.status} for ${url}`);
+      return await res.text();
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * HTTP-first page load. Returns a cheerio document when the server-rendered
+   * HTML already contains `readySelector`, or null when the caller should fall
+   * back to Playwright (JS-rendered page, bot challenge, HTTP error).
+   * After one fallback, later loads with the same readySelector go straight
+   * to the browser.
+   */
+  protected async fetchDocument(
+    url: string,
+    options: { readySelector?: string } = {}
+  ): Promise<CheerioAPI | null> {
+    const key = options.readySelector ?? '';
+    if (this.browserOnly.has(key)) return null;
+
+    try {
+      const $ = cheerio.load(await this.fetchHtml(url));
+      if (!needsBrowser($, options.readySelector)) return $;
+      console.log(`[${this.name}] ${url} needs JavaScript — falling back to browser`);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.warn(`[${this.name}] HTTP fetch failed for ${url}: ${msg} — falling back to browser`);
+    }
+
+    this.browserOnly.add(key);
+    return null;
+  }
+
+  /**
+   * fetchDocument, else render the page in the browser: navigate, run
+   * `prepare` (cookie banners, scrolling, tabs), wait for `readySelector`
+   * and load the rendered HTML. Either way the caller parses one cheerio
+   * document. Null when the page couldn't be loaded. `browserOnly` skips
+   * the HTTP attempt for pages known to need rendering.
+   */
+  protected async loadDocument(
+    context: BrowserContext,
+    url: string,
+    options: {
+      readySelector: string;
+      waitMs?: number;
+      prepare?: (page: Page) => Promise<void>;
+      browserOnly?: boolean;
+    }
+  ): Promise<CheerioAPI | null> {
+    const fetched = options.browserOnly ? null : await this.fetchDocument(url, { readySelector: options.readySelector });
+    if (fetched) return fetched;
+
+    const page = await context.newPage();
+    try {
+      if (!(await this.navigateWithRetry(page, url))) return null;
+      await options.prepare?.(page);
+      await page.waitForSelector(options.readySelector, { timeout: options.waitMs ?? 15_000 }).catch(() => {});
+      return cheerio.load(await page.content());
+    } finally {
+      await page.close();
+    }
+  }
+
+  /**
+   * Navigate to a page with retries, under the site's politeness policy.
+   * Returns false if robots.txt disallows the URL or every attempt failed.
    */
   protected async navigateWithRetry(
     page: Page,
@@ -107,22 +344,53 @@ export abstract class BaseScraper {
     options: { maxRetries?: number; waitUntil?: 'load' | 'domcontentloaded' | 'networkidle' } = {}
   ): Promise<boolean> {
     const { maxRetries = 3, waitUntil = 'domcontentloaded' } = options;
+    const gate = this.gate;
+
+    if (!(await gate.allows(url, this.httpFetch))) {
+      console.warn(`[${this.name}] robots.txt disallows ${url} — skipping`);
+      return false;
+    }
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        await page.goto(url, { waitUntil, timeout: 30000 });
-        return true;
+        const response = await gate.run(() => page.goto(url, { waitUntil, timeout: 30000 }));
+        const status = response?.status();
+        if (status == null || !BACKOFF_STATUSES.has(status)) return true;
+
+        // 429/503 — pause the whole site, then retry
+        const wait = gate.backOff(attempt, response?.headers()['retry-after']);
+        console.warn(`[${this.name}] HTTP ${status} for ${url} (attempt ${attempt}/${maxRetries}) — backing off ${wait}ms`);
       } catch (error) {
         const msg = error instanceof Error ? error.message : String(error);
         console.warn(`[${this.name}] Navigation attempt ${attempt}/${maxRetries} failed for ${url}: ${msg}`);
         if (attempt < maxRetries) {
-          await this.delay(2000 * attempt);
+          await this.delay(backoffDelay(this.politeness, attempt));
         }
       }
     }
     return false;
   }
 
+  /**
+   * Scroll to the bottom until the page stops growing, to trigger
+   * lazy-loaded cards, then scroll back to the top.
+   */
+  protected async scrollToLoadAll(
+    page: Page,
+    maxScrolls: number = 20,
+    delayMs: number = 800
+  ): Promise<void> {
+    let previousHeight = 0;
+    for (let i = 0; i < maxScrolls; i++) {
+      const currentHeight = await page.evaluate(() => document.body.scrollHeight);
+      if (currentHeight === previousHeight) break;
+      previousHeight = currentHeight;
+      await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+      await this.delay(delayMs);
+    }
+    await page.evaluate(() => window.scrollTo(0, 0));
+  }
+
   /**
    * Safe text extraction from a page element.
    */
@@ -155,14 +423,257 @@ export abstract class BaseScraper {
 // Database Persistence — Upsert scraped data
 // ============================================
 
+/** Rows per Supabase request when persisting */
+const PERSIST_BATCH_SIZE = 100;
+
+/** Never overwrite these — a drawn/cancelled raffle stays that way */
+const TERMINAL_STATUSES = ['drawn', 'cancelled'];
+
+/** A row that couldn't be written, and why */
+export interface PersistFailure {
+  externalId: string;
+  error: string;
+}
+
+/** The stored columns persist checks a scraped raffle against */
+interface ExistingRaffle {
+  id: string;
+  external_id: string;
+  status: string | null;
+  end_date: string | null;
+  image_source_url: string | null;
+  image_hash: string | null;
+  total_tickets: number | null;
+  percent_sold: number | null;
+  title: string;
+  ticket_price: number | null;
+  cash_alternative: number | null;
+  prize_value: number | null;
+  max_per_person: number | null;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+/** The raffles row for a scraped raffle: classification, parsed spec, valuation and metrics */
+export function buildRaffleRow(raffle: ScrapedRaffle, siteId: string): Record<string, unknown> {
+  // Classify
+  const prizeType = classifyPrizeType(raffle.title);
+  const isVehicle = prizeType === 'car' || prizeType === 'motorcycle';
+
+  // Make / model / year / variant — scraper values win, the parser fills gaps
+  const spec = isVehicle ? parseCarSpec(raffle.title, raffle.description) : undefined;
+  const carMake = raffle.carMake ?? spec?.make;
+  const carModel = raffle.carModel ?? (raffle.carMake && raffle.carMake !== spec?.make ? undefined : spec?.model);
+  const carSpecConfidence = raffle.carMake && raffle.carModel ? 'high' : carMake ? spec?.confidence ?? 'low' : null;
+
+  const carCategory = isVehicle
+    ? classifyCarCategory(raffle.title, carMake, carModel)
+    : null;
+  const carYear = raffle.carYear ?? spec?.year;
+
+  // Our own value estimate, stored next to the site's claimed prize_value
+  const valuation = isVehicle
+    ? estimateCarValue({
+      make: carMake,
+      model: carModel,
+      year: carYear,
+      mileage: raffle.mileage ?? parseMileage(raffle.title) ?? parseMileage(raffle.description),
+    })
+    : undefined;
+
+  // Parse cash values from title if not provided
+  const titleCash = parseCashFromTitle(raffle.title);
+  const cashAlternative = raffle.cashAlternative ?? titleCash.cashAlternative;
+  const additionalCash = raffle.additionalCash ?? titleCash.additionalCash;
+
+  // Roll up instant wins (only when the scraper looked for them)
+  const instantWins = raffle.instantWins ? summarizeInstantWins(raffle.instantWins) : null;
+
+  // Tiered draws: the headline prize falls back to tier 1, lower tiers roll up
+  const mainTier = raffle.prizes?.find((p) => p.position === 1);
+  const prizeValue = raffle.prizeValue ?? mainTier?.value;
+  const runnerUpValue = raffle.prizes
+    ? sumPrizeTiers(raffle.prizes.filter((p) => p.position > 1))
+    : raffle.runnerUpValue ?? null;
+
+  // Calculate metrics
+  const metrics = calculateRaffleMetrics({
+    prizeValue: effectivePrizeValue(prizeValue, valuation?.value),
+    cashAlternative: cashAlternative ?? null,
+    totalTickets: raffle.totalTickets ?? null,
+    ticketPrice: raffle.ticketPrice ?? null,
+    ticketsSold: raffle.ticketsSold ?? null,
+    endDate: raffle.endDate ?? null,
+    maxPerPerson: raffle.maxPerPerson ?? null,
+    runnerUpValue,
+    instantWinValueRemaining: instantWins?.value ?? raffle.instantWinValueRemaining ?? null,
+  });
+
+  return {
+    site_id: siteId,
+    external_id: raffle.externalId,
+    title: raffle.title,
+    prize_type: prizeType,
+    car_make: carMake || null,
+    car_model: carModel || null,
+    car_year: carYear ?? null,
+    car_variant: raffle.carVariant ?? (carModel === spec?.model ? spec?.variant : undefined) ?? null,
+    car_spec_confidence: carSpecConfidence,
+    car_category: carCategory,
+    prize_value: prizeValue || null,
+    estimated_value: valuation?.value ?? null,
+    valuation_version: valuation?.version ?? null,
+    cash_alternative: cashAlternative,
+    additional_cash: additionalCash,
+    image_url: raffle.imageUrl || null,
+    image_source_url: raffle.imageUrl || null,
+    source_url: raffle.sourceUrl,
+    ticket_price: raffle.ticketPrice || null,
+    total_tickets: raffle.totalTickets || null,
+    tickets_sold: raffle.ticketsSold || null,
+    tickets_remaining: metrics.tickets_remaining,
+    percent_sold: raffle.percentSold ?? metrics.percent_sold,
+    max_per_person: raffle.maxPerPerson || null,
+    odds_ratio: metrics.odds_ratio,
+    best_odds_ratio: metrics.best_odds_ratio,
+    value_per_pound: metrics.value_per_pound,
+    expected_value: metrics.expected_value,
+    end_date: raffle.endDate?.toISOString() || null,
+    draw_type: raffle.drawType || null,
+    status: metrics.status,
+    last_scraped_at: new Date().toISOString(),
+    ...(raffle.fromDetailPage && { detail_scraped_at: new Date().toISOString() }),
+    ...(raffle.priceTiers && { price_tiers: raffle.priceTiers }),
+    ...(raffle.prizes && { runner_up_value: runnerUpValue || null }),
+    ...(instantWins && {
+      instant_wins_remaining: instantWins.remaining,
+      instant_win_value_remaining: instantWins.value,
+    }),
+  };
+}
+
+/**
+ * Drop the columns an update mustn't overwrite. Missing columns are left
+ * alone by the upsert, so this is how the guards take effect.
+ */
+function guardUpdate(row: Record<string, unknown>, existing: ExistingRaffle): Record<string, unknown> {
+  // Never overwrite terminal statuses — a drawn/cancelled raffle stays that way
+  // even if the scraper still sees it listed on the source site.
+  const updateRow: Record<string, unknown> = TERMINAL_STATUSES.includes(existing.status ?? '')
+    ? Object.fromEntries(Object.entries(row).filter(([k]) => k !== 'status'))
+    : { ...row };
+
+  // If the stored end_date is already in the past, don't overwrite it. Sites
+  // keep ended comps listed with a bare "Mon 27 Feb", and older scrapers
+  // advanced that to Feb 2027; parseUkDate now infers the year, but we'd
+  // still rather keep the past date so the cleanup job can handle it.
+  if (existing.end_date && new Date(existing.end_date) < new Date() && updateRow.end_date) {
+    delete updateRow.end_date;
+  }
+
+  // Keep the mirrored copy while the site's image is unchanged; a new
+  // image is mirrored again after the scrape (image-mirror.ts), with a
+  // clean slate of failed attempts
+  if (existing.image_hash && existing.image_source_url === row.image_source_url) {
+    delete updateRow.image_url;
+  } else {
+    updateRow.image_hash = null;
+    updateRow.image_variants = null;
+  }
+  if (existing.image_source_url !== row.image_source_url) {
+    updateRow.image_mirror_attempts = 0;
+    updateRow.image_mirror_failed_at = null;
+  }
+
+  return updateRow;
+}
+
+/** The site's stored raffles for these external IDs, keyed by external ID */
+async function loadExistingRaffles(
+  siteId: string,
+  externalIds: string[],
+  supabase: SupabaseClient
+): Promise<Map<string, ExistingRaffle>> {
+  const existing = new Map<string, ExistingRaffle>();
+  for (const ids of chunk(externalIds, PERSIST_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from('raffles')
+      .select('id, external_id, status, end_date, image_source_url, image_hash, total_tickets, percent_sold, title, ticket_price, cash_alternative, prize_value, max_per_person')
+      .eq('site_id', siteId)
+      .in('external_id', ids);
+
+    // Without the stored rows the guards can't run, so don't write blind
+    if (error) throw new Error(`Failed to load existing raffles: ${error.message}`);
+    for (const row of (data ?? []) as ExistingRaffle[]) existing.set(row.external_id, row);
+  }
+  return existing;
+}
+
+/**
+ * Upsert rows on (site_id, external_id), PERSIST_BATCH_SIZE at a time. The
+ * rows in one request must share the same columns: PostgREST writes every
+ * column named anywhere in the batch, which would null a guarded column
+ * omitted from one row. A failed batch is retried row by row so one bad row
+ * doesn't cost the rest, and reported per row. Returns external ID → raffle id.
+ */
+async function upsertRaffleRows(
+  rows: Record<string, unknown>[],
+  supabase: SupabaseClient
+): Promise<{ ids: Map<string, string>; failures: PersistFailure[] }> {
+  const ids = new Map<string, string>();
+  const failures: PersistFailure[] = [];
+
+  const shapes = new Map<string, Record<string, unknown>[]>();
+  for (const row of rows) {
+    const shape = Object.keys(row).sort().join(',');
+    shapes.set(shape, [...(shapes.get(shape) ?? []), row]);
+  }
+
+  const upsert = (batch: Record<string, unknown>[]) =>
+    supabase
+      .from('raffles')
+      .upsert(batch, { onConflict: 'site_id,external_id' })
+      .select('id, external_id');
+
+  for (const group of Array.from(shapes.values())) {
+    for (const batch of chunk(group, PERSIST_BATCH_SIZE)) {
+      const { data, error } = await upsert(batch);
+      if (!error) {
+        for (const r of data ?? []) ids.set(r.external_id, r.id);
+        continue;
+      }
+
+      for (const row of batch) {
+        const single = await upsert([row]);
+        if (single.error) {
+          failures.push({ externalId: String(row.external_id), error: single.error.message });
+        } else {
+          for (const r of single.data ?? []) ids.set(r.external_id, r.id);
+        }
+      }
+    }
+  }
+
+  return { ids, failures };
+}
+
 /**
  * Persist a full scrape result to the database.
- * Upserts raffles (insert new, update existing) based on site_id + external_id.
+ * Batch-upserts raffles (insert new, update existing) on site_id + external_id.
+ * Records failing the quarantine rules are held back for review instead
+ * (quarantine.ts), leaving the stored values live; releasing one re-runs
+ * this with `quarantine: false`. Changes to existing
+ * raffles' tracked fields are logged to raffle_changes (raffle-changes.ts).
  */
 export async function persistScrapeResult(
   result: ScraperResult,
-  supabase: SupabaseClient
-): Promise<{ itemsNew: number; itemsUpdated: number }> {
+  supabase: SupabaseClient,
+  options: { quarantine?: boolean } = {}
+): Promise<{ itemsNew: number; itemsUpdated: number; itemsQuarantined: number; failures: PersistFailure[] }> {
   // Get site ID
   const { data: site, error: siteError } = await supabase
     .from('sites')
@@ -174,152 +685,210 @@ export async function persistScrapeResult(
     throw new Error(`Site not found for slug "${result.siteSlug}": ${siteError?.message}`);
   }
 
-  let itemsNew = 0;
-  let itemsUpdated = 0;
-
+  // Skip free entries (£0.00 ticket price). One row per external ID — an
+  // upsert batch can't touch the same row twice; the last listing wins.
+  const raffles = new Map<string, ScrapedRaffle>();
   for (const raffle of result.raffles) {
-    // Skip free entries (£0.00 ticket price)
-    if (raffle.ticketPrice != null && raffle.ticketPrice <= 0) {
+    if (raffle.ticketPrice != null && raffle.ticketPrice <= 0) continue;
+    raffles.set(raffle.externalId, raffle);
+  }
+
+  const existing = await loadExistingRaffles(site.id, Array.from(raffles.keys()), supabase);
+
+  const rows = new Map<string, Record<string, unknown>>();
+  const quarantined: QuarantineEntry[] = [];
+
+  for (const raffle of Array.from(raffles.values())) {
+    const stored = existing.get(raffle.externalId) ?? null;
+    const row = buildRaffleRow(raffle, site.id);
+    const guarded = stored ? guardUpdate(row, stored) : row;
+
+    const reasons = options.quarantine === false ? [] : quarantineReasons(raffle, stored, result.siteName);
+    if (reasons.length > 0) {
+      quarantined.push({
+        siteId: site.id,
+        externalId: raffle.externalId,
+        raffleId: stored?.id ?? null,
+        source: 'full',
+        payload: raffle,
+        reasons,
+      });
       continue;
     }
 
-    // Classify
-    const prizeType = classifyPrizeType(raffle.title);
-    const carCategory = prizeType === 'car' || prizeType === 'motorcycle'
-      ? classifyCarCategory(raffle.title, raffle.carMake, raffle.carModel)
-      : null;
-
-    // Parse cash values from title if not provided
-    const titleCash = parseCashFromTitle(raffle.title);
-    const cashAlternative = raffle.cashAlternative ?? titleCash.cashAlternative;
-    const additionalCash = raffle.additionalCash ?? titleCash.additionalCash;
-
-    // Calculate metrics
-    const metrics = calculateRaffleMetrics({
-      prizeValue: raffle.prizeValue ?? null,
-      cashAlternative: cashAlternative ?? null,
-      totalTickets: raffle.totalTickets ?? null,
-      ticketPrice: raffle.ticketPrice ?? null,
-      ticketsSold: raffle.ticketsSold ?? null,
-      endDate: raffle.endDate ?? null,
-    });
-
-    const row = {
-      site_id: site.id,
-      external_id: raffle.externalId,
-      title: raffle.title,
-      prize_type: prizeType,
-      car_make: raffle.carMake || null,
-      car_model: raffle.carModel || null,
-      car_year: raffle.carYear || null,
-      car_variant: raffle.carVariant || null,
-      car_category: carCategory,
-      prize_value: raffle.prizeValue || null,
-      cash_alternative: cashAlternative,
-      additional_cash: additionalCash,
-      image_url: raffle.imageUrl || null,
-      source_url: raffle.sourceUrl,
-      ticket_price: raffle.ticketPrice || null,
-      total_tickets: raffle.totalTickets || null,
-      tickets_sold: raffle.ticketsSold || null,
-      tickets_remaining: metrics.tickets_remaining,
-      percent_sold: raffle.percentSold ?? metrics.percent_sold,
-      odds_ratio: metrics.odds_ratio,
-      value_per_pound: metrics.value_per_pound,
-      expected_value: metrics.expected_value,
-      end_date: raffle.endDate?.toISOString() || null,
-      draw_type: raffle.drawType || null,
-      status: metrics.status,
-      last_scraped_at: new Date().toISOString(),
-    };
-
-    // Check if exists
-    const { data: existing } = await supabase
-      .from('raffles')
-      .select('id, status, end_date')
-      .eq('site_id', site.id)
-      .eq('external_id', raffle.externalId)
-      .single();
-
-    if (existing) {
-      // Never overwrite terminal statuses — a drawn/cancelled raffle stays that way
-      // even if the scraper still sees it listed on the source site.
-      const TERMINAL_STATUSES = ['drawn', 'cancelled'];
-      const updateRow: Record<string, unknown> = TERMINAL_STATUSES.includes(existing.status ?? '')
-        ? Object.fromEntries(Object.entries(row).filter(([k]) => k !== 'status'))
-        : { ...row };
-
-      // If the stored end_date is already in the past, don't overwrite it with a
-      // year-advanced date. parseRelativeDate advances "Ends Mon 27 Feb" → Feb 2027
-      // when the draw already happened Feb 2026; we'd rather keep the correct past
-      // date so the cleanup job can handle it, than pin a fake future date.
-      if (existing.end_date && new Date(existing.end_date) < new Date() && updateRow.end_date) {
-        delete updateRow.end_date;
-      }
+    rows.set(raffle.externalId, guarded);
+  }
+  await quarantineRecords(supabase, quarantined);
+  const itemsQuarantined = quarantined.length;
 
-      const { error } = await supabase
-        .from('raffles')
-        .update(updateRow)
-        .eq('id', existing.id);
+  const { ids, failures } = await upsertRaffleRows(Array.from(rows.values()), supabase);
+  for (const failure of failures) {
+    console.error(`[persist] Failed to upsert raffle ${failure.externalId}: ${failure.error}`);
+  }
 
-      if (error) {
-        console.error(`[persist] Failed to update raffle ${raffle.externalId}: ${error.message}`);
-      } else {
-        itemsUpdated++;
-      }
+  let itemsNew = 0;
+  let itemsUpdated = 0;
+  const instantWins: { raffleId: string; wins: ScrapedInstantWin[] }[] = [];
+  const prizeTiers: { raffleId: string; prizes: ScrapedPrize[] }[] = [];
+  const changes: FieldChange[] = [];
+
+  for (const [externalId, raffleId] of Array.from(ids.entries())) {
+    const stored = existing.get(externalId);
+    if (stored) {
+      itemsUpdated++;
+      changes.push(...diffRaffle(raffleId, stored, rows.get(externalId)!));
     } else {
-      // Insert new
-      const { error } = await supabase
-        .from('raffles')
-        .insert(row);
-
-      if (error) {
-        console.error(`[persist] Failed to insert raffle ${raffle.externalId}: ${error.message}`);
-      } else {
-        itemsNew++;
-      }
+      itemsNew++;
+    }
+
+    const raffle = raffles.get(externalId);
+    if (raffle?.instantWins) instantWins.push({ raffleId, wins: raffle.instantWins });
+    if (raffle?.prizes) prizeTiers.push({ raffleId, prizes: raffle.prizes });
+  }
+
+  await persistInstantWins(instantWins, supabase);
+  await persistPrizeTiers(prizeTiers, supabase);
+  await recordRaffleChanges(changes, supabase);
+
+  return { itemsNew, itemsUpdated, itemsQuarantined, failures };
+}
+
+/**
+ * Upsert raffles' instant-win prize lists on (raffle_id, prize).
+ * Prizes that disappear from the page are left in place — sites drop
+ * fully-claimed rows, and we'd rather keep the history.
+ */
+async function persistInstantWins(
+  raffles: { raffleId: string; wins: ScrapedInstantWin[] }[],
+  supabase: SupabaseClient
+): Promise<void> {
+  const rows = raffles.flatMap(({ raffleId, wins }) => wins.map((win) => ({
+    raffle_id: raffleId,
+    prize: win.prize,
+    value: win.value ?? null,
+    quantity: win.quantity,
+    quantity_won: win.quantityWon,
+  })));
+
+  for (const batch of chunk(rows, PERSIST_BATCH_SIZE)) {
+    const { error } = await supabase
+      .from('instant_wins')
+      .upsert(batch, { onConflict: 'raffle_id,prize' });
+
+    if (error) {
+      console.error(`[persist] Failed to upsert ${batch.length} instant wins: ${error.message}`);
     }
   }
+}
+
+/**
+ * Upsert raffles' prize tiers on (raffle_id, position).
+ */
+async function persistPrizeTiers(
+  raffles: { raffleId: string; prizes: ScrapedPrize[] }[],
+  supabase: SupabaseClient
+): Promise<void> {
+  const rows = raffles.flatMap(({ raffleId, prizes }) => prizes.map((tier) => ({
+    raffle_id: raffleId,
+    position: tier.position,
+    prize: tier.prize,
+    value: tier.value ?? null,
+    cash_alternative: tier.cashAlternative ?? null,
+    quantity: tier.quantity,
+  })));
+
+  for (const batch of chunk(rows, PERSIST_BATCH_SIZE)) {
+    const { error } = await supabase
+      .from('raffle_prizes')
+      .upsert(batch, { onConflict: 'raffle_id,position' });
 
-  return { itemsNew, itemsUpdated };
+    if (error) {
+      console.error(`[persist] Failed to upsert ${batch.length} prize tiers: ${error.message}`);
+    }
+  }
 }
 
 /**
  * Persist quick update results — only updates % sold, price, status.
+ * Updates failing the quarantine rules against the stored row (absurd
+ * price, % sold going backwards) are held back like full-scrape records;
+ * releasing one re-runs this with `quarantine: false`. The rest are applied
+ * in batches by the apply_quick_updates() SQL function, which also keeps
+ * terminal statuses, logs ticket price changes to raffle_changes and
+ * snapshots raffles whose % sold or price changed (every raffle with
+ * `snapshotAll`) into raffle_snapshots. Updates for raffles that
+ * aren't stored are reported as failures.
  */
 export async function persistQuickUpdate(
   result: QuickUpdateResult,
-  supabase: SupabaseClient
-): Promise<number> {
+  supabase: SupabaseClient,
+  options: { snapshotAll?: boolean; quarantine?: boolean } = {}
+): Promise<{ itemsUpdated: number; itemsQuarantined: number; failures: PersistFailure[] }> {
   const { data: site } = await supabase
     .from('sites')
     .select('id')
     .eq('slug', result.siteSlug)
     .single();
 
-  if (!site) return 0;
+  if (!site) return { itemsUpdated: 0, itemsQuarantined: 0, failures: [] };
+
+  const existing = await loadExistingRaffles(site.id, result.updates.map((u) => u.externalId), supabase);
 
-  let updated = 0;
+  // One update per raffle (the last listed wins): apply_quick_updates would
+  // otherwise update and snapshot the same row twice
+  const accepted = new Map<string, QuickUpdate>();
+  const quarantined: QuarantineEntry[] = [];
 
   for (const update of result.updates) {
-    const updateData: Record<string, unknown> = {
-      last_scraped_at: new Date().toISOString(),
-    };
+    const stored = existing.get(update.externalId) ?? null;
+    const reasons = options.quarantine === false ? [] : quarantineReasons(update, stored, result.siteName);
+    if (reasons.length === 0) {
+      accepted.set(update.externalId, update);
+      continue;
+    }
 
-    if (update.percentSold != null) updateData.percent_sold = update.percentSold;
-    if (update.ticketPrice != null) updateData.ticket_price = update.ticketPrice;
-    if (update.status) updateData.status = update.status;
+    quarantined.push({
+      siteId: site.id,
+      externalId: update.externalId,
+      raffleId: stored?.id ?? null,
+      source: 'quick',
+      payload: update,
+      reasons,
+    });
+  }
+  await quarantineRecords(supabase, quarantined);
+  const itemsQuarantined = quarantined.length;
 
-    const { error } = await supabase
-      .from('raffles')
-      .update(updateData)
-      .eq('site_id', site.id)
-      .eq('external_id', update.externalId);
+  let itemsUpdated = 0;
+  const failures: PersistFailure[] = [];
+
+  for (const batch of chunk(Array.from(accepted.values()), PERSIST_BATCH_SIZE)) {
+    const updates = batch.map((update) => ({
+      external_id: update.externalId,
+      percent_sold: update.percentSold ?? null,
+      ticket_price: update.ticketPrice ?? null,
+      status: update.status ?? null,
+    }));
+
+    const { data, error } = await supabase.rpc('apply_quick_updates', {
+      p_site_id: site.id,
+      p_updates: updates,
+      p_snapshot_all: options.snapshotAll ?? false,
+    });
 
-    if (!error) updated++;
+    if (error) {
+      failures.push(...batch.map((u) => ({ externalId: u.externalId, error: error.message })));
+      continue;
+    }
+
+    const applied = new Set((data ?? []) as string[]);
+    itemsUpdated += applied.size;
+    for (const update of batch) {
+      if (!applied.has(update.externalId)) failures.push({ externalId: update.externalId, error: 'Raffle not found' });
+    }
   }
 
-  return updated;
+  return { itemsUpdated, itemsQuarantined, failures };
 }
 
 /**
@@ -334,6 +903,7 @@ export async function logScrapeRun(
     itemsUpdated: number;
     errorMessage?: string;
     durationMs: number;
+    layoutFingerprint?: LayoutFingerprint | null;
   },
   supabase: SupabaseClient
 ): Promise<void> {
@@ -355,5 +925,6 @@ export async function logScrapeRun(
     items_updated: result.itemsUpdated,
     error_message: result.errorMessage || null,
     duration_ms: result.durationMs,
+    layout_fingerprint: result.layoutFingerprint ?? null,
   });
 }
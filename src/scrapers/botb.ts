@@ -29,6 +29,8 @@ import {
   ScraperResult,
   QuickUpdateResult,
 } from './base';
+import { DEFAULT_POLITENESS } from './politeness';
+import { parseUkDate } from '../lib/uk-date';
 
 // ============================================
 // Types
@@ -94,65 +96,10 @@ function parseCashAlternative(text: string): number | undefined {
 
 /**
  * Parse end date text like "ENDS SUNDAY", "ENDS TONIGHT", "ENDS TOMORROW"
- * into an approximate Date.
+ * into an approximate Date. BOTB weeks close at 23:59.
  */
 function parseEndDate(text: string): Date | undefined {
-  if (!text) return undefined;
-  const lower = text.toLowerCase().trim();
-
-  const now = new Date();
-  const today = now.getDay(); // 0=Sun, 1=Mon...
-
-  if (lower.includes('tonight') || lower.includes('today')) {
-    // Ends today at ~11:59 PM
-    const d = new Date(now);
-    d.setHours(23, 59, 0, 0);
-    return d;
-  }
-
-  if (lower.includes('tomorrow')) {
-    const d = new Date(now);
-    d.setDate(d.getDate() + 1);
-    d.setHours(23, 59, 0, 0);
-    return d;
-  }
-
-  // Day name: "ENDS SUNDAY", "ENDS FRIDAY", etc.
-  const dayMap: Record<string, number> = {
-    sunday: 0, monday: 1, tuesday: 2, wednesday: 3,
-    thursday: 4, friday: 5, saturday: 6,
-  };
-
-  for (const [dayName, dayNum] of Object.entries(dayMap)) {
-    if (lower.includes(dayName)) {
-      let daysUntil = dayNum - today;
-      if (daysUntil <= 0) daysUntil += 7;
-      const d = new Date(now);
-      d.setDate(d.getDate() + daysUntil);
-      d.setHours(23, 59, 0, 0);
-      return d;
-    }
-  }
-
-  // Try to match a date format like "FEB 14", "14 FEB"
-  const monthMap: Record<string, number> = {
-    jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
-    jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
-  };
-  const dateMatch = text.match(/(\d{1,2})\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)/i)
-    || text.match(/(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)\s+(\d{1,2})/i);
-  if (dateMatch) {
-    const isMonthFirst = isNaN(parseInt(dateMatch[1]));
-    const month = isMonthFirst ? monthMap[dateMatch[1].toLowerCase().substring(0, 3)] : monthMap[dateMatch[2].toLowerCase().substring(0, 3)];
-    const day = isMonthFirst ? parseInt(dateMatch[2]) : parseInt(dateMatch[1]);
-    if (month !== undefined && day) {
-      const d = new Date(now.getFullYear(), month, day, 23, 59, 0);
-      if (d < now) d.setFullYear(d.getFullYear() + 1);
-      return d;
-    }
-  }
-
-  return undefined;
+  return parseUkDate(text, { defaultTime: { hour: 23, minute: 59 } })?.date;
 }
 
 // ============================================
@@ -163,6 +110,11 @@ export class BotbScraper extends BaseScraper {
   name = 'BOTB';
   siteSlug = 'botb';
   baseUrl = 'https://www.botb.com';
+  politeness = { ...DEFAULT_POLITENESS, requestsPerMinute: 20 };
+  protected layoutProbes = {
+    competitionLinks: 'a[href*="/competitions"], a[href*="/dream-car"], a[href*="/lifestyle"], a[href*="/instant-win"]',
+    cardImages: 'img[src*="cdn.botb.com"]',
+  };
 
   // ==========================================
   // Full Scrape
@@ -211,6 +163,7 @@ export class BotbScraper extends BaseScraper {
           imageUrl: card.imageUrl || undefined,
           ticketPrice,
           cashAlternative: cashAlt,
+          description: card.description || undefined,
           endDate,
           percentSold: card.percentSold ?? undefined,
           // BOTB has unlimited entries — no total_tickets, no odds
@@ -447,6 +400,7 @@ export class BotbScraper extends BaseScraper {
         uniqueCards.push(card);
       }
 
+      await this.recordListingLayout(page, uniqueCards.length);
       return uniqueCards;
     } finally {
       await page.close();
@@ -15,6 +15,8 @@ import {
   ScraperResult,
   QuickUpdateResult,
 } from './base';
+import { DEFAULT_POLITENESS } from './politeness';
+import { parseUkDate } from '../lib/uk-date';
 
 // ============================================
 // Exported parsing utilities
@@ -32,23 +34,11 @@ export function deriveCompetitionUrl(slugPrefix: string, baseUrl: string): strin
 }
 
 /**
- * Parses "28/6/2026 - 2:00PM" → Date.
+ * Parses "28/6/2026 - 2:00PM" (Europe/London) → Date.
  * Returns undefined for any format it doesn't recognise.
  */
 export function parseAutoDrawDate(text: string): Date | undefined {
-  const m = text.match(
-    /(\d{1,2})\/(\d{1,2})\/(\d{4})\s*[-–]\s*(\d{1,2}):(\d{2})\s*(AM|PM)/i
-  );
-  if (!m) return undefined;
-  const day = parseInt(m[1], 10);
-  const month = parseInt(m[2], 10) - 1; // 0-indexed
-  const year = parseInt(m[3], 10);
-  let hour = parseInt(m[4], 10);
-  const minute = parseInt(m[5], 10);
-  const ampm = m[6].toUpperCase();
-  if (ampm === 'PM' && hour < 12) hour += 12;
-  if (ampm === 'AM' && hour === 12) hour = 0;
-  return new Date(year, month, day, hour, minute, 0, 0);
+  return parseUkDate(text)?.date;
 }
 
 // ============================================
@@ -72,7 +62,8 @@ interface ApiCompetition {
   visability: {
     percentage?: number;
   };
-  // global_maximum_tickets_quantity: number; // per-user cap — NOT the real competition total; use detail API visability.totalTickets
+  /** Per-user cap — NOT the real competition total; use detail API visability.totalTickets */
+  global_maximum_tickets_quantity?: number;
 }
 
 interface ApiCompetitionDetail {
@@ -90,6 +81,8 @@ export class ClickCompetitionsScraper extends BaseScraper {
   name = 'Click Competitions';
   siteSlug = 'click-competitions';
   baseUrl = 'https://www.clickcompetitions.co.uk';
+  politeness = { ...DEFAULT_POLITENESS, requestsPerMinute: 40 };
+  protected layoutProbes = {};   // JSON API listing — fingerprinted by field in scrape()
 
   private readonly listingApiUrl = 'https://www.clickcompetitions.co.uk/be/content/api/competitions/active';
   private cookiesDismissed = false;
@@ -106,6 +99,14 @@ export class ClickCompetitionsScraper extends BaseScraper {
     try {
       const competitions = await this.fetchActiveCompetitions();
       console.log(`[${this.name}] API returned ${competitions.length} active competitions`);
+      this.recordLayout({
+        cards: competitions.length,
+        probes: {
+          slugPrefix: competitions.filter((c) => c.slugPrefix).length,
+          ticketAmount: competitions.filter((c) => c.ticketAmount != null).length,
+          percentage: competitions.filter((c) => c.visability?.percentage != null).length,
+        },
+      });
 
       for (let i = 0; i < competitions.length; i++) {
         const comp = competitions[i];
@@ -120,8 +121,6 @@ export class ClickCompetitionsScraper extends BaseScraper {
           console.warn(`[${this.name}] Error on ${comp.id}: ${msg}`);
           errors.push(`${comp.id}: ${msg}`);
         }
-
-        await this.delay(1000);
       }
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -176,7 +175,7 @@ export class ClickCompetitionsScraper extends BaseScraper {
   // ==========================================
 
   private async fetchActiveCompetitions(): Promise<ApiCompetition[]> {
-    const response = await fetch(this.listingApiUrl, {
+    const response = await this.httpFetch(this.listingApiUrl, {
       headers: {
         'Accept': 'application/json',
         'Referer': this.baseUrl + '/',
@@ -194,7 +193,7 @@ export class ClickCompetitionsScraper extends BaseScraper {
 
   private async fetchCompetitionDetail(id: string): Promise<ApiCompetitionDetail | null> {
     try {
-      const response = await fetch(
+      const response = await this.httpFetch(
         `${this.baseUrl}/be/content/api/competitions/${id}`,
         {
           headers: {
@@ -309,6 +308,7 @@ export class ClickCompetitionsScraper extends BaseScraper {
         totalTickets,
         ticketsSold,
         percentSold: comp.visability.percentage ?? undefined,
+        maxPerPerson: comp.global_maximum_tickets_quantity || undefined,
         cashAlternative,
         prizeValue,
         endDate,
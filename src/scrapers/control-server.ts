@@ -0,0 +1,122 @@
+/**
+ * Control server — the scraper service's local HTTP endpoint
+ *
+ *   GET  /health              JSON: browser connected, running jobs, last run
+ *                             per site and mode (503 when the browser is down)
+ *   GET  /metrics             Prometheus text format (service-status.ts)
+ *   POST /run?site=&mode=     queue an ad hoc job (mode full | quick | ending,
+ *                             default full) ahead of scheduled work; needs
+ *                             `Authorization: Bearer <SERVICE_CONTROL_TOKEN>`
+ *                             and is disabled when no token is configured
+ *
+ * Binds to localhost by default (SERVICE_HTTP_HOST / SERVICE_HTTP_PORT), so
+ * it's reached over an SSH tunnel or by a local Prometheus agent.
+ */
+import http from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import type { ScrapeMode } from './job-queue';
+import type { ServiceStats } from './service-status';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ControlServerOptions {
+  stats: ServiceStats;
+  isBrowserConnected: () => boolean;
+  /** Sites POST /run accepts */
+  siteSlugs: string[];
+  /** Bearer token for POST /run — the endpoint is disabled without one */
+  token?: string;
+  /** Queue a job; returns its id, or null if it couldn't be queued */
+  enqueue: (siteSlug: string, mode: ScrapeMode) => Promise<string | null>;
+}
+
+export const DEFAULT_CONTROL_PORT = 9464;
+
+const MODES: ScrapeMode[] = ['full', 'quick', 'ending'];
+
+// ============================================
+// Auth
+// ============================================
+
+/** Constant-time check of an Authorization header against the token */
+export function isAuthorized(header: string | undefined, token: string | undefined): boolean {
+  if (!token || !header?.startsWith('Bearer ')) return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(header.slice('Bearer '.length)), digest(token));
+}
+
+// ============================================
+// Server
+// ============================================
+
+function send(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+export function createControlServer(options: ControlServerOptions): http.Server {
+  const { stats, isBrowserConnected, siteSlugs, token, enqueue } = options;
+
+  return http.createServer(async (req, res) => {
+    let url: URL;
+    try {
+      url = new URL(req.url ?? '/', 'http://localhost');
+    } catch {
+      send(res, 400, { error: 'Invalid request URL' });
+      return;
+    }
+
+    try {
+      if (req.method === 'GET' && url.pathname === '/health') {
+        const health = stats.health(isBrowserConnected());
+        send(res, health.status === 'ok' ? 200 : 503, health);
+        return;
+      }
+
+      if (req.method === 'GET' && url.pathname === '/metrics') {
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+        res.end(stats.metrics(isBrowserConnected()));
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === '/run') {
+        if (!token) {
+          send(res, 403, { error: 'POST /run is disabled — set SERVICE_CONTROL_TOKEN' });
+          return;
+        }
+        if (!isAuthorized(req.headers.authorization, token)) {
+          send(res, 401, { error: 'Unauthorized' });
+          return;
+        }
+
+        const site = url.searchParams.get('site') ?? '';
+        const mode = (url.searchParams.get('mode') ?? 'full') as ScrapeMode;
+        if (!siteSlugs.includes(site)) {
+          send(res, 400, { error: `Unknown site "${site}"` });
+          return;
+        }
+        if (!MODES.includes(mode)) {
+          send(res, 400, { error: `Unknown mode "${mode}" — use ${MODES.join(', ')}` });
+          return;
+        }
+
+        const jobId = await enqueue(site, mode);
+        if (!jobId) {
+          send(res, 500, { error: 'Could not queue the job' });
+          return;
+        }
+        console.log(`[Control] Queued ${mode} job for ${site} (${jobId})`);
+        send(res, 202, { jobId, site, mode });
+        return;
+      }
+
+      send(res, 404, { error: 'Not found' });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.error(`[Control] ${req.method} ${url.pathname} failed: ${msg}`);
+      send(res, 500, { error: msg });
+    }
+  });
+}
@@ -0,0 +1,244 @@
+/**
+ * Draw results — who won, with which ticket, and what they took
+ *
+ * Once cleanupExpiredRaffles flips a raffle to `drawn` nothing else looks at
+ * it. After each full scrape, run-all checks for the site's recently ended
+ * raffles without a result and, if the scraper has a `resultsPage`, scrapes
+ * the site's winners page: winning ticket, winner's first name and location,
+ * draw video and whether the cash alternative was taken. Results are matched
+ * to raffles by link or title and stored in `draw_results`, which the site
+ * review pages show.
+ */
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { extractSlugFromUrl } from '../lib/utils';
+import { textLines } from './html';
+
+// ============================================
+// Types
+// ============================================
+
+/** Where a site lists its winners */
+export interface ResultsPageConfig {
+  url: string;
+  /** One element per winner / drawn competition */
+  cardSelector: string;
+  /** Prize title within the card (default: first heading) */
+  titleSelector?: string;
+  /** Link to the competition within the card (default: first link) */
+  linkSelector?: string;
+}
+
+export type ClaimType = 'prize' | 'cash';
+
+export interface ScrapedDrawResult {
+  title: string;
+  link?: string;             // absolute URL from the card
+  winningTicket?: string;    // text — leading zeros matter
+  winnerName?: string;       // first name only
+  winnerLocation?: string;
+  drawVideoUrl?: string;
+  claimType?: ClaimType;
+}
+
+/** A drawn raffle still waiting for its result */
+export interface AwaitingResult {
+  id: string;
+  externalId: string;
+  title: string;
+  sourceUrl: string;
+  endDate: string;
+}
+
+/** Look for results this long after a raffle's end date */
+const RESULTS_WINDOW_DAYS = 30;
+
+// ============================================
+// Parsing
+// ============================================
+
+const TICKET_RE = /\bticket(?:\s+(?:number|no\.?))?\s*[:#]?\s*#?(\d{1,7})\b/i;
+
+/** "Winner: Sarah T from Leeds", "Congratulations to James, Milton Keynes" */
+const WINNER_RE = new RegExp(
+  String.raw`(?:\b[Ww]inner(?:\s+(?:is|was))?|\b[Ww]on by|\b[Cc]ongratulations(?:\s+to)?)\s*[:\-–]?\s*` +
+  String.raw`([A-Z][a-z'-]+)(?:\s+[A-Z][a-z'-]*\.?)?` +
+  String.raw`(?:\s*,\s*|\s+(?:from|of|in)\s+)?` +
+  String.raw`((?!Ticket|Winning|Drawn?\b|Prize|Cash)[A-Z][A-Za-z'-]+(?:\s+(?!Ticket|Winning|Drawn?\b|Prize|Cash)[A-Z][A-Za-z'-]+)*)?`
+);
+
+const CASH_RE = /\b(?:took|chose|opted for|went for|accepted)\s+(?:the\s+)?(?:£[\d,.]+k?\s+)?cash\b|\bcash alternative\s+(?:was\s+)?(?:taken|chosen|claimed)\b/i;
+
+const PRIZE_RE = /\b(?:took|chose|opted for|went for)\s+the\s+(?:car|bike|van|prize|vehicle)\b|\b(?:car|bike|van|prize|vehicle)\s+(?:was\s+)?(?:delivered|collected|handed over)\b/i;
+
+const VIDEO_RE = /(?:youtube\.com\/(?:watch|live|embed)|youtu\.be\/|facebook\.com\/.+\/videos\/|fb\.watch\/|vimeo\.com\/)/i;
+
+/** Winner details from a results card's text lines */
+export function parseWinnerText(lines: string[]): Omit<ScrapedDrawResult, 'title' | 'link' | 'drawVideoUrl'> {
+  const parsed: Omit<ScrapedDrawResult, 'title' | 'link' | 'drawVideoUrl'> = {};
+
+  for (const line of lines) {
+    const ticket = line.match(TICKET_RE);
+    if (ticket && !parsed.winningTicket) parsed.winningTicket = ticket[1];
+
+    const winner = line.match(WINNER_RE);
+    if (winner && !parsed.winnerName) {
+      parsed.winnerName = winner[1];
+      if (winner[2]) parsed.winnerLocation = winner[2];
+    }
+
+    if (!parsed.claimType) {
+      if (CASH_RE.test(line)) parsed.claimType = 'cash';
+      else if (PRIZE_RE.test(line)) parsed.claimType = 'prize';
+    }
+  }
+
+  return parsed;
+}
+
+/** First draw-video link (YouTube, Facebook, Vimeo) among these URLs */
+export function findVideoUrl(urls: string[]): string | undefined {
+  return urls.find((u) => VIDEO_RE.test(u));
+}
+
+/** One result per card on a winners page */
+export function parseResultsPage($: CheerioAPI, config: ResultsPageConfig, baseUrl: string): ScrapedDrawResult[] {
+  const results: ScrapedDrawResult[] = [];
+
+  $(config.cardSelector).each((_, el) => {
+    const card = $(el);
+    const title = (config.titleSelector ? card.find(config.titleSelector) : card.find('h1, h2, h3, h4, h5'))
+      .first().text().replace(/\s+/g, ' ').trim();
+    if (!title) return;
+
+    const href = (config.linkSelector ? card.find(config.linkSelector) : card.find('a[href]')).first().attr('href');
+    const urls = [
+      ...card.find('a[href]').map((__, a) => $(a).attr('href') ?? '').get(),
+      ...card.find('iframe[src]').map((__, f) => $(f).attr('src') ?? '').get(),
+    ];
+
+    const lines = textLines(cheerio.load($.html(el)));
+
+    results.push({
+      title,
+      ...(href && { link: new URL(href, baseUrl).toString() }),
+      ...parseWinnerText(lines),
+      drawVideoUrl: findVideoUrl(urls),
+    });
+  });
+
+  return results;
+}
+
+// ============================================
+// Matching
+// ============================================
+
+const normaliseUrl = (url: string) => url.split(/[?#]/)[0].replace(/\/+$/, '').toLowerCase();
+
+const normaliseTitle = (title: string) =>
+  title.toLowerCase().replace(/\b(?:win|won|winner|the|a|an|competition)\b/g, '').replace(/[^a-z0-9]/g, '');
+
+/**
+ * The awaiting raffle a result belongs to: by link (competition URL or
+ * slug) first, then by title. `awaiting` is newest-ended first, so a
+ * relisted prize matches its latest run.
+ */
+export function matchDrawResult(result: ScrapedDrawResult, awaiting: AwaitingResult[]): AwaitingResult | undefined {
+  if (result.link) {
+    const link = normaliseUrl(result.link);
+    const slug = extractSlugFromUrl(link);
+    const byLink = awaiting.find((r) => normaliseUrl(r.sourceUrl) === link || r.externalId.toLowerCase() === slug);
+    if (byLink) return byLink;
+  }
+
+  const title = normaliseTitle(result.title);
+  if (!title) return undefined;
+  return awaiting.find((r) => normaliseTitle(r.title) === title);
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+/** The site's raffles that ended in the last RESULTS_WINDOW_DAYS with no result yet, newest first */
+export async function loadAwaitingResults(
+  siteSlug: string,
+  supabase: SupabaseClient
+): Promise<AwaitingResult[]> {
+  const { data: site } = await supabase
+    .from('sites')
+    .select('id')
+    .eq('slug', siteSlug)
+    .single();
+  if (!site) return [];
+
+  const now = new Date();
+  const since = new Date(now.getTime() - RESULTS_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from('raffles')
+    .select('id, external_id, title, source_url, end_date, draw_results(id)')
+    .eq('site_id', site.id)
+    .neq('status', 'cancelled')
+    .lt('end_date', now.toISOString())
+    .gte('end_date', since.toISOString())
+    .order('end_date', { ascending: false });
+
+  if (error || !data) {
+    console.error(`[results] Failed to load drawn raffles for ${siteSlug}: ${error?.message}`);
+    return [];
+  }
+
+  return data
+    .filter((r) => !r.draw_results || (Array.isArray(r.draw_results) && r.draw_results.length === 0))
+    .map((r) => ({
+      id: r.id,
+      externalId: r.external_id,
+      title: r.title,
+      sourceUrl: r.source_url,
+      endDate: r.end_date,
+    }));
+}
+
+/**
+ * Match scraped results to awaiting raffles and store them. Returns the
+ * number of raffles that got a result.
+ */
+export async function persistDrawResults(
+  results: ScrapedDrawResult[],
+  awaiting: AwaitingResult[],
+  resultsUrl: string,
+  supabase: SupabaseClient
+): Promise<number> {
+  const rows = new Map<string, Record<string, unknown>>();
+  for (const result of results) {
+    const raffle = matchDrawResult(result, awaiting);
+    if (!raffle || rows.has(raffle.id)) continue;
+    // A card with nothing but a title isn't a result yet
+    if (!result.winningTicket && !result.winnerName) continue;
+
+    rows.set(raffle.id, {
+      raffle_id: raffle.id,
+      winning_ticket: result.winningTicket ?? null,
+      winner_name: result.winnerName ?? null,
+      winner_location: result.winnerLocation ?? null,
+      draw_video_url: result.drawVideoUrl ?? null,
+      claim_type: result.claimType ?? null,
+      result_url: result.link ?? resultsUrl,
+    });
+  }
+
+  if (rows.size === 0) return 0;
+
+  const { error } = await supabase
+    .from('draw_results')
+    .upsert(Array.from(rows.values()), { onConflict: 'raffle_id' });
+
+  if (error) {
+    console.error(`[results] Failed to store ${rows.size} draw results: ${error.message}`);
+    return 0;
+  }
+  return rows.size;
+}
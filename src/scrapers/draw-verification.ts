@@ -0,0 +1,219 @@
+/**
+ * Post-close verification — what actually happened when a raffle closed
+ *
+ * cleanupExpiredRaffles marks everything past its end_date as `drawn`,
+ * which is wrong for draws that were extended, rolled over or cancelled for
+ * low sales — and once a raffle is terminal, persists no longer touch its
+ * status or end date. After each full scrape, run-all revisits the source
+ * page of the site's recently closed raffles and records what happened:
+ *   drawn        → status drawn
+ *   extended     → new end_date, back to active / ending_soon
+ *   rolled_over  → like extended when the page gives the new date,
+ *                  otherwise closed without a winner (status cancelled)
+ *   cancelled    → status cancelled
+ * The classification is kept in `close_outcome`; raffles whose page doesn't
+ * say stay `drawn` and are retried on later runs. Every visit stamps
+ * `close_checked_at`, and the least recently checked raffles go first, so
+ * pages that never say don't crowd out newer closures.
+ */
+import type { BrowserContext } from 'playwright';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CloseOutcome } from '../lib/types';
+import type { BaseScraper } from './base';
+import { parseUkDate } from '../lib/uk-date';
+import { recordRaffleChanges } from './raffle-changes';
+
+// ============================================
+// Types
+// ============================================
+
+export interface CloseClassification {
+  outcome: CloseOutcome;
+  newEndDate?: Date;
+}
+
+/** A raffle past its end date that hasn't been verified since it closed */
+export interface ClosedRaffle {
+  id: string;
+  sourceUrl: string;
+  endDate: string;
+  status: string;
+}
+
+/** Extended raffles this close to their new end date go back as ending_soon */
+const ENDING_SOON_HOURS = 48;
+
+/** Closed raffles are revisited for this long */
+const VERIFY_WINDOW_DAYS = 7;
+
+/** Cap per site per run — each one is a page visit */
+const MAX_VERIFICATIONS_PER_RUN = 20;
+
+/** New end dates further out than this are a misread, not an extension */
+const MAX_EXTENSION_DAYS = 90;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ============================================
+// Classification
+// ============================================
+
+const CANCELLED_RE = /\b(?:competition|draw|raffle)\s+(?:has\s+been\s+|was\s+|is\s+)?cancell?ed\b|\bcancell?ed\s+due\s+to\b|\brefunds?\s+(?:will\s+be|have\s+been|has\s+been)\s+(?:issued|processed|made)\b/i;
+
+const ROLLED_OVER_RE = /\brolled?[\s-]?over\b|\bcarried\s+(?:over|forward)\s+to\b|\bmoved\s+to\s+(?:a|the)\s+next\s+draw\b/i;
+
+const EXTENDED_RE = /\b(?:draw|competition|deadline|end\s+date|closing\s+date)\s+(?:has\s+been\s+|was\s+|is\s+)?(?:extended|postponed|delayed|rescheduled|moved)\b|\bextended\s+(?:until|to|by)\b/i;
+
+/** Named-winner evidence — beats cancellation and rollover wording */
+const WINNER_RE = /\b(?:winner\s+(?:is|was)|winning\s+ticket|won\s+by|congratulations\s+to)\b/i;
+
+/** Policy wording ("If minimum sales aren't met, refunds will be issued") rather than news */
+const CONDITIONAL_RE = /\b(?:if|in\s+the\s+(?:unlikely\s+)?event|should|unless)\b/i;
+
+const DRAWN_RE = /\b(?:winner|winning\s+ticket|won\s+by)\b|\b(?:has\s+been|was)\s+drawn\b|\bdraw\s+(?:has\s+)?(?:taken\s+place|complete[d]?)\b|\b(?:competition|raffle)\s+(?:has\s+)?(?:ended|closed|finished)\b|\bsold\s+out\b/i;
+
+/** Lines that can carry the (new) draw date */
+const DATE_LINE_RE = /\b(?:draw|ends?|closes?|closing|deadline|extended|rescheduled|postponed|new\s+date)\b/i;
+
+/**
+ * A new end date on the page — later than the old one, in the future and
+ * within MAX_EXTENSION_DAYS. Ended pages still show their old draw date
+ * and countdowns at zero, hence the bounds.
+ */
+export function findNewEndDate(lines: string[], endDate: Date, now: Date = new Date()): Date | undefined {
+  for (const line of lines) {
+    if (!DATE_LINE_RE.test(line)) continue;
+    const parsed = parseUkDate(line, { now })?.date;
+    if (!parsed) continue;
+    if (parsed.getTime() <= endDate.getTime() + HOUR_MS) continue;
+    if (parsed.getTime() <= now.getTime() + HOUR_MS) continue;
+    if (parsed.getTime() > now.getTime() + MAX_EXTENSION_DAYS * 24 * HOUR_MS) continue;
+    return parsed;
+  }
+  return undefined;
+}
+
+/**
+ * What happened to a closed raffle, from its page text. Null when the page
+ * doesn't say — no wording we recognise and no later draw date.
+ * Conditional lines are policy, not news, so they're ignored, and a named
+ * winner outranks cancellation and rollover wording.
+ */
+export function classifyClosedPage(lines: string[], endDate: Date, now: Date = new Date()): CloseClassification | null {
+  const text = lines.filter((line) => !CONDITIONAL_RE.test(line)).join('\n');
+  const newEndDate = findNewEndDate(lines, endDate, now);
+  const winner = WINNER_RE.test(text);
+
+  if (!winner && CANCELLED_RE.test(text)) return { outcome: 'cancelled' };
+  if (!winner && ROLLED_OVER_RE.test(text)) return newEndDate ? { outcome: 'rolled_over', newEndDate } : { outcome: 'rolled_over' };
+  if (newEndDate && (EXTENDED_RE.test(text) || !DRAWN_RE.test(text))) return { outcome: 'extended', newEndDate };
+  if (DRAWN_RE.test(text)) return { outcome: 'drawn' };
+  return null;
+}
+
+/** The raffles columns to write for a classification */
+export function closeOutcomeUpdate(
+  classification: CloseClassification,
+  now: Date = new Date()
+): Record<string, unknown> {
+  const { outcome, newEndDate } = classification;
+  const verified = { close_outcome: outcome, close_verified_at: now.toISOString(), close_checked_at: now.toISOString() };
+
+  if (newEndDate) {
+    const endingSoon = newEndDate.getTime() - now.getTime() <= ENDING_SOON_HOURS * HOUR_MS;
+    return { ...verified, end_date: newEndDate.toISOString(), status: endingSoon ? 'ending_soon' : 'active' };
+  }
+  return { ...verified, status: outcome === 'drawn' ? 'drawn' : 'cancelled' };
+}
+
+// ============================================
+// Verification pass
+// ============================================
+
+/**
+ * The site's raffles that closed in the last VERIFY_WINDOW_DAYS and haven't
+ * been verified since — never-checked first, then least recently checked
+ */
+export async function loadClosedRaffles(
+  siteSlug: string,
+  supabase: SupabaseClient
+): Promise<ClosedRaffle[]> {
+  const { data: site } = await supabase
+    .from('sites')
+    .select('id')
+    .eq('slug', siteSlug)
+    .single();
+  if (!site) return [];
+
+  const now = new Date();
+  const since = new Date(now.getTime() - VERIFY_WINDOW_DAYS * 24 * HOUR_MS);
+
+  const { data, error } = await supabase
+    .from('raffles')
+    .select('id, source_url, end_date, status, close_verified_at')
+    .eq('site_id', site.id)
+    .neq('status', 'cancelled')
+    .lt('end_date', now.toISOString())
+    .gte('end_date', since.toISOString())
+    .order('close_checked_at', { ascending: true, nullsFirst: true })
+    .order('end_date', { ascending: false });
+
+  if (error || !data) {
+    console.error(`[verify] Failed to load closed raffles for ${siteSlug}: ${error?.message}`);
+    return [];
+  }
+
+  // An extended raffle is verified again once its new end date passes
+  return data
+    .filter((r) => !r.close_verified_at || new Date(r.close_verified_at) < new Date(r.end_date))
+    .map((r) => ({ id: r.id, sourceUrl: r.source_url, endDate: r.end_date, status: r.status }));
+}
+
+/**
+ * Revisit the site's recently closed raffles and record what happened.
+ * Returns counts per outcome; unclassified pages are left for the next run.
+ */
+export async function verifyClosedRaffles(
+  scraper: BaseScraper,
+  context: BrowserContext,
+  supabase: SupabaseClient
+): Promise<Record<CloseOutcome | 'unknown', number>> {
+  const counts: Record<CloseOutcome | 'unknown', number> = { drawn: 0, extended: 0, rolled_over: 0, cancelled: 0, unknown: 0 };
+  const closed = (await loadClosedRaffles(scraper.siteSlug, supabase)).slice(0, MAX_VERIFICATIONS_PER_RUN);
+
+  for (const raffle of closed) {
+    const lines = await scraper.fetchClosedPage(context, raffle.sourceUrl);
+    const classification = lines ? classifyClosedPage(lines, new Date(raffle.endDate)) : null;
+    if (!classification) {
+      counts.unknown++;
+      const { error } = await supabase
+        .from('raffles')
+        .update({ close_checked_at: new Date().toISOString() })
+        .eq('id', raffle.id);
+      if (error) console.error(`[verify] Failed to record check of raffle ${raffle.id}: ${error.message}`);
+      continue;
+    }
+
+    const update = closeOutcomeUpdate(classification);
+    const { error } = await supabase
+      .from('raffles')
+      .update(update)
+      .eq('id', raffle.id);
+
+    if (error) {
+      console.error(`[verify] Failed to update raffle ${raffle.id}: ${error.message}`);
+      counts.unknown++;
+      continue;
+    }
+
+    counts[classification.outcome]++;
+    if (update.end_date) {
+      await recordRaffleChanges(
+        [{ raffle_id: raffle.id, field: 'end_date', old_value: raffle.endDate, new_value: update.end_date as string }],
+        supabase
+      );
+    }
+  }
+
+  return counts;
+}
@@ -1,6 +1,10 @@
-import { BrowserContext, Page } from 'playwright';
+import { BrowserContext } from 'playwright';
+import type { CheerioAPI } from 'cheerio';
 import { BaseScraper, ScrapedRaffle, ScraperResult, QuickUpdateResult } from './base';
+import { DEFAULT_POLITENESS } from './politeness';
 import { parsePriceToPence, extractSlugFromUrl } from '../lib/utils';
+import { parseUkDate } from '../lib/uk-date';
+import { textLines } from './html';
 
 // ============================================
 // Dream Car Giveaways Scraper
@@ -18,6 +22,11 @@ export class DreamCarGiveawaysScraper extends BaseScraper {
   name = 'Dream Car Giveaways';
   siteSlug = 'dream-car-giveaways';
   baseUrl = 'https://dreamcargiveaways.co.uk';
+  politeness = { ...DEFAULT_POLITENESS, requestsPerMinute: 30 };
+  protected layoutProbes = {
+    competitionLinks: 'a[href^="/competitions/"]',
+    cardImages: 'a[href^="/competitions/"] img',
+  };
 
   /** Keywords that indicate a high-value prize worth visiting the detail page for */
   private static readonly HIGH_VALUE_KEYWORDS = [
@@ -56,22 +65,29 @@ export class DreamCarGiveawaysScraper extends BaseScraper {
     const errors: string[] = [];
     const raffles: ScrapedRaffle[] = [];
 
-    const page = await context.newPage();
-
     try {
       // Step 1: Get all competition links from listing page
       console.log(`[${this.name}] Fetching listing page...`);
-      const cards = await this.scrapeListingPage(page);
+      const cards = await this.scrapeListingPage(context);
       console.log(`[${this.name}] Found ${cards.length} competition cards`);
 
-      // Step 2: Split into high-value (need detail page) vs others (listing only)
-      const detailCards = cards.filter((c) => this.needsDetailPage(c.title));
+      // Step 2: Split into high-value (need detail page) vs others (listing only).
+      // High-value items whose stored detail data is complete and fresh skip the visit.
+      const highValue = cards.filter((c) => this.needsDetailPage(c.title));
+      const detailCards = highValue.filter((c) => this.needsDetailVisit(extractSlugFromUrl(c.href)));
+      const freshCards = highValue.filter((c) => !detailCards.includes(c));
       const listingOnlyCards = cards.filter((c) => !this.needsDetailPage(c.title));
 
       console.log(
-        `[${this.name}] ${detailCards.length} high-value (detail page), ${listingOnlyCards.length} others (listing only)`
+        `[${this.name}] ${detailCards.length} high-value (detail page), ${freshCards.length} high-value (stored detail still fresh), ${listingOnlyCards.length} others (listing only)`
       );
 
+      // High-value with fresh stored detail: listing data + stored fields
+      for (const card of freshCards) {
+        const raffle = this.buildRaffleFromCard(card);
+        if (raffle) raffles.push(this.withStoredDetail(raffle));
+      }
+
       // Non-high-value: use listing card data directly (fast)
       for (const card of listingOnlyCards) {
         const raffle = this.buildRaffleFromCard(card);
@@ -88,7 +104,7 @@ export class DreamCarGiveawaysScraper extends BaseScraper {
           console.log(`[${this.name}] [${i + 1}/${detailCards.length}] Detail: ${externalId}`);
 
           const raffle = await Promise.race([
-            this.scrapeDetailPage(page, detailUrl, card),
+            this.scrapeDetailPage(context, detailUrl, card),
             new Promise<null>((_, reject) =>
               setTimeout(
                 () => reject(new Error('Detail page timed out')),
@@ -107,20 +123,13 @@ export class DreamCarGiveawaysScraper extends BaseScraper {
 
           // Fallback to listing card data
           const fallback = this.buildRaffleFromCard(card);
-          if (fallback) raffles.push(fallback);
-        }
-
-        // Rate limiting between requests
-        if (i < detailCards.length - 1) {
-          await this.delay(1500);
+          if (fallback) raffles.push(this.withStoredDetail(fallback));
         }
       }
     } catch (error) {
       const msg = `Listing page error: ${error instanceof Error ? error.message : String(error)}`;
       console.error(`[${this.name}] ${msg}`);
       errors.push(msg);
-    } finally {
-      await page.close();
     }
 
     return {
@@ -138,10 +147,9 @@ export class DreamCarGiveawaysScraper extends BaseScraper {
   async quickUpdate(context: BrowserContext): Promise<QuickUpdateResult> {
     const startTime = Date.now();
     const errors: string[] = [];
-    const page = await context.newPage();
 
     try {
-      const cards = await this.scrapeListingPage(page);
+      const cards = await this.scrapeListingPage(context);
 
       const updates = cards
         .filter(card => card.price !== null || card.percentSold !== null)
@@ -151,8 +159,6 @@ export class DreamCarGiveawaysScraper extends BaseScraper {
           ticketPrice: card.price ? (parsePriceToPence(card.price) ?? undefined) : undefined,
         }));
 
-      await page.close();
-
       return {
         siteName: this.name,
         siteSlug: this.siteSlug,
@@ -163,7 +169,6 @@ export class DreamCarGiveawaysScraper extends BaseScraper {
     } catch (error) {
       const msg = `Quick update error: ${error instanceof Error ? error.message : String(error)}`;
       errors.push(msg);
-      await page.close();
 
       return {
         siteName: this.name,
@@ -179,98 +184,87 @@ export class DreamCarGiveawaysScraper extends BaseScraper {
   // Private: Listing page scraping
   // ============================================
 
-  private async scrapeListingPage(page: Page): Promise<ListingCard[]> {
-    const success = await this.navigateWithRetry(page, `${this.baseUrl}/competitions`, {
-      waitUntil: 'domcontentloaded',
+  private async scrapeListingPage(context: BrowserContext): Promise<ListingCard[]> {
+    const $ = await this.loadDocument(context, `${this.baseUrl}/competitions`, {
+      readySelector: 'a[href^="/competitions/"] img',
+      waitMs: 5000,
+      prepare: async (page) => {
+        // Wait for content to render
+        await page.waitForTimeout(5000);
+
+        // Scroll down to load all competition cards (they may lazy-load)
+        for (let i = 0; i < 10; i++) {
+          await page.evaluate(() => window.scrollBy(0, 2000));
+          await page.waitForTimeout(800);
+        }
+      },
     });
 
-    if (!success) {
+    if (!$) {
       throw new Error('Failed to load listing page after retries');
     }
 
-    // Wait for content to render
-    await page.waitForTimeout(5000);
-
-    // Scroll down to load all competition cards (they may lazy-load)
-    for (let i = 0; i < 10; i++) {
-      await page.evaluate(() => window.scrollBy(0, 2000));
-      await page.waitForTimeout(800);
-    }
-
-    // Scroll back to top
-    await page.evaluate(() => window.scrollTo(0, 0));
-
-    // Extract competition cards
-    const cards = await page.evaluate(() => {
-      const allLinks = Array.from(document.querySelectorAll('a[href^="/competitions/"]'));
-
-      // Filter to actual competition cards (must have image and either price or % sold)
-      const competitionCards = allLinks.filter(a => {
-        const href = a.getAttribute('href') || '';
-        const text = (a as HTMLElement).innerText || '';
-        const hasImage = a.querySelector('img') !== null;
-        const hasPrice = /£\d/.test(text);
-        const hasSold = /\d+%\s*sold/i.test(text);
-
-        // Exclude category pages and navigation links
-        const categoryPaths = [
-          '/competitions',
-          '/competitions/',
-          '/competitions/cars',
-          '/competitions/cash',
-          '/competitions/tech',
-          '/competitions/watches',
-          '/competitions/instant-wins',
-        ];
-        const isCategory = categoryPaths.includes(href) || /^\/competitions\/cars\//.test(href);
-
-        return !isCategory && hasImage && (hasPrice || hasSold);
-      });
+    // Exclude category pages and navigation links
+    const categoryPaths = [
+      '/competitions',
+      '/competitions/',
+      '/competitions/cars',
+      '/competitions/cash',
+      '/competitions/tech',
+      '/competitions/watches',
+      '/competitions/instant-wins',
+    ];
+
+    const seen = new Set<string>();
+    const cards: ListingCard[] = [];
+
+    $('a[href^="/competitions/"]').each((_, a) => {
+      const href = $(a).attr('href') || '';
+      const lines = textLines($, a);
+      const text = lines.join('\n');
+
+      // Actual competition cards have an image and either a price or % sold
+      const hasImage = $(a).find('img').length > 0;
+      const hasPrice = /£\d/.test(text);
+      const hasSold = /\d+%\s*sold/i.test(text);
+      const isCategory = categoryPaths.includes(href) || /^\/competitions\/cars\//.test(href);
+      if (isCategory || !hasImage || !(hasPrice || hasSold)) return;
 
       // Deduplicate by href
-      const seen = new Set<string>();
-      const unique = competitionCards.filter(a => {
-        const href = a.getAttribute('href')!;
-        if (seen.has(href)) return false;
-        seen.add(href);
-        return true;
-      });
-
-      return unique.map(a => {
-        const href = a.getAttribute('href') || '';
-        const text = (a as HTMLElement).innerText.trim();
-        const img = a.querySelector('img');
-        const imgSrc = img?.getAttribute('src') || null;
-
-        // Extract title — get the longest meaningful line from card text
-        const lines = text.split('\n').map(l => l.trim()).filter(l => l.length > 0);
-        const titleLine = lines
-          .filter(l =>
-            l.length > 15 &&
-            !l.startsWith('£') &&
-            !/^\d+%/.test(l) &&
-            !/^\d+\s*days?$/i.test(l) &&
-            !/^Closes/i.test(l) &&
-            !/^App Exclusive/i.test(l)
-          )
-          .sort((a, b) => b.length - a.length)[0] || lines[0] || '';
-
-        // Extract price (£X.XX format)
-        const priceMatch = text.match(/£(\d+\.?\d*)/);
-
-        // Extract percent sold
-        const soldMatch = text.match(/(\d+)%\s*sold/i);
-
-        return {
-          href,
-          title: titleLine,
-          price: priceMatch ? `£${priceMatch[1]}` : null,
-          percentSold: soldMatch ? parseInt(soldMatch[1]) : null,
-          imageUrl: imgSrc,
-        };
+      if (seen.has(href)) return;
+      seen.add(href);
+
+      // Extract title — get the longest meaningful line from card text
+      const titleLine = lines
+        .filter(l =>
+          l.length > 15 &&
+          !l.startsWith('£') &&
+          !/^\d+%/.test(l) &&
+          !/^\d+\s*days?$/i.test(l) &&
+          !/^Closes/i.test(l) &&
+          !/^App Exclusive/i.test(l)
+        )
+        .sort((a, b) => b.length - a.length)[0] || lines[0] || '';
+
+      // Extract price (£X.XX format) — the line that's just a price, as titles
+      // like "Porsche 911 + £5,000" carry other amounts
+      const priceLine = lines.find(l => /^£\d+(?:\.\d+)?$/.test(l));
+      const priceMatch = (priceLine ?? text).match(/£(\d+\.?\d*)/);
+
+      // Extract percent sold
+      const soldMatch = text.match(/(\d+)%\s*sold/i);
+
+      cards.push({
+        href,
+        title: titleLine,
+        price: priceMatch ? `£${priceMatch[1]}` : null,
+        percentSold: soldMatch ? parseInt(soldMatch[1]) : null,
+        imageUrl: $(a).find('img').first().attr('src') || null,
       });
     });
 
+    await this.recordListingLayout($, cards.length);
+
     // Filter out free entries (£0.00)
     return cards.filter(card => {
       if (!card.price) return true;
@@ -284,119 +278,24 @@ export class DreamCarGiveawaysScraper extends BaseScraper {
   // ============================================
 
   private async scrapeDetailPage(
-    page: Page,
+    context: BrowserContext,
     url: string,
     card: ListingCard
   ): Promise<ScrapedRaffle | null> {
-    const success = await this.navigateWithRetry(page, url, {
-      waitUntil: 'domcontentloaded',
-    });
+    const $ = await this.loadDocument(context, url, { readySelector: 'h1', waitMs: 4000 });
 
-    if (!success) {
+    if (!$) {
       console.warn(`[${this.name}] Could not load detail page: ${url}`);
       // Fall back to listing card data only
       return this.buildRaffleFromCard(card);
     }
 
-    // Wait for content to render
-    await page.waitForTimeout(4000);
-
-    const data = await page.evaluate(() => {
-      const body = document.body.innerText;
-
-      // === Clean title from document.title ===
-      const pageTitle = (document.title || '')
-        .replace(/\s*\|\s*Dream Car Giveaways$/i, '')
-        .trim();
-
-      // === Cash alternative & additional cash from the CLEAN title ===
-      // This avoids the announcement banner contamination.
-      // Pattern: "or £XX,XXX Tax Free" at the end of title
-      const cashAltFromTitle = pageTitle.match(/or\s+£([\d,]+)\s*(?:tax free|cash)?/i);
-      const cashAlternative = cashAltFromTitle
-        ? parseInt(cashAltFromTitle[1].replace(/,/g, ''))
-        : null;
-
-      // Pattern: "& £X,XXX" or "+ £X,XXX" in title
-      const additionalMatch = pageTitle.match(/[&+]\s*£([\d,]+)/i);
-      const additionalCash = additionalMatch
-        ? parseInt(additionalMatch[1].replace(/,/g, ''))
-        : null;
-
-      // === Total entries / tickets ===
-      const entriesMatch = body.match(/([\d,]+)\s*entries/i);
-      const totalEntries = entriesMatch
-        ? parseInt(entriesMatch[1].replace(/,/g, ''))
-        : null;
-
-      // === Percent sold ===
-      // Look for "XX% SOLD" or "XX%\nSOLD" pattern
-      const soldMatch = body.match(/(\d+)%\s*(?:\n\s*)?(?:sold|SOLD)/i);
-      const percentSold = soldMatch ? parseInt(soldMatch[1]) : null;
-
-      // === Ticket price ===
-      // Look for price near "Enter Now" button
-      const priceMatch = body.match(/£(\d+\.?\d*)\s*\n?\s*Enter Now/i);
-      const price = priceMatch ? `£${priceMatch[1]}` : null;
-
-      // === Cash alternative from body (fallback) ===
-      // Only use the explicit "cash alternative" wording (not "tax free")
-      // to avoid catching the announcement banner. Scoped to after "entries".
-      let cashAltFromBody: number | null = null;
-      if (!cashAlternative) {
-        const entriesIdx = body.indexOf('entries');
-        if (entriesIdx > -1) {
-          const section = body.substring(Math.max(0, entriesIdx - 300), entriesIdx);
-          // Only match "cash alternative" — not "tax free" (banner says "tax free")
-          const altMatch = section.match(/or\s+£([\d,]+)\s*cash alternative/i);
-          cashAltFromBody = altMatch
-            ? parseInt(altMatch[1].replace(/,/g, ''))
-            : null;
-        }
-      }
-
-      // === Draw type ===
-      const drawTypeMatch = body.match(/(Live Draw|Automated Draw)/i);
-      const drawType = drawTypeMatch ? drawTypeMatch[1].toLowerCase().replace(' draw', '') : null;
-
-      // === Draw date / countdown ===
-      const closesMatch = body.match(/Competition closes in\s*\n(\d+)\nDays?\n(\d+)\nHours?/i);
-      const days = closesMatch ? parseInt(closesMatch[1]) : null;
-      const hours = closesMatch ? parseInt(closesMatch[2]) : null;
-
-      // === Prize value from body text ===
-      const prizeValueMatch =
-        body.match(/\bworth\s+(?:approximately\s+)?£([\d,]+)/i) ||
-        body.match(/\bRRP\s*[:\s]+£([\d,]+)/i) ||
-        body.match(/\bvalued?\s+at\s+£([\d,]+)/i) ||
-        body.match(/\bprize\s+value\s*[:\s]+£([\d,]+)/i);
-      const prizeValueStr = prizeValueMatch ? prizeValueMatch[1] : null;
-
-      // === Main image ===
-      const mainImg = document.querySelector('img[src*="media.dreamcargiveaways"]');
-      const mainImgSrc = mainImg?.getAttribute('src') || null;
-
-      return {
-        pageTitle,
-        totalEntries,
-        percentSold,
-        price,
-        cashAlternative: cashAlternative || cashAltFromBody,
-        additionalCash,
-        prizeValueStr,
-        drawType,
-        daysRemaining: days,
-        hoursRemaining: hours,
-        mainImage: mainImgSrc,
-      };
-    });
+    const data = this.readDetailPage($);
 
     // Calculate end date from countdown
     let endDate: Date | null = null;
     if (data.daysRemaining != null && data.hoursRemaining != null) {
-      endDate = new Date();
-      endDate.setDate(endDate.getDate() + data.daysRemaining);
-      endDate.setHours(endDate.getHours() + data.hoursRemaining);
+      endDate = parseUkDate(`${data.daysRemaining}d ${data.hoursRemaining}h`)?.date ?? null;
     }
 
     // Use detail page title, fall back to card title, then URL slug
@@ -437,6 +336,99 @@ export class DreamCarGiveawaysScraper extends BaseScraper {
       prizeValue,
       endDate: endDate ?? undefined,
       drawType: data.drawType ?? undefined,
+      fromDetailPage: true,
+    };
+  }
+
+  /** Title, entries, price, cash values and countdown from the detail page */
+  private readDetailPage($: CheerioAPI) {
+    const body = textLines($).join('\n');
+
+    // === Clean title from the <title> ===
+    const pageTitle = $('title').text()
+      .replace(/\s*\|\s*Dream Car Giveaways$/i, '')
+      .trim();
+
+    // === Cash alternative & additional cash from the CLEAN title ===
+    // This avoids the announcement banner contamination.
+    // Pattern: "or £XX,XXX Tax Free" at the end of title
+    const cashAltFromTitle = pageTitle.match(/or\s+£([\d,]+)\s*(?:tax free|cash)?/i);
+    const cashAlternative = cashAltFromTitle
+      ? parseInt(cashAltFromTitle[1].replace(/,/g, ''))
+      : null;
+
+    // Pattern: "& £X,XXX" or "+ £X,XXX" in title
+    const additionalMatch = pageTitle.match(/[&+]\s*£([\d,]+)/i);
+    const additionalCash = additionalMatch
+      ? parseInt(additionalMatch[1].replace(/,/g, ''))
+      : null;
+
+    // === Total entries / tickets ===
+    const entriesMatch = body.match(/([\d,]+)\s*entries/i);
+    const totalEntries = entriesMatch
+      ? parseInt(entriesMatch[1].replace(/,/g, ''))
+      : null;
+
+    // === Percent sold ===
+    // Look for "XX% SOLD" or "XX%\nSOLD" pattern
+    const soldMatch = body.match(/(\d+)%\s*(?:\n\s*)?(?:sold|SOLD)/i);
+    const percentSold = soldMatch ? parseInt(soldMatch[1]) : null;
+
+    // === Ticket price ===
+    // Look for price near "Enter Now" button
+    const priceMatch = body.match(/£(\d+\.?\d*)\s*\n?\s*Enter Now/i);
+    const price = priceMatch ? `£${priceMatch[1]}` : null;
+
+    // === Cash alternative from body (fallback) ===
+    // Only use the explicit "cash alternative" wording (not "tax free")
+    // to avoid catching the announcement banner. Scoped to after "entries".
+    let cashAltFromBody: number | null = null;
+    if (!cashAlternative) {
+      const entriesIdx = body.indexOf('entries');
+      if (entriesIdx > -1) {
+        const section = body.substring(Math.max(0, entriesIdx - 300), entriesIdx);
+        // Only match "cash alternative" — not "tax free" (banner says "tax free")
+        const altMatch = section.match(/or\s+£([\d,]+)\s*cash alternative/i);
+        cashAltFromBody = altMatch
+          ? parseInt(altMatch[1].replace(/,/g, ''))
+          : null;
+      }
+    }
+
+    // === Draw type ===
+    const drawTypeMatch = body.match(/(Live Draw|Automated Draw)/i);
+    const drawType = drawTypeMatch ? drawTypeMatch[1].toLowerCase().replace(' draw', '') : null;
+
+    // === Draw date / countdown ===
+    // "Competition closes in 5 Days 12 Hours" — the numbers and units may
+    // share a line or sit on their own, depending on how the countdown is marked up
+    const closesMatch = body.match(/Competition closes in\s*(\d+)\s*Days?\s*(\d+)\s*Hours?/i);
+    const days = closesMatch ? parseInt(closesMatch[1]) : null;
+    const hours = closesMatch ? parseInt(closesMatch[2]) : null;
+
+    // === Prize value from body text ===
+    const prizeValueMatch =
+      body.match(/\bworth\s+(?:approximately\s+)?£([\d,]+)/i) ||
+      body.match(/\bRRP\s*[:\s]+£([\d,]+)/i) ||
+      body.match(/\bvalued?\s+at\s+£([\d,]+)/i) ||
+      body.match(/\bprize\s+value\s*[:\s]+£([\d,]+)/i);
+    const prizeValueStr = prizeValueMatch ? prizeValueMatch[1] : null;
+
+    // === Main image ===
+    const mainImgSrc = $('img[src*="media.dreamcargiveaways"]').first().attr('src') || null;
+
+    return {
+      pageTitle,
+      totalEntries,
+      percentSold,
+      price,
+      cashAlternative: cashAlternative || cashAltFromBody,
+      additionalCash,
+      prizeValueStr,
+      drawType,
+      daysRemaining: days,
+      hoursRemaining: hours,
+      mainImage: mainImgSrc,
     };
   }
 
@@ -14,7 +14,10 @@ import {
   ScraperResult,
   QuickUpdateResult,
 } from './base';
+import { DEFAULT_POLITENESS } from './politeness';
 import { parsePriceToPence, extractSlugFromUrl } from '../lib/utils';
+import { mostConfidentUkDate, parseUkDate } from '../lib/uk-date';
+import { readDetailExtras, textLines } from './html';
 
 // ============================================
 // Types
@@ -59,6 +62,11 @@ export class EliteCompetitionsScraper extends BaseScraper {
   name = 'Elite Competitions';
   siteSlug = 'elite-competitions';
   baseUrl = 'https://elitecompetitions.co.uk';
+  politeness = { ...DEFAULT_POLITENESS, requestsPerMinute: 40 };
+  protected layoutProbes = {
+    competitionLinks: 'a[href*="/competitions/"]',
+    cardImages: 'a[href*="/competitions/"] img',
+  };
 
   private listingUrl = 'https://elitecompetitions.co.uk';
 
@@ -103,8 +111,6 @@ export class EliteCompetitionsScraper extends BaseScraper {
           const fallback = this.buildRaffleFromCard(card);
           if (fallback) raffles.push(fallback);
         }
-
-        await this.delay(1000);
       }
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -162,58 +168,45 @@ export class EliteCompetitionsScraper extends BaseScraper {
   // ==========================================
 
   private async scrapeListingPage(context: BrowserContext): Promise<ListingCard[]> {
-    const page = await context.newPage();
-
-    try {
-      const ok = await this.navigateWithRetry(page, this.listingUrl);
-      if (!ok) throw new Error(`Failed to load listing page: ${this.listingUrl}`);
-
-      // Dismiss cookie banner if present
-      await this.dismissCookies(page);
-
-      // Wait for competition cards to load
-      await page.waitForSelector('a[href*="/competitions/"]', { timeout: 15000 }).catch(() => {});
-
-      // Scroll to load lazy content
-      await this.scrollToLoadAll(page);
-
-      // Extract raw card data — keep evaluate simple, no TS types inside
-      const rawLinks = await page.evaluate(() => {
-        const results: Array<{ url: string; text: string; imageUrl: string }> = [];
-        const els = document.querySelectorAll('a[href*="/competitions/"]');
-        els.forEach((el) => {
-          const a = el as HTMLAnchorElement;
-          const img = a.querySelector('img') as HTMLImageElement | null;
-          results.push({
-            url: a.href,
-            text: (a.innerText || '').trim(),
-            imageUrl: img ? img.src : '',
-          });
-        });
-        return results;
-      });
-
-      // Process raw links outside of evaluate (full TypeScript available here)
-      const rawCards = this.processRawCards(rawLinks);
-
-      // Parse and filter
-      return rawCards
-        .filter((c) => c.title && c.url)
-        .filter((c) => !this.shouldSkip(c.title, c.url))
-        .map((c) => ({
-          title: c.title,
-          url: c.url,
-          imageUrl: c.imageUrl,
-          ticketPrice: c.priceText ? parsePriceToPence(c.priceText) ?? undefined : undefined,
-          percentSold: c.percentText
-            ? parseFloat(c.percentText.replace(/[^0-9.]/g, ''))
-            : undefined,
-          cashAlternative: c.cashText ? this.parseCashFromCard(c.cashText) : undefined,
-          endDateText: c.endDateText,
-        }));
-    } finally {
-      await page.close();
-    }
+    const $ = await this.loadDocument(context, this.listingUrl, {
+      readySelector: 'a[href*="/competitions/"]',
+      prepare: async (page) => {
+        await this.dismissCookies(page);
+        await page.waitForSelector('a[href*="/competitions/"]', { timeout: 15000 }).catch(() => {});
+        // Scroll to load lazy content
+        await this.scrollToLoadAll(page);
+      },
+    });
+    if (!$) throw new Error(`Failed to load listing page: ${this.listingUrl}`);
+
+    const rawLinks = $('a[href*="/competitions/"]').map((_, a) => {
+      const href = $(a).attr('href');
+      const src = $(a).find('img').first().attr('src');
+      return {
+        url: href ? new URL(href, this.baseUrl).toString() : '',
+        text: textLines($, a).join('\n'),
+        imageUrl: src ? new URL(src, this.baseUrl).toString() : '',
+      };
+    }).get();
+
+    const rawCards = this.processRawCards(rawLinks);
+    await this.recordListingLayout($, rawCards.length);
+
+    // Parse and filter
+    return rawCards
+      .filter((c) => c.title && c.url)
+      .filter((c) => !this.shouldSkip(c.title, c.url))
+      .map((c) => ({
+        title: c.title,
+        url: c.url,
+        imageUrl: c.imageUrl,
+        ticketPrice: c.priceText ? parsePriceToPence(c.priceText) ?? undefined : undefined,
+        percentSold: c.percentText
+          ? parseFloat(c.percentText.replace(/[^0-9.]/g, ''))
+          : undefined,
+        cashAlternative: c.cashText ? this.parseCashFromCard(c.cashText) : undefined,
+        endDateText: c.endDateText,
+      }));
   }
 
   // ==========================================
@@ -224,108 +217,100 @@ export class EliteCompetitionsScraper extends BaseScraper {
     context: BrowserContext,
     card: ListingCard
   ): Promise<ScrapedRaffle | null> {
-    const page = await context.newPage();
+    const $ = await this.loadDocument(context, card.url, { readySelector: 'h1', waitMs: 10000 });
+    if (!$) return this.buildRaffleFromCard(card);
+
+    // Extract data from page body text
+    const body = textLines($).join('\n');
+
+    const ticketsMatch = body.match(/total amount of entries:\s*([\d,]+)/i);
+    const drawDateMatch = body.match(/draw date and time:\s*(.+?)(?:\n|$)/i);
+    const priceMatch = body.match(/entry price:\s*([\d.p£]+)/i);
+    const cashAltMatch = body.match(/£([\d,]+)\s*cash alternative/i);
+    const percentMatch = body.match(/(\d+)%\s*SOLD/i);
+    const prizeValueMatch =
+      body.match(/\bworth\s+(?:approximately\s+)?£([\d,]+)/i) ||
+      body.match(/\bRRP\s*[:\s]+£([\d,]+)/i) ||
+      body.match(/\bvalued?\s+at\s+£([\d,]+)/i) ||
+      body.match(/\bprize\s+value\s*[:\s]+£([\d,]+)/i);
+
+    const heroImg = $('img[src*="competitions/"]').first().attr('src');
+
+    const pageData = {
+      title: $('h1').first().text().trim(),
+      totalTicketsStr: ticketsMatch ? ticketsMatch[1] : null,
+      drawDateStr: drawDateMatch ? drawDateMatch[1].trim() : null,
+      priceStr: priceMatch ? priceMatch[1] : null,
+      cashAltStr: cashAltMatch ? '£' + cashAltMatch[1] : null,
+      percentStr: percentMatch ? percentMatch[1] : null,
+      imageUrl: heroImg ? new URL(heroImg, this.baseUrl).toString() : null,
+      prizeValueStr: prizeValueMatch ? prizeValueMatch[1] : null,
+    };
 
-    try {
-      const ok = await this.navigateWithRetry(page, card.url);
-      if (!ok) return this.buildRaffleFromCard(card);
-
-      // Wait for content
-      await page.waitForSelector('h1', { timeout: 10000 }).catch(() => {});
-
-      // Extract data from page body text
-      const pageData = await page.evaluate(() => {
-        const body = document.body.innerText;
-
-        const ticketsMatch = body.match(/total amount of entries:\s*([\d,]+)/i);
-        const drawDateMatch = body.match(/draw date and time:\s*(.+?)(?:\n|$)/i);
-        const priceMatch = body.match(/entry price:\s*([\d.p£]+)/i);
-        const cashAltMatch = body.match(/£([\d,]+)\s*cash alternative/i);
-        const percentMatch = body.match(/(\d+)%\s*SOLD/i);
-        const prizeValueMatch =
-          body.match(/\bworth\s+(?:approximately\s+)?£([\d,]+)/i) ||
-          body.match(/\bRRP\s*[:\s]+£([\d,]+)/i) ||
-          body.match(/\bvalued?\s+at\s+£([\d,]+)/i) ||
-          body.match(/\bprize\s+value\s*[:\s]+£([\d,]+)/i);
-
-        const h1 = document.querySelector('h1');
-        const heroImg = document.querySelector('img[src*="competitions/"]');
-
-        return {
-          title: h1 ? (h1.textContent || '').trim() : '',
-          totalTicketsStr: ticketsMatch ? ticketsMatch[1] : null,
-          drawDateStr: drawDateMatch ? drawDateMatch[1].trim() : null,
-          priceStr: priceMatch ? priceMatch[1] : null,
-          cashAltStr: cashAltMatch ? '£' + cashAltMatch[1] : null,
-          percentStr: percentMatch ? percentMatch[1] : null,
-          imageUrl: heroImg ? heroImg.getAttribute('src') : null,
-          prizeValueStr: prizeValueMatch ? prizeValueMatch[1] : null,
-        };
-      });
+    const externalId = extractSlugFromUrl(card.url);
+    if (!externalId) return null;
 
-      const externalId = extractSlugFromUrl(card.url);
-      if (!externalId) return null;
+    // Parse total tickets
+    const totalTickets = pageData.totalTicketsStr
+      ? parseInt(pageData.totalTicketsStr.replace(/[^0-9]/g, ''), 10)
+      : undefined;
 
-      // Parse total tickets
-      const totalTickets = pageData.totalTicketsStr
-        ? parseInt(pageData.totalTicketsStr.replace(/[^0-9]/g, ''), 10)
-        : undefined;
+    // Draw date from the detail page or the card, whichever is more certain
+    const endDate = mostConfidentUkDate([pageData.drawDateStr, card.endDateText])?.date;
 
-      // Parse draw date
-      const endDate = pageData.drawDateStr
-        ? this.parseDrawDate(pageData.drawDateStr)
-        : this.parseRelativeDate(card.endDateText);
+    // Parse price from detail page, fallback to card
+    let ticketPrice = card.ticketPrice;
+    if (pageData.priceStr) {
+      const detailPrice = this.parseEntryPrice(pageData.priceStr);
+      if (detailPrice) ticketPrice = detailPrice;
+    }
 
-      // Parse price from detail page, fallback to card
-      let ticketPrice = card.ticketPrice;
-      if (pageData.priceStr) {
-        const detailPrice = this.parseEntryPrice(pageData.priceStr);
-        if (detailPrice) ticketPrice = detailPrice;
-      }
+    // Cash alternative
+    const cashAlternative = pageData.cashAltStr
+      ? parsePriceToPence(pageData.cashAltStr) ?? undefined
+      : card.cashAlternative;
 
-      // Cash alternative
-      const cashAlternative = pageData.cashAltStr
-        ? parsePriceToPence(pageData.cashAltStr) ?? undefined
-        : card.cashAlternative;
+    // Percent sold
+    const percentSold = pageData.percentStr
+      ? parseFloat(pageData.percentStr)
+      : card.percentSold;
 
-      // Percent sold
-      const percentSold = pageData.percentStr
-        ? parseFloat(pageData.percentStr)
-        : card.percentSold;
+    // Tickets sold
+    let ticketsSold: number | undefined;
+    if (totalTickets && percentSold != null) {
+      ticketsSold = Math.round((percentSold / 100) * totalTickets);
+    }
 
-      // Tickets sold
-      let ticketsSold: number | undefined;
-      if (totalTickets && percentSold != null) {
-        ticketsSold = Math.round((percentSold / 100) * totalTickets);
-      }
+    // Title — prefer h1, fallback to card, then URL slug
+    const title = this.sanitizeTitle(pageData.title || card.title, card.url);
 
-      // Title — prefer h1, fallback to card, then URL slug
-      const title = this.sanitizeTitle(pageData.title || card.title, card.url);
+    // Image — prefer detail page, fallback to card
+    const imageUrl = pageData.imageUrl || card.imageUrl;
 
-      // Image — prefer detail page, fallback to card
-      const imageUrl = pageData.imageUrl || card.imageUrl;
+    const prizeValue = pageData.prizeValueStr
+      ? parseInt(pageData.prizeValueStr.replace(/,/g, ''), 10) * 100
+      : undefined;
 
-      const prizeValue = pageData.prizeValueStr
-        ? parseInt(pageData.prizeValueStr.replace(/,/g, ''), 10) * 100
-        : undefined;
+    const { instantWins, prizes, priceTiers, maxPerPerson } = readDetailExtras($, ticketPrice);
 
-      return {
-        externalId,
-        title,
-        sourceUrl: card.url,
-        imageUrl,
-        ticketPrice,
-        totalTickets,
-        ticketsSold,
-        percentSold,
-        cashAlternative,
-        prizeValue,
-        endDate,
-        drawType: 'live_draw',
-      };
-    } finally {
-      await page.close();
-    }
+    return {
+      externalId,
+      title,
+      sourceUrl: card.url,
+      imageUrl,
+      ticketPrice,
+      priceTiers,
+      totalTickets,
+      ticketsSold,
+      maxPerPerson,
+      percentSold,
+      cashAlternative,
+      prizeValue,
+      endDate,
+      drawType: 'live_draw',
+      instantWins,
+      prizes,
+    };
   }
 
   // ==========================================
@@ -344,7 +329,7 @@ export class EliteCompetitionsScraper extends BaseScraper {
       ticketPrice: card.ticketPrice,
       percentSold: card.percentSold,
       cashAlternative: card.cashAlternative,
-      endDate: this.parseRelativeDate(card.endDateText),
+      endDate: parseUkDate(card.endDateText)?.date,
     };
   }
 
@@ -514,92 +499,4 @@ export class EliteCompetitionsScraper extends BaseScraper {
     // Handle pounds format: "£0.07", "£1.00"
     return parsePriceToPence(priceStr) ?? undefined;
   }
-
-  /**
-   * Parse exact draw date from detail page.
-   * "Wednesday 11th February 2026 at 9pm" → Date
-   * "Tuesday 10th February 2026 at 9pm" → Date
-   */
-  private parseDrawDate(text: string): Date | undefined {
-    try {
-      // Remove day name and ordinal suffixes
-      const cleaned = text
-        .replace(/^(monday|tuesday|wednesday|thursday|friday|saturday|sunday)\s+/i, '')
-        .replace(/(\d+)(st|nd|rd|th)/i, '$1')
-        .trim();
-
-      // Match: "11 February 2026 at 9pm" or "11 February 2026 at 9:30pm"
-      const match = cleaned.match(
-        /(\d{1,2})\s+(january|february|march|april|may|june|july|august|september|october|november|december)\s+(\d{4})\s+at\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)/i
-      );
-
-      if (!match) return undefined;
-
-      const day = parseInt(match[1], 10);
-      const monthStr = match[2].toLowerCase();
-      const year = parseInt(match[3], 10);
-      let hour = parseInt(match[4], 10);
-      const minute = match[5] ? parseInt(match[5], 10) : 0;
-      const ampm = match[6].toLowerCase();
-
-      const months: Record<string, number> = {
-        january: 0, february: 1, march: 2, april: 3,
-        may: 4, june: 5, july: 6, august: 7,
-        september: 8, october: 9, november: 10, december: 11,
-      };
-
-      const month = months[monthStr];
-      if (month === undefined) return undefined;
-
-      // Convert to 24h
-      if (ampm === 'pm' && hour < 12) hour += 12;
-      if (ampm === 'am' && hour === 12) hour = 0;
-
-      return new Date(year, month, day, hour, minute);
-    } catch {
-      return undefined;
-    }
-  }
-
-  /**
-   * Parse relative end date from listing card.
-   * "Ends in 2 days" → Date (now + 2 days)
-   * "Ends Tomorrow" → Date (now + 1 day)
-   */
-  private parseRelativeDate(text?: string): Date | undefined {
-    if (!text) return undefined;
-
-    const lower = text.toLowerCase();
-
-    if (lower.includes('tomorrow')) {
-      const d = new Date();
-      d.setDate(d.getDate() + 1);
-      d.setHours(21, 0, 0, 0); // Default to 9pm
-      return d;
-    }
-
-    const daysMatch = lower.match(/ends?\s+in\s+(\d+)\s*day/i);
-    if (daysMatch) {
-      const days = parseInt(daysMatch[1], 10);
-      const d = new Date();
-      d.setDate(d.getDate() + days);
-      d.setHours(21, 0, 0, 0); // Default to 9pm
-      return d;
-    }
-
-    return undefined;
-  }
-
-  /** Scroll to load lazy content */
-  private async scrollToLoadAll(page: Page): Promise<void> {
-    let previousHeight = 0;
-    for (let i = 0; i < 20; i++) {
-      const currentHeight = await page.evaluate(() => document.body.scrollHeight);
-      if (currentHeight === previousHeight) break;
-      previousHeight = currentHeight;
-      await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
-      await this.delay(800);
-    }
-    await page.evaluate(() => window.scrollTo(0, 0));
-  }
 }
@@ -0,0 +1,79 @@
+/**
+ * Ending-soon lane — current % sold in a raffle's last hours
+ *
+ * Percent sold and odds move fastest just before the draw, but quick updates
+ * run on the site's normal cadence (20 minutes by default). Sites with an
+ * `ending_soon` raffle closing within ENDING_SOON_WINDOW_MINUTES get an
+ * 'ending' job every ENDING_SOON_INTERVAL_MINUTES (see job-queue.ts), which
+ * re-reads the listing and persists just those raffles, snapshotting each one
+ * every time (run-all: runEndingSoonLane).
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { QuickUpdateResult } from './base';
+
+// ============================================
+// Config
+// ============================================
+
+export interface EndingLaneConfig {
+  /** Raffles closing within this many minutes are refreshed */
+  windowMinutes: number;
+  /** Minutes between refreshes of a site */
+  intervalMinutes: number;
+}
+
+const DEFAULT_WINDOW_MINUTES = 60;
+const DEFAULT_INTERVAL_MINUTES = 5;
+
+function positiveMinutes(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+/** Window and cadence from ENDING_SOON_WINDOW_MINUTES / ENDING_SOON_INTERVAL_MINUTES */
+export function endingLaneConfig(env: Record<string, string | undefined> = process.env): EndingLaneConfig {
+  return {
+    windowMinutes: positiveMinutes(env.ENDING_SOON_WINDOW_MINUTES, DEFAULT_WINDOW_MINUTES),
+    intervalMinutes: positiveMinutes(env.ENDING_SOON_INTERVAL_MINUTES, DEFAULT_INTERVAL_MINUTES),
+  };
+}
+
+// ============================================
+// Selection
+// ============================================
+
+/** The site's ending_soon raffles closing within the window, by external_id */
+export async function loadEndingSoonIds(
+  siteSlug: string,
+  windowMinutes: number,
+  supabase: SupabaseClient
+): Promise<Set<string>> {
+  const { data: site } = await supabase
+    .from('sites')
+    .select('id')
+    .eq('slug', siteSlug)
+    .single();
+  if (!site) return new Set();
+
+  const now = new Date();
+  const until = new Date(now.getTime() + windowMinutes * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from('raffles')
+    .select('external_id')
+    .eq('site_id', site.id)
+    .eq('status', 'ending_soon')
+    .gt('end_date', now.toISOString())
+    .lte('end_date', until.toISOString());
+
+  if (error || !data) {
+    console.error(`[ending] Failed to load ending raffles for ${siteSlug}: ${error?.message}`);
+    return new Set();
+  }
+  return new Set(data.map((r) => r.external_id as string));
+}
+
+/** Keep only the listing entries for these raffles */
+export function selectEndingUpdates(result: QuickUpdateResult, externalIds: Set<string>): QuickUpdateResult {
+  return { ...result, updates: result.updates.filter((u) => externalIds.has(u.externalId)) };
+}
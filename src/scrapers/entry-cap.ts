@@ -0,0 +1,50 @@
+/**
+ * Entry Cap — extract the per-person ticket limit from a detail page
+ *
+ * Every UK competition site caps how many tickets one entrant can buy, and
+ * states it somewhere in the description or the ticket-info table:
+ *
+ *   "Max 50 tickets per person"
+ *   "Maximum entries per user: 100"
+ *   "Limited to 25 per household"
+ *   "Tickets per person | 75"
+ */
+
+const WHO = String.raw`(?:person|user|customer|entrant|player|account|household|individual)`;
+const UNIT = String.raw`(?:tickets?|entries|entry)`;
+
+/** "50 tickets per person", "Max 50 per user" */
+const NUMBER_FIRST_RE = new RegExp(
+  String.raw`(\d[\d,]*)\s*(?:${UNIT}\s*)?(?:max(?:imum)?\s*)?(?:per|each)\s+${WHO}`,
+  'i'
+);
+/** "Maximum entries per user: 100", "Tickets per person | 75" */
+const NUMBER_LAST_RE = new RegExp(
+  String.raw`(?:max(?:imum)?\s*)?(?:${UNIT}\s*)?per\s+${WHO}\s*(?:is|of|[:|\-–—])?\s*(\d[\d,]*)\b`,
+  'i'
+);
+
+/**
+ * Parse a per-person ticket cap from a line of text.
+ */
+export function parseMaxPerPerson(text: string | null | undefined): number | undefined {
+  if (!text) return undefined;
+  const line = text.replace(/\s+/g, ' ').trim();
+
+  const match = line.match(NUMBER_FIRST_RE) ?? line.match(NUMBER_LAST_RE);
+  if (!match) return undefined;
+
+  const cap = parseInt(match[1].replace(/,/g, ''), 10);
+  return isNaN(cap) || cap <= 0 ? undefined : cap;
+}
+
+/**
+ * First per-person cap found in a list of lines.
+ */
+export function findMaxPerPerson(lines: string[]): number | undefined {
+  for (const line of lines) {
+    const cap = parseMaxPerPerson(line);
+    if (cap) return cap;
+  }
+  return undefined;
+}
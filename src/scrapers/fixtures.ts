@@ -0,0 +1,237 @@
+/**
+ * Scraper Fixtures — offline record/replay
+ *
+ * Lets any BaseScraper run against saved HTML/JSON snapshots instead of the
+ * live site, so parsing regressions in scrapeListingPage/scrapeDetailPage
+ * show up in vitest without network access.
+ *
+ *   record — requests go to the live site and every document/XHR/script
+ *            response is written to the fixture directory.
+ *   replay — responses are served from the fixture directory; anything that
+ *            was never recorded gets a 404 (or is aborted for images/CSS),
+ *            so nothing leaves the machine.
+ *
+ * Both the Playwright BrowserContext (via context.route) and direct HTTP
+ * calls made through BaseScraper.httpFetch are covered.
+ *
+ * Fixture layout (hand-written fixtures can use readable file names):
+ *   {dir}/index.json      url → { file, status, contentType }
+ *   {dir}/{file}          response body
+ */
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { BrowserContext } from 'playwright';
+import type { BaseScraper } from './base';
+
+// ============================================
+// Types
+// ============================================
+
+export type FixtureMode = 'live' | 'record' | 'replay';
+
+export interface FixtureEntry {
+  file: string;
+  status: number;
+  contentType: string;
+}
+
+export interface FixtureResponse {
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+/** Resource types worth saving — images, fonts and CSS don't affect parsing */
+const RECORDED_RESOURCE_TYPES = new Set(['document', 'xhr', 'fetch', 'script']);
+
+/** Default fixture directory for a site */
+export function fixtureDir(siteSlug: string): string {
+  return path.resolve(process.cwd(), 'src/scrapers/__tests__/fixtures', siteSlug);
+}
+
+// ============================================
+// Fixture store
+// ============================================
+
+export class FixtureStore {
+  private index: Record<string, FixtureEntry> = {};
+
+  constructor(readonly dir: string) {
+    const indexPath = path.join(dir, 'index.json');
+    if (fs.existsSync(indexPath)) {
+      this.index = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+    }
+  }
+
+  /** Normalise a URL for lookup — fragments never reach the server */
+  static keyFor(url: string): string {
+    try {
+      const parsed = new URL(url);
+      parsed.hash = '';
+      return parsed.toString();
+    } catch {
+      return url;
+    }
+  }
+
+  get size(): number {
+    return Object.keys(this.index).length;
+  }
+
+  has(url: string): boolean {
+    return FixtureStore.keyFor(url) in this.index;
+  }
+
+  get(url: string): FixtureResponse | undefined {
+    const entry = this.index[FixtureStore.keyFor(url)];
+    if (!entry) return undefined;
+    const filePath = path.join(this.dir, entry.file);
+    if (!fs.existsSync(filePath)) return undefined;
+    return {
+      status: entry.status,
+      contentType: entry.contentType,
+      body: fs.readFileSync(filePath, 'utf8'),
+    };
+  }
+
+  put(url: string, response: FixtureResponse): void {
+    const key = FixtureStore.keyFor(url);
+    const file = this.index[key]?.file ?? this.fileNameFor(key, response.contentType);
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(path.join(this.dir, file), response.body);
+    this.index[key] = { file, status: response.status, contentType: response.contentType };
+  }
+
+  /** Write index.json — call once at the end of a recording run */
+  save(): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const sorted = Object.fromEntries(
+      Object.entries(this.index).sort(([a], [b]) => a.localeCompare(b))
+    );
+    fs.writeFileSync(path.join(this.dir, 'index.json'), JSON.stringify(sorted, null, 2) + '\n');
+  }
+
+  private fileNameFor(key: string, contentType: string): string {
+    const hash = createHash('sha1').update(key).digest('hex').slice(0, 12);
+    const ext = contentType.includes('json')
+      ? 'json'
+      : contentType.includes('javascript')
+        ? 'js'
+        : 'html';
+    return `${hash}.${ext}`;
+  }
+}
+
+// ============================================
+// Playwright context routing
+// ============================================
+
+/**
+ * Route every request made through a BrowserContext via the fixture store.
+ * No-op in live mode.
+ */
+export async function attachFixtures(
+  context: BrowserContext,
+  store: FixtureStore,
+  mode: FixtureMode,
+): Promise<void> {
+  if (mode === 'live') return;
+
+  await context.route('**/*', async (route) => {
+    const request = route.request();
+    const url = request.url();
+    const recordable = RECORDED_RESOURCE_TYPES.has(request.resourceType());
+
+    if (mode === 'replay') {
+      const hit = store.get(url);
+      if (hit) {
+        await route.fulfill({ status: hit.status, contentType: hit.contentType, body: hit.body });
+      } else if (recordable) {
+        await route.fulfill({ status: 404, contentType: 'text/plain', body: `No fixture for ${url}` });
+      } else {
+        await route.abort();
+      }
+      return;
+    }
+
+    // Record mode
+    if (!recordable || request.method() !== 'GET') {
+      await route.continue();
+      return;
+    }
+
+    const response = await route.fetch();
+    const body = await response.text();
+    store.put(url, {
+      status: response.status(),
+      contentType: response.headers()['content-type'] ?? 'text/html',
+      body,
+    });
+    await route.fulfill({ response, body });
+  });
+}
+
+// ============================================
+// Direct HTTP (fetch) routing
+// ============================================
+
+/**
+ * Build a fetch() replacement that records to / replays from the store.
+ * Only GET requests are recorded or replayed.
+ */
+export function createFixtureFetch(
+  store: FixtureStore,
+  mode: FixtureMode,
+  realFetch: typeof fetch = fetch,
+): typeof fetch {
+  return async (input, init) => {
+    const url = typeof input === 'string'
+      ? input
+      : input instanceof URL
+        ? input.toString()
+        : input.url;
+    const method = (init?.method ?? 'GET').toUpperCase();
+
+    if (mode === 'replay') {
+      const hit = method === 'GET' ? store.get(url) : undefined;
+      if (!hit) {
+        return new Response(`No fixture for ${url}`, {
+          status: 404,
+          headers: { 'content-type': 'text/plain' },
+        });
+      }
+      return new Response(hit.body, {
+        status: hit.status,
+        headers: { 'content-type': hit.contentType },
+      });
+    }
+
+    const response = await realFetch(input, init);
+    if (mode === 'record' && method === 'GET') {
+      store.put(url, {
+        status: response.status,
+        contentType: response.headers.get('content-type') ?? 'text/html',
+        body: await response.clone().text(),
+      });
+    }
+    return response;
+  };
+}
+
+/**
+ * Wire a scraper and its context up to a fixture store. After this call,
+ * scraper.scrape(context) / scraper.quickUpdate(context) read from (or write
+ * to) the fixtures. Remember to store.save() after a recording run.
+ */
+export async function useFixtures(
+  scraper: BaseScraper,
+  context: BrowserContext,
+  store: FixtureStore,
+  mode: FixtureMode,
+): Promise<void> {
+  if (mode === 'live') return;
+  await attachFixtures(context, store, mode);
+  scraper.httpFetch = createFixtureFetch(store, mode, scraper.httpFetch);
+}
@@ -0,0 +1,157 @@
+/**
+ * HTML helpers for the HTTP (non-browser) scraping path
+ *
+ * BaseScraper.fetchDocument() loads server-rendered pages with fetch + cheerio
+ * and only falls back to Playwright when the static HTML isn't enough. These
+ * helpers decide that, and give cheerio documents the same line-by-line text
+ * that Playwright's innerText provides. Browser-rendered pages are read the
+ * same way via cheerio.load(await page.content()), so the row/line parsers
+ * (instant wins, prize tiers, price tiers, entry caps) have one input shape.
+ */
+import type { CheerioAPI } from 'cheerio';
+import type { PriceTier } from '../lib/types';
+import { parseInstantWinRows, INSTANT_WIN_ROW_SELECTOR, ScrapedInstantWin } from './instant-wins';
+import { parsePrizeTiers, ScrapedPrize } from './prize-tiers';
+import { parsePriceTiers } from './price-tiers';
+import { findMaxPerPerson } from './entry-cap';
+
+/** Where a detail page lists each extra; false skips it */
+export interface DetailExtraSelectors {
+  instantWins?: string | false;
+  prizeTiers?: string | false;
+  priceTiers?: string | false;
+}
+
+/** What a detail page may list beyond the headline fields */
+export interface DetailExtras {
+  instantWins?: ScrapedInstantWin[];
+  prizes?: ScrapedPrize[];
+  priceTiers?: PriceTier[];
+  maxPerPerson?: number;
+}
+
+/** Bot-challenge / JS-only shells that need a real browser */
+const JS_REQUIRED_PATTERNS = [
+  /just a moment\.\.\./i,
+  /checking (?:if the site connection is secure|your browser)/i,
+  /enable javascript (?:and cookies )?to continue/i,
+  /you need to enable javascript to run this app/i,
+];
+
+/** Below this much visible body text, the page is an empty SPA shell */
+const MIN_BODY_TEXT = 200;
+
+/** The page's main content area, most specific first */
+const MAIN_SELECTORS = ['main', '[role="main"]', '#main', '#content', 'body'];
+
+/** Site chrome and boilerplate (FAQs, T&Cs, tabs) that isn't about this product */
+const BOILERPLATE_SELECTOR = [
+  'header', 'footer', 'nav', 'aside',
+  '.woocommerce-tabs', '[class*="faq"]', '[id*="faq"]', '[class*="terms"]', '[id*="terms"]',
+  '[class*="accordion"]', '[class*="newsletter"]', '[class*="cookie"]',
+].join(', ');
+
+/** Elements that start a new line in innerText, plus the buttons and labels bundle offers use */
+const BLOCK_SELECTOR = [
+  'address', 'article', 'aside', 'blockquote', 'br', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure',
+  'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol',
+  'p', 'pre', 'section', 'table', 'tr', 'ul', 'button', 'label', 'option',
+].join(', ');
+
+/** Line-break marker while whitespace is collapsed (a private-use character, not \s) */
+const LINE_BREAK = '\uE000';
+
+/** A selector, or an element of the same document (e.g. a listing card) */
+type Target = string | NonNullable<Parameters<CheerioAPI>[1]>;
+
+/**
+ * Does this statically-fetched page need JavaScript to render the data we want?
+ * True for bot challenges, empty shells, or when `readySelector` (the element
+ * the scraper waits for in Playwright) isn't in the HTML.
+ */
+export function needsBrowser($: CheerioAPI, readySelector?: string): boolean {
+  const title = $('title').text();
+  const body = $('body').clone();
+  body.find('script, style, noscript, template').remove();
+  const bodyText = body.text().replace(/\s+/g, ' ').trim();
+
+  if (JS_REQUIRED_PATTERNS.some((p) => p.test(title) || p.test(bodyText.slice(0, 500)))) return true;
+  if (bodyText.length < MIN_BODY_TEXT) return true;
+  if (readySelector && $(readySelector).length === 0) return true;
+  return false;
+}
+
+/**
+ * Text of each element matching `selector`, with table cells separated by
+ * spaces — cheerio's .text() runs "<td>Cash</td><td>Won</td>" together
+ * as "CashWon".
+ */
+export function rowTexts($: CheerioAPI, selector: string): string[] {
+  return $(selector).map((_, el) => {
+    const cells = $(el).children('td, th');
+    const text = cells.length > 0
+      ? cells.map((__, cell) => $(cell).text()).get().join(' ')
+      : $(el).text();
+    return text.replace(/\s+/g, ' ').trim();
+  }).get();
+}
+
+/**
+ * Visible text of `target` split into lines, approximating innerText:
+ * block-level elements start new lines, table cells are space-separated
+ * and whitespace within a line collapses. Elements matching `exclude` are
+ * left out.
+ */
+export function textLines($: CheerioAPI, target: Target = 'body', exclude?: string): string[] {
+  const root = $(target).first().clone();
+  if (root.length === 0) return [];
+  root.find('script, style, noscript, template').remove();
+  if (exclude) root.find(exclude).remove();
+
+  root.find(BLOCK_SELECTOR).before(LINE_BREAK).after(LINE_BREAK);
+  root.find('td, th').after(' ');
+
+  return root.text()
+    .split(LINE_BREAK)
+    .map((l) => l.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Text lines of the page's main content, without header, footer, FAQ and
+ * T&C blocks — the part that's about this product, for wording-based checks
+ * that site-wide boilerplate would otherwise trip.
+ */
+export function mainLines($: CheerioAPI): string[] {
+  const selector = MAIN_SELECTORS.find((s) => $(s).length > 0) ?? 'body';
+  return textLines($, selector, BOILERPLATE_SELECTOR);
+}
+
+/**
+ * Instant wins, prize tiers, bundle offers and the per-person cap from a
+ * detail page. Each is undefined when the page doesn't list it, so callers
+ * can tell "none listed" apart from "all claimed".
+ */
+export function readDetailExtras(
+  $: CheerioAPI,
+  ticketPrice?: number,
+  selectors: DetailExtraSelectors = {}
+): DetailExtras {
+  const body = textLines($);
+  const linesFor = (selector: string | undefined) => (selector ? textLines($, selector) : body);
+
+  let instantWins: ScrapedInstantWin[] | undefined;
+  if (selectors.instantWins !== false) {
+    const wins = parseInstantWinRows(rowTexts($, selectors.instantWins ?? INSTANT_WIN_ROW_SELECTOR));
+    instantWins = wins.length > 0 ? wins : undefined;
+  }
+
+  return {
+    instantWins,
+    prizes: selectors.prizeTiers === false ? undefined : parsePrizeTiers(linesFor(selectors.prizeTiers)),
+    priceTiers: selectors.priceTiers === false
+      ? undefined
+      : parsePriceTiers(linesFor(selectors.priceTiers), ticketPrice),
+    maxPerPerson: findMaxPerPerson(body),
+  };
+}
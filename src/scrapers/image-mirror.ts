@@ -0,0 +1,268 @@
+/**
+ * Image mirroring — our own copies of prize images
+ *
+ * Hotlinked site images break (renamed, hotlink-blocked, expired CDN links),
+ * which RaffleCard can only paper over with a placeholder. After each full
+ * scrape, run-all mirrors the site's new images: downloads the original,
+ * stores sized WebP variants in our bucket, computes a perceptual hash and
+ * rewrites `image_url` to the mirrored card-size copy. The original stays in
+ * `image_source_url`, so unchanged images aren't mirrored twice. Failed
+ * downloads are counted on the raffle and retried with backoff, so a dead
+ * image doesn't take a mirror slot every run.
+ *
+ * The hash also feeds prize-group matching and the stock-photo check.
+ */
+import sharp from 'sharp';
+import { createHash } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// ============================================
+// Types
+// ============================================
+
+/** Variant name → max width (px). `card` is what image_url points at. */
+export const IMAGE_VARIANTS = { thumb: 400, card: 800, full: 1600 } as const;
+
+export type ImageVariant = keyof typeof IMAGE_VARIANTS;
+
+export interface MirroredImage {
+  url: string;                                // card variant
+  hash: string;                               // 64-bit dHash, 16 hex chars
+  variants: Record<ImageVariant, string>;
+}
+
+/** Where mirrored images live. Returns the public URL of the stored object. */
+export interface ImageStore {
+  put(key: string, data: Buffer, contentType: string): Promise<string>;
+}
+
+/** Images whose hashes differ by at most this many bits look the same */
+export const SIMILAR_IMAGE_DISTANCE = 6;
+
+/** One image on this many live raffles of a site = a stock photo */
+const STOCK_PHOTO_MIN_RAFFLES = 3;
+
+/** Cap per site per run, so a first run over a backlog doesn't stall the scrape */
+const MAX_MIRRORS_PER_RUN = 50;
+
+/** Wait after a first failed mirror, doubling per further failure up to the max */
+const MIRROR_RETRY_BASE_MS = 6 * 60 * 60 * 1000;
+const MIRROR_RETRY_MAX_MS = 7 * 24 * 60 * 60 * 1000;
+
+// ============================================
+// Stores
+// ============================================
+
+/** Local filesystem store, e.g. public/mirror served by Next as /mirror */
+export class LocalImageStore implements ImageStore {
+  constructor(private dir: string, private publicBaseUrl: string) {}
+
+  async put(key: string, data: Buffer): Promise<string> {
+    const file = path.join(this.dir, key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+    return `${this.publicBaseUrl}/${key}`;
+  }
+}
+
+/** Public Supabase Storage bucket */
+export class SupabaseImageStore implements ImageStore {
+  constructor(private supabase: SupabaseClient, private bucket: string) {}
+
+  async put(key: string, data: Buffer, contentType: string): Promise<string> {
+    const { error } = await this.supabase.storage
+      .from(this.bucket)
+      .upload(key, data, { contentType, upsert: true, cacheControl: '31536000' });
+    if (error) throw new Error(`Upload to ${this.bucket}/${key} failed: ${error.message}`);
+    return this.supabase.storage.from(this.bucket).getPublicUrl(key).data.publicUrl;
+  }
+}
+
+/**
+ * IMAGE_MIRROR_DIR set → local filesystem (public URLs under
+ * IMAGE_MIRROR_BASE_URL, default /mirror); otherwise the IMAGE_BUCKET
+ * Supabase Storage bucket (default raffle-images).
+ */
+export function imageStoreFromEnv(supabase: SupabaseClient): ImageStore {
+  if (process.env.IMAGE_MIRROR_DIR) {
+    return new LocalImageStore(process.env.IMAGE_MIRROR_DIR, process.env.IMAGE_MIRROR_BASE_URL ?? '/mirror');
+  }
+  return new SupabaseImageStore(supabase, process.env.IMAGE_BUCKET ?? 'raffle-images');
+}
+
+// ============================================
+// Perceptual hash
+// ============================================
+
+/**
+ * 64-bit difference hash (dHash): shrink to 9×8 greyscale and record
+ * whether each pixel is brighter than its right-hand neighbour. Survives
+ * resizing, recompression and small edits; returns 16 hex chars.
+ */
+export async function perceptualHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hex = '';
+  for (let nibble = 0; nibble < 16; nibble++) {
+    let value = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      const i = nibble * 4 + bit;
+      const row = Math.floor(i / 8);
+      const col = i % 8;
+      value = (value << 1) | (pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? 1 : 0);
+    }
+    hex += value.toString(16);
+  }
+  return hex;
+}
+
+/** Number of differing bits between two hashes */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    let x = parseInt(a[i] ?? '0', 16) ^ parseInt(b[i] ?? '0', 16);
+    while (x) {
+      distance += x & 1;
+      x >>= 1;
+    }
+  }
+  return distance;
+}
+
+export function isSimilarImage(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && hammingDistance(a, b) <= SIMILAR_IMAGE_DISTANCE;
+}
+
+/**
+ * Groups of raffles sharing one (near-identical) image — at least
+ * STOCK_PHOTO_MIN_RAFFLES of them, i.e. a site reusing a stock photo.
+ */
+export function findReusedImages(
+  raffles: { id: string; hash: string | null }[]
+): { hash: string; raffleIds: string[] }[] {
+  const groups: { hash: string; raffleIds: string[] }[] = [];
+  for (const raffle of raffles) {
+    if (!raffle.hash) continue;
+    const group = groups.find((g) => isSimilarImage(g.hash, raffle.hash));
+    if (group) group.raffleIds.push(raffle.id);
+    else groups.push({ hash: raffle.hash, raffleIds: [raffle.id] });
+  }
+  return groups.filter((g) => g.raffleIds.length >= STOCK_PHOTO_MIN_RAFFLES);
+}
+
+// ============================================
+// Mirroring
+// ============================================
+
+/** Is a raffle's image due a mirror attempt? Failed ones back off exponentially. */
+export function isMirrorDue(
+  raffle: { image_mirror_attempts: number | null; image_mirror_failed_at: string | null },
+  now: Date = new Date()
+): boolean {
+  const attempts = raffle.image_mirror_attempts ?? 0;
+  if (attempts === 0 || !raffle.image_mirror_failed_at) return true;
+  const wait = Math.min(MIRROR_RETRY_BASE_MS * 2 ** (attempts - 1), MIRROR_RETRY_MAX_MS);
+  return new Date(raffle.image_mirror_failed_at).getTime() + wait <= now.getTime();
+}
+
+/**
+ * Download an image, store its WebP variants under a key derived from the
+ * source URL, and hash it. Throws when the download or decode fails.
+ */
+export async function mirrorImage(
+  sourceUrl: string,
+  store: ImageStore,
+  fetchImpl: typeof fetch = fetch
+): Promise<MirroredImage> {
+  const response = await fetchImpl(sourceUrl);
+  if (!response.ok) throw new Error(`HTTP ${response.status} for ${sourceUrl}`);
+  const original = Buffer.from(await response.arrayBuffer());
+
+  const prefix = createHash('sha1').update(sourceUrl).digest('hex').slice(0, 16);
+  const variants = {} as Record<ImageVariant, string>;
+  for (const [name, width] of Object.entries(IMAGE_VARIANTS) as [ImageVariant, number][]) {
+    const data = await sharp(original)
+      .rotate()
+      .resize({ width, withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+    variants[name] = await store.put(`${prefix}/${name}.webp`, data, 'image/webp');
+  }
+
+  return { url: variants.card, hash: await perceptualHash(original), variants };
+}
+
+/**
+ * Mirror a site's live raffle images that haven't been mirrored yet (never
+ * tried first, failures once their backoff is up), then look for stock
+ * photos across its live raffles. Only groups a raffle mirrored in this run
+ * joined are reported, so a known stock photo isn't flagged every run.
+ * `fetchImpl` should be the scraper's rate-limited httpFetch.
+ */
+export async function mirrorSiteImages(
+  siteSlug: string,
+  supabase: SupabaseClient,
+  store: ImageStore,
+  fetchImpl: typeof fetch = fetch
+): Promise<{ mirrored: number; errors: string[]; reused: { hash: string; raffleIds: string[] }[] }> {
+  const errors: string[] = [];
+
+  const { data: site } = await supabase
+    .from('sites')
+    .select('id')
+    .eq('slug', siteSlug)
+    .single();
+  if (!site) return { mirrored: 0, errors: [`Site not found: ${siteSlug}`], reused: [] };
+
+  const { data, error } = await supabase
+    .from('raffles')
+    .select('id, image_source_url, image_hash, image_mirror_attempts, image_mirror_failed_at')
+    .eq('site_id', site.id)
+    .in('status', ['active', 'ending_soon', 'sold_out']);
+  if (error || !data) {
+    return { mirrored: 0, errors: [`Failed to load raffles: ${error?.message}`], reused: [] };
+  }
+
+  const now = new Date();
+  const pending = data
+    .filter((r) => r.image_source_url && !r.image_hash && isMirrorDue(r, now))
+    .sort((a, b) => (a.image_mirror_attempts ?? 0) - (b.image_mirror_attempts ?? 0))
+    .slice(0, MAX_MIRRORS_PER_RUN);
+  const mirrored = new Set<string>();
+
+  for (const raffle of pending) {
+    try {
+      const image = await mirrorImage(raffle.image_source_url, store, fetchImpl);
+      const { error: updateError } = await supabase
+        .from('raffles')
+        .update({
+          image_url: image.url,
+          image_hash: image.hash,
+          image_variants: image.variants,
+          image_mirror_attempts: 0,
+          image_mirror_failed_at: null,
+        })
+        .eq('id', raffle.id);
+      if (updateError) throw new Error(updateError.message);
+      raffle.image_hash = image.hash;
+      mirrored.add(raffle.id);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      errors.push(`Mirror ${raffle.image_source_url}: ${msg}`);
+      await supabase
+        .from('raffles')
+        .update({ image_mirror_attempts: (raffle.image_mirror_attempts ?? 0) + 1, image_mirror_failed_at: now.toISOString() })
+        .eq('id', raffle.id);
+    }
+  }
+
+  const reused = findReusedImages(data.map((r) => ({ id: r.id, hash: r.image_hash })))
+    .filter((group) => group.raffleIds.some((id) => mirrored.has(id)));
+  return { mirrored: mirrored.size, errors, reused };
+}
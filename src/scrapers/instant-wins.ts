@@ -0,0 +1,129 @@
+/**
+ * Instant Wins — extract the instant-win prize list from a detail page
+ *
+ * WooCommerce instant-win plugins render the prize list as a table or list
+ * under the main competition, in one of two shapes:
+ *
+ *   Aggregated:  "£500 Tax Free Cash   3/10 won"
+ *                "10 x £50 Site Credit — 7 remaining"
+ *   Per ticket:  "Ticket #01234  £50 Site Credit  Won by J. Smith"
+ *                "Ticket #04321  £50 Site Credit  Available"
+ *
+ * Both are normalised to one ScrapedInstantWin per distinct prize.
+ */
+import { parseMoney } from '../lib/utils';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ScrapedInstantWin {
+  prize: string;
+  value?: number;       // pence, per prize
+  quantity: number;
+  quantityWon: number;
+}
+
+/** Rows inside the instant-win section on the plugins we've seen */
+export const INSTANT_WIN_ROW_SELECTOR = [
+  '.instant-wins tr:has(td)',
+  '.instant-wins li',
+  '.instant-win-prizes tr:has(td)',
+  '.instant-win-prizes li',
+  '.instant-win-row',
+  '[class*="instant-win"] .prize-row',
+].join(', ');
+
+// ============================================
+// Row parsing
+// ============================================
+
+const WON_RE = /\b(won|claimed|winner)\b/i;
+const AVAILABLE_RE = /\b(available|unclaimed|still to be won|to be won)\b/i;
+
+/**
+ * Parse one row of instant-win text. Returns null for header/empty rows.
+ */
+export function parseInstantWinRow(text: string): ScrapedInstantWin | null {
+  let rest = text.replace(/\s+/g, ' ').trim();
+  if (!rest) return null;
+
+  let quantity: number | undefined;
+  let quantityWon: number | undefined;
+
+  // "3/10 won", "3 of 10 claimed"
+  const wonOf = rest.match(/(\d+)\s*(?:\/|of)\s*(\d+)\s*(?:won|claimed)/i);
+  // "7/10 remaining", "7 of 10 left"
+  const leftOf = rest.match(/(\d+)\s*(?:\/|of)\s*(\d+)\s*(?:left|remaining|available)/i);
+  if (wonOf) {
+    quantityWon = parseInt(wonOf[1], 10);
+    quantity = parseInt(wonOf[2], 10);
+    rest = rest.replace(wonOf[0], ' ');
+  } else if (leftOf) {
+    quantity = parseInt(leftOf[2], 10);
+    quantityWon = quantity - parseInt(leftOf[1], 10);
+    rest = rest.replace(leftOf[0], ' ');
+  } else {
+    // "10 x £50 Site Credit — 7 remaining"
+    const times = rest.match(/^(\d+)\s*x\s+/i);
+    const left = rest.match(/(\d+)\s*(?:left|remaining)|(?:left|remaining)[:\s]*(\d+)/i);
+    if (times) {
+      quantity = parseInt(times[1], 10);
+      rest = rest.replace(times[0], '');
+      if (left) {
+        quantityWon = quantity - parseInt(left[1] ?? left[2], 10);
+        rest = rest.replace(left[0], ' ');
+      }
+    }
+  }
+
+  // Per-ticket rows: one prize each, status word decides won/available
+  if (quantity == null) {
+    quantity = 1;
+    quantityWon = WON_RE.test(rest) && !AVAILABLE_RE.test(rest) ? 1 : 0;
+  }
+
+  const prize = rest
+    .replace(/\b(?:won\s+by|winner)\b[:\s].*$/i, '')
+    .replace(/\bticket\s*(?:no\.?|number)?\s*#?\s*\d+\b/gi, '')
+    .replace(/#\s*\d+/g, '')
+    .replace(AVAILABLE_RE, '')
+    .replace(WON_RE, '')
+    .replace(/\s*[|–—-]\s*$/, '')
+    .replace(/^\s*[|–—-]\s*/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (!prize || !/[a-z£]/i.test(prize) || /^prize(\s+status)?$/i.test(prize)) return null;
+
+  return {
+    prize,
+    value: parseMoney(prize),
+    quantity,
+    quantityWon: Math.min(Math.max(quantityWon ?? 0, 0), quantity),
+  };
+}
+
+/**
+ * Parse and merge rows into one entry per distinct prize (case-insensitive).
+ */
+export function parseInstantWinRows(rows: string[]): ScrapedInstantWin[] {
+  const byPrize = new Map<string, ScrapedInstantWin>();
+
+  for (const row of rows) {
+    const parsed = parseInstantWinRow(row);
+    if (!parsed) continue;
+
+    const key = parsed.prize.toLowerCase();
+    const existing = byPrize.get(key);
+    if (existing) {
+      existing.quantity += parsed.quantity;
+      existing.quantityWon += parsed.quantityWon;
+      existing.value ??= parsed.value;
+    } else {
+      byPrize.set(key, { ...parsed });
+    }
+  }
+
+  return Array.from(byPrize.values());
+}
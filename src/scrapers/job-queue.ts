@@ -0,0 +1,245 @@
+/**
+ * Scrape job queue — per-site schedules, locks and retries
+ *
+ * The scraper service used to run every site on two global crons behind one
+ * lock, so a slow site held up quick updates everywhere. Jobs now live in
+ * `scrape_jobs` (one site, full / quick / ending) and the service works them:
+ *   - enqueueDueJobs() queues a job per site and mode once the site's
+ *     full_interval_minutes / quick_interval_minutes have passed; sites with
+ *     an ending_soon raffle closing within the ending-soon window get
+ *     'ending' jobs (ending-soon.ts) on the lane's cadence at ENDING_PRIORITY
+ *   - claimJob() takes the highest-priority due job whose site has nothing
+ *     running — the per-site lock is a unique index on running jobs
+ *   - finishJob() marks it done, or re-queues it after retryDelay() until
+ *     max_attempts; requeueJob() re-queues it without using up an attempt
+ * The SQL lives in migrations 021_scrape_jobs.sql, 022_ending_soon_lane.sql
+ * and 028_requeue_scrape_job.sql.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SiteRun } from './run-all';
+import { endingLaneConfig } from './ending-soon';
+
+// ============================================
+// Types
+// ============================================
+
+export type ScrapeMode = 'full' | 'quick' | 'ending';
+
+/** A claimed (running) job */
+export interface ScrapeJob {
+  id: string;
+  siteSlug: string;
+  mode: ScrapeMode;
+  attempts: number;      // including this one
+  maxAttempts: number;
+}
+
+/** Priority of ending-soon jobs — ahead of every full and quick job */
+export const ENDING_PRIORITY = 10;
+
+/** Priority of jobs triggered by hand (POST /run) — ahead of everything scheduled */
+export const MANUAL_PRIORITY = 20;
+
+/** First retry delay; doubles per attempt */
+const RETRY_BASE_MS = 2 * 60 * 1000;
+
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+// ============================================
+// Pure helpers
+// ============================================
+
+/** Backoff before retrying a job that failed on its `attempts`-th attempt */
+export function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+}
+
+/**
+ * Why a job failed, from the runs it produced — null when it succeeded.
+ * `partial` runs persisted data, so they count as done.
+ */
+export function jobError(runs: SiteRun[]): string | null {
+  const failed = runs.filter((r) => r.status === 'failed');
+  if (failed.length === 0) return null;
+  return failed.map((r) => r.errorMessage ?? 'failed').join('; ');
+}
+
+// ============================================
+// Queue operations
+// ============================================
+
+/** Queue the jobs that are due for these sites. Returns the number queued. */
+export async function enqueueDueJobs(siteSlugs: string[], supabase: SupabaseClient): Promise<number> {
+  const lane = endingLaneConfig();
+  const { data, error } = await supabase.rpc('enqueue_due_scrape_jobs', {
+    p_site_slugs: siteSlugs,
+    p_ending_within: `${lane.windowMinutes} minutes`,
+    p_ending_interval: `${lane.intervalMinutes} minutes`,
+    p_ending_priority: ENDING_PRIORITY,
+  });
+  if (error) {
+    console.error(`[jobs] Failed to queue due jobs: ${error.message}`);
+    return 0;
+  }
+  return (data as number | null) ?? 0;
+}
+
+/**
+ * Queue one job now, e.g. an ad hoc run from the control server. When the
+ * site already has a job of this mode queued, that one is bumped to
+ * `priority` and run now instead. Returns the job id.
+ */
+export async function enqueueJob(
+  siteSlug: string,
+  mode: ScrapeMode,
+  priority: number,
+  supabase: SupabaseClient
+): Promise<string | null> {
+  const { data: site } = await supabase
+    .from('sites')
+    .select('id')
+    .eq('slug', siteSlug)
+    .single();
+  if (!site) return null;
+
+  const { data: job, error } = await supabase
+    .from('scrape_jobs')
+    .insert({ site_id: site.id, mode, priority })
+    .select('id')
+    .single();
+  if (job) return job.id as string;
+
+  // 23505: a job is already queued for this site and mode (idx_scrape_jobs_queued)
+  if (error?.code !== '23505') {
+    console.error(`[jobs] Failed to queue ${mode} job for ${siteSlug}: ${error?.message}`);
+    return null;
+  }
+
+  const { data: queued, error: bumpError } = await supabase
+    .from('scrape_jobs')
+    .update({ priority, run_at: new Date().toISOString() })
+    .eq('site_id', site.id)
+    .eq('mode', mode)
+    .eq('status', 'queued')
+    .select('id')
+    .single();
+  if (bumpError || !queued) {
+    console.error(`[jobs] Failed to bump queued ${mode} job for ${siteSlug}: ${bumpError?.message}`);
+    return null;
+  }
+  return queued.id as string;
+}
+
+/** Claim the next due job, or null when there's nothing to run */
+export async function claimJob(supabase: SupabaseClient): Promise<ScrapeJob | null> {
+  const { data, error } = await supabase.rpc('claim_scrape_job');
+  if (error) {
+    console.error(`[jobs] Failed to claim a job: ${error.message}`);
+    return null;
+  }
+
+  const row = (data as Array<{ job_id: string; site_slug: string; mode: ScrapeMode; attempts: number; max_attempts: number }> | null)?.[0];
+  if (!row) return null;
+  return {
+    id: row.job_id,
+    siteSlug: row.site_slug,
+    mode: row.mode,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+  };
+}
+
+/**
+ * Finish a claimed job. With an error it's re-queued after retryDelay(),
+ * unless it's out of attempts. Returns the job's new status.
+ */
+export async function finishJob(
+  job: ScrapeJob,
+  jobErrorMessage: string | null,
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<string | null> {
+  const retryAt = jobErrorMessage && job.attempts < job.maxAttempts
+    ? new Date(now.getTime() + retryDelay(job.attempts)).toISOString()
+    : null;
+
+  const { data, error } = await supabase.rpc('finish_scrape_job', {
+    p_job_id: job.id,
+    p_error: jobErrorMessage,
+    p_retry_at: retryAt,
+  });
+  if (error) {
+    console.error(`[jobs] Failed to finish job ${job.id}: ${error.message}`);
+    return null;
+  }
+  return data as string | null;
+}
+
+/**
+ * Re-queue a claimed job to run again now, giving back the attempt it
+ * used — for failures that weren't the site's doing. Returns the job's new
+ * status ('failed' when a newer job is already queued).
+ */
+export async function requeueJob(
+  job: ScrapeJob,
+  jobErrorMessage: string,
+  supabase: SupabaseClient
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc('requeue_scrape_job', {
+    p_job_id: job.id,
+    p_error: jobErrorMessage,
+  });
+  if (error) {
+    console.error(`[jobs] Failed to re-queue job ${job.id}: ${error.message}`);
+    return null;
+  }
+  return data as string | null;
+}
+
+/**
+ * Fail jobs left running by a previous process (crash, restart), so they
+ * don't hold their site's lock. The next schedule tick queues fresh ones.
+ */
+export async function failInterruptedJobs(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase
+    .from('scrape_jobs')
+    .update({ status: 'failed', finished_at: new Date().toISOString(), last_error: 'Interrupted' })
+    .eq('status', 'running')
+    .select('id');
+  if (error) {
+    console.error(`[jobs] Failed to release interrupted jobs: ${error.message}`);
+    return 0;
+  }
+  return data?.length ?? 0;
+}
+
+/** Jobs of this mode that finished successfully since `since` */
+export async function countDoneJobs(mode: ScrapeMode, since: Date, supabase: SupabaseClient): Promise<number> {
+  const { count, error } = await supabase
+    .from('scrape_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('mode', mode)
+    .eq('status', 'done')
+    .gte('finished_at', since.toISOString());
+  if (error) {
+    console.error(`[jobs] Failed to count ${mode} jobs: ${error.message}`);
+    return 0;
+  }
+  return count ?? 0;
+}
+
+/** Delete finished jobs older than `days` */
+export async function pruneJobs(days: number, supabase: SupabaseClient): Promise<number> {
+  const before = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from('scrape_jobs')
+    .delete()
+    .in('status', ['done', 'failed'])
+    .lt('created_at', before)
+    .select('id');
+  if (error) {
+    console.error(`[jobs] Failed to prune old jobs: ${error.message}`);
+    return 0;
+  }
+  return data?.length ?? 0;
+}
@@ -0,0 +1,108 @@
+/**
+ * Listing-page layout fingerprints — schema-drift detection
+ *
+ * A site redesign usually doesn't break a scraper outright; it just finds
+ * fewer cards or stops matching a field's selector, and the damage only
+ * shows up later in computeQualityMetrics. Each full scrape records a
+ * structural fingerprint of the listing page(s) — card count plus hit
+ * counts for the selectors the scraper depends on — stored with the run in
+ * scrape_logs. run-all compares it against the last good run and raises a
+ * "layout changed" event instead of persisting the results.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// ============================================
+// Types
+// ============================================
+
+export interface LayoutFingerprint {
+  cards: number;                    // listing cards parsed
+  probes: Record<string, number>;   // probe name → hits (selector matches, or items with an API field)
+}
+
+/** Below this many cards last time, counts are too small to compare */
+const MIN_BASELINE_CARDS = 5;
+
+/** Card count falling below this share of the last good run = layout change */
+const MIN_CARD_RATIO = 0.5;
+
+/** Probes matching at least this often per card last time are key elements... */
+const KEY_PROBE_RATE = 0.5;
+
+/** ...and a key element whose rate falls below this share of it has gone */
+const MIN_PROBE_RATIO = 0.25;
+
+// ============================================
+// Fingerprints
+// ============================================
+
+/** Add one listing page's fingerprint to the run's running total */
+export function mergeLayouts(a: LayoutFingerprint | null, b: LayoutFingerprint): LayoutFingerprint {
+  if (!a) return { cards: b.cards, probes: { ...b.probes } };
+  const probes = { ...a.probes };
+  for (const [name, hits] of Object.entries(b.probes)) probes[name] = (probes[name] ?? 0) + hits;
+  return { cards: a.cards + b.cards, probes };
+}
+
+/**
+ * How the layout changed since the last good run — one line per change,
+ * empty when it looks the same (or there's no usable baseline). Probes are
+ * compared per card, so a site simply listing fewer competitions doesn't
+ * count, but a card count collapse does.
+ */
+export function compareLayouts(
+  previous: LayoutFingerprint | null,
+  current: LayoutFingerprint
+): string[] {
+  if (!previous || previous.cards < MIN_BASELINE_CARDS) return [];
+  const changes: string[] = [];
+
+  if (current.cards < previous.cards * MIN_CARD_RATIO) {
+    changes.push(`cards ${previous.cards} → ${current.cards}`);
+  }
+
+  for (const [name, hits] of Object.entries(previous.probes)) {
+    const previousRate = hits / previous.cards;
+    if (previousRate < KEY_PROBE_RATE) continue;
+    const currentHits = current.probes[name] ?? 0;
+    const currentRate = current.cards > 0 ? currentHits / current.cards : 0;
+    if (currentRate < previousRate * MIN_PROBE_RATIO) {
+      changes.push(`${name} ${hits} → ${currentHits}`);
+    }
+  }
+
+  return changes;
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+/** Fingerprint of the site's last successful or partial full scrape */
+export async function loadLastGoodLayout(
+  siteSlug: string,
+  supabase: SupabaseClient
+): Promise<LayoutFingerprint | null> {
+  const { data: site } = await supabase
+    .from('sites')
+    .select('id')
+    .eq('slug', siteSlug)
+    .single();
+  if (!site) return null;
+
+  const { data, error } = await supabase
+    .from('scrape_logs')
+    .select('layout_fingerprint')
+    .eq('site_id', site.id)
+    .in('status', ['success', 'partial'])
+    .not('layout_fingerprint', 'is', null)
+    .order('started_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error(`[layout] Failed to load last layout for ${siteSlug}: ${error.message}`);
+    return null;
+  }
+
+  return (data?.[0]?.layout_fingerprint as LayoutFingerprint | undefined) ?? null;
+}
@@ -8,14 +8,18 @@
  * Images on llfgames.com.
  */
 
-import { BrowserContext, Page } from 'playwright';
+import { BrowserContext } from 'playwright';
+import type { CheerioAPI } from 'cheerio';
 import {
   BaseScraper,
   ScrapedRaffle,
   ScraperResult,
   QuickUpdateResult,
 } from './base';
+import { DEFAULT_POLITENESS } from './politeness';
 import { parsePriceToPence, extractSlugFromUrl } from '../lib/utils';
+import { mostConfidentUkDate, parseUkDate } from '../lib/uk-date';
+import { readDetailExtras, textLines } from './html';
 
 // ============================================
 // Types
@@ -40,6 +44,12 @@ export class LlfGamesScraper extends BaseScraper {
   name = 'LLF Games';
   siteSlug = 'llf-games';
   baseUrl = 'https://llfgames.com';
+  politeness = { ...DEFAULT_POLITENESS, requestsPerMinute: 45 };
+  protected layoutProbes = {
+    competitionLinks: 'a[href*="/competition/"]',
+    cardTitles: 'li h2',
+    cardImages: 'li img',
+  };
 
   private listingUrl = 'https://llfgames.com/shop/';
 
@@ -82,8 +92,6 @@ export class LlfGamesScraper extends BaseScraper {
           const fallback = this.buildRaffleFromCard(card);
           if (fallback) raffles.push(fallback);
         }
-
-        await this.delay(800);
       }
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -141,82 +149,71 @@ export class LlfGamesScraper extends BaseScraper {
   // ==========================================
 
   private async scrapeListingPage(context: BrowserContext): Promise<ListingCard[]> {
-    const page = await context.newPage();
+    const $ = await this.loadDocument(context, this.listingUrl, {
+      readySelector: 'a[href*="/competition/"]',
+      prepare: async (page) => {
+        await page.waitForSelector('a[href*="/competition/"]', { timeout: 15000 }).catch(() => {});
+        await this.scrollToLoadAll(page, 15, 600);
+      },
+    });
+    if (!$) throw new Error(`Failed to load listing page: ${this.listingUrl}`);
+
+    // The /shop/ page lists all competitions with titles and "BUY TICKETS" links
+    const rawCards: Array<{
+      url: string;
+      title: string;
+      imageUrl: string;
+    }> = [];
+
+    const seen = new Set<string>();
+
+    // Find all "BUY TICKETS" links which point to /competition/ URLs
+    $('a[href*="/competition/"]').each((_, a) => {
+      const href = $(a).attr('href');
+      if (!href) return;
+      const url = new URL(href, this.baseUrl).toString();
+
+      if (seen.has(url)) return;
+      seen.add(url);
+
+      // Look for the competition title — usually an h2 sibling or parent
+      let title = '';
+      const parentLi = $(a).closest('li');
+      if (parentLi.length > 0) {
+        title = parentLi.find('h2').first().text().trim();
+      }
 
-    try {
-      const ok = await this.navigateWithRetry(page, this.listingUrl);
-      if (!ok) throw new Error(`Failed to load listing page: ${this.listingUrl}`);
-
-      await page.waitForSelector('a[href*="/competition/"]', { timeout: 15000 }).catch(() => {});
-      await this.scrollToLoadAll(page);
-
-      // The /shop/ page lists all competitions with titles and "BUY TICKETS" links
-      const rawCards = await page.evaluate(() => {
-        const results: Array<{
-          url: string;
-          title: string;
-          imageUrl: string;
-        }> = [];
-
-        const seen = new Set<string>();
-
-        // Find all "BUY TICKETS" links which point to /competition/ URLs
-        const links = document.querySelectorAll('a[href*="/competition/"]');
-
-        links.forEach((el) => {
-          const a = el as HTMLAnchorElement;
-          const href = a.href;
-
-          if (seen.has(href)) return;
-          seen.add(href);
-
-          // Look for the competition title — usually an h2 sibling or parent
-          let title = '';
-          const parentLi = a.closest('li');
-          if (parentLi) {
-            const h2 = parentLi.querySelector('h2');
-            if (h2) title = (h2.textContent || '').trim();
-          }
-
-          // If no title from li/h2, check the previous sibling h2
-          if (!title) {
-            let prev = a.parentElement?.previousElementSibling;
-            while (prev) {
-              const h2 = prev.querySelector('h2') || (prev.tagName === 'H2' ? prev : null);
-              if (h2) {
-                title = (h2.textContent || '').trim();
-                break;
-              }
-              prev = prev.previousElementSibling;
-            }
-          }
-
-          // Skip if no title
-          if (!title || title.length < 5) return;
-
-          // Image from the card area
-          const img = parentLi?.querySelector('img') as HTMLImageElement | null;
-
-          results.push({
-            url: href,
-            title,
-            imageUrl: img ? img.src : '',
-          });
+      // If no title from li/h2, check the previous sibling h2
+      if (!title) {
+        $(a).parent().prevAll().each((__, prev) => {
+          const h2 = $(prev).is('h2') ? $(prev) : $(prev).find('h2').first();
+          if (h2.length === 0) return;
+          title = h2.text().trim();
+          return false;
         });
+      }
 
-        return results;
-      });
+      // Skip if no title
+      if (!title || title.length < 5) return;
 
-      return rawCards
-        .filter(c => c.title && c.url)
-        .map(c => ({
-          title: c.title,
-          url: c.url,
-          imageUrl: c.imageUrl || undefined,
-        } as ListingCard));
-    } finally {
-      await page.close();
-    }
+      // Image from the card area
+      const src = parentLi.find('img').first().attr('src');
+
+      rawCards.push({
+        url,
+        title,
+        imageUrl: src ? new URL(src, this.baseUrl).toString() : '',
+      });
+    });
+
+    await this.recordListingLayout($, rawCards.length);
+    return rawCards
+      .filter(c => c.title && c.url)
+      .map(c => ({
+        title: c.title,
+        url: c.url,
+        imageUrl: c.imageUrl || undefined,
+      } as ListingCard));
   }
 
   private parseListingCard(raw: {
@@ -320,143 +317,139 @@ export class LlfGamesScraper extends BaseScraper {
     context: BrowserContext,
     card: ListingCard,
   ): Promise<ScrapedRaffle | null> {
-    const page = await context.newPage();
+    const $ = await this.loadDocument(context, card.url, { readySelector: 'h1, .product_title', waitMs: 10000 });
+    if (!$) return this.buildRaffleFromCard(card);
 
-    try {
-      const ok = await this.navigateWithRetry(page, card.url);
-      if (!ok) return this.buildRaffleFromCard(card);
+    const pageData = this.readDetailPage($);
 
-      await page.waitForSelector('h1, .product_title', { timeout: 10000 }).catch(() => {});
+    const externalId = extractSlugFromUrl(card.url);
+    if (!externalId) return null;
 
-      const pageData = await page.evaluate(() => {
-        const body = document.body.innerText;
+    const totalTickets = pageData.totalTicketsStr
+      ? parseInt(pageData.totalTicketsStr.replace(/[^0-9]/g, ''), 10)
+      : undefined;
+
+    const endDate = mostConfidentUkDate([pageData.drawDateStr, card.drawDateText])?.date;
+
+    const cashAlternative = pageData.cashAltStr
+      ? parsePriceToPence(pageData.cashAltStr) ?? undefined
+      : card.cashAlternative;
+
+    const percentSold = pageData.percentStr
+      ? parseFloat(pageData.percentStr)
+      : card.percentSold;
+
+    // Parse ticket price from detail page
+    let ticketPrice = card.ticketPrice;
+    if (!ticketPrice && pageData.priceStr) {
+      // Handle pence format: "5p"
+      const penceMatch = pageData.priceStr.match(/^(\d+)p$/i);
+      if (penceMatch) {
+        ticketPrice = parseInt(penceMatch[1], 10);
+      } else {
+        ticketPrice = parsePriceToPence(pageData.priceStr) ?? undefined;
+      }
+    }
 
-        const h1 = document.querySelector('h1, .product_title');
-        const title = h1 ? (h1.textContent || '').trim() : '';
+    let ticketsSold: number | undefined;
+    if (totalTickets && percentSold != null) {
+      ticketsSold = Math.round((percentSold / 100) * totalTickets);
+    }
 
-        // Total tickets: "2450000 tickets available" or "total amount of tickets...is (2,450,000)"
-        let totalTicketsStr: string | null = null;
-        const ticketsAvailMatch = body.match(/([\d,]+)\s*tickets\s*available/i);
-        if (ticketsAvailMatch) {
-          totalTicketsStr = ticketsAvailMatch[1];
-        } else {
-          const totalMatch = body.match(/total\s*(?:amount\s*of\s*)?tickets[^(]*([\d,]+)/i);
-          if (totalMatch) totalTicketsStr = totalMatch[1];
-        }
+    const drawType = pageData.isAutomated ? 'auto_draw' : (card.drawType || 'live_draw');
 
-        // Also try ratio format: "1726970 / 2450000"
-        let ticketsSoldFromRatio: string | null = null;
-        let totalFromRatio: string | null = null;
-        const ratioMatch = body.match(/([\d,]+)\s*\/\s*([\d,]+)/);
-        if (ratioMatch) {
-          ticketsSoldFromRatio = ratioMatch[1];
-          totalFromRatio = ratioMatch[2];
-          if (!totalTicketsStr) totalTicketsStr = totalFromRatio;
-        }
+    const prizeValue = pageData.prizeValueStr
+      ? parseInt(pageData.prizeValueStr.replace(/,/g, ''), 10) * 100
+      : undefined;
 
-        // Draw date: "Live draw Friday 30th January @ 10:00pm"
-        // or "draw will happen on January 30, 2026"
-        const liveDrawMatch = body.match(/live\s*draw\s+(.+?)(?:\n|$)/i);
-        const drawDateStr = liveDrawMatch ? liveDrawMatch[1].trim() : null;
-
-        // Cash alternative: "Cash Alternative: £37,500"
-        const cashMatch = body.match(/cash\s*alternative[:\s]*£([\d,]+)/i);
-        const cashAltStr = cashMatch ? '£' + cashMatch[1] : null;
-
-        // Prize value from body text
-        const prizeValueMatch =
-          body.match(/\bworth\s+(?:approximately\s+)?£([\d,]+)/i) ||
-          body.match(/\bRRP\s*[:\s]+£([\d,]+)/i) ||
-          body.match(/\bvalued?\s+at\s+£([\d,]+)/i) ||
-          body.match(/\bprize\s+value\s*[:\s]+£([\d,]+)/i);
-        const prizeValueStr = prizeValueMatch ? prizeValueMatch[1] : null;
-
-        // Price: "£0.04 Per Entry" or "TICKETS JUST 5P" or "Entry Just 4p"
-        let priceStr: string | null = null;
-        const perEntryMatch = body.match(/£([\d.]+)\s*per\s*entry/i);
-        if (perEntryMatch) {
-          priceStr = '£' + perEntryMatch[1];
-        } else {
-          const justMatch = body.match(/(?:just|only|from)\s*(\d+)p/i);
-          if (justMatch) priceStr = justMatch[1] + 'p';
-        }
-
-        // Image
-        const mainImg = document.querySelector('.woocommerce-product-gallery img, img.wp-post-image, .product img') as HTMLImageElement | null;
-        const imageUrl = mainImg?.src || null;
+    const { instantWins, prizes, priceTiers, maxPerPerson } = readDetailExtras($, ticketPrice);
 
-        // Percent sold: "70% Sold" or "70%"
-        const percentMatch = body.match(/(\d+)%\s*(?:sold|of\s*tickets\s*sold)/i);
-        const percentStr = percentMatch ? percentMatch[1] : null;
+    return {
+      externalId,
+      title: this.sanitizeTitle(pageData.title || card.title, card.url),
+      sourceUrl: card.url,
+      imageUrl: pageData.imageUrl || card.imageUrl,
+      ticketPrice,
+      priceTiers,
+      totalTickets,
+      ticketsSold,
+      maxPerPerson,
+      percentSold,
+      cashAlternative,
+      prizeValue,
+      endDate,
+      drawType,
+      instantWins,
+      prizes,
+    };
+  }
 
-        // Draw type
-        const isAutomated = /automated draw/i.test(body);
+  /** Ticket counts, draw date, price and values from the detail page text */
+  private readDetailPage($: CheerioAPI) {
+    const body = textLines($).join('\n');
 
-        return {
-          title, totalTicketsStr, drawDateStr, cashAltStr, priceStr,
-          imageUrl, percentStr, isAutomated, ticketsSoldFromRatio, prizeValueStr,
-        };
-      });
+    const title = $('h1, .product_title').first().text().trim();
 
-      const externalId = extractSlugFromUrl(card.url);
-      if (!externalId) return null;
-
-      const totalTickets = pageData.totalTicketsStr
-        ? parseInt(pageData.totalTicketsStr.replace(/[^0-9]/g, ''), 10)
-        : undefined;
-
-      const endDate = pageData.drawDateStr
-        ? this.parseDrawDate(pageData.drawDateStr)
-        : this.parseRelativeDrawDate(card.drawDateText);
-
-      const cashAlternative = pageData.cashAltStr
-        ? parsePriceToPence(pageData.cashAltStr) ?? undefined
-        : card.cashAlternative;
-
-      const percentSold = pageData.percentStr
-        ? parseFloat(pageData.percentStr)
-        : card.percentSold;
-
-      // Parse ticket price from detail page
-      let ticketPrice = card.ticketPrice;
-      if (!ticketPrice && pageData.priceStr) {
-        // Handle pence format: "5p"
-        const penceMatch = pageData.priceStr.match(/^(\d+)p$/i);
-        if (penceMatch) {
-          ticketPrice = parseInt(penceMatch[1], 10);
-        } else {
-          ticketPrice = parsePriceToPence(pageData.priceStr) ?? undefined;
-        }
-      }
+    // Total tickets: "2450000 tickets available" or "total amount of tickets...is (2,450,000)"
+    let totalTicketsStr: string | null = null;
+    const ticketsAvailMatch = body.match(/([\d,]+)\s*tickets\s*available/i);
+    if (ticketsAvailMatch) {
+      totalTicketsStr = ticketsAvailMatch[1];
+    } else {
+      const totalMatch = body.match(/total\s*(?:amount\s*of\s*)?tickets[^(]*([\d,]+)/i);
+      if (totalMatch) totalTicketsStr = totalMatch[1];
+    }
 
-      let ticketsSold: number | undefined;
-      if (totalTickets && percentSold != null) {
-        ticketsSold = Math.round((percentSold / 100) * totalTickets);
-      }
+    // Also try ratio format: "1726970 / 2450000"
+    let ticketsSoldFromRatio: string | null = null;
+    const ratioMatch = body.match(/([\d,]+)\s*\/\s*([\d,]+)/);
+    if (ratioMatch) {
+      ticketsSoldFromRatio = ratioMatch[1];
+      if (!totalTicketsStr) totalTicketsStr = ratioMatch[2];
+    }
 
-      const drawType = pageData.isAutomated ? 'auto_draw' : (card.drawType || 'live_draw');
-
-      const prizeValue = pageData.prizeValueStr
-        ? parseInt(pageData.prizeValueStr.replace(/,/g, ''), 10) * 100
-        : undefined;
-
-      return {
-        externalId,
-        title: this.sanitizeTitle(pageData.title || card.title, card.url),
-        sourceUrl: card.url,
-        imageUrl: pageData.imageUrl || card.imageUrl,
-        ticketPrice,
-        totalTickets,
-        ticketsSold,
-        percentSold,
-        cashAlternative,
-        prizeValue,
-        endDate,
-        drawType,
-      };
-    } finally {
-      await page.close();
+    // Draw date: "Live draw Friday 30th January @ 10:00pm"
+    // or "draw will happen on January 30, 2026"
+    const liveDrawMatch = body.match(/live\s*draw\s+(.+?)(?:\n|$)/i);
+    const drawDateStr = liveDrawMatch ? liveDrawMatch[1].trim() : null;
+
+    // Cash alternative: "Cash Alternative: £37,500"
+    const cashMatch = body.match(/cash\s*alternative[:\s]*£([\d,]+)/i);
+    const cashAltStr = cashMatch ? '£' + cashMatch[1] : null;
+
+    // Prize value from body text
+    const prizeValueMatch =
+      body.match(/\bworth\s+(?:approximately\s+)?£([\d,]+)/i) ||
+      body.match(/\bRRP\s*[:\s]+£([\d,]+)/i) ||
+      body.match(/\bvalued?\s+at\s+£([\d,]+)/i) ||
+      body.match(/\bprize\s+value\s*[:\s]+£([\d,]+)/i);
+    const prizeValueStr = prizeValueMatch ? prizeValueMatch[1] : null;
+
+    // Price: "£0.04 Per Entry" or "TICKETS JUST 5P" or "Entry Just 4p"
+    let priceStr: string | null = null;
+    const perEntryMatch = body.match(/£([\d.]+)\s*per\s*entry/i);
+    if (perEntryMatch) {
+      priceStr = '£' + perEntryMatch[1];
+    } else {
+      const justMatch = body.match(/(?:just|only|from)\s*(\d+)p/i);
+      if (justMatch) priceStr = justMatch[1] + 'p';
     }
+
+    // Image
+    const mainImg = $('.woocommerce-product-gallery img, img.wp-post-image, .product img').first().attr('src');
+    const imageUrl = mainImg ? new URL(mainImg, this.baseUrl).toString() : null;
+
+    // Percent sold: "70% Sold" or "70%"
+    const percentMatch = body.match(/(\d+)%\s*(?:sold|of\s*tickets\s*sold)/i);
+    const percentStr = percentMatch ? percentMatch[1] : null;
+
+    // Draw type
+    const isAutomated = /automated draw/i.test(body);
+
+    return {
+      title, totalTicketsStr, drawDateStr, cashAltStr, priceStr,
+      imageUrl, percentStr, isAutomated, ticketsSoldFromRatio, prizeValueStr,
+    };
   }
 
   // ==========================================
@@ -475,104 +468,8 @@ export class LlfGamesScraper extends BaseScraper {
       ticketPrice: card.ticketPrice,
       percentSold: card.percentSold,
       cashAlternative: card.cashAlternative,
-      endDate: this.parseRelativeDrawDate(card.drawDateText),
+      endDate: parseUkDate(card.drawDateText)?.date,
       drawType: card.drawType,
     };
   }
-
-  // ==========================================
-  // Helpers
-  // ==========================================
-
-  private parseDrawDate(text: string): Date | undefined {
-    try {
-      const cleaned = text
-        .replace(/^(monday|tuesday|wednesday|thursday|friday|saturday|sunday)\s+/i, '')
-        .replace(/(\d+)(st|nd|rd|th)/i, '$1')
-        .replace(/@/g, 'at')
-        .trim();
-
-      const match = cleaned.match(
-        /(\d{1,2})\s+(january|february|march|april|may|june|july|august|september|october|november|december)(?:\s+(\d{4}))?(?:\s+at\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm))?/i
-      );
-      if (!match) return undefined;
-
-      const day = parseInt(match[1], 10);
-      const monthStr = match[2].toLowerCase();
-      const year = match[3] ? parseInt(match[3], 10) : new Date().getFullYear();
-      let hour = match[4] ? parseInt(match[4], 10) : 21;
-      const minute = match[5] ? parseInt(match[5], 10) : 0;
-      const ampm = match[6]?.toLowerCase();
-
-      const months: Record<string, number> = {
-        january: 0, february: 1, march: 2, april: 3,
-        may: 4, june: 5, july: 6, august: 7,
-        september: 8, october: 9, november: 10, december: 11,
-      };
-      const month = months[monthStr];
-      if (month === undefined) return undefined;
-
-      if (ampm === 'pm' && hour < 12) hour += 12;
-      if (ampm === 'am' && hour === 12) hour = 0;
-
-      const result = new Date(year, month, day, hour, minute);
-      // If no year was specified and date is in the past, the draw has ended —
-      // don't invent a future date by bumping to next year.
-      if (!match[3] && result < new Date()) return undefined;
-      return result;
-    } catch {
-      return undefined;
-    }
-  }
-
-  private parseRelativeDrawDate(text?: string): Date | undefined {
-    if (!text) return undefined;
-    const lower = text.toLowerCase();
-
-    if (lower.includes('today')) {
-      const d = new Date();
-      d.setHours(21, 0, 0, 0);
-      return d;
-    }
-    if (lower.includes('tomorrow')) {
-      const d = new Date();
-      d.setDate(d.getDate() + 1);
-      d.setHours(21, 0, 0, 0);
-      return d;
-    }
-
-    const relMatch = text.match(
-      /(?:mon|tue|wed|thu|fri|sat|sun)\w*\s+(\d{1,2})(?:st|nd|rd|th)?\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)\w*/i
-    );
-    if (relMatch) {
-      const day = parseInt(relMatch[1], 10);
-      const monthAbbr = relMatch[2].toLowerCase();
-      const monthMap: Record<string, number> = {
-        jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
-        jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
-      };
-      const month = monthMap[monthAbbr];
-      if (month === undefined) return undefined;
-
-      const now = new Date();
-      let year = now.getFullYear();
-      const candidate = new Date(year, month, day, 21, 0, 0, 0);
-      if (candidate < now) year++;
-      return new Date(year, month, day, 21, 0, 0, 0);
-    }
-
-    return undefined;
-  }
-
-  private async scrollToLoadAll(page: Page): Promise<void> {
-    let previousHeight = 0;
-    for (let i = 0; i < 15; i++) {
-      const currentHeight = await page.evaluate(() => document.body.scrollHeight);
-      if (currentHeight === previousHeight) break;
-      previousHeight = currentHeight;
-      await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
-      await this.delay(600);
-    }
-    await page.evaluate(() => window.scrollTo(0, 0));
-  }
 }
@@ -3,7 +3,7 @@
  * Site: https://www.luckydaycompetitions.com
  *
  * WooCommerce SSR site. Static HTML is served immediately — no Playwright needed.
- * Uses Node 18 native fetch + cheerio.
+ * Uses BaseScraper.fetchHtml() + cheerio.
  *
  * Ticket data format on listing cards: "Tickets remaining 98% 588/597"
  *   → ticketsRemaining = 588, totalTickets = 597, percentSold = 100 - 98 = 2
@@ -17,7 +17,14 @@ import {
   ScraperResult,
   QuickUpdateResult,
 } from './base';
+import { DEFAULT_POLITENESS } from './politeness';
 import { parsePriceToPence, extractSlugFromUrl } from '../lib/utils';
+import { parseUkDate } from '../lib/uk-date';
+import { INSTANT_WIN_ROW_SELECTOR, parseInstantWinRows } from './instant-wins';
+import { parsePrizeTiers } from './prize-tiers';
+import { parsePriceTiers } from './price-tiers';
+import { findMaxPerPerson } from './entry-cap';
+import { rowTexts } from './html';
 
 // ============================================
 // Types
@@ -115,64 +122,21 @@ export function parseCardText(lines: string[], url: string): ListingCard | null
 
 /**
  * Parse relative end-date text.
- * "Ends Tue 10th Feb" → Date at 21:00 that day (advances year if date is past).
+ * "Ends Tue 10th Feb" → Date at 21:00 London time that day.
+ * Returns undefined once the date has passed — the listing only shows live comps.
  */
-export function parseRelativeDate(text?: string): Date | undefined {
-  if (!text) return undefined;
-
-  const m = text.match(
-    /(?:mon|tue|wed|thu|fri|sat|sun)\w*\s+(\d{1,2})(?:st|nd|rd|th)?\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)\w*/i
-  );
-  if (!m) return undefined;
-
-  const day = parseInt(m[1], 10);
-  const monthMap: Record<string, number> = {
-    jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
-    jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
-  };
-  const month = monthMap[m[2].toLowerCase()];
-  if (month === undefined) return undefined;
-
-  const now = new Date();
-  const year = now.getFullYear();
-  const candidate = new Date(year, month, day, 21, 0, 0, 0);
-  // If the date has already passed this year, the competition ended — don't
-  // invent a future date by bumping to next year, just return undefined.
-  if (candidate < now) return undefined;
-
-  return candidate;
+export function parseRelativeDate(text?: string, now: Date = new Date()): Date | undefined {
+  const parsed = parseUkDate(text, { now });
+  if (!parsed || parsed.date < now) return undefined;
+  return parsed.date;
 }
 
 // ============================================
-// HTTP helper
+// HTTP settings
 // ============================================
 
-const FETCH_TIMEOUT_MS = 30_000;
-const DELAY_MS = 800;
 const MAX_PAGES = 10;
 
-async function fetchHtml(url: string): Promise<string> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
-  try {
-    const res = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; CarRaffleOdds-Bot/1.0; +https://carraffleodds.com)',
-        Accept: 'text/html,application/xhtml+xml',
-      },
-      signal: controller.signal,
-    });
-    if (!res.ok) throw new Error(`HTTP ${res.status} for ${url}`);
-    return res.text();
-  } finally {
-    clearTimeout(timer);
-  }
-}
-
-function sleep(ms: number): Promise<void> {
-  return new Promise(r => setTimeout(r, ms));
-}
-
 // ============================================
 // Scraper
 // ============================================
@@ -181,6 +145,11 @@ export class LuckyDayCompetitionsScraper extends BaseScraper {
   name = 'Lucky Day Competitions';
   siteSlug = 'lucky-day-competitions';
   baseUrl = 'https://www.luckydaycompetitions.com';
+  politeness = { ...DEFAULT_POLITENESS, requestsPerMinute: 45 };
+  protected layoutProbes = {
+    productLinks: 'li a[href*="/product/"]',
+    cardImages: 'li a[href*="/product/"] .ending-img',
+  };
 
   private listingUrl = 'https://www.luckydaycompetitions.com/all-competitions/';
 
@@ -239,8 +208,6 @@ export class LuckyDayCompetitionsScraper extends BaseScraper {
           return this.buildRaffleFromCard(card);
         });
         if (r) raffles.push(r);
-
-        await sleep(DELAY_MS);
       }
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -284,7 +251,7 @@ export class LuckyDayCompetitionsScraper extends BaseScraper {
       pageNum++;
       let html: string;
       try {
-        html = await fetchHtml(url);
+        html = await this.fetchHtml(url);
       } catch (err) {
         const msg = err instanceof Error ? err.message : String(err);
         errors.push(`Listing page ${pageNum} fetch failed: ${msg}`);
@@ -293,6 +260,7 @@ export class LuckyDayCompetitionsScraper extends BaseScraper {
 
       const $ = cheerio.load(html);
       const seen = new Set<string>();
+      const pageStart = all.length;
 
       $('li a[href*="/product/"]').each((_, el) => {
         const $a = $(el);
@@ -319,10 +287,11 @@ export class LuckyDayCompetitionsScraper extends BaseScraper {
         all.push({ ...card, imageUrl: imageUrl || undefined });
       });
 
+      await this.recordListingLayout($, all.length - pageStart);
+
       // Follow WooCommerce pagination
       const nextHref = $('a.next.page-numbers').attr('href') || null;
       url = nextHref;
-      if (url) await sleep(DELAY_MS);
     }
 
     return all;
@@ -333,7 +302,7 @@ export class LuckyDayCompetitionsScraper extends BaseScraper {
   // ==========================================
 
   private async scrapeDetailPage(card: ListingCard): Promise<ScrapedRaffle | null> {
-    const html = await fetchHtml(card.url);
+    const html = await this.fetchHtml(card.url);
     const $ = cheerio.load(html);
     const body = $.text();
 
@@ -354,6 +323,14 @@ export class LuckyDayCompetitionsScraper extends BaseScraper {
     const totalTickets = card.totalTickets
       || (ticketMatch ? parseInt(ticketMatch[1].replace(/,/g, ''), 10) : undefined);
 
+    const instantWins = parseInstantWinRows(rowTexts($, INSTANT_WIN_ROW_SELECTOR));
+
+    // Tiered draws are listed in the description, one tier per block
+    const blocks = $('.product p, .product li, .product h2, .product h3, .product button').map((_, el) => $(el).text()).get();
+    const prizes = parsePrizeTiers(blocks);
+    const priceTiers = parsePriceTiers(blocks, card.ticketPrice);
+    const maxPerPerson = findMaxPerPerson(blocks);
+
     const externalId = extractSlugFromUrl(card.url);
     if (!externalId) return null;
 
@@ -367,13 +344,17 @@ export class LuckyDayCompetitionsScraper extends BaseScraper {
       sourceUrl: card.url,
       imageUrl,
       ticketPrice: card.ticketPrice,
+      priceTiers,
       totalTickets,
       ticketsSold,
       percentSold: card.percentSold,
+      maxPerPerson,
       cashAlternative,
       prizeValue,
       endDate: parseRelativeDate(card.endDateText),
       drawType: 'live_draw',
+      instantWins: instantWins.length > 0 ? instantWins : undefined,
+      prizes,
     };
   }
 
@@ -0,0 +1,310 @@
+/**
+ * Politeness — per-site crawl policy
+ *
+ * Every scraper declares a PolitenessPolicy. BaseScraper routes all page
+ * navigations (navigateWithRetry) and direct HTTP calls (httpFetch) through
+ * one SiteGate per site, which:
+ *   - spaces requests to the policy's requests/minute (or the site's
+ *     robots.txt Crawl-delay, whichever is slower)
+ *   - caps in-flight requests at the policy's concurrency
+ *   - backs the whole site off on 429/503, honouring Retry-After
+ *   - refuses URLs the site's robots.txt disallows for our user agent
+ * Quiet hours are checked by run-all, which skips the site for that run.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface PolitenessPolicy {
+  /** Max requests (navigations + API calls) per minute */
+  requestsPerMinute: number;
+  /** Max requests in flight at once */
+  concurrency: number;
+  /** First backoff after a 429/503 or failed navigation; doubles per attempt */
+  backoffMs: number;
+  /** Cap on any single backoff, including Retry-After */
+  maxBackoffMs: number;
+  /** Skip URLs disallowed by the site's robots.txt */
+  respectRobotsTxt: boolean;
+  /** Don't scrape between these hours (Europe/London, start inclusive, may wrap midnight) */
+  quietHours?: { start: number; end: number };
+}
+
+export const DEFAULT_POLITENESS: PolitenessPolicy = {
+  requestsPerMinute: 30,
+  concurrency: 1,
+  backoffMs: 2000,
+  maxBackoffMs: 60_000,
+  respectRobotsTxt: true,
+};
+
+/** Product token matched against robots.txt User-agent lines */
+export const ROBOTS_USER_AGENT = 'CarRaffleOdds-Bot';
+
+/** Statuses that mean "slow down" rather than "broken" */
+export const BACKOFF_STATUSES = new Set([429, 503]);
+
+/** Attempts per direct HTTP request before a 429/503 is returned to the caller */
+const MAX_FETCH_ATTEMPTS = 3;
+
+/** Re-read robots.txt after this long (the scraper service runs for weeks) */
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelayMs?: number;
+}
+
+// ============================================
+// Pure helpers (exported for unit tests)
+// ============================================
+
+/**
+ * Rules from robots.txt that apply to `agent`: the groups naming our token,
+ * or the `*` group if none do.
+ */
+export function parseRobotsTxt(text: string, agent: string = ROBOTS_USER_AGENT): RobotsRules {
+  interface Group { agents: string[]; rules: RobotsRules }
+  const groups: Group[] = [];
+  let current: Group | null = null;
+  let lastWasAgent = false;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/#.*$/, '').trim();
+    const match = line.match(/^([a-z-]+)\s*:\s*(.*)$/i);
+    if (!match) continue;
+    const key = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (key === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: { allow: [], disallow: [] } };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (key === 'allow' && value) current.rules.allow.push(value);
+    else if (key === 'disallow' && value) current.rules.disallow.push(value);
+    else if (key === 'crawl-delay' && Number.isFinite(parseFloat(value))) {
+      current.rules.crawlDelayMs = parseFloat(value) * 1000;
+    }
+  }
+
+  const token = agent.toLowerCase();
+  const named = groups.filter((g) => g.agents.some((a) => a !== '*' && token.includes(a)));
+  const chosen = named.length > 0 ? named : groups.filter((g) => g.agents.includes('*'));
+
+  return chosen.reduce<RobotsRules>((acc, g) => ({
+    allow: [...acc.allow, ...g.rules.allow],
+    disallow: [...acc.disallow, ...g.rules.disallow],
+    crawlDelayMs: g.rules.crawlDelayMs ?? acc.crawlDelayMs,
+  }), { allow: [], disallow: [] });
+}
+
+/** Does a robots.txt path pattern (with `*` and trailing `$`) match this path? */
+function robotsPatternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Is `path` (pathname + query) allowed? The longest matching rule wins;
+ * Allow wins a tie. No matching rule means allowed.
+ */
+export function isAllowedByRobots(rules: RobotsRules, path: string): boolean {
+  const longest = (patterns: string[]) => patterns
+    .filter((p) => robotsPatternMatches(p, path))
+    .reduce((max, p) => Math.max(max, p.length), -1);
+
+  const disallow = longest(rules.disallow);
+  return disallow < 0 || longest(rules.allow) >= disallow;
+}
+
+/** Current hour in Europe/London (0–23) */
+function londonHour(now: Date): number {
+  const hour = new Intl.DateTimeFormat('en-GB', {
+    timeZone: 'Europe/London',
+    hour: 'numeric',
+    hourCycle: 'h23',
+  }).format(now);
+  return parseInt(hour, 10);
+}
+
+/** Is `now` inside the policy's quiet hours? */
+export function inQuietHours(policy: PolitenessPolicy, now: Date = new Date()): boolean {
+  if (!policy.quietHours) return false;
+  const { start, end } = policy.quietHours;
+  if (start === end) return false;
+  const hour = londonHour(now);
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/** Retry-After header (seconds or HTTP date) → milliseconds, if present */
+export function parseRetryAfter(value: string | null | undefined, now: Date = new Date()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now.getTime());
+}
+
+/** Exponential backoff for the nth attempt (1-based), capped at maxBackoffMs */
+export function backoffDelay(policy: PolitenessPolicy, attempt: number): number {
+  return Math.min(policy.backoffMs * 2 ** (attempt - 1), policy.maxBackoffMs);
+}
+
+// ============================================
+// Site gate
+// ============================================
+
+export interface GateClock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+const realClock: GateClock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+/**
+ * Enforces one site's policy across every scraper instance and request in
+ * this process.
+ */
+export class SiteGate {
+  private nextSlotAt = 0;
+  private inFlight = 0;
+  private waiters: (() => void)[] = [];
+  private robots = new Map<string, { loadedAt: number; rules: Promise<RobotsRules | null> }>();
+  private crawlDelayMs = 0;
+
+  constructor(
+    readonly label: string,
+    readonly policy: PolitenessPolicy,
+    private clock: GateClock = realClock,
+  ) {}
+
+  /** Run a request once a concurrency slot and a rate-limit slot are free */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      await this.waitForSlot();
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Pause the whole site after a 429/503 and return the wait applied:
+   * Retry-After if given, else exponential backoff for this attempt.
+   */
+  backOff(attempt: number, retryAfter?: string | null): number {
+    const wait = Math.min(
+      parseRetryAfter(retryAfter, new Date(this.clock.now())) ?? backoffDelay(this.policy, attempt),
+      this.policy.maxBackoffMs
+    );
+    this.nextSlotAt = Math.max(this.nextSlotAt, this.clock.now() + wait);
+    return wait;
+  }
+
+  /**
+   * May we request this URL? Loads (and caches) the origin's robots.txt with
+   * `fetchImpl`; an unreachable or missing robots.txt allows everything.
+   */
+  async allows(url: string, fetchImpl: typeof fetch): Promise<boolean> {
+    if (!this.policy.respectRobotsTxt) return true;
+    const { origin, pathname, search } = new URL(url);
+    if (pathname === '/robots.txt') return true;
+
+    let cached = this.robots.get(origin);
+    if (!cached || this.clock.now() - cached.loadedAt > ROBOTS_TTL_MS) {
+      cached = { loadedAt: this.clock.now(), rules: this.loadRobots(origin, fetchImpl) };
+      this.robots.set(origin, cached);
+    }
+
+    const rules = await cached.rules;
+    return !rules || isAllowedByRobots(rules, pathname + search);
+  }
+
+  /**
+   * fetch() under the policy: robots.txt check, rate/concurrency limits, and
+   * retries with backoff on 429/503. Throws for disallowed URLs.
+   */
+  async fetch(input: RequestInfo | URL, init: RequestInit | undefined, fetchImpl: typeof fetch): Promise<Response> {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+    if (!(await this.allows(url, (i, n) => this.fetch(i, n, fetchImpl)))) {
+      throw new Error(`Disallowed by robots.txt: ${url}`);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await this.run(() => fetchImpl(input, init));
+      if (!BACKOFF_STATUSES.has(response.status) || attempt >= MAX_FETCH_ATTEMPTS) return response;
+
+      const wait = this.backOff(attempt, response.headers.get('retry-after'));
+      console.warn(`[${this.label}] HTTP ${response.status} for ${url} — backing off ${wait}ms`);
+    }
+  }
+
+  private async loadRobots(origin: string, fetchImpl: typeof fetch): Promise<RobotsRules | null> {
+    try {
+      const response = await fetchImpl(`${origin}/robots.txt`, {
+        headers: { 'User-Agent': `${ROBOTS_USER_AGENT}/1.0` },
+      });
+      if (!response.ok) return null;
+      const rules = parseRobotsTxt(await response.text());
+      this.crawlDelayMs = Math.max(this.crawlDelayMs, rules.crawlDelayMs ?? 0);
+      return rules;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.warn(`[${this.label}] Could not read ${origin}/robots.txt: ${msg}`);
+      return null;
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.inFlight < Math.max(1, this.policy.concurrency)) {
+      this.inFlight++;
+      return;
+    }
+    await new Promise<void>((resolve) => this.waiters.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiters.shift();
+    if (next) next(); // hand the slot straight over
+    else this.inFlight--;
+  }
+
+  /** Reserve the next rate-limit slot, then sleep until it arrives */
+  private async waitForSlot(): Promise<void> {
+    const interval = Math.max(60_000 / this.policy.requestsPerMinute, this.crawlDelayMs);
+    const now = this.clock.now();
+    const slot = Math.max(now, this.nextSlotAt);
+    this.nextSlotAt = slot + interval;
+    if (slot > now) await this.clock.sleep(slot - now);
+  }
+}
+
+/** One gate per site, shared by every scraper instance in the process */
+const gates = new Map<string, SiteGate>();
+
+export function siteGate(siteSlug: string, policy: PolitenessPolicy, label: string = siteSlug): SiteGate {
+  let gate = gates.get(siteSlug);
+  if (!gate) {
+    gate = new SiteGate(label, policy);
+    gates.set(siteSlug, gate);
+  }
+  return gate;
+}
@@ -0,0 +1,102 @@
+/**
+ * Price Tiers — extract bundle / discount offers from a detail page
+ *
+ * Sites advertise multi-ticket pricing as buttons or free text:
+ *
+ *   Bundle:    "5 for £4", "Buy 10 tickets for £8.00"
+ *   Button:    "20 Tickets - £15", "50 entries | £35"
+ *   Per-ticket: "10+ tickets 80p each"
+ *   Discount:  "Buy 10+ tickets and save 20%" (needs the single price)
+ *
+ * All normalise to a PriceTier — `quantity` tickets for `price` pence total.
+ */
+import type { PriceTier } from '../lib/types';
+import { parseMoney } from '../lib/utils';
+
+// ============================================
+// Line parsing
+// ============================================
+
+const MONEY = String.raw`(£\s*[\d,]+(?:\.\d{1,2})?|\d+(?:\.\d+)?\s*p\b)`;
+const UNIT = String.raw`(?:tickets?|entries|entry)`;
+
+/** "5 for £4", "Buy 10 tickets for £8.00" */
+const BUNDLE_FOR_RE = new RegExp(String.raw`\b(\d+)\s*(?:${UNIT}\s*)?for\s*(?:only\s*|just\s*)?${MONEY}`, 'i');
+/** "20 Tickets - £15" — a whole line, as rendered by bundle buttons */
+const BUNDLE_BUTTON_RE = new RegExp(String.raw`^(\d+)\s*${UNIT}\s*[-–—:|]?\s*${MONEY}$`, 'i');
+/** "10+ tickets 80p each" */
+const PER_TICKET_RE = new RegExp(String.raw`\b(\d+)\s*(?:\+|or more)\s*(?:${UNIT})?.*?${MONEY}\s*(?:each|per\s*(?:ticket|entry))`, 'i');
+const PERCENT = String.raw`(\d+(?:\.\d+)?)\s*%`;
+/** "Buy 10+ tickets and save 20%", "10 or more entries get 20% off" */
+const QUANTITY_FIRST_DISCOUNT_RE = new RegExp(String.raw`\b(\d+)\s*(?:\+|or more)?\s*(?:${UNIT})?\b[^%\d]*?${PERCENT}`, 'i');
+/** "20% off when you buy 10 or more", "Save 20% on 10+ tickets" */
+const PERCENT_FIRST_DISCOUNT_RE = new RegExp(String.raw`${PERCENT}(?:\s*off)?[^%\d]*?\b(\d+)\s*(?:\+|or more|${UNIT})`, 'i');
+/** A percentage is only a discount when the line says so ("20% sold" isn't) */
+const DISCOUNT_WORD_RE = /\b(?:off|save|saving|discount)\b/i;
+
+/** Bundles larger than this are almost certainly total-ticket counts */
+const MAX_BUNDLE_QUANTITY = 1000;
+
+/**
+ * Quantity and percentage of a "buy N, save X%" offer, in either order.
+ */
+function parseDiscount(line: string): { quantity: number; percent: number } | null {
+  if (!DISCOUNT_WORD_RE.test(line)) return null;
+  const quantityFirst = line.match(QUANTITY_FIRST_DISCOUNT_RE);
+  if (quantityFirst) return { quantity: parseInt(quantityFirst[1], 10), percent: parseFloat(quantityFirst[2]) };
+  const percentFirst = line.match(PERCENT_FIRST_DISCOUNT_RE);
+  if (percentFirst) return { quantity: parseInt(percentFirst[2], 10), percent: parseFloat(percentFirst[1]) };
+  return null;
+}
+
+/**
+ * Parse one line of text into a price tier. `ticketPrice` (pence) is needed
+ * for percentage discounts and to reject "bundles" that cost more per ticket.
+ */
+export function parsePriceTierLine(text: string, ticketPrice?: number): PriceTier | null {
+  const line = text.replace(/\s+/g, ' ').trim();
+  if (!line) return null;
+
+  let tier: PriceTier | null = null;
+
+  const perTicket = line.match(PER_TICKET_RE);
+  const bundle = line.match(BUNDLE_FOR_RE) ?? line.match(BUNDLE_BUTTON_RE);
+  const discount = parseDiscount(line);
+
+  if (perTicket) {
+    const quantity = parseInt(perTicket[1], 10);
+    const unit = parseMoney(perTicket[2]);
+    if (unit) tier = { quantity, price: unit * quantity };
+  } else if (bundle) {
+    const price = parseMoney(bundle[2]);
+    if (price) tier = { quantity: parseInt(bundle[1], 10), price };
+  } else if (discount && ticketPrice) {
+    const { quantity, percent } = discount;
+    if (quantity && percent > 0 && percent < 100) {
+      tier = { quantity, price: Math.round(ticketPrice * quantity * (1 - percent / 100)) };
+    }
+  }
+
+  if (!tier || tier.quantity < 2 || tier.quantity > MAX_BUNDLE_QUANTITY) return null;
+  // A "bundle" that's no cheaper than singles is something else (totals, RRPs)
+  if (ticketPrice && tier.price >= ticketPrice * tier.quantity) return null;
+  return tier;
+}
+
+/**
+ * Parse lines into price tiers, one per bundle size (cheapest wins),
+ * ordered by quantity. Returns undefined when no offers are found.
+ */
+export function parsePriceTiers(lines: string[], ticketPrice?: number): PriceTier[] | undefined {
+  const byQuantity = new Map<number, PriceTier>();
+
+  for (const line of lines) {
+    const tier = parsePriceTierLine(line, ticketPrice);
+    if (!tier) continue;
+    const existing = byQuantity.get(tier.quantity);
+    if (!existing || tier.price < existing.price) byQuantity.set(tier.quantity, tier);
+  }
+
+  const tiers = Array.from(byQuantity.values()).sort((a, b) => a.quantity - b.quantity);
+  return tiers.length > 0 ? tiers : undefined;
+}
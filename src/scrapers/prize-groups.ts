@@ -0,0 +1,220 @@
+/**
+ * Prize groups — the same prize across sites and relistings
+ *
+ * Sites in the same parent group often list near-identical cars, and a site
+ * sometimes relists a car under a new slug. After each full scrape, run-all
+ * clusters recent vehicle raffles by normalised prize (make / model / year /
+ * variant, same image, similar claimed value) and stores a shared
+ * `prize_group_id`, so the UI can point at a better-odds listing of the same
+ * prize and analytics can count distinct prizes.
+ */
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isSimilarImage } from './image-mirror';
+
+// ============================================
+// Types
+// ============================================
+
+export interface GroupableRaffle {
+  id: string;
+  siteId: string;
+  make: string | null;
+  model: string | null;
+  year: number | null;
+  variant: string | null;
+  imageHash: string | null;      // perceptual hash (image-mirror.ts)
+  prizeValue: number | null;     // pence, site-claimed
+  prizeGroupId: string | null;
+}
+
+/** Claimed values further apart than this aren't the same prize */
+const MAX_VALUE_RATIO = 1.25;
+
+/** Ended raffles stay groupable this long, so relistings join their predecessor */
+const RELIST_WINDOW_DAYS = 60;
+
+/** Rows per select — PostgREST caps a response at 1000 */
+const PAGE_SIZE = 1000;
+
+// ============================================
+// Matching
+// ============================================
+
+/** Variant words, lowercased ("Competition xDrive" → {competition, xdrive}) */
+export function variantTokens(variant: string | null | undefined): Set<string> {
+  return new Set((variant ?? '').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean));
+}
+
+function isSubset(a: Set<string>, b: Set<string>): boolean {
+  return Array.from(a).every((t) => b.has(t));
+}
+
+/**
+ * Are these two raffles for the same prize? Make and model must match;
+ * year, variant and claimed value must not contradict each other (a missing
+ * value on either side doesn't). The same image (by perceptual hash) settles a variant mismatch.
+ */
+export function isSamePrize(a: GroupableRaffle, b: GroupableRaffle): boolean {
+  if (!a.make || !a.model || !b.make || !b.model) return false;
+  if (a.make.toLowerCase() !== b.make.toLowerCase()) return false;
+  if (a.model.toLowerCase() !== b.model.toLowerCase()) return false;
+  if (a.year != null && b.year != null && a.year !== b.year) return false;
+
+  if (a.prizeValue && b.prizeValue) {
+    const ratio = Math.max(a.prizeValue, b.prizeValue) / Math.min(a.prizeValue, b.prizeValue);
+    if (ratio > MAX_VALUE_RATIO) return false;
+  }
+
+  if (isSimilarImage(a.imageHash, b.imageHash)) return true;
+
+  const va = variantTokens(a.variant);
+  const vb = variantTokens(b.variant);
+  return va.size === 0 || vb.size === 0 || isSubset(va, vb) || isSubset(vb, va);
+}
+
+/** How many of year / variant / value / image a raffle pins down */
+function specificity(r: GroupableRaffle): number {
+  return Number(r.year != null) + Number(variantTokens(r.variant).size > 0) + Number(!!r.prizeValue) + Number(!!r.imageHash);
+}
+
+/**
+ * Cluster raffles into prize groups. Returns the group id for every raffle
+ * (null for raffles with no match). Matching isn't transitive — a raffle
+ * with no year matches both a 2022 and a 2024 car — so a raffle only joins
+ * a group when it matches every member. The most specific raffles are
+ * placed first, so a vague listing joins one concrete group (the one it was
+ * already in, if it still fits) rather than bridging two. Clusters keep the
+ * id most of their members already had, so groups are stable across runs.
+ */
+export function assignPrizeGroups(
+  raffles: GroupableRaffle[],
+  newId: () => string = randomUUID
+): Map<string, string | null> {
+  const buckets = new Map<string, GroupableRaffle[]>();
+  const clusters: GroupableRaffle[][] = [];
+  for (const r of raffles) {
+    if (!r.make || !r.model) {
+      clusters.push([r]);
+      continue;
+    }
+    const key = `${r.make.toLowerCase()}|${r.model.toLowerCase()}`;
+    buckets.set(key, [...(buckets.get(key) ?? []), r]);
+  }
+
+  for (const bucket of Array.from(buckets.values())) {
+    const ordered = [...bucket].sort((a, b) => specificity(b) - specificity(a) || a.id.localeCompare(b.id));
+    const bucketClusters: GroupableRaffle[][] = [];
+    for (const r of ordered) {
+      const fits = bucketClusters.filter((c) => c.every((m) => isSamePrize(r, m)));
+      const cluster = fits.find((c) => r.prizeGroupId && c.some((m) => m.prizeGroupId === r.prizeGroupId)) ?? fits[0];
+      if (cluster) cluster.push(r);
+      else bucketClusters.push([r]);
+    }
+    clusters.push(...bucketClusters);
+  }
+
+  const groups = new Map<string, string | null>();
+  const claimed = new Set<string>();
+  for (const members of clusters) {
+    if (members.length < 2) {
+      groups.set(members[0].id, null);
+      continue;
+    }
+
+    // Reuse the most common existing id (ties → smallest, for determinism)
+    // that another cluster hasn't taken — a split group keeps its id once
+    const counts = new Map<string, number>();
+    for (const m of members) {
+      if (m.prizeGroupId && !claimed.has(m.prizeGroupId)) counts.set(m.prizeGroupId, (counts.get(m.prizeGroupId) ?? 0) + 1);
+    }
+    const existing = Array.from(counts.entries())
+      .sort((x, y) => y[1] - x[1] || x[0].localeCompare(y[0]))[0]?.[0];
+    const groupId = existing ?? newId();
+    claimed.add(groupId);
+    for (const m of members) groups.set(m.id, groupId);
+  }
+
+  return groups;
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+interface PrizeGroupRow {
+  id: string;
+  site_id: string;
+  car_make: string | null;
+  car_model: string | null;
+  car_year: number | null;
+  car_variant: string | null;
+  image_hash: string | null;
+  prize_value: number | null;
+  prize_group_id: string | null;
+}
+
+/**
+ * Recompute prize groups for live and recently ended vehicle raffles and
+ * write any changed `prize_group_id`s. Returns the number of rows updated.
+ */
+export async function updatePrizeGroups(supabase: SupabaseClient): Promise<number> {
+  const since = new Date(Date.now() - RELIST_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const data: PrizeGroupRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .from('raffles')
+      .select('id, site_id, car_make, car_model, car_year, car_variant, image_hash, prize_value, prize_group_id')
+      .in('prize_type', ['car', 'motorcycle'])
+      .not('car_make', 'is', null)
+      .not('car_model', 'is', null)
+      .or(`status.in.(active,ending_soon,sold_out),end_date.gte.${since}`)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    // Grouping a partial set would ungroup the raffles it missed
+    if (error || !page) {
+      console.error(`[PrizeGroups] Failed to load raffles: ${error?.message}`);
+      return 0;
+    }
+    data.push(...(page as PrizeGroupRow[]));
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  const raffles: GroupableRaffle[] = data.map((row) => ({
+    id: row.id,
+    siteId: row.site_id,
+    make: row.car_make,
+    model: row.car_model,
+    year: row.car_year,
+    variant: row.car_variant,
+    imageHash: row.image_hash,
+    prizeValue: row.prize_value,
+    prizeGroupId: row.prize_group_id,
+  }));
+
+  // Batch the changed rows by target group
+  const groups = assignPrizeGroups(raffles);
+  const changes = new Map<string | null, string[]>();
+  for (const r of raffles) {
+    const groupId = groups.get(r.id) ?? null;
+    if (groupId === r.prizeGroupId) continue;
+    changes.set(groupId, [...(changes.get(groupId) ?? []), r.id]);
+  }
+
+  let updated = 0;
+  for (const [groupId, ids] of Array.from(changes.entries())) {
+    const { error: updateError } = await supabase
+      .from('raffles')
+      .update({ prize_group_id: groupId })
+      .in('id', ids);
+    if (updateError) {
+      console.error(`[PrizeGroups] Failed to update ${ids.length} raffles: ${updateError.message}`);
+    } else {
+      updated += ids.length;
+    }
+  }
+
+  return updated;
+}
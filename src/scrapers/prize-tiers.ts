@@ -0,0 +1,161 @@
+/**
+ * Prize Tiers — extract tiered draws ("1st Prize / 2nd Prize / runners-up")
+ * from a detail page.
+ *
+ * Sites list the tiers as free text in the description, in shapes like:
+ *
+ *   "1st Prize: Porsche 911 GT3 or £120,000 cash"
+ *   "2nd Prize - £5,000 Tax Free Cash"
+ *   "3rd-5th Prize: £500 each"
+ *   "10 x £100 Runner-up Prizes"
+ *
+ * Each becomes one ScrapedPrize, keyed by position (1 = headline prize).
+ */
+import { classifyPrizeType, parseMoney } from '../lib/utils';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ScrapedPrize {
+  position: number;          // 1 = main prize
+  prize: string;
+  value?: number;            // pence, per winner
+  cashAlternative?: number;  // pence, per winner
+  quantity: number;          // winners at this tier
+}
+
+// ============================================
+// Line parsing
+// ============================================
+
+const ORDINALS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5,
+  sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+};
+
+const ORDINAL = String.raw`(\d+)(?:st|nd|rd|th)|(first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth)`;
+
+/** "1st Prize: …", "2nd - 4th Prize: …", "Second Prize - …" */
+const POSITION_RE = new RegExp(
+  String.raw`^(?:${ORDINAL})(?:\s*(?:-|–|to)\s*(?:${ORDINAL}))?\s+prizes?\b\s*[:\-–—]?\s*`,
+  'i'
+);
+
+/** "10 x £100 Runner-up Prizes", "10 Runners-up win £100" */
+const RUNNER_UP_RE = /^(\d+)\s*(?:x\s+)?(.*?\brunners?[\s-]*ups?\b.*)$/i;
+
+/** Prizes classifyPrizeType doesn't know: vouchers, site credit, bundles */
+const PRIZE_NOUN_RE = /\b(?:vouchers?|credit|gift\s+cards?|bundle|hamper|box|experience)\b/i;
+
+/**
+ * Whether a tier's text names a prize: a money amount, a cash alternative
+ * or a recognisable prize. "1st prize draw happens at 9pm" is schedule
+ * wording, not a tier.
+ */
+function namesPrize(prize: string, cashAlternative: number | undefined): boolean {
+  return parseMoney(prize) != null
+    || cashAlternative != null
+    || classifyPrizeType(prize) !== 'other'
+    || PRIZE_NOUN_RE.test(prize);
+}
+
+function ordinalToNumber(digits: string | undefined, word: string | undefined): number | undefined {
+  if (digits) return parseInt(digits, 10);
+  if (word) return ORDINALS[word.toLowerCase()];
+  return undefined;
+}
+
+/**
+ * Split "Porsche 911 or £120,000 cash" into the prize and its cash alternative.
+ */
+function splitCashAlternative(text: string): { prize: string; cashAlternative?: number } {
+  const match = text.match(/\s*(?:\(|,)?\s*(?:or|cash alternative:?)\s+(£[\d,.]+\s*(?:k|million|m)?)(?:\s*(?:tax[\s-]free\s+)?cash)?(?:\s*alternative)?\s*\)?\s*$/i);
+  if (!match) return { prize: text };
+  return {
+    prize: text.slice(0, match.index).trim(),
+    cashAlternative: parseMoney(match[1]),
+  };
+}
+
+function cleanPrize(text: string): string {
+  return text
+    .replace(/\b(?:each|per winner)\b/gi, '')
+    .replace(/\s*[|–—-]\s*$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Parse one line of description text into a tier. Runner-up groups without
+ * an explicit position come back with position 0 — parsePrizeTiers numbers
+ * them after the explicit tiers.
+ */
+export function parsePrizeTierLine(text: string): ScrapedPrize | null {
+  const line = text.replace(/\s+/g, ' ').trim();
+  if (!line) return null;
+
+  const positioned = line.match(POSITION_RE);
+  if (positioned) {
+    const from = ordinalToNumber(positioned[1], positioned[2]);
+    const to = ordinalToNumber(positioned[3], positioned[4]);
+    if (!from) return null;
+
+    const { prize, cashAlternative } = splitCashAlternative(line.slice(positioned[0].length));
+    const cleaned = cleanPrize(prize);
+    if (!cleaned || !namesPrize(cleaned, cashAlternative)) return null;
+
+    return {
+      position: from,
+      prize: cleaned,
+      value: parseMoney(cleaned),
+      cashAlternative,
+      quantity: to && to > from ? to - from + 1 : 1,
+    };
+  }
+
+  const runnerUp = line.match(RUNNER_UP_RE);
+  if (runnerUp) {
+    const quantity = parseInt(runnerUp[1], 10);
+    const value = parseMoney(runnerUp[2]);
+    if (!quantity || !value) return null;
+
+    const prize = cleanPrize(
+      runnerUp[2]
+        .replace(/\brunners?[\s-]*ups?\b(?:\s+prizes?)?(?:\s+(?:win|of|receive))?/i, '')
+        .replace(/^[:\s]+/, '')
+    );
+    return { position: 0, prize: prize || `£${value / 100}`, value, quantity };
+  }
+
+  return null;
+}
+
+/**
+ * Parse description lines into prize tiers, ordered by position.
+ * Returns undefined unless at least two tiers are found — a lone
+ * "1st Prize" line is just the headline prize, already captured elsewhere.
+ */
+export function parsePrizeTiers(lines: string[]): ScrapedPrize[] | undefined {
+  const byPosition = new Map<number, ScrapedPrize>();
+  const unpositioned: ScrapedPrize[] = [];
+
+  for (const line of lines) {
+    const tier = parsePrizeTierLine(line);
+    if (!tier) continue;
+    if (tier.position === 0) {
+      unpositioned.push(tier);
+    } else if (!byPosition.has(tier.position)) {
+      byPosition.set(tier.position, tier);
+    }
+  }
+
+  const tiers = Array.from(byPosition.values()).sort((a, b) => a.position - b.position);
+  let next = tiers.reduce((max, t) => Math.max(max, t.position + t.quantity - 1), 1) + 1;
+  for (const tier of unpositioned) {
+    tiers.push({ ...tier, position: next });
+    next += tier.quantity;
+  }
+
+  return tiers.length >= 2 ? tiers : undefined;
+}
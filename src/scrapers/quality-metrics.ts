@@ -1,5 +1,8 @@
 import { classifyPrizeType } from '../lib/utils';
+import { parseCarSpec } from '../lib/car-spec';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import type { ScrapedRaffle } from './base';
+import type { StoredRaffle } from './stored-raffles';
 
 export interface QualityMetrics {
   imageNullRate: number;
@@ -18,3 +21,166 @@ export function computeQualityMetrics(raffles: ScrapedRaffle[]): QualityMetrics
     otherTypeRate: raffles.filter(r => classifyPrizeType(r.title) === 'other').length / total,
   };
 }
+
+// ============================================
+// Field coverage
+// ============================================
+
+export interface FieldCoverage {
+  count: number;
+  total: number;
+  percent: number;
+}
+
+const isVehicle = (r: ScrapedRaffle) => ['car', 'motorcycle'].includes(classifyPrizeType(r.title));
+
+/**
+ * Coverage checks: which raffles a field applies to (default all) and
+ * whether it's present. Make/model only counts for vehicles and includes
+ * what parseCarSpec will fill in at persist time.
+ */
+const COVERAGE_FIELDS: Record<string, { applies?: (r: ScrapedRaffle) => boolean; present: (r: ScrapedRaffle) => boolean }> = {
+  ticketPrice: { present: r => r.ticketPrice != null && r.ticketPrice > 0 },
+  totalTickets: { present: r => r.totalTickets != null && r.totalTickets > 0 },
+  imageUrl: { present: r => !!r.imageUrl },
+  endDate: { present: r => r.endDate != null },
+  cashAlternative: { present: r => r.cashAlternative != null && r.cashAlternative > 0 },
+  prizeValue: { present: r => r.prizeValue != null && r.prizeValue > 0 },
+  percentSold: { present: r => r.percentSold != null },
+  ticketsSold: { present: r => r.ticketsSold != null },
+  makeModel: {
+    applies: isVehicle,
+    present: r => !!(r.carMake && r.carModel) || !!parseCarSpec(r.title, r.description)?.model,
+  },
+  valueScore: {
+    present: r => !!(r.prizeValue || r.cashAlternative) && !!r.totalTickets && !!r.ticketPrice,
+  },
+};
+
+/** Per-field coverage; fields that apply to no raffle are left out */
+export function computeCoverage(raffles: ScrapedRaffle[]): Record<string, FieldCoverage> {
+  const coverage: Record<string, FieldCoverage> = {};
+  for (const [field, { applies, present }] of Object.entries(COVERAGE_FIELDS)) {
+    const pool = applies ? raffles.filter(applies) : raffles;
+    if (pool.length === 0) continue;
+    const count = pool.filter(present).length;
+    coverage[field] = { count, total: pool.length, percent: Math.round((count / pool.length) * 100) };
+  }
+  return coverage;
+}
+
+// ============================================
+// Sanity checks
+// ============================================
+
+export type SanityCheck = 'percentSoldOver100' | 'endDateInPast' | 'ticketPriceOutlier' | 'totalTicketsChanged';
+
+export interface SanityResult {
+  count: number;
+  examples: string[];   // first few externalIds
+}
+
+/** No UK competition charges more than this per ticket (pence) */
+export const MAX_TICKET_PRICE = 10_000;
+
+/** A ticket price this many times the run's median is suspect */
+const PRICE_OUTLIER_RATIO = 50;
+
+const MAX_EXAMPLES = 5;
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Values that parsed but can't be right. `stored` (the raffles as stored
+ * before this run) enables the total-tickets-changed check — sites don't
+ * change a competition's size once it's live, so a change usually means
+ * the wrong number was picked up.
+ */
+export function computeSanityChecks(
+  raffles: ScrapedRaffle[],
+  stored: Map<string, StoredRaffle> = new Map(),
+  now: Date = new Date()
+): Record<SanityCheck, SanityResult> {
+  const medianPrice = median(raffles.map(r => r.ticketPrice).filter((p): p is number => p != null && p > 0));
+
+  const checks: Record<SanityCheck, (r: ScrapedRaffle) => boolean> = {
+    percentSoldOver100: r =>
+      (r.percentSold != null && r.percentSold > 100) ||
+      (r.ticketsSold != null && r.totalTickets != null && r.ticketsSold > r.totalTickets),
+    endDateInPast: r => r.endDate != null && r.endDate < now,
+    ticketPriceOutlier: r =>
+      r.ticketPrice != null &&
+      (r.ticketPrice > MAX_TICKET_PRICE || (medianPrice != null && r.ticketPrice > medianPrice * PRICE_OUTLIER_RATIO)),
+    totalTicketsChanged: r => {
+      const before = stored.get(r.externalId)?.totalTickets;
+      return before != null && r.totalTickets != null && r.totalTickets !== before;
+    },
+  };
+
+  const results = {} as Record<SanityCheck, SanityResult>;
+  for (const [name, failing] of Object.entries(checks) as [SanityCheck, (r: ScrapedRaffle) => boolean][]) {
+    const hits = raffles.filter(failing);
+    results[name] = { count: hits.length, examples: hits.slice(0, MAX_EXAMPLES).map(r => r.externalId) };
+  }
+  return results;
+}
+
+// ============================================
+// Per-run quality report
+// ============================================
+
+export interface QualityReport extends QualityMetrics {
+  total: number;
+  coverage: Record<string, FieldCoverage>;
+  sanity: Record<SanityCheck, SanityResult>;
+}
+
+/** The part of a run's report the scraper service exports: null rates and field coverage */
+export type RunQuality = QualityMetrics & Pick<QualityReport, 'coverage'>;
+
+export function computeQualityReport(
+  raffles: ScrapedRaffle[],
+  stored?: Map<string, StoredRaffle>,
+  now: Date = new Date()
+): QualityReport {
+  return {
+    ...computeQualityMetrics(raffles),
+    total: raffles.length,
+    coverage: computeCoverage(raffles),
+    sanity: computeSanityChecks(raffles, stored, now),
+  };
+}
+
+/** Store a full scrape's quality report in scrape_quality, for per-site trends */
+export async function recordScrapeQuality(
+  siteSlug: string,
+  report: QualityReport,
+  supabase: SupabaseClient
+): Promise<void> {
+  const { data: site } = await supabase
+    .from('sites')
+    .select('id')
+    .eq('slug', siteSlug)
+    .single();
+
+  if (!site) return;
+
+  const { error } = await supabase.from('scrape_quality').insert({
+    site_id: site.id,
+    raffle_count: report.total,
+    image_null_rate: report.imageNullRate,
+    price_null_rate: report.priceNullRate,
+    other_type_rate: report.otherTypeRate,
+    coverage: report.coverage,
+    sanity: report.sanity,
+  });
+
+  if (error) {
+    console.error(`[quality] Failed to record quality for ${siteSlug}: ${error.message}`);
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Quarantine — hold back scraped records that fail hard validation rules
+ *
+ * Stale data on the public site costs less trust than wrong data. Before
+ * persistScrapeResult writes a raffle, and before persistQuickUpdate applies
+ * a listing update, it runs quarantineReasons(); a record that fails goes
+ * into `raffle_quarantine` (with what was scraped and why) instead of
+ * `raffles`, so the previous good values stay live. `npm run quarantine`
+ * lists pending records and releases (re-persists) or rejects them.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { persistQuickUpdate, persistScrapeResult } from './base';
+import type { QuickUpdate, ScrapedRaffle } from './base';
+import { MAX_TICKET_PRICE } from './quality-metrics';
+
+// ============================================
+// Rules
+// ============================================
+
+/** The stored values a new scrape is checked against */
+export interface QuarantineBaseline {
+  total_tickets: number | null;
+  percent_sold: number | null;
+}
+
+/** The scraped values the rules look at — quick updates carry no title or total */
+export type QuarantineCandidate = Pick<ScrapedRaffle, 'ticketPrice' | 'totalTickets' | 'percentSold'> & { title?: string };
+
+/** Total tickets changing by this factor either way is a mis-parse */
+const MAX_TOTAL_TICKETS_RATIO = 10;
+
+/** Percent sold can dip this much (refunds, rounding) before it counts as going backwards */
+const PERCENT_SOLD_TOLERANCE = 2;
+
+const normalise = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Why this record shouldn't go live — empty when it passes */
+export function quarantineReasons(
+  raffle: QuarantineCandidate,
+  stored: QuarantineBaseline | null,
+  siteName: string
+): string[] {
+  const reasons: string[] = [];
+
+  if (raffle.ticketPrice != null && raffle.ticketPrice > MAX_TICKET_PRICE) {
+    reasons.push(`ticket price ${raffle.ticketPrice}p`);
+  }
+
+  if (raffle.title != null && normalise(raffle.title) === normalise(siteName)) {
+    reasons.push('title is the site name');
+  }
+
+  if (stored?.total_tickets && raffle.totalTickets) {
+    const ratio = Math.max(raffle.totalTickets, stored.total_tickets) / Math.min(raffle.totalTickets, stored.total_tickets);
+    if (ratio >= MAX_TOTAL_TICKETS_RATIO) {
+      reasons.push(`total tickets ${stored.total_tickets} → ${raffle.totalTickets}`);
+    }
+  }
+
+  if (
+    stored?.percent_sold != null &&
+    raffle.percentSold != null &&
+    raffle.percentSold < Number(stored.percent_sold) - PERCENT_SOLD_TOLERANCE
+  ) {
+    reasons.push(`percent sold ${stored.percent_sold}% → ${raffle.percentSold}%`);
+  }
+
+  return reasons;
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+export type QuarantineStatus = 'pending' | 'released' | 'rejected';
+
+/** Which persist path held the record back — and so what the payload is */
+export type QuarantineSource = 'full' | 'quick';
+
+export interface QuarantinedRecord {
+  id: string;
+  site_id: string;
+  external_id: string;
+  raffle_id: string | null;          // null = would have been a new raffle
+  source: QuarantineSource;
+  payload: Record<string, unknown>;  // full: the ScrapedRaffle; quick: the QuickUpdate
+  reasons: string[];
+  status: QuarantineStatus;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+/** A record to hold back, with why */
+export interface QuarantineEntry {
+  siteId: string;
+  externalId: string;
+  raffleId: string | null;
+  source: QuarantineSource;
+  payload: ScrapedRaffle | QuickUpdate;
+  reasons: string[];
+}
+
+/**
+ * Hold records back, in one write. A raffle already waiting for review has
+ * its pending entry refreshed rather than a new one added each run; within
+ * the batch the last entry per raffle wins.
+ */
+export async function quarantineRecords(
+  supabase: SupabaseClient,
+  records: QuarantineEntry[]
+): Promise<void> {
+  const rows = new Map<string, Record<string, unknown>>();
+  for (const record of records) {
+    rows.set(`${record.siteId}:${record.externalId}`, {
+      site_id: record.siteId,
+      external_id: record.externalId,
+      raffle_id: record.raffleId,
+      source: record.source,
+      payload: record.payload,
+      reasons: record.reasons,
+    });
+  }
+  if (rows.size === 0) return;
+
+  const { error } = await supabase.rpc('quarantine_records', { p_records: Array.from(rows.values()) });
+  if (error) {
+    console.error(`[quarantine] Failed to quarantine ${rows.size} records: ${error.message}`);
+  }
+}
+
+export async function listQuarantine(
+  supabase: SupabaseClient,
+  status: QuarantineStatus = 'pending'
+): Promise<QuarantinedRecord[]> {
+  const { data, error } = await supabase
+    .from('raffle_quarantine')
+    .select('*')
+    .eq('status', status)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(`Failed to list quarantine: ${error.message}`);
+  return (data ?? []) as QuarantinedRecord[];
+}
+
+async function getPending(supabase: SupabaseClient, id: string): Promise<QuarantinedRecord> {
+  const { data, error } = await supabase
+    .from('raffle_quarantine')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error || !data) throw new Error(`Quarantined record ${id} not found`);
+  if (data.status !== 'pending') throw new Error(`Quarantined record ${id} is already ${data.status}`);
+  return data as QuarantinedRecord;
+}
+
+async function markReviewed(supabase: SupabaseClient, id: string, status: QuarantineStatus): Promise<void> {
+  const { error } = await supabase
+    .from('raffle_quarantine')
+    .update({ status, reviewed_at: new Date().toISOString() })
+    .eq('id', id);
+  if (error) throw new Error(`Failed to mark ${id} ${status}: ${error.message}`);
+}
+
+/** The live raffle's listing values, as release compares them */
+export interface LiveListing {
+  percent_sold: number | null;
+  tickets_sold: number | null;
+  ticket_price: number | null;
+  end_date: string | null;
+  last_scraped_at: string | null;
+}
+
+/**
+ * The scraped raffle to release. When the live raffle has been scraped since
+ * the record was held back, its listing values (% sold, tickets sold, price,
+ * end date) are newer than the record's, so they're kept.
+ */
+export function releasedRaffle(
+  payload: Record<string, unknown>,
+  live: LiveListing | null,
+  quarantinedAt: string
+): ScrapedRaffle {
+  const scraped = payload as unknown as ScrapedRaffle;
+  const raffle: ScrapedRaffle = {
+    ...scraped,
+    endDate: scraped.endDate ? new Date(scraped.endDate) : undefined,
+  };
+  if (!live?.last_scraped_at || new Date(live.last_scraped_at) <= new Date(quarantinedAt)) return raffle;
+
+  return {
+    ...raffle,
+    percentSold: live.percent_sold != null ? Number(live.percent_sold) : raffle.percentSold,
+    ticketsSold: live.tickets_sold ?? raffle.ticketsSold,
+    ticketPrice: live.ticket_price ?? raffle.ticketPrice,
+    endDate: live.end_date ? new Date(live.end_date) : raffle.endDate,
+  };
+}
+
+/**
+ * Release a quarantined record through the normal persist path, skipping
+ * only the quarantine rules: the guards run against the current row, and
+ * instant wins, prize tiers and raffle_changes are written as for any
+ * scrape. A quick update superseded by a newer listing read isn't applied.
+ */
+export async function releaseQuarantined(supabase: SupabaseClient, id: string): Promise<void> {
+  const record = await getPending(supabase, id);
+
+  const { data: site } = await supabase
+    .from('sites')
+    .select('slug, name')
+    .eq('id', record.site_id)
+    .single();
+  if (!site) throw new Error(`Site ${record.site_id} not found for ${id}`);
+
+  const { data: live } = await supabase
+    .from('raffles')
+    .select('percent_sold, tickets_sold, ticket_price, end_date, last_scraped_at')
+    .eq('site_id', record.site_id)
+    .eq('external_id', record.external_id)
+    .maybeSingle();
+
+  const result = { siteName: site.name, siteSlug: site.slug, errors: [], duration: 0 };
+
+  if (record.source === 'quick') {
+    const superseded = live?.last_scraped_at && new Date(live.last_scraped_at) > new Date(record.created_at);
+    if (superseded) {
+      console.log(`[quarantine] ${record.external_id} has a newer listing read; nothing to apply`);
+    } else {
+      const update = record.payload as unknown as QuickUpdate;
+      const { itemsUpdated, failures } = await persistQuickUpdate({ ...result, updates: [update] }, supabase, { quarantine: false });
+      if (failures.length > 0) throw new Error(`Failed to release ${id}: ${failures[0].error}`);
+      console.log(`[quarantine] Applied quick update to ${record.external_id} (${itemsUpdated} updated)`);
+    }
+  } else {
+    const raffle = releasedRaffle(record.payload, live as LiveListing | null, record.created_at);
+    const { itemsNew, itemsUpdated, failures } = await persistScrapeResult({ ...result, raffles: [raffle] }, supabase, { quarantine: false });
+    if (failures.length > 0) throw new Error(`Failed to release ${id}: ${failures[0].error}`);
+    console.log(`[quarantine] Persisted ${record.external_id} (${itemsNew} new, ${itemsUpdated} updated)`);
+  }
+
+  await markReviewed(supabase, id, 'released');
+}
+
+/** Discard a quarantined record; the live raffle keeps its current values */
+export async function rejectQuarantined(supabase: SupabaseClient, id: string): Promise<void> {
+  await getPending(supabase, id);
+  await markReviewed(supabase, id, 'rejected');
+}
@@ -0,0 +1,91 @@
+/**
+ * Raffle change history — which fields a site changed, and when
+ *
+ * raffle_snapshots only samples sales at cleanup time. Every persist
+ * compares the tracked fields of a raffle's stored row with what's about to
+ * be written and logs each difference to `raffle_changes` with the old and
+ * new value: draw extensions, price drops, total tickets being inflated,
+ * cash alternative changes, title edits. Quick updates log ticket price
+ * changes in SQL (apply_quick_updates).
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// ============================================
+// Types
+// ============================================
+
+/** raffles columns whose changes are logged */
+export const TRACKED_FIELDS = [
+  'title',
+  'end_date',
+  'ticket_price',
+  'total_tickets',
+  'cash_alternative',
+  'prize_value',
+  'max_per_person',
+] as const;
+
+export type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+export interface FieldChange {
+  raffle_id: string;
+  field: TrackedField;
+  old_value: string | number;
+  new_value: string | number;
+}
+
+const BATCH_SIZE = 100;
+
+// ============================================
+// Diffing
+// ============================================
+
+/** Same value, allowing for PostgREST's timestamp and numeric formatting */
+function sameValue(field: TrackedField, a: unknown, b: unknown): boolean {
+  if (field === 'end_date') return new Date(String(a)).getTime() === new Date(String(b)).getTime();
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) === Number(b);
+  return a === b;
+}
+
+/**
+ * Tracked fields that differ between the stored row and the row being
+ * written. Fields missing from `next` (kept by a persist guard) and values
+ * appearing or disappearing (a field first parsed, or missed this run) are
+ * not changes the site made, so they're skipped.
+ */
+export function diffRaffle(
+  raffleId: string,
+  stored: Partial<Record<TrackedField, unknown>>,
+  next: Record<string, unknown>
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of TRACKED_FIELDS) {
+    const before = stored[field];
+    const after = next[field];
+    if (before == null || after == null || sameValue(field, before, after)) continue;
+    changes.push({
+      raffle_id: raffleId,
+      field,
+      old_value: before as string | number,
+      new_value: after as string | number,
+    });
+  }
+  return changes;
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+export async function recordRaffleChanges(
+  changes: FieldChange[],
+  supabase: SupabaseClient
+): Promise<void> {
+  for (let i = 0; i < changes.length; i += BATCH_SIZE) {
+    const batch = changes.slice(i, i + BATCH_SIZE);
+    const { error } = await supabase.from('raffle_changes').insert(batch);
+    if (error) {
+      console.error(`[changes] Failed to record ${batch.length} raffle changes: ${error.message}`);
+    }
+  }
+}
@@ -7,7 +7,10 @@
  * Usage:
  *   npx tsx src/scrapers/run-all.ts              # full deep scrape
  *   npx tsx src/scrapers/run-all.ts --quick       # quick listing-only update
+ *   npx tsx src/scrapers/run-all.ts --ending-soon # refresh raffles closing within the window
  *   npx tsx src/scrapers/run-all.ts --site=dream-car-giveaways  # single site
+ *   npx tsx src/scrapers/run-all.ts --refresh-details  # revisit every detail page
+ *   npx tsx src/scrapers/run-all.ts --site=botb --accept-layout  # persist despite a layout change
  */
 import dotenv from 'dotenv';
 import path from 'path';
@@ -17,7 +20,15 @@ dotenv.config({ path: path.resolve(process.cwd(), '.env.local') });
 dotenv.config({ path: path.resolve(process.cwd(), '.env') });
 import { chromium, Browser, BrowserContext } from 'playwright';
 import * as Sentry from '@sentry/node';
-import { computeQualityMetrics } from './quality-metrics';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { RunQuality, computeQualityReport, recordScrapeQuality } from './quality-metrics';
+import { loadStoredRaffles } from './stored-raffles';
+import { updatePrizeGroups } from './prize-groups';
+import { imageStoreFromEnv, mirrorSiteImages } from './image-mirror';
+import { compareLayouts, loadLastGoodLayout } from './layout-fingerprint';
+import { loadAwaitingResults, persistDrawResults } from './draw-results';
+import { verifyClosedRaffles } from './draw-verification';
+import { endingLaneConfig, loadEndingSoonIds, selectEndingUpdates } from './ending-soon';
 import { createServiceClient } from '../lib/supabase';
 import {
   BaseScraper,
@@ -62,6 +73,31 @@ function checkAggregateFailures(outcomes: ScraperOutcome[]): void {
   }
 }
 
+/**
+ * Compare the listing layout the scraper just read with the site's last
+ * good run. On a change, raise the "Layout changed" error and return the
+ * changes — the caller records the run as failed instead of persisting.
+ */
+async function detectLayoutChange(
+  scraper: BaseScraper,
+  supabase: SupabaseClient,
+  found: number
+): Promise<string[]> {
+  const layout = scraper.listingLayout;
+  if (!layout) return [];
+
+  const changes = compareLayouts(await loadLastGoodLayout(scraper.siteSlug, supabase), layout);
+  if (changes.length > 0) {
+    console.error(`[${scraper.name}] Layout changed, not persisting: ${changes.join('; ')}`);
+    Sentry.captureMessage(`[${scraper.name}] Layout changed`, {
+      level: 'error',
+      tags: { site: scraper.siteSlug },
+      extra: { changes, layout, found },
+    });
+  }
+  return changes;
+}
+
 // ============================================
 // Registry of all scrapers
 // ============================================
@@ -84,7 +120,7 @@ export function getAllScrapers(): BaseScraper[] {
 // Browser management
 // ============================================
 
-async function createBrowser(): Promise<Browser> {
+export async function createBrowser(): Promise<Browser> {
   return chromium.launch({
     headless: true,
     args: [
@@ -99,7 +135,7 @@ async function createBrowser(): Promise<Browser> {
   });
 }
 
-async function createContext(browser: Browser): Promise<BrowserContext> {
+export async function createContext(browser: Browser): Promise<BrowserContext> {
   return browser.newContext({
     userAgent:
       'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
@@ -109,6 +145,39 @@ async function createContext(browser: Browser): Promise<BrowserContext> {
   });
 }
 
+/**
+ * A BrowserContext that only launches Chromium (and opens the real context)
+ * when a scraper first uses it. Runs where every page was served over plain
+ * HTTP never start the browser at all. Only async context methods are
+ * forwarded — that's all the scrapers use (newPage, route, close). Once
+ * closed, it stays closed: later calls reject rather than reopening.
+ */
+export function createLazyContext(getBrowser: () => Promise<Browser>): BrowserContext {
+  let real: Promise<BrowserContext> | null = null;
+  let closed = false;
+  const open = () => closed
+    ? Promise.reject(new Error('Browser context closed'))
+    : (real ??= getBrowser().then(createContext));
+
+  return new Proxy({} as BrowserContext, {
+    get(_target, prop) {
+      if (prop === 'then') return undefined; // not a thenable
+      if (prop === 'close') {
+        return async () => {
+          if (closed) return;
+          closed = true;
+          if (real) await (await real).close();
+        };
+      }
+      return async (...args: unknown[]) => {
+        const context = await open();
+        const method = context[prop as keyof BrowserContext] as (...a: unknown[]) => unknown;
+        return method.apply(context, args);
+      };
+    },
+  });
+}
+
 // ============================================
 // Orchestrator
 // ============================================
@@ -122,6 +191,25 @@ export interface OrchestratorOptions {
   concurrency?: number;
   /** Existing browser to reuse (for persistent service) */
   browser?: Browser;
+  /** Revisit detail pages whose stored data is older than this (default DETAIL_REFRESH_HOURS or 24) */
+  detailRefreshHours?: number;
+  /** Revisit every detail page, ignoring stored data */
+  refreshDetails?: boolean;
+  /** Persist even if the listing layout changed, making this run the new baseline */
+  acceptLayout?: boolean;
+  /** Abort the run: its browser contexts close, so in-flight pages fail fast */
+  signal?: AbortSignal;
+}
+
+/** Close `context` when `signal` aborts. Returns a function that stops listening. */
+function closeOnAbort(context: BrowserContext, signal?: AbortSignal): () => void {
+  if (!signal) return () => {};
+  const close = () => {
+    context.close().catch(() => {});
+  };
+  if (signal.aborted) close();
+  else signal.addEventListener('abort', close, { once: true });
+  return () => signal.removeEventListener('abort', close);
 }
 
 /** Max time per individual scraper before it's forcefully timed out */
@@ -130,8 +218,27 @@ const PER_SCRAPER_TIMEOUT_MS = {
   quick: 3 * 60 * 1000,  // 3 minutes per scraper for quick update
 };
 
-export async function runAllScrapers(options: OrchestratorOptions = {}): Promise<void> {
-  const { quick = false, siteSlug, concurrency = 1 } = options;
+/** One site's outcome in a run — what was written to scrape_logs */
+export interface SiteRun {
+  siteSlug: string;
+  status: 'success' | 'partial' | 'failed';
+  itemsFound: number;
+  itemsNew: number;
+  itemsUpdated: number;
+  errorMessage?: string;
+  errorCount?: number;         // errors joined in errorMessage (1 when unset and errorMessage is)
+  durationMs: number;
+  quality?: RunQuality;        // full scrapes that persisted
+}
+
+/**
+ * Run the active scrapers (or just `siteSlug`) and persist their results.
+ * Returns each site's outcome; sites skipped for quiet hours aren't included.
+ */
+export async function runAllScrapers(options: OrchestratorOptions = {}): Promise<SiteRun[]> {
+  const { quick = false, siteSlug, concurrency = 1, refreshDetails = false, acceptLayout = false } = options;
+  const detailRefreshHours = options.detailRefreshHours
+    ?? (process.env.DETAIL_REFRESH_HOURS ? Number(process.env.DETAIL_REFRESH_HOURS) : undefined);
   const mode = quick ? 'QUICK UPDATE' : 'FULL SCRAPE';
 
   console.log(`\n${'='.repeat(60)}`);
@@ -139,6 +246,7 @@ export async function runAllScrapers(options: OrchestratorOptions = {}): Promise
   console.log(`${'='.repeat(60)}\n`);
 
   const supabase = createServiceClient();
+  const imageStore = imageStoreFromEnv(supabase);
 
   // Get active site slugs from DB
   const { data: activeSites } = await supabase
@@ -155,27 +263,48 @@ export async function runAllScrapers(options: OrchestratorOptions = {}): Promise
     scrapers = scrapers.filter(s => s.siteSlug === siteSlug);
   }
 
+  // Respect each site's quiet hours
+  const quiet = scrapers.filter(s => s.inQuietHours());
+  if (quiet.length > 0) {
+    console.log(`[Orchestrator] In quiet hours, skipping: ${quiet.map(s => s.name).join(', ')}`);
+    scrapers = scrapers.filter(s => !quiet.includes(s));
+  }
+
   if (scrapers.length === 0) {
     console.log('[Orchestrator] No active scrapers to run.');
-    return;
+    return [];
   }
 
   console.log(`[Orchestrator] Running ${scrapers.length} scraper(s): ${scrapers.map(s => s.name).join(', ')}`);
 
   const outcomes: ScraperOutcome[] = [];
-
-  // Create or reuse browser
-  const ownBrowser = !options.browser;
-  const browser = options.browser ?? await createBrowser();
+  const runs: SiteRun[] = [];
+
+  const recordRun = async (
+    slug: string,
+    run: Parameters<typeof logScrapeRun>[1] & { errorCount?: number },
+    quality?: RunQuality
+  ): Promise<void> => {
+    const { status, itemsFound, itemsNew, itemsUpdated, errorMessage, errorCount, durationMs } = run;
+    runs.push({ siteSlug: slug, status, itemsFound, itemsNew, itemsUpdated, errorMessage, errorCount, durationMs, quality });
+    await logScrapeRun(slug, run, supabase);
+  };
+
+  // Reuse the caller's browser, or launch one on first use
+  const launched: Promise<Browser>[] = [];
+  const getBrowser = (): Promise<Browser> =>
+    options.browser ? Promise.resolve(options.browser) : (launched[0] ??= createBrowser());
 
   try {
     // Run scrapers in batches based on concurrency
     for (let i = 0; i < scrapers.length; i += concurrency) {
+      if (options.signal?.aborted) break;
       const batch = scrapers.slice(i, i + concurrency);
 
       await Promise.all(
         batch.map(async (scraper) => {
-          const context = await createContext(browser);
+          const context = createLazyContext(getBrowser);
+          const stopListening = closeOnAbort(context, options.signal);
 
           const timeoutMs = quick ? PER_SCRAPER_TIMEOUT_MS.quick : PER_SCRAPER_TIMEOUT_MS.full;
           const scraperStart = Date.now();
@@ -191,38 +320,142 @@ export async function runAllScrapers(options: OrchestratorOptions = {}): Promise
 
                   console.log(`[${scraper.name}] Quick update found ${result.updates.length} updates in ${result.duration}ms`);
 
+                  // Same layout check as the full scrape: a changed listing would
+                  // write misread percentages and prices
+                  const layoutChanges = acceptLayout ? [] : await detectLayoutChange(scraper, supabase, result.updates.length);
+                  if (layoutChanges.length > 0) {
+                    await recordRun(scraper.siteSlug, {
+                      status: 'failed',
+                      itemsFound: result.updates.length,
+                      itemsNew: 0,
+                      itemsUpdated: 0,
+                      errorMessage: `Layout changed: ${layoutChanges.join('; ')}`,
+                      durationMs: result.duration,
+                      layoutFingerprint: scraper.listingLayout,
+                    });
+                    return;
+                  }
+
+                  const errors = [...result.errors];
+                  let itemsUpdated = 0;
                   if (result.updates.length > 0) {
-                    const updated = await persistQuickUpdate(result, supabase);
-                    console.log(`[${scraper.name}] Persisted ${updated} quick updates`);
+                    const persisted = await persistQuickUpdate(result, supabase);
+                    itemsUpdated = persisted.itemsUpdated;
+                    console.log(`[${scraper.name}] Persisted ${itemsUpdated} quick updates, ${persisted.itemsQuarantined} quarantined`);
+                    errors.push(...persisted.failures.map((f) => `Persist ${f.externalId}: ${f.error}`));
                   }
 
-                  if (result.errors.length > 0) {
-                    console.warn(`[${scraper.name}] Errors:`, result.errors);
+                  if (errors.length > 0) {
+                    console.warn(`[${scraper.name}] Errors:`, errors);
                   }
 
-                  await logScrapeRun(scraper.siteSlug, {
-                    status: result.errors.length > 0 ? 'partial' : 'success',
+                  await recordRun(scraper.siteSlug, {
+                    status: errors.length > 0 ? 'partial' : 'success',
                     itemsFound: result.updates.length,
                     itemsNew: 0,
-                    itemsUpdated: result.updates.length,
-                    errorMessage: result.errors.join('; ') || undefined,
+                    itemsUpdated,
+                    errorMessage: errors.join('; ') || undefined,
+                    errorCount: errors.length,
                     durationMs: result.duration,
-                  }, supabase);
+                  });
 
                 } else {
                   // Full deep scrape
                   console.log(`[${scraper.name}] Starting full scrape...`);
+                  if (!refreshDetails) {
+                    scraper.storedRaffles = await loadStoredRaffles(scraper.siteSlug, supabase);
+                  }
+                  if (detailRefreshHours != null && Number.isFinite(detailRefreshHours)) {
+                    scraper.detailRefreshMs = detailRefreshHours * 60 * 60 * 1000;
+                  }
                   const result = await scraper.scrape(context);
 
                   console.log(`[${scraper.name}] Found ${result.raffles.length} raffles in ${result.duration}ms`);
 
-                  if (result.raffles.length > 0) {
-                    const { itemsNew, itemsUpdated } = await persistScrapeResult(result, supabase);
-                    console.log(`[${scraper.name}] Persisted: ${itemsNew} new, ${itemsUpdated} updated`);
+                  // Compare the listing structure with the last good run before persisting
+                  const layout = scraper.listingLayout;
+                  const layoutChanges = acceptLayout ? [] : await detectLayoutChange(scraper, supabase, result.raffles.length);
+
+                  if (layoutChanges.length > 0) {
+                    outcomes.push({
+                      name: scraper.name,
+                      siteSlug: scraper.siteSlug,
+                      zeroResults: false,
+                      qualityFailure: true,
+                      qualityDetail: `Layout changed: ${layoutChanges.join('; ')}`,
+                    });
+
+                    await recordRun(scraper.siteSlug, {
+                      status: 'failed',
+                      itemsFound: result.raffles.length,
+                      itemsNew: 0,
+                      itemsUpdated: 0,
+                      errorMessage: `Layout changed: ${layoutChanges.join('; ')}`,
+                      durationMs: result.duration,
+                      layoutFingerprint: layout,
+                    });
+                  } else if (result.raffles.length > 0) {
+                    const { itemsNew, itemsUpdated, itemsQuarantined, failures } = await persistScrapeResult(result, supabase);
+                    console.log(`[${scraper.name}] Persisted: ${itemsNew} new, ${itemsUpdated} updated, ${itemsQuarantined} quarantined`);
+                    if (failures.length > 0) {
+                      console.warn(`[${scraper.name}] ${failures.length} rows failed to persist`);
+                      result.errors.push(...failures.map((f) => `Persist ${f.externalId}: ${f.error}`));
+                    }
+                    if (itemsQuarantined > 0) {
+                      Sentry.captureMessage(`[${scraper.name}] Records quarantined`, {
+                        level: 'warning',
+                        tags: { site: scraper.siteSlug },
+                        extra: { itemsQuarantined, total: result.raffles.length },
+                      });
+                    }
+
+                    const images = await mirrorSiteImages(scraper.siteSlug, supabase, imageStore, scraper.httpFetch);
+                    if (images.mirrored > 0) console.log(`[${scraper.name}] Mirrored ${images.mirrored} images`);
+                    if (images.errors.length > 0) console.warn(`[${scraper.name}] Image errors:`, images.errors);
+                    for (const photo of images.reused) {
+                      Sentry.captureMessage(`[${scraper.name}] Stock photo reused across raffles`, {
+                        level: 'warning',
+                        tags: { site: scraper.siteSlug },
+                        fingerprint: ['stock-photo', scraper.siteSlug, photo.hash],
+                        extra: { imageHash: photo.hash, raffleIds: photo.raffleIds },
+                      });
+                    }
+
+                    // Closed raffles — drawn, extended, rolled over or cancelled?
+                    try {
+                      const closed = await verifyClosedRaffles(scraper, context, supabase);
+                      if (Object.values(closed).some((n) => n > 0)) {
+                        console.log(`[${scraper.name}] Close verification: ${closed.drawn} drawn, ${closed.extended} extended, ${closed.rolled_over} rolled over, ${closed.cancelled} cancelled, ${closed.unknown} unknown`);
+                      }
+                    } catch (err) {
+                      const msg = err instanceof Error ? err.message : String(err);
+                      console.warn(`[${scraper.name}] Close verification failed: ${msg}`);
+                    }
+
+                    // Winners page — only visited while some ended raffle lacks a result
+                    if (scraper.resultsPage) {
+                      const awaiting = await loadAwaitingResults(scraper.siteSlug, supabase);
+                      if (awaiting.length > 0) {
+                        try {
+                          const drawResults = await scraper.scrapeResults(context);
+                          const stored = await persistDrawResults(drawResults, awaiting, scraper.resultsPage.url, supabase);
+                          console.log(`[${scraper.name}] Draw results: ${stored} of ${awaiting.length} ended raffles matched`);
+                        } catch (err) {
+                          const msg = err instanceof Error ? err.message : String(err);
+                          console.warn(`[${scraper.name}] Results page failed: ${msg}`);
+                        }
+                      }
+                    }
 
-                    const metrics = computeQualityMetrics(result.raffles);
+                    const metrics = computeQualityReport(result.raffles, scraper.storedRaffles);
+                    await recordScrapeQuality(scraper.siteSlug, metrics, supabase);
                     const qualityIssues: string[] = [];
 
+                    const failedChecks = Object.entries(metrics.sanity).filter(([, check]) => check.count > 0);
+                    if (failedChecks.length > 0) {
+                      console.warn(`[${scraper.name}] Sanity checks: ${failedChecks.map(([name, check]) => `${name} ${check.count}`).join(', ')}`);
+                    }
+
                     if (metrics.imageNullRate > 0.80) {
                       qualityIssues.push(`image null ${Math.round(metrics.imageNullRate * 100)}%`);
                       Sentry.captureMessage(`[${scraper.name}] High image null rate`, {
@@ -256,14 +489,21 @@ export async function runAllScrapers(options: OrchestratorOptions = {}): Promise
                       qualityDetail: qualityIssues.join('; '),
                     });
 
-                    await logScrapeRun(scraper.siteSlug, {
+                    await recordRun(scraper.siteSlug, {
                       status: result.errors.length > 0 ? 'partial' : 'success',
                       itemsFound: result.raffles.length,
                       itemsNew,
                       itemsUpdated,
                       errorMessage: result.errors.join('; ') || undefined,
+                      errorCount: result.errors.length,
                       durationMs: result.duration,
-                    }, supabase);
+                      layoutFingerprint: layout,
+                    }, {
+                      imageNullRate: metrics.imageNullRate,
+                      priceNullRate: metrics.priceNullRate,
+                      otherTypeRate: metrics.otherTypeRate,
+                      coverage: metrics.coverage,
+                    });
                   } else {
                     Sentry.captureMessage(`[${scraper.name}] Returned zero results`, {
                       level: 'warning',
@@ -279,14 +519,16 @@ export async function runAllScrapers(options: OrchestratorOptions = {}): Promise
                       qualityDetail: `Zero results${result.errors.length ? ': ' + result.errors[0] : ''}`,
                     });
 
-                    await logScrapeRun(scraper.siteSlug, {
+                    await recordRun(scraper.siteSlug, {
                       status: 'failed',
                       itemsFound: 0,
                       itemsNew: 0,
                       itemsUpdated: 0,
                       errorMessage: result.errors.join('; ') || 'No raffles found',
+                      errorCount: result.errors.length || 1,
                       durationMs: result.duration,
-                    }, supabase);
+                      layoutFingerprint: layout,
+                    });
                   }
 
                   if (result.errors.length > 0) {
@@ -319,31 +561,120 @@ export async function runAllScrapers(options: OrchestratorOptions = {}): Promise
               });
             }
 
-            await logScrapeRun(scraper.siteSlug, {
+            await recordRun(scraper.siteSlug, {
               status: 'failed',
               itemsFound: 0,
               itemsNew: 0,
               itemsUpdated: 0,
               errorMessage: msg,
               durationMs: Date.now() - scraperStart,
-            }, supabase);
+            });
           } finally {
+            stopListening();
             await context.close();
           }
         })
       );
     }
   } finally {
-    if (ownBrowser) {
-      await browser.close();
+    for (const browser of launched) {
+      await (await browser).close();
     }
   }
 
   if (!quick) {
     checkAggregateFailures(outcomes);
+
+    const grouped = await updatePrizeGroups(supabase);
+    if (grouped > 0) console.log(`[PrizeGroups] Updated ${grouped} raffle prize groups`);
   }
 
   console.log(`\n[Orchestrator] ${mode} complete at ${new Date().toISOString()}\n`);
+  return runs;
+}
+
+// ============================================
+// Ending-soon lane
+// ============================================
+
+/**
+ * Refresh one site's ending_soon raffles that close within the window:
+ * read the listing (quickUpdate) and persist just those entries, with a
+ * snapshot of each. Returns nothing when the site has no such raffles or is
+ * in quiet hours.
+ */
+export async function runEndingSoonLane(options: {
+  siteSlug: string;
+  browser?: Browser;
+  windowMinutes?: number;
+  signal?: AbortSignal;
+}): Promise<SiteRun[]> {
+  const scraper = getAllScrapers().find(s => s.siteSlug === options.siteSlug);
+  if (!scraper || scraper.inQuietHours()) return [];
+
+  const supabase = createServiceClient();
+  const windowMinutes = options.windowMinutes ?? endingLaneConfig().windowMinutes;
+  const endingIds = await loadEndingSoonIds(scraper.siteSlug, windowMinutes, supabase);
+  if (endingIds.size === 0) return [];
+
+  console.log(`[${scraper.name}] Refreshing ${endingIds.size} raffle(s) ending within ${windowMinutes}m...`);
+
+  const launched: Promise<Browser>[] = [];
+  const context = createLazyContext(() =>
+    options.browser ? Promise.resolve(options.browser) : (launched[0] ??= createBrowser())
+  );
+  const stopListening = closeOnAbort(context, options.signal);
+  const start = Date.now();
+  let run: SiteRun;
+
+  try {
+    const result = selectEndingUpdates(await scraper.quickUpdate(context), endingIds);
+    const layoutChanges = await detectLayoutChange(scraper, supabase, result.updates.length);
+    const errors = [...result.errors];
+    let itemsUpdated = 0;
+    let itemsQuarantined = 0;
+    if (layoutChanges.length > 0) {
+      errors.push(`Layout changed: ${layoutChanges.join('; ')}`);
+    } else if (result.updates.length > 0) {
+      const persisted = await persistQuickUpdate(result, supabase, { snapshotAll: true });
+      itemsUpdated = persisted.itemsUpdated;
+      itemsQuarantined = persisted.itemsQuarantined;
+      errors.push(...persisted.failures.map((f) => `Persist ${f.externalId}: ${f.error}`));
+    }
+    console.log(`[${scraper.name}] Ending-soon refresh: ${itemsUpdated} of ${endingIds.size} updated, ${itemsQuarantined} quarantined`);
+
+    run = {
+      siteSlug: scraper.siteSlug,
+      status: layoutChanges.length > 0 ? 'failed' : errors.length > 0 ? 'partial' : 'success',
+      itemsFound: result.updates.length,
+      itemsNew: 0,
+      itemsUpdated,
+      errorMessage: errors.join('; ') || undefined,
+      errorCount: errors.length,
+      durationMs: Date.now() - start,
+    };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error(`[${scraper.name}] Ending-soon refresh failed: ${msg}`);
+    run = {
+      siteSlug: scraper.siteSlug,
+      status: 'failed',
+      itemsFound: 0,
+      itemsNew: 0,
+      itemsUpdated: 0,
+      errorMessage: msg,
+      durationMs: Date.now() - start,
+    };
+  } finally {
+    stopListening();
+    await context.close();
+    for (const browser of launched) {
+      await (await browser).close();
+    }
+  }
+
+  await logScrapeRun(scraper.siteSlug, run, supabase);
+  return [run];
 }
 
 // ============================================
@@ -381,7 +712,9 @@ export async function cleanupExpiredRaffles(): Promise<void> {
     }
   }
 
-  // Step 2: Mark expired raffles as drawn.
+  // Step 2: Mark expired raffles as drawn. Provisional — the close verification
+  // stage of the next full scrape revisits them and corrects extended,
+  // rolled-over and cancelled draws (see draw-verification.ts).
   const { data: drawn, error: drawnError } = await supabase
     .from('raffles')
     .update({ status: 'drawn' })
@@ -411,6 +744,16 @@ export async function cleanupExpiredRaffles(): Promise<void> {
   } else {
     console.log(`[Cleanup] Promoted ${promoted?.length ?? 0} raffles to ending_soon`);
   }
+
+  // Step 4: Downsample old snapshots — quick updates add one whenever % sold or
+  // price changes, so keep full resolution for 14 days, then hourly, then daily.
+  const { data: downsampled, error: downsampleError } = await supabase.rpc('downsample_raffle_snapshots');
+
+  if (downsampleError) {
+    console.error('[Cleanup] Error downsampling snapshots:', downsampleError.message);
+  } else {
+    console.log(`[Cleanup] Downsampled ${downsampled ?? 0} old snapshots`);
+  }
 }
 
 // ============================================
@@ -421,17 +764,28 @@ async function main() {
   const args = process.argv.slice(2);
   const quick = args.includes('--quick');
   const cleanupOnly = args.includes('--cleanup');
+  const endingSoon = args.includes('--ending-soon');
   const siteArg = args.find(a => a.startsWith('--site='));
   const siteSlug = siteArg?.split('=')[1];
   const concurrencyArg = args.find(a => a.startsWith('--concurrency='));
   const concurrency = concurrencyArg ? parseInt(concurrencyArg.split('=')[1]) : 1;
+  const refreshDetails = args.includes('--refresh-details');
+  const acceptLayout = args.includes('--accept-layout');
 
   if (cleanupOnly) {
     await cleanupExpiredRaffles();
     return;
   }
 
-  await runAllScrapers({ quick, siteSlug, concurrency });
+  if (endingSoon) {
+    const slugs = siteSlug ? [siteSlug] : getAllScrapers().map(s => s.siteSlug);
+    for (const slug of slugs) {
+      await runEndingSoonLane({ siteSlug: slug });
+    }
+    return;
+  }
+
+  await runAllScrapers({ quick, siteSlug, concurrency, refreshDetails, acceptLayout });
 }
 
 // Only run if called directly (not imported)
@@ -0,0 +1,615 @@
+/**
+ * Selector Scraper — config-driven scraper for WooCommerce-style sites
+ *
+ * Many sites follow the same shape: listing cards → ListingCard → raffle,
+ * optionally enriched from a detail page. Instead of copying 400–700 lines
+ * of scraper code per site, a new site can supply a typed
+ * SelectorScraperConfig (listing URL, card selector, field extractors,
+ * date parser, skip patterns, detail-page policy) and extend this class.
+ * Rev Comps runs on it; the other sites are hand-rolled scrapers written
+ * before it.
+ *
+ * See _template.ts for an annotated example and when it fits.
+ */
+
+import { BrowserContext, Page } from 'playwright';
+import type { CheerioAPI } from 'cheerio';
+import {
+  BaseScraper,
+  ScrapedRaffle,
+  ScraperResult,
+  QuickUpdateResult,
+} from './base';
+import { DEFAULT_POLITENESS, PolitenessPolicy } from './politeness';
+import { classifyPrizeType, parseMoney, parsePriceToPence, extractSlugFromUrl } from '../lib/utils';
+import { mostConfidentUkDate, UkDateOptions } from '../lib/uk-date';
+import { parseMaxPerPerson } from './entry-cap';
+import type { ResultsPageConfig } from './draw-results';
+import { DetailExtras, readDetailExtras, textLines } from './html';
+
+// ============================================
+// Config types
+// ============================================
+
+/**
+ * How to pull one raw string out of a card (listing) or the page (detail).
+ * - selector omitted → the whole card's / page body's text, one line per block
+ * - attr set         → read that attribute instead of text (the first present, for a list)
+ * - pattern set      → first capture group (or whole match) of the regex
+ * - parse set        → runs last, for values one regex can't pick out
+ */
+export interface FieldExtractor {
+  selector?: string;
+  attr?: string | string[];
+  pattern?: RegExp;
+  parse?: (text: string) => string | null | undefined;
+}
+
+/** Raw fields a card or detail page can provide */
+export type SelectorField =
+  | 'title'
+  | 'imageUrl'
+  | 'ticketPrice'
+  | 'totalTickets'
+  | 'ticketsSold'
+  | 'percentSold'
+  | 'maxPerPerson'
+  | 'prizeValue'
+  | 'cashAlternative'
+  | 'additionalCash'
+  | 'endDate'
+  | 'drawType';
+
+export type FieldExtractors = Partial<Record<SelectorField, FieldExtractor>>;
+
+export interface SelectorScraperConfig {
+  name: string;
+  siteSlug: string;
+  baseUrl: string;
+  listingUrl: string;
+
+  listing: {
+    /** One element per competition card */
+    cardSelector: string;
+    /** Link to the detail page within the card (ignored if the card is itself an <a>) */
+    linkSelector?: string;
+    /** Wait for this before extracting (defaults to cardSelector) */
+    waitForSelector?: string;
+    /** Max lazy-load scroll passes (0 disables scrolling) */
+    maxScrolls?: number;
+    fields: FieldExtractors & { title: FieldExtractor };
+  };
+
+  detail?: {
+    /** Which cards get a detail-page visit */
+    visit: 'all' | 'vehicles';
+    waitForSelector?: string;
+    fields: FieldExtractors;
+    /** Instant-win prize rows (default INSTANT_WIN_ROW_SELECTOR, false to skip) */
+    instantWinSelector?: string | false;
+    /** Element holding "1st Prize / 2nd Prize" text (default body, false to skip) */
+    prizeTierSelector?: string | false;
+    /** Element holding bundle offers like "5 for £4" (default body, false to skip) */
+    priceTierSelector?: string | false;
+    /** Per-page timeout (default 45s) */
+    timeoutMs?: number;
+  };
+
+  /**
+   * How pages are loaded. 'auto' (default) fetches the server-rendered HTML
+   * and only opens Playwright when it's missing the wait-for selector;
+   * 'browser' always uses Playwright (e.g. listings that lazy-load on scroll).
+   */
+  render?: 'auto' | 'browser';
+
+  /** Cookie consent buttons to try, in order */
+  cookieSelectors?: string[];
+
+  /**
+   * Turn raw end-date text (card or detail) into a Date. Without it the
+   * more confident of the detail and card dates wins (mostConfidentUkDate).
+   */
+  parseDate?: (text: string) => Date | undefined;
+
+  /** parseUkDate options, e.g. the draw time for dates that don't state one */
+  dateOptions?: UkDateOptions;
+
+  skip?: {
+    titlePatterns?: RegExp[];
+    urlPatterns?: RegExp[];
+  };
+
+  /** Extra title keywords that mark a card as a vehicle (on top of classifyPrizeType) */
+  vehicleKeywords?: string[];
+
+  /** Overrides on DEFAULT_POLITENESS (requests/minute, robots.txt, quiet hours…) */
+  politeness?: Partial<PolitenessPolicy>;
+
+  /** Fixed draw type when the site only runs one kind */
+  drawType?: string;
+
+  /** Winners / results page for the post-draw results stage (omit if the site has none) */
+  results?: ResultsPageConfig;
+}
+
+/** Raw strings extracted from a card or page, keyed by field */
+export type RawFields = Partial<Record<SelectorField, string | null>>;
+
+/** What a detail page adds on top of the listing card */
+export interface DetailData extends DetailExtras {
+  fields: RawFields;
+}
+
+// ============================================
+// Pure parsing helpers (exported for unit tests)
+// ============================================
+
+/** Apply an extractor's pattern to a raw string */
+export function applyPattern(value: string | null | undefined, pattern?: RegExp): string | null {
+  if (value == null) return null;
+  if (!pattern) return value.trim() || null;
+  const match = value.match(pattern);
+  if (!match) return null;
+  return (match[1] ?? match[0]).trim() || null;
+}
+
+/**
+ * Parse a ticket price to pence. Handles "£2.99", "25p", "25P" and "FREE".
+ */
+export function parseTicketPrice(text: string | null | undefined): number | undefined {
+  if (!text) return undefined;
+  if (/^\s*free\s*$/i.test(text)) return 0;
+  const penceMatch = text.match(/^\s*(\d+)\s*p\s*$/i);
+  if (penceMatch) return parseInt(penceMatch[1], 10);
+  return parsePriceToPence(text) ?? undefined;
+}
+
+/** Parse a count like "24,999" or "24999 TKTS" */
+export function parseCount(text: string | null | undefined): number | undefined {
+  if (!text) return undefined;
+  const match = text.match(/[\d,]+/);
+  if (!match) return undefined;
+  const value = parseInt(match[0].replace(/,/g, ''), 10);
+  return isNaN(value) ? undefined : value;
+}
+
+/** Parse a percentage like "87% SOLD" → 87 */
+export function parsePercent(text: string | null | undefined): number | undefined {
+  if (!text) return undefined;
+  const match = text.match(/(\d+(?:\.\d+)?)\s*%?/);
+  if (!match) return undefined;
+  const value = parseFloat(match[1]);
+  return isNaN(value) ? undefined : value;
+}
+
+/** Normalise draw type text to the drawType values in the schema */
+export function parseDrawType(text: string | null | undefined): string | undefined {
+  if (!text) return undefined;
+  if (/live/i.test(text)) return 'live';
+  if (/auto/i.test(text)) return 'automated';
+  return undefined;
+}
+
+// ============================================
+// Scraper
+// ============================================
+
+interface SelectorCard {
+  url: string;
+  fields: RawFields;
+}
+
+/** Parse a money field; a bare "52,000" (pattern captured without the £) is pounds */
+function parseMoneyField(text: string | null | undefined): number | undefined {
+  return parseMoney(text && /^[\d,.]+$/.test(text) ? `£${text}` : text);
+}
+
+/** Card as read from the page, before patterns are applied */
+interface RawCard {
+  url: string;
+  fields: Record<string, string | null>;
+}
+
+/**
+ * Read field extractors from a cheerio document — within `scope` (a card)
+ * or from the whole page. Text keeps innerText's line breaks so patterns
+ * can anchor on lines.
+ */
+function readFieldsFromHtml(
+  $: CheerioAPI,
+  fields: FieldExtractors,
+  scope?: Parameters<CheerioAPI>[1]
+): Record<string, string | null> {
+  const values: Record<string, string | null> = {};
+  for (const [key, field] of Object.entries(fields)) {
+    const el = field?.selector
+      ? $(field.selector, scope).first()
+      : scope ? $(scope) : $('body');
+    if (el.length === 0) {
+      values[key] = null;
+    } else if (field?.attr) {
+      const attrs = Array.isArray(field.attr) ? field.attr : [field.attr];
+      values[key] = attrs.map((attr) => el.attr(attr)).find(Boolean) ?? null;
+    } else {
+      values[key] = textLines($, el).join('\n');
+    }
+  }
+  return values;
+}
+
+export abstract class SelectorScraper extends BaseScraper {
+  abstract config: SelectorScraperConfig;
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  get siteSlug(): string {
+    return this.config.siteSlug;
+  }
+
+  get baseUrl(): string {
+    return this.config.baseUrl;
+  }
+
+  get politeness(): PolitenessPolicy {
+    return { ...DEFAULT_POLITENESS, ...this.config.politeness };
+  }
+
+  get resultsPage(): ResultsPageConfig | null {
+    return this.config.results ?? null;
+  }
+
+  /** The card selector, plus each listing field's selector within a card */
+  protected get layoutProbes(): Record<string, string> {
+    const { cardSelector, fields } = this.config.listing;
+    const probes: Record<string, string> = { cards: cardSelector };
+    for (const [key, field] of Object.entries(fields)) {
+      if (!field?.selector) continue;
+      probes[key] = cardSelector
+        .split(',')
+        .flatMap((card) => field.selector!.split(',').map((sel) => `${card.trim()} ${sel.trim()}`))
+        .join(', ');
+    }
+    return probes;
+  }
+
+  // ==========================================
+  // Full Scrape — listing + detail pages
+  // ==========================================
+
+  async scrape(context: BrowserContext): Promise<ScraperResult> {
+    const start = Date.now();
+    const errors: string[] = [];
+    const raffles: ScrapedRaffle[] = [];
+
+    try {
+      const cards = await this.scrapeListingPage(context);
+      console.log(`[${this.name}] Found ${cards.length} competition cards`);
+
+      // Detail candidates whose stored detail data is complete and fresh skip the visit
+      const detailCandidates = cards.filter((c) => this.needsDetailPage(c));
+      const detailCards = detailCandidates.filter((c) => this.needsDetailVisit(this.externalIdFor(c.url)));
+      const freshCards = detailCandidates.filter((c) => !detailCards.includes(c));
+      const listingOnlyCards = cards.filter((c) => !this.needsDetailPage(c));
+
+      if (this.config.detail) {
+        console.log(
+          `[${this.name}] ${detailCards.length} detail page, ${freshCards.length} stored detail still fresh, ${listingOnlyCards.length} listing only`
+        );
+      }
+
+      for (const card of listingOnlyCards) {
+        const raffle = this.buildRaffle(card, { fields: {} });
+        if (raffle) raffles.push(raffle);
+      }
+
+      for (const card of freshCards) {
+        const raffle = this.buildRaffle(card, { fields: {} });
+        if (raffle) raffles.push(this.withStoredDetail(raffle));
+      }
+
+      for (let i = 0; i < detailCards.length; i++) {
+        const card = detailCards[i];
+        const slug = extractSlugFromUrl(card.url);
+        console.log(`[${this.name}] [${i + 1}/${detailCards.length}] Detail: ${slug}`);
+
+        try {
+          const detail = await Promise.race([
+            this.scrapeDetailPage(context, card),
+            new Promise<null>((_, reject) =>
+              setTimeout(
+                () => reject(new Error('Detail page timed out')),
+                this.config.detail?.timeoutMs ?? 45_000
+              )
+            ),
+          ]);
+          const raffle = this.buildRaffle(card, detail ?? { fields: {} });
+          if (raffle) raffles.push(detail ? { ...raffle, fromDetailPage: true } : this.withStoredDetail(raffle));
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : String(err);
+          console.warn(`[${this.name}] Error on ${slug}: ${msg}`);
+          errors.push(`${slug}: ${msg}`);
+
+          // Fallback: build raffle from listing card data
+          const fallback = this.buildRaffle(card, { fields: {} });
+          if (fallback) raffles.push(this.withStoredDetail(fallback));
+        }
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      errors.push(`Fatal: ${msg}`);
+      console.error(`[${this.name}] Fatal error: ${msg}`);
+    }
+
+    return {
+      siteName: this.name,
+      siteSlug: this.siteSlug,
+      raffles,
+      errors,
+      duration: Date.now() - start,
+    };
+  }
+
+  // ==========================================
+  // Quick Update — listing page only
+  // ==========================================
+
+  async quickUpdate(context: BrowserContext): Promise<QuickUpdateResult> {
+    const start = Date.now();
+    const errors: string[] = [];
+    const updates: QuickUpdateResult['updates'] = [];
+
+    try {
+      const cards = await this.scrapeListingPage(context);
+
+      for (const card of cards) {
+        const externalId = this.externalIdFor(card.url);
+        if (!externalId) continue;
+
+        updates.push({
+          externalId,
+          percentSold: parsePercent(card.fields.percentSold),
+          ticketPrice: parseTicketPrice(card.fields.ticketPrice),
+        });
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      errors.push(msg);
+    }
+
+    return {
+      siteName: this.name,
+      siteSlug: this.siteSlug,
+      updates,
+      errors,
+      duration: Date.now() - start,
+    };
+  }
+
+  // ==========================================
+  // Extension points
+  // ==========================================
+
+  /** External ID for a card URL — override if the site's slugs aren't stable */
+  protected externalIdFor(url: string): string {
+    return extractSlugFromUrl(url.replace(/\/$/, ''));
+  }
+
+  /**
+   * Combine listing + detail fields into a ScrapedRaffle.
+   * Detail values win where present. Returns null for skipped/free entries.
+   */
+  protected buildRaffle(card: SelectorCard, detail: DetailData): ScrapedRaffle | null {
+    const externalId = this.externalIdFor(card.url);
+    if (!externalId) return null;
+
+    const pick = (field: SelectorField): string | null =>
+      detail.fields[field] ?? card.fields[field] ?? null;
+
+    const ticketPrice = parseTicketPrice(pick('ticketPrice'));
+    if (ticketPrice != null && ticketPrice <= 0) return null;
+
+    const totalTickets = parseCount(pick('totalTickets'));
+    const percentSold = parsePercent(pick('percentSold'));
+    let ticketsSold = parseCount(pick('ticketsSold'));
+    if (ticketsSold == null && totalTickets && percentSold != null) {
+      ticketsSold = Math.round((percentSold / 100) * totalTickets);
+    }
+
+    // "Max 50 per person" or a selector pointing straight at the number,
+    // else whatever cap the detail page states
+    const maxPerPersonText = pick('maxPerPerson');
+    const maxPerPerson = parseMaxPerPerson(maxPerPersonText) ?? parseCount(maxPerPersonText) ?? detail.maxPerPerson;
+
+    const endDateText = pick('endDate');
+    const endDate = this.config.parseDate
+      ? (endDateText ? this.config.parseDate(endDateText) : undefined)
+      : mostConfidentUkDate([detail.fields.endDate, card.fields.endDate], this.config.dateOptions)?.date;
+
+    const imageUrl = pick('imageUrl');
+
+    return {
+      externalId,
+      title: this.sanitizeTitle(pick('title'), card.url),
+      sourceUrl: card.url,
+      imageUrl: imageUrl ? this.absoluteUrl(imageUrl) : undefined,
+      ticketPrice,
+      totalTickets,
+      ticketsSold,
+      percentSold,
+      maxPerPerson,
+      prizeValue: parseMoneyField(pick('prizeValue')),
+      cashAlternative: parseMoneyField(pick('cashAlternative')),
+      additionalCash: parseMoneyField(pick('additionalCash')),
+      endDate,
+      drawType: parseDrawType(pick('drawType')) ?? this.config.drawType,
+      instantWins: detail.instantWins,
+      prizes: detail.prizes,
+      priceTiers: detail.priceTiers,
+    };
+  }
+
+  // ==========================================
+  // Listing Page
+  // ==========================================
+
+  private async scrapeListingPage(context: BrowserContext): Promise<SelectorCard[]> {
+    const { listing, listingUrl } = this.config;
+
+    const $ = await this.loadDocument(context, listingUrl, {
+      readySelector: listing.waitForSelector ?? listing.cardSelector,
+      prepare: (page) => this.prepareListing(page),
+      browserOnly: this.config.render === 'browser',
+    });
+    if (!$) throw new Error(`Failed to load listing page: ${listingUrl}`);
+
+    const rawCards = this.readCardsFromHtml($);
+
+    // Apply patterns and parsers per card
+    const byUrl = new Map<string, SelectorCard>();
+    let titled = 0;
+    for (const raw of rawCards) {
+      if (byUrl.has(raw.url)) continue;
+      const card: SelectorCard = {
+        url: raw.url,
+        fields: this.applyPatterns(listing.fields, raw.fields),
+      };
+      if (!card.fields.title) continue;
+      titled++;
+      if (this.shouldSkip(card)) continue;
+
+      const price = parseTicketPrice(card.fields.ticketPrice);
+      if (price != null && price <= 0) continue;
+
+      byUrl.set(raw.url, card);
+    }
+    await this.recordListingLayout($, titled);
+
+    return Array.from(byUrl.values());
+  }
+
+  private readCardsFromHtml($: CheerioAPI): RawCard[] {
+    const { listing, listingUrl } = this.config;
+    const results: RawCard[] = [];
+
+    $(listing.cardSelector).each((_, card) => {
+      const link = $(card).is('a') ? $(card) : $(listing.linkSelector || 'a', card).first();
+      const href = link.attr('href');
+      if (!href) return;
+
+      results.push({
+        url: new URL(href, listingUrl).toString(),
+        fields: readFieldsFromHtml($, listing.fields, card),
+      });
+    });
+
+    return results;
+  }
+
+  /**
+   * Browser fallback for the listing, before the cards are read: accept
+   * cookies and scroll through lazy-loaded cards. Override for tabs or
+   * "load more" buttons.
+   */
+  protected async prepareListing(page: Page): Promise<void> {
+    await this.dismissCookies(page);
+    const maxScrolls = this.config.listing.maxScrolls ?? 20;
+    if (maxScrolls > 0) await this.scrollToLoadAll(page, maxScrolls);
+  }
+
+  // ==========================================
+  // Detail Page
+  // ==========================================
+
+  private async scrapeDetailPage(
+    context: BrowserContext,
+    card: SelectorCard
+  ): Promise<DetailData | null> {
+    const detail = this.config.detail;
+    if (!detail) return null;
+
+    const $ = await this.loadDocument(context, card.url, {
+      readySelector: detail.waitForSelector ?? 'h1',
+      waitMs: 10_000,
+      browserOnly: this.config.render === 'browser',
+    });
+    return $ ? this.readDetailFromHtml($, card) : null;
+  }
+
+  /** Detail fields and extras from the fetched or browser-rendered HTML */
+  private readDetailFromHtml($: CheerioAPI, card: SelectorCard): DetailData {
+    const detail = this.config.detail!;
+    const fields = this.applyPatterns(detail.fields, readFieldsFromHtml($, detail.fields));
+    const ticketPrice = parseTicketPrice(fields.ticketPrice ?? card.fields.ticketPrice);
+
+    const extras = readDetailExtras($, ticketPrice, {
+      instantWins: detail.instantWinSelector,
+      prizeTiers: detail.prizeTierSelector,
+      priceTiers: detail.priceTierSelector,
+    });
+
+    return { fields, ...extras };
+  }
+
+  // ==========================================
+  // Helpers
+  // ==========================================
+
+  private needsDetailPage(card: SelectorCard): boolean {
+    const detail = this.config.detail;
+    if (!detail) return false;
+    if (detail.visit === 'all') return true;
+
+    const title = card.fields.title ?? '';
+    const prizeType = classifyPrizeType(title);
+    if (prizeType === 'car' || prizeType === 'motorcycle') return true;
+
+    const lower = title.toLowerCase();
+    return (this.config.vehicleKeywords ?? []).some((kw) => lower.includes(kw));
+  }
+
+  private shouldSkip(card: SelectorCard): boolean {
+    const { skip } = this.config;
+    if (!skip) return false;
+    const title = card.fields.title ?? '';
+    return (
+      (skip.titlePatterns ?? []).some((p) => p.test(title)) ||
+      (skip.urlPatterns ?? []).some((p) => p.test(card.url))
+    );
+  }
+
+  private applyPatterns(fields: FieldExtractors, raw: Record<string, string | null>): RawFields {
+    const result: RawFields = {};
+    for (const [key, extractor] of Object.entries(fields)) {
+      const value = applyPattern(raw[key], extractor?.pattern);
+      result[key as SelectorField] = value != null && extractor?.parse
+        ? extractor.parse(value)?.trim() || null
+        : value;
+    }
+    return result;
+  }
+
+  private absoluteUrl(url: string): string {
+    try {
+      return new URL(url, this.baseUrl).toString();
+    } catch {
+      return url;
+    }
+  }
+
+  private async dismissCookies(page: Page): Promise<void> {
+    for (const selector of this.config.cookieSelectors ?? []) {
+      try {
+        const btn = await page.$(selector);
+        if (btn) {
+          await btn.click();
+          await this.delay(500);
+          return;
+        }
+      } catch {
+        // Cookie banner not present or not clickable
+      }
+    }
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Scraper service status — /health and /metrics
+ *
+ * The scraper service records every job's runs in a ServiceStats, which the
+ * control server (control-server.ts) reports as JSON on /health (browser,
+ * current jobs, last run per site) and in Prometheus text format on /metrics
+ * (run counts, a run duration histogram, items found, errors, quality rates
+ * and field coverage). Counters
+ * start at zero when the process starts; scrape_logs remains the history.
+ */
+import type { SiteRun } from './run-all';
+import type { ScrapeJob, ScrapeMode } from './job-queue';
+import type { RunQuality } from './quality-metrics';
+
+// ============================================
+// Types
+// ============================================
+
+/** A site's latest run in one mode */
+export interface LastRun {
+  status: SiteRun['status'];
+  finishedAt: string;
+  durationMs: number;
+  itemsFound: number;
+  itemsNew: number;
+  itemsUpdated: number;
+  errorMessage?: string;
+}
+
+export interface RunningJob extends ScrapeJob {
+  startedAt: string;
+}
+
+export interface HealthReport {
+  status: 'ok' | 'degraded';
+  uptimeSeconds: number;
+  browserConnected: boolean;
+  runningJobs: RunningJob[];
+  lastRuns: Record<string, Partial<Record<ScrapeMode, LastRun>>>;
+}
+
+interface SeriesTotals {
+  runs: Record<SiteRun['status'], number>;
+  errors: number;
+  durationSeconds: number;
+  durationBuckets: number[]; // cumulative, one per DURATION_BUCKETS bound
+  itemsFound: number;       // latest run
+  lastRunAt: number;        // unix seconds
+}
+
+/** Upper bounds (seconds) of the run duration histogram's buckets */
+const DURATION_BUCKETS = [10, 30, 60, 120, 300, 600, 1200, 1800];
+
+// ============================================
+// Stats
+// ============================================
+
+export class ServiceStats {
+  private readonly startedAt: number;
+  private readonly series = new Map<string, SeriesTotals>();   // `${site}|${mode}`
+  private readonly lastRuns: HealthReport['lastRuns'] = {};
+  private readonly quality = new Map<string, RunQuality>();
+  readonly running = new Map<string, RunningJob>();
+
+  constructor(now: Date = new Date()) {
+    this.startedAt = now.getTime();
+  }
+
+  jobStarted(job: ScrapeJob, now: Date = new Date()): void {
+    this.running.set(job.id, { ...job, startedAt: now.toISOString() });
+  }
+
+  jobFinished(job: ScrapeJob): void {
+    this.running.delete(job.id);
+  }
+
+  /** Record the runs a job produced */
+  recordRuns(mode: ScrapeMode, runs: SiteRun[], now: Date = new Date()): void {
+    for (const run of runs) {
+      const key = `${run.siteSlug}|${mode}`;
+      const totals = this.series.get(key) ?? {
+        runs: { success: 0, partial: 0, failed: 0 },
+        errors: 0,
+        durationSeconds: 0,
+        durationBuckets: DURATION_BUCKETS.map(() => 0),
+        itemsFound: 0,
+        lastRunAt: 0,
+      };
+      totals.runs[run.status]++;
+      totals.errors += run.errorCount ?? (run.errorMessage ? 1 : 0);
+      totals.durationSeconds += run.durationMs / 1000;
+      DURATION_BUCKETS.forEach((le, i) => {
+        if (run.durationMs / 1000 <= le) totals.durationBuckets[i]++;
+      });
+      totals.itemsFound = run.itemsFound;
+      totals.lastRunAt = Math.floor(now.getTime() / 1000);
+      this.series.set(key, totals);
+
+      (this.lastRuns[run.siteSlug] ??= {})[mode] = {
+        status: run.status,
+        finishedAt: now.toISOString(),
+        durationMs: run.durationMs,
+        itemsFound: run.itemsFound,
+        itemsNew: run.itemsNew,
+        itemsUpdated: run.itemsUpdated,
+        ...(run.errorMessage && { errorMessage: run.errorMessage }),
+      };
+      if (run.quality) this.quality.set(run.siteSlug, run.quality);
+    }
+  }
+
+  health(browserConnected: boolean, now: Date = new Date()): HealthReport {
+    return {
+      status: browserConnected ? 'ok' : 'degraded',
+      uptimeSeconds: Math.floor((now.getTime() - this.startedAt) / 1000),
+      browserConnected,
+      runningJobs: Array.from(this.running.values()),
+      lastRuns: this.lastRuns,
+    };
+  }
+
+  /** Prometheus text exposition format (version 0.0.4) */
+  metrics(browserConnected: boolean, now: Date = new Date()): string {
+    const lines: string[] = [];
+    const metric = (name: string, type: 'counter' | 'gauge', help: string, samples: Array<[Record<string, string>, number]>) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+      for (const [labels, value] of samples) lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+    };
+    const sample = (name: string, labels: Record<string, string>, value: number) =>
+      lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+
+    const series = Array.from(this.series.entries()).map(([key, totals]) => {
+      const [site, mode] = key.split('|');
+      return { labels: { site, mode }, totals };
+    });
+
+    metric('scraper_up_seconds', 'gauge', 'Seconds since the scraper service started',
+      [[{}, Math.floor((now.getTime() - this.startedAt) / 1000)]]);
+    metric('scraper_browser_connected', 'gauge', 'Whether the shared Chromium is connected',
+      [[{}, browserConnected ? 1 : 0]]);
+    metric('scraper_jobs_running', 'gauge', 'Scrape jobs running now',
+      [[{}, this.running.size]]);
+    metric('scraper_runs_total', 'counter', 'Scrape runs by site, mode and status',
+      series.flatMap(({ labels, totals }) =>
+        (Object.keys(totals.runs) as SiteRun['status'][]).map((status): [Record<string, string>, number] =>
+          [{ ...labels, status }, totals.runs[status]])));
+    metric('scraper_run_errors_total', 'counter', 'Errors reported by scrape runs',
+      series.map(({ labels, totals }) => [labels, totals.errors]));
+    lines.push('# HELP scraper_run_duration_seconds How long scrape runs took', '# TYPE scraper_run_duration_seconds histogram');
+    for (const { labels, totals } of series) {
+      const count = totals.runs.success + totals.runs.partial + totals.runs.failed;
+      DURATION_BUCKETS.forEach((le, i) =>
+        sample('scraper_run_duration_seconds_bucket', { ...labels, le: String(le) }, totals.durationBuckets[i]));
+      sample('scraper_run_duration_seconds_bucket', { ...labels, le: '+Inf' }, count);
+      sample('scraper_run_duration_seconds_sum', labels, totals.durationSeconds);
+      sample('scraper_run_duration_seconds_count', labels, count);
+    }
+    metric('scraper_items_found', 'gauge', 'Raffles (or listing updates) found by the latest run',
+      series.map(({ labels, totals }) => [labels, totals.itemsFound]));
+    metric('scraper_last_run_timestamp_seconds', 'gauge', 'When the latest run finished',
+      series.map(({ labels, totals }) => [labels, totals.lastRunAt]));
+    metric('scraper_quality_rate', 'gauge', 'Null / unclassified rates from the latest full scrape',
+      Array.from(this.quality.entries()).flatMap(([site, q]): Array<[Record<string, string>, number]> => [
+        [{ site, metric: 'image_null' }, q.imageNullRate],
+        [{ site, metric: 'price_null' }, q.priceNullRate],
+        [{ site, metric: 'other_type' }, q.otherTypeRate],
+      ]));
+    metric('scraper_field_coverage', 'gauge', 'Share of raffles with each field from the latest full scrape (make/model: vehicles only)',
+      Array.from(this.quality.entries()).flatMap(([site, q]) =>
+        Object.entries(q.coverage).map(([field, c]): [Record<string, string>, number] =>
+          [{ site, field: snakeCase(field) }, c.total > 0 ? c.count / c.total : 0])));
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  const escape = (v: string) => v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  return `{${entries.map(([k, v]) => `${k}="${escape(v)}"`).join(',')}}`;
+}
+
+/** "cashAlternative" → "cash_alternative", like the other label values */
+function snakeCase(name: string): string {
+  return name.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+}
+
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(3);
+}
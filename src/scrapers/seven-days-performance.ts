@@ -1,6 +1,10 @@
-import { BrowserContext, Page } from 'playwright';
+import { BrowserContext } from 'playwright';
+import type { CheerioAPI } from 'cheerio';
 import { BaseScraper, ScrapedRaffle, ScraperResult, QuickUpdateResult } from './base';
+import { DEFAULT_POLITENESS } from './politeness';
 import { parsePriceToPence, extractSlugFromUrl } from '../lib/utils';
+import { parseUkDate } from '../lib/uk-date';
+import { textLines } from './html';
 
 // ============================================
 // 7 Days Performance Scraper
@@ -19,6 +23,11 @@ export class SevenDaysPerformanceScraper extends BaseScraper {
   name = '7 Days Performance';
   siteSlug = '7-days-performance';
   baseUrl = 'https://7daysperformance.co.uk';
+  politeness = { ...DEFAULT_POLITENESS, requestsPerMinute: 30 };
+  protected layoutProbes = {
+    productLinks: 'a[href^="/product/"]',
+    cardImages: 'a[href^="/product/"] img',
+  };
 
   /** Keywords that indicate a high-value prize worth visiting the detail page for */
   private static readonly HIGH_VALUE_KEYWORDS = [
@@ -57,12 +66,10 @@ export class SevenDaysPerformanceScraper extends BaseScraper {
     const errors: string[] = [];
     const raffles: ScrapedRaffle[] = [];
 
-    const page = await context.newPage();
-
     try {
       // Step 1: Get all competition links from listing page
       console.log(`[${this.name}] Fetching listing page...`);
-      const cards = await this.scrapeListingPage(page);
+      const cards = await this.scrapeListingPage(context);
       console.log(`[${this.name}] Found ${cards.length} competition cards`);
 
       // Step 2: Split into high-value (need detail page) vs others (listing only)
@@ -89,7 +96,7 @@ export class SevenDaysPerformanceScraper extends BaseScraper {
           console.log(`[${this.name}] [${i + 1}/${detailCards.length}] Detail: ${externalId}`);
 
           const raffle = await Promise.race([
-            this.scrapeDetailPage(page, detailUrl, card),
+            this.scrapeDetailPage(context, detailUrl, card),
             new Promise<null>((_, reject) =>
               setTimeout(
                 () => reject(new Error('Detail page timed out')),
@@ -110,18 +117,11 @@ export class SevenDaysPerformanceScraper extends BaseScraper {
           const fallback = this.buildRaffleFromCard(card);
           if (fallback) raffles.push(fallback);
         }
-
-        // Rate limiting between requests
-        if (i < detailCards.length - 1) {
-          await this.delay(1500);
-        }
       }
     } catch (error) {
       const msg = `Listing page error: ${error instanceof Error ? error.message : String(error)}`;
       console.error(`[${this.name}] ${msg}`);
       errors.push(msg);
-    } finally {
-      await page.close();
     }
 
     return {
@@ -139,10 +139,9 @@ export class SevenDaysPerformanceScraper extends BaseScraper {
   async quickUpdate(context: BrowserContext): Promise<QuickUpdateResult> {
     const startTime = Date.now();
     const errors: string[] = [];
-    const page = await context.newPage();
 
     try {
-      const cards = await this.scrapeListingPage(page);
+      const cards = await this.scrapeListingPage(context);
 
       const updates = cards
         .filter(card => card.price !== null || card.percentSold !== null)
@@ -152,8 +151,6 @@ export class SevenDaysPerformanceScraper extends BaseScraper {
           ticketPrice: card.price ? (parsePriceToPence(card.price) ?? undefined) : undefined,
         }));
 
-      await page.close();
-
       return {
         siteName: this.name,
         siteSlug: this.siteSlug,
@@ -164,7 +161,6 @@ export class SevenDaysPerformanceScraper extends BaseScraper {
     } catch (error) {
       const msg = `Quick update error: ${error instanceof Error ? error.message : String(error)}`;
       errors.push(msg);
-      await page.close();
 
       return {
         siteName: this.name,
@@ -180,104 +176,97 @@ export class SevenDaysPerformanceScraper extends BaseScraper {
   // Private: Listing page scraping
   // ============================================
 
-  private async scrapeListingPage(page: Page): Promise<ListingCard[]> {
+  private async scrapeListingPage(context: BrowserContext): Promise<ListingCard[]> {
     // 7 Days uses the homepage as the main listing
-    const success = await this.navigateWithRetry(page, this.baseUrl, {
-      waitUntil: 'domcontentloaded',
+    const $ = await this.loadDocument(context, this.baseUrl, {
+      readySelector: 'a[href^="/product/"]',
+      waitMs: 5000,
+      prepare: async (page) => {
+        // Wait for content to render
+        await page.waitForTimeout(5000);
+
+        // Scroll down to load all competition cards (they may lazy-load)
+        for (let i = 0; i < 15; i++) {
+          await page.evaluate(() => window.scrollBy(0, 2000));
+          await page.waitForTimeout(600);
+        }
+      },
     });
 
-    if (!success) {
+    if (!$) {
       throw new Error('Failed to load listing page after retries');
     }
 
-    // Wait for content to render
-    await page.waitForTimeout(5000);
+    const seen = new Set<string>();
+    const cards: ListingCard[] = [];
 
-    // Scroll down to load all competition cards (they may lazy-load)
-    for (let i = 0; i < 15; i++) {
-      await page.evaluate(() => window.scrollBy(0, 2000));
-      await page.waitForTimeout(600);
-    }
+    $('a[href^="/product/"]').each((_, a) => {
+      // Deduplicate by href
+      const href = $(a).attr('href') || '';
+      if (seen.has(href)) return;
+      seen.add(href);
+
+      // One line — 7DP card text uses block elements, and the patterns
+      // below expect the card's fields side by side
+      const text = textLines($, a).join(' ');
+      const imgSrc = $(a).find('img').first().attr('src') || null;
+
+      // === Parse structured data from link text ===
+      //
+      // Typical formats:
+      //   "Draw on Monday 10pm Win This VW Golf GTI + £2,000 Cash! Cash Alternative: £22,500 £19.99 sold: 21 % Enter now"
+      //   "Closing Today 10pm THE CHEAPEST YET ⚡️ 1 in 7.8 Chance of Winning ⚡️ £0.10"
+      //   "Just launched Win this £550k Home! Cash Alternative: £450,000 £1.99 sold: 28 % Enter now"
+
+      // Extract cash alternative
+      const cashAltMatch = text.match(/Cash Alternative:\s*£([\d,]+)/i);
+      const cashAlternative = cashAltMatch
+        ? parseInt(cashAltMatch[1].replace(/,/g, ''))
+        : null;
 
-    // Scroll back to top
-    await page.evaluate(() => window.scrollTo(0, 0));
+      // Extract percent sold
+      const soldMatch = text.match(/sold:\s*(\d+)\s*%/i);
+      const percentSold = soldMatch ? parseInt(soldMatch[1]) : null;
 
-    // Extract competition cards
-    const cards = await page.evaluate(() => {
-      const allLinks = Array.from(document.querySelectorAll('a[href^="/product/"]'));
+      // Extract ticket price — the £X.XX value right before "sold:" or "Enter now" or end
+      // Must have a decimal to distinguish from prize values like £2,000
+      let price: string | null = null;
+      const priceRegex = /£(\d+\.\d+)\s*(?:sold|Enter|$)/i;
+      const priceMatch = text.match(priceRegex);
+      if (priceMatch) {
+        price = `£${priceMatch[1]}`;
+      }
 
-      // Deduplicate by href
-      const seen = new Set<string>();
-      const unique = allLinks.filter(a => {
-        const href = a.getAttribute('href')!;
-        if (seen.has(href)) return false;
-        seen.add(href);
-        return true;
-      });
+      // Extract title — remove the draw timing prefix and trailing data
+      let title = text;
 
-      return unique.map(a => {
-        const href = a.getAttribute('href') || '';
-        // Normalize newlines to spaces — 7DP card text uses block elements
-        // which produce \n in innerText, breaking regex patterns
-        const text = (a as HTMLElement).innerText.trim().replace(/\n+/g, ' ');
-        const img = a.querySelector('img');
-        const imgSrc = img?.getAttribute('src') || null;
-
-        // === Parse structured data from link text ===
-        //
-        // Typical formats:
-        //   "Draw on Monday 10pm Win This VW Golf GTI + £2,000 Cash! Cash Alternative: £22,500 £19.99 sold: 21 % Enter now"
-        //   "Closing Today 10pm THE CHEAPEST YET ⚡️ 1 in 7.8 Chance of Winning ⚡️ £0.10"
-        //   "Just launched Win this £550k Home! Cash Alternative: £450,000 £1.99 sold: 28 % Enter now"
-
-        // Extract cash alternative
-        const cashAltMatch = text.match(/Cash Alternative:\s*£([\d,]+)/i);
-        const cashAlternative = cashAltMatch
-          ? parseInt(cashAltMatch[1].replace(/,/g, ''))
-          : null;
-
-        // Extract percent sold
-        const soldMatch = text.match(/sold:\s*(\d+)\s*%/i);
-        const percentSold = soldMatch ? parseInt(soldMatch[1]) : null;
-
-        // Extract ticket price — the £X.XX value right before "sold:" or "Enter now" or end
-        // Must have a decimal to distinguish from prize values like £2,000
-        let price: string | null = null;
-        const priceRegex = /£(\d+\.\d+)\s*(?:sold|Enter|$)/i;
-        const priceMatch = text.match(priceRegex);
-        if (priceMatch) {
-          price = `£${priceMatch[1]}`;
-        }
+      // Remove draw timing prefix:
+      // "Draw Today 10pm ", "Closing Tomorrow 9pm ", "Draw on Monday 10pm ",
+      // "Just launched ", "Closing on Wednesday 10pm "
+      title = title.replace(
+        /^(?:Draw\s+(?:Today|Tomorrow|on\s+\w+)\s+\d+(?::\d+)?pm\s*|Closing\s+(?:Today|Tomorrow|on\s+\w+)\s+\d+(?::\d+)?pm\s*|Just\s+launched\s*)/i,
+        ''
+      );
+
+      // Remove trailing data: "Cash Alternative: £X £X.XX sold: XX % Enter now"
+      title = title.replace(/\s*Cash Alternative:.*$/i, '');
+      title = title.replace(/\s*£\d+\.\d+\s*(?:sold:.*)?(?:Enter now)?$/i, '');
+      title = title.replace(/\s*sold:\s*\d+\s*%.*$/i, '');
+      title = title.replace(/\s*Enter now\s*$/i, '');
+      title = title.trim();
 
-        // Extract title — remove the draw timing prefix and trailing data
-        let title = text;
-
-        // Remove draw timing prefix:
-        // "Draw Today 10pm ", "Closing Tomorrow 9pm ", "Draw on Monday 10pm ",
-        // "Just launched ", "Closing on Wednesday 10pm "
-        title = title.replace(
-          /^(?:Draw\s+(?:Today|Tomorrow|on\s+\w+)\s+\d+(?::\d+)?pm\s*|Closing\s+(?:Today|Tomorrow|on\s+\w+)\s+\d+(?::\d+)?pm\s*|Just\s+launched\s*)/i,
-          ''
-        );
-
-        // Remove trailing data: "Cash Alternative: £X £X.XX sold: XX % Enter now"
-        title = title.replace(/\s*Cash Alternative:.*$/i, '');
-        title = title.replace(/\s*£\d+\.\d+\s*(?:sold:.*)?(?:Enter now)?$/i, '');
-        title = title.replace(/\s*sold:\s*\d+\s*%.*$/i, '');
-        title = title.replace(/\s*Enter now\s*$/i, '');
-        title = title.trim();
-
-        return {
-          href,
-          title,
-          price,
-          percentSold,
-          cashAlternative,
-          imageUrl: imgSrc,
-        };
+      cards.push({
+        href,
+        title,
+        price,
+        percentSold,
+        cashAlternative,
+        imageUrl: imgSrc,
       });
     });
 
+    await this.recordListingLayout($, cards.length);
+
     // Filter out free entries (£0.00) and cards with empty titles
     return cards.filter(card => {
       if (!card.title || card.title.length < 5) return false;
@@ -292,139 +281,22 @@ export class SevenDaysPerformanceScraper extends BaseScraper {
   // ============================================
 
   private async scrapeDetailPage(
-    page: Page,
+    context: BrowserContext,
     url: string,
     card: ListingCard
   ): Promise<ScrapedRaffle | null> {
-    const success = await this.navigateWithRetry(page, url, {
-      waitUntil: 'domcontentloaded',
-    });
+    const $ = await this.loadDocument(context, url, { readySelector: 'h1', waitMs: 5000 });
 
-    if (!success) {
+    if (!$) {
       console.warn(`[${this.name}] Could not load detail page: ${url}`);
       // Fall back to listing card data only
       return this.buildRaffleFromCard(card);
     }
 
-    // Wait for content to render (extra time for slow servers)
-    await page.waitForTimeout(5000);
-
-    const data = await page.evaluate(() => {
-      const body = document.body.innerText;
-
-      // === Clean title ===
-      // Try document.title first, then h1/product-title elements
-      let pageTitle = (document.title || '')
-        .replace(/\s*[-–|]\s*7\s*days?\s*Performance.*$/i, '')
-        .trim();
-
-      // If document.title was just the site name, try h1 or product title
-      if (!pageTitle || /^7\s*days?\s*performance$/i.test(pageTitle)) {
-        const h1 = document.querySelector('h1.product_title, h1.entry-title, h1');
-        if (h1) {
-          pageTitle = (h1 as HTMLElement).innerText.trim();
-        }
-      }
-
-      // === Total entries ===
-      // Pattern: "total amount of entries for this competition is (X,XXX)" or "(XXXX)"
-      const entriesMatch = body.match(
-        /total (?:amount|number) of entries for this competition is\s*\(?([\d,]+)\)?/i
-      );
-      const totalEntries = entriesMatch
-        ? parseInt(entriesMatch[1].replace(/,/g, ''))
-        : null;
-
-      // === Draw date ===
-      // Pattern: "draw for this competition will take place on DD/MM/YYYY"
-      const dateMatch = body.match(
-        /draw for this competition will take place on\s*(\d{2}\/\d{2}\/\d{4})/i
-      );
-      const drawDateStr = dateMatch ? dateMatch[1] : null;
+    const data = this.readDetailPage($);
 
-      // === Percent sold ===
-      // Match "SOLD: 26%" or "SOLD: 26 %" (the actual format on the page).
-      // Previous regex /(\d+)%?\s*sold/i was buggy — it matched the last
-      // digits of ticket prices like "£19.99" followed by "\nSOLD:".
-      const soldMatch = body.match(/SOLD:\s*(\d+)\s*%/i);
-      const percentSold = soldMatch ? parseInt(soldMatch[1]) : null;
-
-      // === Tickets sold / total from "658 / 2,499" pattern ===
-      const ratioMatch = body.match(/SOLD:\s*\d+\s*%\s*([\d,]+)\s*\/\s*([\d,]+)/i);
-      const ticketsSoldDirect = ratioMatch
-        ? parseInt(ratioMatch[1].replace(/,/g, ''))
-        : null;
-      const totalEntriesDirect = ratioMatch
-        ? parseInt(ratioMatch[2].replace(/,/g, ''))
-        : null;
-
-      // === Ticket price ===
-      // Look for "for £X.XX!" pattern in descriptions
-      const priceFromDesc = body.match(/for\s+£(\d+\.?\d*)\s*!/i);
-      const price = priceFromDesc ? `£${priceFromDesc[1]}` : null;
-
-      // === Cash alternative from page ===
-      const cashAltMatch = body.match(/Cash Alternative:\s*£([\d,]+)/i);
-      const cashAlternative = cashAltMatch
-        ? parseInt(cashAltMatch[1].replace(/,/g, ''))
-        : null;
-
-      // === Prize value from body text ===
-      const prizeValueMatch =
-        body.match(/\bworth\s+(?:approximately\s+)?£([\d,]+)/i) ||
-        body.match(/\bRRP\s*[:\s]+£([\d,]+)/i) ||
-        body.match(/\bvalued?\s+at\s+£([\d,]+)/i) ||
-        body.match(/\bprize\s+value\s*[:\s]+£([\d,]+)/i);
-      const prizeValueStr = prizeValueMatch ? prizeValueMatch[1] : null;
-
-      // === Additional cash ===
-      // Pattern: "+ £X,XXX Cash!" or "& £X,XXX Cash!"
-      const additionalMatch = pageTitle.match(/[+&]\s*£([\d,]+)\s*Cash/i);
-      const additionalCash = additionalMatch
-        ? parseInt(additionalMatch[1].replace(/,/g, ''))
-        : null;
-
-      // === Draw type ===
-      const isAutomated = body.includes('Automated Draw System');
-      const isLive = body.match(/live draw/i) !== null && !isAutomated;
-      const drawType = isAutomated ? 'automated' : isLive ? 'live' : null;
-
-      // === Main image ===
-      // 7 Days uses a Swiper carousel for product galleries.
-      // The carousel has duplicate slides for infinite scrolling, so we must
-      // target the ACTIVE slide specifically to get the hero/exterior image.
-      // Fallback: first non-duplicate gallery image, then any S3/CDN image.
-      const activeSlideImg = document.querySelector('.swiper-slide-active .product-gallery__img') as HTMLImageElement | null;
-      const firstGalleryImg = document.querySelector('.swiper-slide:not(.swiper-slide-duplicate) .product-gallery__img') as HTMLImageElement | null;
-      const fallbackImg =
-        document.querySelector('img[src*="7days-production"]') as HTMLImageElement | null ||
-        document.querySelector('img[src*="7daysperformance"]') as HTMLImageElement | null;
-      const mainImgSrc = activeSlideImg?.getAttribute('src') || firstGalleryImg?.getAttribute('src') || fallbackImg?.getAttribute('src') || null;
-
-      return {
-        pageTitle,
-        totalEntries: totalEntriesDirect ?? totalEntries,
-        ticketsSoldDirect,
-        drawDateStr,
-        percentSold,
-        price,
-        cashAlternative,
-        additionalCash,
-        prizeValueStr,
-        drawType,
-        mainImage: mainImgSrc,
-      };
-    });
-
-    // Parse draw date (DD/MM/YYYY → Date object)
-    let endDate: Date | null = null;
-    if (data.drawDateStr) {
-      const [day, month, year] = data.drawDateStr.split('/').map(Number);
-      if (day && month && year) {
-        // Set to 22:00 (10pm) as most draws happen at that time
-        endDate = new Date(year, month - 1, day, 22, 0, 0);
-      }
-    }
+    // Parse draw date (DD/MM/YYYY) — 22:00 (10pm) as most draws happen at that time
+    const endDate = parseUkDate(data.drawDateStr, { defaultTime: { hour: 22, minute: 0 } })?.date ?? null;
 
     // Use detail page title, fall back to card title, then URL slug
     const title = this.sanitizeTitle(data.pageTitle || card.title, url);
@@ -481,6 +353,114 @@ export class SevenDaysPerformanceScraper extends BaseScraper {
     };
   }
 
+  /** Title, entries, draw date, sold counts and cash values from the detail page */
+  private readDetailPage($: CheerioAPI) {
+    const body = textLines($).join('\n');
+
+    // === Clean title ===
+    // Try the <title> first, then h1/product-title elements
+    let pageTitle = $('title').text()
+      .replace(/\s*[-–|]\s*7\s*days?\s*Performance.*$/i, '')
+      .trim();
+
+    // If the <title> was just the site name, try h1 or product title
+    if (!pageTitle || /^7\s*days?\s*performance$/i.test(pageTitle)) {
+      const h1 = $('h1.product_title, h1.entry-title, h1').first();
+      if (h1.length > 0) {
+        pageTitle = h1.text().replace(/\s+/g, ' ').trim();
+      }
+    }
+
+    // === Total entries ===
+    // Pattern: "total amount of entries for this competition is (X,XXX)" or "(XXXX)"
+    const entriesMatch = body.match(
+      /total (?:amount|number) of entries for this competition is\s*\(?([\d,]+)\)?/i
+    );
+    const totalEntries = entriesMatch
+      ? parseInt(entriesMatch[1].replace(/,/g, ''))
+      : null;
+
+    // === Draw date ===
+    // Pattern: "draw for this competition will take place on DD/MM/YYYY"
+    const dateMatch = body.match(
+      /draw for this competition will take place on\s*(\d{2}\/\d{2}\/\d{4})/i
+    );
+    const drawDateStr = dateMatch ? dateMatch[1] : null;
+
+    // === Percent sold ===
+    // Match "SOLD: 26%" or "SOLD: 26 %" (the actual format on the page).
+    // Previous regex /(\d+)%?\s*sold/i was buggy — it matched the last
+    // digits of ticket prices like "£19.99" followed by "\nSOLD:".
+    const soldMatch = body.match(/SOLD:\s*(\d+)\s*%/i);
+    const percentSold = soldMatch ? parseInt(soldMatch[1]) : null;
+
+    // === Tickets sold / total from "658 / 2,499" pattern ===
+    const ratioMatch = body.match(/SOLD:\s*\d+\s*%\s*([\d,]+)\s*\/\s*([\d,]+)/i);
+    const ticketsSoldDirect = ratioMatch
+      ? parseInt(ratioMatch[1].replace(/,/g, ''))
+      : null;
+    const totalEntriesDirect = ratioMatch
+      ? parseInt(ratioMatch[2].replace(/,/g, ''))
+      : null;
+
+    // === Ticket price ===
+    // Look for "for £X.XX!" pattern in descriptions
+    const priceFromDesc = body.match(/for\s+£(\d+\.?\d*)\s*!/i);
+    const price = priceFromDesc ? `£${priceFromDesc[1]}` : null;
+
+    // === Cash alternative from page ===
+    const cashAltMatch = body.match(/Cash Alternative:\s*£([\d,]+)/i);
+    const cashAlternative = cashAltMatch
+      ? parseInt(cashAltMatch[1].replace(/,/g, ''))
+      : null;
+
+    // === Prize value from body text ===
+    const prizeValueMatch =
+      body.match(/\bworth\s+(?:approximately\s+)?£([\d,]+)/i) ||
+      body.match(/\bRRP\s*[:\s]+£([\d,]+)/i) ||
+      body.match(/\bvalued?\s+at\s+£([\d,]+)/i) ||
+      body.match(/\bprize\s+value\s*[:\s]+£([\d,]+)/i);
+    const prizeValueStr = prizeValueMatch ? prizeValueMatch[1] : null;
+
+    // === Additional cash ===
+    // Pattern: "+ £X,XXX Cash!" or "& £X,XXX Cash!"
+    const additionalMatch = pageTitle.match(/[+&]\s*£([\d,]+)\s*Cash/i);
+    const additionalCash = additionalMatch
+      ? parseInt(additionalMatch[1].replace(/,/g, ''))
+      : null;
+
+    // === Draw type ===
+    const isAutomated = body.includes('Automated Draw System');
+    const isLive = body.match(/live draw/i) !== null && !isAutomated;
+    const drawType = isAutomated ? 'automated' : isLive ? 'live' : null;
+
+    // === Main image ===
+    // 7 Days uses a Swiper carousel for product galleries.
+    // The carousel has duplicate slides for infinite scrolling, so we must
+    // target the ACTIVE slide specifically to get the hero/exterior image.
+    // Fallback: first non-duplicate gallery image, then any S3/CDN image.
+    const mainImgSrc =
+      $('.swiper-slide-active .product-gallery__img').first().attr('src') ||
+      $('.swiper-slide:not(.swiper-slide-duplicate) .product-gallery__img').first().attr('src') ||
+      $('img[src*="7days-production"]').first().attr('src') ||
+      $('img[src*="7daysperformance"]').first().attr('src') ||
+      null;
+
+    return {
+      pageTitle,
+      totalEntries: totalEntriesDirect ?? totalEntries,
+      ticketsSoldDirect,
+      drawDateStr,
+      percentSold,
+      price,
+      cashAlternative,
+      additionalCash,
+      prizeValueStr,
+      drawType,
+      mainImage: mainImgSrc,
+    };
+  }
+
   /**
    * Build a minimal raffle from listing card data (fallback when detail page fails).
    */
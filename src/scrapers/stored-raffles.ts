@@ -0,0 +1,140 @@
+/**
+ * Stored Raffles — what we already know about a site's raffles
+ *
+ * Before a full scrape, run-all loads the stored detail fields for every live
+ * raffle on the site into BaseScraper.storedRaffles. Scrapers then only
+ * revisit detail pages that are new, have missing fields, or haven't been
+ * refreshed within BaseScraper.detailRefreshMs; the rest are built from the
+ * listing card and topped up from the stored row so persist doesn't null
+ * out cash alternatives, ticket totals and end dates, or drop runner-up and
+ * instant-win value from expected value.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ScrapedRaffle } from './base';
+
+// ============================================
+// Types
+// ============================================
+
+/** Detail-page fields as stored on `raffles` (pence / ISO strings) */
+export interface StoredRaffle {
+  externalId: string;
+  prizeValue: number | null;
+  cashAlternative: number | null;
+  additionalCash: number | null;
+  imageUrl: string | null;
+  totalTickets: number | null;
+  maxPerPerson: number | null;
+  endDate: string | null;
+  drawType: string | null;
+  runnerUpValue: number | null;
+  instantWinValueRemaining: number | null;
+  detailScrapedAt: string | null;
+}
+
+/** Default window before a detail page is revisited */
+export const DETAIL_REFRESH_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Staleness
+// ============================================
+
+/**
+ * Should this raffle's detail page be (re)visited?
+ * Yes if it's new, was never detail-scraped, is missing a field only the
+ * detail page provides, or was last refreshed more than `refreshMs` ago.
+ */
+export function needsDetailRefresh(
+  stored: StoredRaffle | undefined,
+  refreshMs: number = DETAIL_REFRESH_MS,
+  now: Date = new Date()
+): boolean {
+  if (!stored || !stored.detailScrapedAt) return true;
+  if (stored.totalTickets == null || stored.endDate == null) return true;
+  if (stored.prizeValue == null && stored.cashAlternative == null) return true;
+  return now.getTime() - new Date(stored.detailScrapedAt).getTime() > refreshMs;
+}
+
+/**
+ * Fill fields the listing card doesn't carry from the stored row.
+ * Scraped values always win; tickets sold is re-derived from the card's
+ * % sold when the stored total is used.
+ */
+export function withStoredDetail(raffle: ScrapedRaffle, stored: StoredRaffle | undefined): ScrapedRaffle {
+  if (!stored) return raffle;
+
+  const totalTickets = raffle.totalTickets ?? stored.totalTickets ?? undefined;
+  const ticketsSold = raffle.ticketsSold
+    ?? (totalTickets && raffle.percentSold != null
+      ? Math.round((raffle.percentSold / 100) * totalTickets)
+      : undefined);
+
+  return {
+    ...raffle,
+    prizeValue: raffle.prizeValue ?? stored.prizeValue ?? undefined,
+    cashAlternative: raffle.cashAlternative ?? stored.cashAlternative ?? undefined,
+    additionalCash: raffle.additionalCash ?? stored.additionalCash ?? undefined,
+    imageUrl: raffle.imageUrl ?? stored.imageUrl ?? undefined,
+    totalTickets,
+    ticketsSold,
+    maxPerPerson: raffle.maxPerPerson ?? stored.maxPerPerson ?? undefined,
+    endDate: raffle.endDate ?? (stored.endDate ? new Date(stored.endDate) : undefined),
+    drawType: raffle.drawType ?? stored.drawType ?? undefined,
+    // Prize tiers and instant wins are only read on the detail page; their
+    // stored totals stay in expected value until the next visit
+    runnerUpValue: raffle.runnerUpValue ?? stored.runnerUpValue ?? undefined,
+    instantWinValueRemaining: raffle.instantWinValueRemaining ?? stored.instantWinValueRemaining ?? undefined,
+  };
+}
+
+// ============================================
+// Loading
+// ============================================
+
+/**
+ * Load stored detail fields for a site's live raffles, keyed by external_id.
+ * Returns an empty map (everything treated as new) on any error.
+ */
+export async function loadStoredRaffles(
+  siteSlug: string,
+  supabase: SupabaseClient
+): Promise<Map<string, StoredRaffle>> {
+  const stored = new Map<string, StoredRaffle>();
+
+  const { data: site } = await supabase
+    .from('sites')
+    .select('id')
+    .eq('slug', siteSlug)
+    .single();
+  if (!site) return stored;
+
+  const { data, error } = await supabase
+    .from('raffles')
+    .select('external_id, prize_value, cash_alternative, additional_cash, image_url, image_source_url, total_tickets, max_per_person, end_date, draw_type, runner_up_value, instant_win_value_remaining, detail_scraped_at')
+    .eq('site_id', site.id)
+    .in('status', ['active', 'ending_soon', 'sold_out']);
+
+  if (error) {
+    console.error(`[stored] Failed to load stored raffles for ${siteSlug}: ${error.message}`);
+    return stored;
+  }
+
+  for (const row of data ?? []) {
+    stored.set(row.external_id, {
+      externalId: row.external_id,
+      prizeValue: row.prize_value,
+      cashAlternative: row.cash_alternative,
+      additionalCash: row.additional_cash,
+      imageUrl: row.image_source_url ?? row.image_url,   // the site's URL, not our mirror
+      totalTickets: row.total_tickets,
+      maxPerPerson: row.max_per_person,
+      endDate: row.end_date,
+      drawType: row.draw_type,
+      runnerUpValue: row.runner_up_value,
+      instantWinValueRemaining: row.instant_win_value_remaining,
+      detailScrapedAt: row.detail_scraped_at,
+    });
+  }
+
+  return stored;
+}
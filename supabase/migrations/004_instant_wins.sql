@@ -0,0 +1,33 @@
+-- supabase/migrations/004_instant_wins.sql
+-- Instant-win prizes bolted onto a raffle (e.g. "BMW M3 + 50 Instant Wins").
+-- One row per distinct prize; quantity_won is updated on every detail scrape.
+-- The raffle keeps rolled-up totals so listings can filter on unclaimed wins
+-- without joining.
+
+CREATE TABLE instant_wins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  raffle_id UUID REFERENCES raffles(id) ON DELETE CASCADE,
+  prize TEXT NOT NULL,                 -- "£500 Tax Free Cash"
+  value INTEGER,                       -- per-prize value in pence (NULL if unknown)
+  quantity INTEGER NOT NULL DEFAULT 1, -- how many of this prize are on offer
+  quantity_won INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(raffle_id, prize)
+);
+
+CREATE INDEX idx_instant_wins_raffle ON instant_wins(raffle_id);
+
+CREATE TRIGGER instant_wins_updated_at
+  BEFORE UPDATE ON instant_wins
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Rolled-up totals on the parent raffle
+ALTER TABLE raffles
+  ADD COLUMN instant_wins_remaining INTEGER,       -- unclaimed instant-win prizes
+  ADD COLUMN instant_win_value_remaining INTEGER;  -- pence, unclaimed prizes with a known value
+
+CREATE INDEX idx_raffles_instant_wins_remaining ON raffles(instant_wins_remaining)
+  WHERE instant_wins_remaining > 0;
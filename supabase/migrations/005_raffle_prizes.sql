@@ -0,0 +1,30 @@
+-- supabase/migrations/005_raffle_prizes.sql
+-- Tiered draws: "1st Prize: Porsche 911, 2nd Prize: £5,000, 10 x £100 runners-up".
+-- One row per tier, keyed by position (1 = headline prize). The raffle keeps
+-- the combined value of every tier after the first so EV and value score can
+-- be computed without joining.
+
+CREATE TABLE raffle_prizes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  raffle_id UUID REFERENCES raffles(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,           -- 1 = main prize, 2 = second prize, ...
+  prize TEXT NOT NULL,                 -- "£5,000 Tax Free Cash"
+  value INTEGER,                       -- per-winner value in pence (NULL if unknown)
+  cash_alternative INTEGER,            -- per-winner cash alternative in pence
+  quantity INTEGER NOT NULL DEFAULT 1, -- how many winners at this tier
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(raffle_id, position)
+);
+
+CREATE INDEX idx_raffle_prizes_raffle ON raffle_prizes(raffle_id);
+
+CREATE TRIGGER raffle_prizes_updated_at
+  BEFORE UPDATE ON raffle_prizes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Rolled-up value of the lower tiers on the parent raffle
+ALTER TABLE raffles
+  ADD COLUMN runner_up_value INTEGER;  -- pence, sum of value × quantity for tiers 2+
@@ -0,0 +1,8 @@
+-- supabase/migrations/006_price_tiers.sql
+-- Bundle / discount pricing ("5 for £4", "10 tickets £8").
+-- Stored inline as [{ "quantity": 5, "price": 400 }, ...] (price = pence for
+-- the whole bundle) so the listing can compute an effective per-ticket price
+-- without joining. ticket_price stays the single-ticket price.
+
+ALTER TABLE raffles
+  ADD COLUMN price_tiers JSONB;
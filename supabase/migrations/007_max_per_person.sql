@@ -0,0 +1,11 @@
+-- supabase/migrations/007_max_per_person.sql
+-- Per-person ticket caps ("Max 50 tickets per person"). With a cap, the best
+-- odds one entrant can get is total_tickets / max_per_person, which is far
+-- more useful for comparing draws than the per-ticket odds_ratio alone.
+
+ALTER TABLE raffles
+  ADD COLUMN max_per_person INTEGER,       -- per-entrant ticket cap (NULL if unknown)
+  ADD COLUMN best_odds_ratio DECIMAL(10,2); -- total_tickets / max_per_person
+
+CREATE INDEX idx_raffles_best_odds ON raffles(best_odds_ratio)
+  WHERE best_odds_ratio IS NOT NULL;
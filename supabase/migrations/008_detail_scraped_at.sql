@@ -0,0 +1,8 @@
+-- supabase/migrations/008_detail_scraped_at.sql
+-- When each raffle's detail page was last visited. Full scrapes skip the
+-- detail page for raffles whose stored detail fields are complete and were
+-- refreshed within the window (DETAIL_REFRESH_HOURS, default 24), and fill
+-- those fields from the stored row instead.
+
+ALTER TABLE raffles
+  ADD COLUMN detail_scraped_at TIMESTAMPTZ; -- NULL = never detail-scraped
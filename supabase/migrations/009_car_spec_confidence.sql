@@ -0,0 +1,12 @@
+-- supabase/migrations/009_car_spec_confidence.sql
+-- car_make / car_model / car_year / car_variant are now filled for every site
+-- by parseCarSpec (src/lib/car-spec.ts) from the title. Record how sure the
+-- parser was, so make/model filters and per-model analytics can ignore
+-- make-only guesses.
+
+ALTER TABLE raffles
+  ADD COLUMN car_spec_confidence TEXT
+    CHECK (car_spec_confidence IN ('high', 'medium', 'low'));
+
+CREATE INDEX idx_raffles_car_make_model ON raffles(car_make, car_model)
+  WHERE car_make IS NOT NULL;
@@ -0,0 +1,9 @@
+-- supabase/migrations/010_estimated_value.sql
+-- Our own market-value estimate for prize cars, from make / model / year /
+-- mileage and the local price table (src/lib/car-price-table.ts).
+-- prize_value stays exactly what the site claims; metrics use the estimate
+-- when the claim is missing or more than 25% above it.
+
+ALTER TABLE raffles
+  ADD COLUMN estimated_value INTEGER,    -- pence
+  ADD COLUMN valuation_version TEXT;     -- PRICE_TABLE_VERSION used
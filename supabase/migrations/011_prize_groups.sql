@@ -0,0 +1,10 @@
+-- supabase/migrations/011_prize_groups.sql
+-- Raffles for the same prize — the same car listed by several sites, or
+-- relisted by one — share a prize_group_id (src/scrapers/prize-groups.ts).
+-- Lets the UI point at a better-odds listing and analytics count each prize
+-- once. NULL = no other listing of this prize.
+
+ALTER TABLE raffles ADD COLUMN prize_group_id UUID;
+
+CREATE INDEX idx_raffles_prize_group ON raffles(prize_group_id)
+  WHERE prize_group_id IS NOT NULL;
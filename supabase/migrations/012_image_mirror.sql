@@ -0,0 +1,18 @@
+-- supabase/migrations/012_image_mirror.sql
+-- Prize images are mirrored into our own storage (src/scrapers/image-mirror.ts).
+-- image_url now points at the mirrored card-size copy; the site's original
+-- URL moves to image_source_url so unchanged images aren't mirrored again.
+-- image_hash is a 64-bit perceptual hash (dHash, 16 hex chars) used for
+-- same-prize matching and stock-photo checks. NULL = not mirrored yet.
+
+ALTER TABLE raffles
+  ADD COLUMN image_source_url TEXT,
+  ADD COLUMN image_hash TEXT,
+  ADD COLUMN image_variants JSONB;       -- { thumb, card, full } public URLs
+
+UPDATE raffles SET image_source_url = image_url WHERE image_url IS NOT NULL;
+
+-- Public bucket for the mirrored copies
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('raffle-images', 'raffle-images', true)
+ON CONFLICT (id) DO NOTHING;
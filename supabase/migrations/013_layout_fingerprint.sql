@@ -0,0 +1,9 @@
+-- supabase/migrations/013_layout_fingerprint.sql
+-- Structural fingerprint of the listing page(s) seen by each full scrape
+-- (src/scrapers/layout-fingerprint.ts): { cards, probes: { name: hits } }.
+-- run-all compares it with the last successful/partial run for the site and
+-- skips persisting when the layout has changed.
+
+ALTER TABLE scrape_logs ADD COLUMN layout_fingerprint JSONB;
+
+CREATE INDEX idx_scrape_logs_site_started ON scrape_logs(site_id, started_at DESC);
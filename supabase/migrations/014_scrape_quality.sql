@@ -0,0 +1,31 @@
+-- supabase/migrations/014_scrape_quality.sql
+-- Field-level data quality for every full scrape that persisted results
+-- (src/scrapers/quality-metrics.ts: computeQualityReport).
+--   coverage: { field: { count, total, percent } }  — ticketPrice, endDate, makeModel, ...
+--   sanity:   { check: { count, examples } }         — percentSoldOver100, endDateInPast,
+--                                                      ticketPriceOutlier, totalTicketsChanged
+
+CREATE TABLE scrape_quality (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id UUID REFERENCES sites(id) ON DELETE CASCADE,
+  recorded_at TIMESTAMPTZ DEFAULT NOW(),
+  raffle_count INTEGER NOT NULL,
+  image_null_rate NUMERIC,
+  price_null_rate NUMERIC,
+  other_type_rate NUMERIC,
+  coverage JSONB NOT NULL,
+  sanity JSONB NOT NULL
+);
+
+CREATE INDEX idx_scrape_quality_site_recorded ON scrape_quality(site_id, recorded_at DESC);
+
+-- Daily coverage per site and field, for trend charts
+CREATE VIEW scrape_quality_daily AS
+SELECT
+  q.site_id,
+  date_trunc('day', q.recorded_at) AS day,
+  c.key AS field,
+  ROUND(AVG((c.value->>'percent')::NUMERIC), 1) AS avg_percent,
+  COUNT(*) AS runs
+FROM scrape_quality q, jsonb_each(q.coverage) c
+GROUP BY q.site_id, date_trunc('day', q.recorded_at), c.key;
@@ -0,0 +1,24 @@
+-- supabase/migrations/015_raffle_quarantine.sql
+-- Scraped records held back by the quarantine rules (src/scrapers/quarantine.ts):
+-- absurd ticket price, total tickets jumping 10x, percent sold going backwards,
+-- title matching the site name. The live raffle keeps its previous values until
+-- the record is released (payload applied) or rejected via `npm run quarantine`.
+--   raffle_id: the existing raffle, NULL when the record would have been new
+--   payload:   the raffles row persistScrapeResult would have written
+
+CREATE TABLE raffle_quarantine (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id UUID REFERENCES sites(id) ON DELETE CASCADE,
+  external_id TEXT NOT NULL,
+  raffle_id UUID REFERENCES raffles(id) ON DELETE CASCADE,
+  payload JSONB NOT NULL,
+  reasons TEXT[] NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'released', 'rejected')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  reviewed_at TIMESTAMPTZ
+);
+
+-- At most one pending record per raffle; later scrapes refresh it
+CREATE UNIQUE INDEX idx_raffle_quarantine_pending
+  ON raffle_quarantine(site_id, external_id)
+  WHERE status = 'pending';
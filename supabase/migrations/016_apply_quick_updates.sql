@@ -0,0 +1,32 @@
+-- supabase/migrations/016_apply_quick_updates.sql
+-- Batch form of the per-row quick-update write (src/scrapers/base.ts: persistQuickUpdate).
+-- p_updates is a JSON array of { external_id, percent_sold, ticket_price, status };
+-- NULL fields keep the stored value, and terminal statuses (drawn/cancelled) are
+-- never overwritten. Returns the external_ids that matched a stored raffle.
+-- Called via supabase.rpc('apply_quick_updates') with the service role only.
+
+CREATE OR REPLACE FUNCTION apply_quick_updates(p_site_id UUID, p_updates JSONB)
+RETURNS SETOF TEXT
+LANGUAGE sql
+AS $$
+  UPDATE raffles r
+  SET
+    percent_sold = COALESCE(u.percent_sold, r.percent_sold),
+    ticket_price = COALESCE(u.ticket_price, r.ticket_price),
+    status = CASE
+      WHEN r.status IN ('drawn', 'cancelled') THEN r.status
+      ELSE COALESCE(u.status, r.status)
+    END,
+    last_scraped_at = NOW()
+  FROM jsonb_to_recordset(p_updates) AS u(
+    external_id TEXT,
+    percent_sold DECIMAL(5,2),
+    ticket_price INTEGER,
+    status TEXT
+  )
+  WHERE r.site_id = p_site_id
+    AND r.external_id = u.external_id
+  RETURNING r.external_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_quick_updates(UUID, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,67 @@
+-- supabase/migrations/017_raffle_changes.sql
+-- Field-level change history for raffles (src/scrapers/raffle-changes.ts).
+-- Every full-scrape persist logs tracked fields that changed on an existing
+-- raffle — title, end_date, ticket_price, total_tickets, cash_alternative,
+-- prize_value, max_per_person — with the old and new value. Values appearing
+-- or disappearing (first parsed / missed) aren't logged.
+-- apply_quick_updates() is replaced to log ticket_price changes too.
+
+CREATE TABLE raffle_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  raffle_id UUID REFERENCES raffles(id) ON DELETE CASCADE,
+  field TEXT NOT NULL,
+  old_value JSONB NOT NULL,
+  new_value JSONB NOT NULL,
+  changed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_raffle_changes_raffle ON raffle_changes(raffle_id, changed_at DESC);
+CREATE INDEX idx_raffle_changes_field ON raffle_changes(field, changed_at DESC);
+
+-- All sub-statements see the pre-update rows, so `prev` has the old prices
+CREATE OR REPLACE FUNCTION apply_quick_updates(p_site_id UUID, p_updates JSONB)
+RETURNS SETOF TEXT
+LANGUAGE sql
+AS $$
+  WITH u AS (
+    SELECT *
+    FROM jsonb_to_recordset(p_updates) AS u(
+      external_id TEXT,
+      percent_sold DECIMAL(5,2),
+      ticket_price INTEGER,
+      status TEXT
+    )
+  ),
+  prev AS (
+    SELECT r.id, r.ticket_price
+    FROM raffles r
+    JOIN u ON r.external_id = u.external_id
+    WHERE r.site_id = p_site_id
+  ),
+  updated AS (
+    UPDATE raffles r
+    SET
+      percent_sold = COALESCE(u.percent_sold, r.percent_sold),
+      ticket_price = COALESCE(u.ticket_price, r.ticket_price),
+      status = CASE
+        WHEN r.status IN ('drawn', 'cancelled') THEN r.status
+        ELSE COALESCE(u.status, r.status)
+      END,
+      last_scraped_at = NOW()
+    FROM u
+    WHERE r.site_id = p_site_id
+      AND r.external_id = u.external_id
+    RETURNING r.id, r.external_id, r.ticket_price
+  ),
+  logged AS (
+    INSERT INTO raffle_changes (raffle_id, field, old_value, new_value)
+    SELECT updated.id, 'ticket_price', to_jsonb(prev.ticket_price), to_jsonb(updated.ticket_price)
+    FROM updated
+    JOIN prev ON prev.id = updated.id
+    WHERE prev.ticket_price IS NOT NULL
+      AND prev.ticket_price <> updated.ticket_price
+  )
+  SELECT external_id FROM updated;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_quick_updates(UUID, JSONB) FROM PUBLIC, anon, authenticated;
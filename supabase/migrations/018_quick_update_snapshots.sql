@@ -0,0 +1,106 @@
+-- supabase/migrations/018_quick_update_snapshots.sql
+-- Dense raffle_snapshots for get_timing_analysis(). apply_quick_updates() now
+-- also inserts a snapshot whenever percent_sold or ticket_price changes, giving
+-- quick-update (20-minute) resolution. tickets_sold isn't refreshed by quick
+-- updates, so the snapshot derives it from percent_sold and total_tickets.
+--
+-- Retention: downsample_raffle_snapshots(), run by cleanupExpiredRaffles(),
+-- keeps every snapshot for 14 days, then the last one per raffle per hour
+-- until 90 days, then the last one per raffle per day.
+
+CREATE INDEX idx_snapshots_snapshot_at ON raffle_snapshots(snapshot_at);
+
+-- All sub-statements see the pre-update rows, so `prev` has the old values
+CREATE OR REPLACE FUNCTION apply_quick_updates(p_site_id UUID, p_updates JSONB)
+RETURNS SETOF TEXT
+LANGUAGE sql
+AS $$
+  WITH u AS (
+    SELECT *
+    FROM jsonb_to_recordset(p_updates) AS u(
+      external_id TEXT,
+      percent_sold DECIMAL(5,2),
+      ticket_price INTEGER,
+      status TEXT
+    )
+  ),
+  prev AS (
+    SELECT r.id, r.ticket_price, r.percent_sold
+    FROM raffles r
+    JOIN u ON r.external_id = u.external_id
+    WHERE r.site_id = p_site_id
+  ),
+  updated AS (
+    UPDATE raffles r
+    SET
+      percent_sold = COALESCE(u.percent_sold, r.percent_sold),
+      ticket_price = COALESCE(u.ticket_price, r.ticket_price),
+      status = CASE
+        WHEN r.status IN ('drawn', 'cancelled') THEN r.status
+        ELSE COALESCE(u.status, r.status)
+      END,
+      last_scraped_at = NOW()
+    FROM u
+    WHERE r.site_id = p_site_id
+      AND r.external_id = u.external_id
+    RETURNING r.id, r.external_id, r.ticket_price, r.percent_sold, r.total_tickets
+  ),
+  logged AS (
+    INSERT INTO raffle_changes (raffle_id, field, old_value, new_value)
+    SELECT updated.id, 'ticket_price', to_jsonb(prev.ticket_price), to_jsonb(updated.ticket_price)
+    FROM updated
+    JOIN prev ON prev.id = updated.id
+    WHERE prev.ticket_price IS NOT NULL
+      AND prev.ticket_price <> updated.ticket_price
+  ),
+  snapped AS (
+    INSERT INTO raffle_snapshots (raffle_id, tickets_sold, percent_sold, ticket_price)
+    SELECT
+      updated.id,
+      ROUND(updated.percent_sold * updated.total_tickets / 100)::INTEGER,
+      updated.percent_sold,
+      updated.ticket_price
+    FROM updated
+    JOIN prev ON prev.id = updated.id
+    WHERE prev.percent_sold IS DISTINCT FROM updated.percent_sold
+       OR prev.ticket_price IS DISTINCT FROM updated.ticket_price
+  )
+  SELECT external_id FROM updated;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_quick_updates(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Thin out old snapshots; returns the number deleted
+CREATE OR REPLACE FUNCTION downsample_raffle_snapshots(
+  p_full_resolution INTERVAL DEFAULT '14 days',
+  p_hourly INTERVAL DEFAULT '90 days'
+)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  WITH ranked AS (
+    SELECT
+      id,
+      ROW_NUMBER() OVER (
+        PARTITION BY
+          raffle_id,
+          CASE
+            WHEN snapshot_at >= NOW() - p_hourly THEN date_trunc('hour', snapshot_at)
+            ELSE date_trunc('day', snapshot_at)
+          END
+        ORDER BY snapshot_at DESC
+      ) AS rn
+    FROM raffle_snapshots
+    WHERE snapshot_at < NOW() - p_full_resolution
+  ),
+  deleted AS (
+    DELETE FROM raffle_snapshots s
+    USING ranked
+    WHERE s.id = ranked.id
+      AND ranked.rn > 1
+    RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM deleted;
+$$;
+
+REVOKE EXECUTE ON FUNCTION downsample_raffle_snapshots(INTERVAL, INTERVAL) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,21 @@
+-- supabase/migrations/019_draw_results.sql
+-- Draw results scraped from each site's winners page after the end date
+-- (src/scrapers/draw-results.ts), one per raffle. Shown on the site review pages.
+--   winning_ticket: text, sites zero-pad ticket numbers
+--   winner_name:    first name only, as published by the site
+--   claim_type:     'prize' | 'cash' (cash alternative taken) — NULL if not stated
+--   result_url:     the winner entry, or the winners page itself
+
+CREATE TABLE draw_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  raffle_id UUID NOT NULL UNIQUE REFERENCES raffles(id) ON DELETE CASCADE,
+  winning_ticket TEXT,
+  winner_name TEXT,
+  winner_location TEXT,
+  draw_video_url TEXT,
+  claim_type TEXT CHECK (claim_type IN ('prize', 'cash')),
+  result_url TEXT,
+  scraped_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_draw_results_scraped ON draw_results(scraped_at DESC);
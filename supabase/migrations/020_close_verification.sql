@@ -0,0 +1,12 @@
+-- supabase/migrations/020_close_verification.sql
+-- What actually happened when a raffle closed. Cleanup marks raffles `drawn`
+-- at their end date; the close verification stage of the next full scrape
+-- (src/scrapers/draw-verification.ts) revisits the source page and records:
+--   close_outcome:     'drawn' | 'extended' | 'rolled_over' | 'cancelled'
+--                      NULL = not verified yet, or the page didn't say
+--   close_verified_at: when it was classified. Earlier than end_date after an
+--                      extension, so the raffle is verified again once it closes.
+
+ALTER TABLE raffles
+  ADD COLUMN close_outcome TEXT CHECK (close_outcome IN ('drawn', 'extended', 'rolled_over', 'cancelled')),
+  ADD COLUMN close_verified_at TIMESTAMPTZ;
@@ -0,0 +1,159 @@
+-- supabase/migrations/021_scrape_jobs.sql
+-- Persistent scrape job queue (src/scrapers/job-queue.ts), worked by
+-- scripts/scraper-service.ts. One job = one site, full or quick.
+--   sites.full_interval_minutes / quick_interval_minutes: per-site cadence
+--   priority:  higher runs first — quick jobs for sites with a raffle ending
+--              within the hour get p_ending_priority and a 5-minute cadence
+--   attempts:  incremented on claim; failed jobs are re-queued at run_at
+--              (backoff computed by the service) until max_attempts
+-- Per-site lock: at most one running job per site (idx_scrape_jobs_running).
+-- The functions are called via supabase.rpc() with the service role only.
+
+ALTER TABLE sites
+  ADD COLUMN full_interval_minutes INTEGER NOT NULL DEFAULT 180,
+  ADD COLUMN quick_interval_minutes INTEGER NOT NULL DEFAULT 20;
+
+CREATE TABLE scrape_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  mode TEXT NOT NULL CHECK (mode IN ('full', 'quick')),
+  priority INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'done', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One queued job per site and mode; scheduling again is a no-op
+CREATE UNIQUE INDEX idx_scrape_jobs_queued
+  ON scrape_jobs(site_id, mode)
+  WHERE status = 'queued';
+
+-- Per-site lock
+CREATE UNIQUE INDEX idx_scrape_jobs_running
+  ON scrape_jobs(site_id)
+  WHERE status = 'running';
+
+CREATE INDEX idx_scrape_jobs_site_mode ON scrape_jobs(site_id, mode, created_at DESC);
+
+-- Queue a job for every site and mode whose interval has passed since its last
+-- job, unless one is already queued or running. Quick jobs for sites with a
+-- raffle ending within p_ending_within run every p_ending_interval at
+-- p_ending_priority, and already-queued ones are bumped. Returns jobs queued.
+CREATE OR REPLACE FUNCTION enqueue_due_scrape_jobs(
+  p_site_slugs TEXT[],
+  p_ending_within INTERVAL DEFAULT '1 hour',
+  p_ending_interval INTERVAL DEFAULT '5 minutes',
+  p_ending_priority INTEGER DEFAULT 10
+)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  WITH ending AS (
+    SELECT DISTINCT r.site_id
+    FROM raffles r
+    WHERE r.status IN ('active', 'ending_soon')
+      AND r.end_date > NOW()
+      AND r.end_date <= NOW() + p_ending_within
+  ),
+  bumped AS (
+    UPDATE scrape_jobs j
+    SET priority = p_ending_priority
+    FROM ending e
+    WHERE j.site_id = e.site_id
+      AND j.mode = 'quick'
+      AND j.status = 'queued'
+      AND j.priority < p_ending_priority
+    RETURNING j.id
+  ),
+  due AS (
+    SELECT
+      s.id AS site_id,
+      m.mode,
+      CASE WHEN m.mode = 'quick' AND e.site_id IS NOT NULL THEN p_ending_priority ELSE 0 END AS priority,
+      CASE WHEN m.mode = 'quick' AND e.site_id IS NOT NULL THEN LEAST(m.every, p_ending_interval) ELSE m.every END AS every
+    FROM sites s
+    CROSS JOIN LATERAL (VALUES
+      ('full', make_interval(mins => s.full_interval_minutes)),
+      ('quick', make_interval(mins => s.quick_interval_minutes))
+    ) AS m(mode, every)
+    LEFT JOIN ending e ON e.site_id = s.id
+    WHERE s.active AND s.slug = ANY(p_site_slugs)
+  ),
+  queued AS (
+    INSERT INTO scrape_jobs (site_id, mode, priority)
+    SELECT d.site_id, d.mode, d.priority
+    FROM due d
+    WHERE NOT EXISTS (
+      SELECT 1 FROM scrape_jobs j
+      WHERE j.site_id = d.site_id
+        AND j.mode = d.mode
+        AND (j.status IN ('queued', 'running') OR j.created_at > NOW() - d.every)
+    )
+    ON CONFLICT DO NOTHING
+    RETURNING id
+  )
+  SELECT COUNT(*)::INTEGER FROM queued;
+$$;
+
+-- Claim the next due job whose site has nothing running: highest priority,
+-- then earliest run_at. Returns no row when there's nothing to do.
+CREATE OR REPLACE FUNCTION claim_scrape_job()
+RETURNS TABLE (job_id UUID, site_slug TEXT, mode TEXT, attempts INTEGER, max_attempts INTEGER)
+LANGUAGE sql
+AS $$
+  UPDATE scrape_jobs j
+  SET status = 'running', attempts = j.attempts + 1, started_at = NOW(), finished_at = NULL
+  FROM sites s
+  WHERE s.id = j.site_id
+    AND j.id = (
+      SELECT q.id
+      FROM scrape_jobs q
+      WHERE q.status = 'queued'
+        AND q.run_at <= NOW()
+        AND NOT EXISTS (
+          SELECT 1 FROM scrape_jobs r WHERE r.site_id = q.site_id AND r.status = 'running'
+        )
+      ORDER BY q.priority DESC, q.run_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+  RETURNING j.id, s.slug, j.mode, j.attempts, j.max_attempts;
+$$;
+
+-- Finish a running job. p_error NULL = done. Otherwise the job is re-queued
+-- at p_retry_at, or failed when p_retry_at is NULL (out of attempts) or a
+-- newer job for the same site and mode is already queued. Returns the status.
+CREATE OR REPLACE FUNCTION finish_scrape_job(
+  p_job_id UUID,
+  p_error TEXT DEFAULT NULL,
+  p_retry_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE sql
+AS $$
+  UPDATE scrape_jobs j
+  SET
+    status = CASE
+      WHEN p_error IS NULL THEN 'done'
+      WHEN p_retry_at IS NULL THEN 'failed'
+      WHEN EXISTS (
+        SELECT 1 FROM scrape_jobs q
+        WHERE q.site_id = j.site_id AND q.mode = j.mode AND q.status = 'queued'
+      ) THEN 'failed'
+      ELSE 'queued'
+    END,
+    run_at = COALESCE(p_retry_at, j.run_at),
+    finished_at = NOW(),
+    last_error = p_error
+  WHERE j.id = p_job_id
+  RETURNING j.status;
+$$;
+
+REVOKE EXECUTE ON FUNCTION enqueue_due_scrape_jobs(TEXT[], INTERVAL, INTERVAL, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_scrape_job() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION finish_scrape_job(UUID, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,130 @@
+-- supabase/migrations/022_ending_soon_lane.sql
+-- Ending-soon refresh lane (src/scrapers/ending-soon.ts). Sites with an
+-- `ending_soon` raffle closing within the window get an 'ending' job every few
+-- minutes at high priority, which refreshes just those raffles from the
+-- listing and snapshots each one every time. This replaces the priority quick
+-- jobs from 021: quick jobs keep the site's normal cadence.
+--   enqueue_due_scrape_jobs: p_ending_within = the window,
+--                            p_ending_interval = the lane's cadence
+--   apply_quick_updates:     p_snapshot_all = snapshot every updated raffle,
+--                            not only those whose % sold or price changed
+
+ALTER TABLE scrape_jobs
+  DROP CONSTRAINT scrape_jobs_mode_check,
+  ADD CONSTRAINT scrape_jobs_mode_check CHECK (mode IN ('full', 'quick', 'ending'));
+
+CREATE OR REPLACE FUNCTION enqueue_due_scrape_jobs(
+  p_site_slugs TEXT[],
+  p_ending_within INTERVAL DEFAULT '1 hour',
+  p_ending_interval INTERVAL DEFAULT '5 minutes',
+  p_ending_priority INTEGER DEFAULT 10
+)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  WITH ending AS (
+    SELECT DISTINCT r.site_id
+    FROM raffles r
+    WHERE r.status = 'ending_soon'
+      AND r.end_date > NOW()
+      AND r.end_date <= NOW() + p_ending_within
+  ),
+  due AS (
+    SELECT s.id AS site_id, m.mode, 0 AS priority, m.every
+    FROM sites s
+    CROSS JOIN LATERAL (VALUES
+      ('full', make_interval(mins => s.full_interval_minutes)),
+      ('quick', make_interval(mins => s.quick_interval_minutes))
+    ) AS m(mode, every)
+    WHERE s.active AND s.slug = ANY(p_site_slugs)
+    UNION ALL
+    SELECT s.id, 'ending', p_ending_priority, p_ending_interval
+    FROM sites s
+    JOIN ending e ON e.site_id = s.id
+    WHERE s.active AND s.slug = ANY(p_site_slugs)
+  ),
+  queued AS (
+    INSERT INTO scrape_jobs (site_id, mode, priority)
+    SELECT d.site_id, d.mode, d.priority
+    FROM due d
+    WHERE NOT EXISTS (
+      SELECT 1 FROM scrape_jobs j
+      WHERE j.site_id = d.site_id
+        AND j.mode = d.mode
+        AND (j.status IN ('queued', 'running') OR j.created_at > NOW() - d.every)
+    )
+    ON CONFLICT DO NOTHING
+    RETURNING id
+  )
+  SELECT COUNT(*)::INTEGER FROM queued;
+$$;
+
+REVOKE EXECUTE ON FUNCTION enqueue_due_scrape_jobs(TEXT[], INTERVAL, INTERVAL, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- New signature, so drop the two-argument version rather than overloading it
+DROP FUNCTION apply_quick_updates(UUID, JSONB);
+
+-- All sub-statements see the pre-update rows, so `prev` has the old values
+CREATE FUNCTION apply_quick_updates(
+  p_site_id UUID,
+  p_updates JSONB,
+  p_snapshot_all BOOLEAN DEFAULT FALSE
+)
+RETURNS SETOF TEXT
+LANGUAGE sql
+AS $$
+  WITH u AS (
+    SELECT *
+    FROM jsonb_to_recordset(p_updates) AS u(
+      external_id TEXT,
+      percent_sold DECIMAL(5,2),
+      ticket_price INTEGER,
+      status TEXT
+    )
+  ),
+  prev AS (
+    SELECT r.id, r.ticket_price, r.percent_sold
+    FROM raffles r
+    JOIN u ON r.external_id = u.external_id
+    WHERE r.site_id = p_site_id
+  ),
+  updated AS (
+    UPDATE raffles r
+    SET
+      percent_sold = COALESCE(u.percent_sold, r.percent_sold),
+      ticket_price = COALESCE(u.ticket_price, r.ticket_price),
+      status = CASE
+        WHEN r.status IN ('drawn', 'cancelled') THEN r.status
+        ELSE COALESCE(u.status, r.status)
+      END,
+      last_scraped_at = NOW()
+    FROM u
+    WHERE r.site_id = p_site_id
+      AND r.external_id = u.external_id
+    RETURNING r.id, r.external_id, r.ticket_price, r.percent_sold, r.total_tickets
+  ),
+  logged AS (
+    INSERT INTO raffle_changes (raffle_id, field, old_value, new_value)
+    SELECT updated.id, 'ticket_price', to_jsonb(prev.ticket_price), to_jsonb(updated.ticket_price)
+    FROM updated
+    JOIN prev ON prev.id = updated.id
+    WHERE prev.ticket_price IS NOT NULL
+      AND prev.ticket_price <> updated.ticket_price
+  ),
+  snapped AS (
+    INSERT INTO raffle_snapshots (raffle_id, tickets_sold, percent_sold, ticket_price)
+    SELECT
+      updated.id,
+      ROUND(updated.percent_sold * updated.total_tickets / 100)::INTEGER,
+      updated.percent_sold,
+      updated.ticket_price
+    FROM updated
+    JOIN prev ON prev.id = updated.id
+    WHERE p_snapshot_all
+       OR prev.percent_sold IS DISTINCT FROM updated.percent_sold
+       OR prev.ticket_price IS DISTINCT FROM updated.ticket_price
+  )
+  SELECT external_id FROM updated;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_quick_updates(UUID, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
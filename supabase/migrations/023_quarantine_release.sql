@@ -0,0 +1,16 @@
+-- supabase/migrations/023_quarantine_release.sql
+-- Quarantine release re-persists through the normal path (quarantine.ts:
+-- releaseQuarantined), so the payload is now what the scraper produced
+-- rather than the raffles row it would have written:
+--   source 'full':  the scraped raffle, with its instant wins and prize tiers
+--   source 'quick': the listing update (% sold, price, status)
+-- Pending records from before this migration hold rows, which release can't
+-- re-persist; they're rejected, and the next scrape re-quarantines any that
+-- still fail the rules.
+
+ALTER TABLE raffle_quarantine
+  ADD COLUMN source TEXT NOT NULL DEFAULT 'full' CHECK (source IN ('full', 'quick'));
+
+UPDATE raffle_quarantine
+SET status = 'rejected', reviewed_at = NOW()
+WHERE status = 'pending';
@@ -0,0 +1,9 @@
+-- supabase/migrations/024_close_checked_at.sql
+-- When post-close verification last visited a raffle's page, whatever it
+-- found. The pass visits the least recently checked raffles first, so pages
+-- that never say what happened don't crowd out newer closures.
+
+ALTER TABLE raffles
+  ADD COLUMN close_checked_at TIMESTAMPTZ;
+
+CREATE INDEX idx_raffles_close_checked ON raffles(site_id, close_checked_at NULLS FIRST);
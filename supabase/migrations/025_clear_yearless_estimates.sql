@@ -0,0 +1,12 @@
+-- supabase/migrations/025_clear_yearless_estimates.sql
+-- estimateCarValue used to value a car with no known year as brand new,
+-- which overstated used prizes. It now declines to estimate without a year;
+-- clear the estimates already stored for such raffles so the value score
+-- falls back to the site's claim or the cash alternative. Live raffles'
+-- expected_value is recomputed on their next full scrape.
+
+UPDATE raffles
+SET estimated_value = NULL,
+    valuation_version = NULL
+WHERE car_year IS NULL
+  AND estimated_value IS NOT NULL;
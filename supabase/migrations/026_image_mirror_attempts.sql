@@ -0,0 +1,9 @@
+-- supabase/migrations/026_image_mirror_attempts.sql
+-- Failed image mirrors (src/scrapers/image-mirror.ts). A raffle whose image
+-- can't be downloaded or decoded is retried with exponential backoff rather
+-- than every run, so dead images don't use up the per-run mirror cap.
+-- Both reset when the mirror succeeds or the site's image URL changes.
+
+ALTER TABLE raffles
+  ADD COLUMN image_mirror_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN image_mirror_failed_at TIMESTAMPTZ;
@@ -0,0 +1,32 @@
+-- supabase/migrations/027_quarantine_batch.sql
+-- Batched quarantine writes (src/scrapers/quarantine.ts). A persist run holds
+-- back all its failing records in one call instead of a select plus an insert
+-- or update per record. A raffle already waiting for review has its pending
+-- entry refreshed (idx_raffle_quarantine_pending), as before.
+--   p_records: [{ site_id, external_id, raffle_id, source, payload, reasons }],
+--              at most one per (site_id, external_id)
+
+CREATE FUNCTION quarantine_records(p_records JSONB)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  INSERT INTO raffle_quarantine (site_id, external_id, raffle_id, source, payload, reasons)
+  SELECT site_id, external_id, raffle_id, source, payload, reasons
+  FROM jsonb_to_recordset(p_records) AS r(
+    site_id UUID,
+    external_id TEXT,
+    raffle_id UUID,
+    source TEXT,
+    payload JSONB,
+    reasons TEXT[]
+  )
+  ON CONFLICT (site_id, external_id) WHERE status = 'pending'
+  DO UPDATE SET
+    raffle_id = EXCLUDED.raffle_id,
+    source = EXCLUDED.source,
+    payload = EXCLUDED.payload,
+    reasons = EXCLUDED.reasons,
+    created_at = NOW();
+$$;
+
+REVOKE EXECUTE ON FUNCTION quarantine_records(JSONB) FROM PUBLIC, anon, authenticated;
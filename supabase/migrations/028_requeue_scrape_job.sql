@@ -0,0 +1,29 @@
+-- supabase/migrations/028_requeue_scrape_job.sql
+-- Put a running job back in the queue without using up an attempt
+-- (src/scrapers/job-queue.ts requeueJob). The scraper service does this for
+-- jobs that failed only because another job's timeout restarted the shared
+-- browser under them. Like finish_scrape_job, the job is failed instead when
+-- a newer job for the same site and mode is already queued. Returns the status.
+
+CREATE FUNCTION requeue_scrape_job(p_job_id UUID, p_error TEXT)
+RETURNS TEXT
+LANGUAGE sql
+AS $$
+  UPDATE scrape_jobs j
+  SET
+    status = CASE
+      WHEN EXISTS (
+        SELECT 1 FROM scrape_jobs q
+        WHERE q.site_id = j.site_id AND q.mode = j.mode AND q.status = 'queued'
+      ) THEN 'failed'
+      ELSE 'queued'
+    END,
+    attempts = GREATEST(j.attempts - 1, 0),
+    run_at = NOW(),
+    finished_at = NOW(),
+    last_error = p_error
+  WHERE j.id = p_job_id
+  RETURNING j.status;
+$$;
+
+REVOKE EXECUTE ON FUNCTION requeue_scrape_job(UUID, TEXT) FROM PUBLIC, anon, authenticated;